@@ -1,122 +1,221 @@
 import { Button } from '@/components/ui/button';
-import { Input } from '@/components/ui/input';
-import { Textarea } from '@/components/ui/textarea';
-import { Card, CardContent, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
-import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { trpc } from '@/utils/trpc';
 import { useState, useEffect, useCallback } from 'react';
 // Using type-only imports for better TypeScript compliance
-import type { Post, CreatePostInput } from '../../server/src/schema';
+import type { Category, CreatePostInput, DetailedPost, UserProfile, PostDuration, PostDurationOption, PostRevealStats, SetAutoRenewInput } from '../../server/src/schema';
 import { PostForm } from '@/components/PostForm';
 import { PostList } from '@/components/PostList';
+import { AuthForm } from '@/components/AuthForm';
+import { CreditPurchase } from '@/components/CreditPurchase';
+import { Notifications } from '@/components/Notifications';
+import { Trash } from '@/components/Trash';
+import { PublicPosts } from '@/components/PublicPosts';
+import { CategoryBrowser } from '@/components/CategoryBrowser';
+import { Messages } from '@/components/Messages';
+import { SavedPosts } from '@/components/SavedPosts';
+import { AdminDashboard } from '@/components/AdminDashboard';
+import { InfiniteScroll } from '@/components/InfiniteScroll';
+import { PostListFilters, type PostListFilterValues } from '@/components/PostListFilters';
+
+const POSTS_PAGE_SIZE = 20;
+const defaultPostListFilters: PostListFilterValues = { sort: 'newest' };
 
 function App() {
-  const [posts, setPosts] = useState<Post[]>([]);
+  const [user, setUser] = useState<UserProfile | null>(null);
+  const [isCheckingSession, setIsCheckingSession] = useState(true);
+  const [posts, setPosts] = useState<DetailedPost[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [showCreateForm, setShowCreateForm] = useState(false);
+  const [showCreditPurchase, setShowCreditPurchase] = useState(false);
+  const [showTrash, setShowTrash] = useState(false);
+  const [trashVersion, setTrashVersion] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const [durations, setDurations] = useState<PostDurationOption[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [filters, setFilters] = useState<PostListFilterValues>(defaultPostListFilters);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [revealStats, setRevealStats] = useState<PostRevealStats[]>([]);
+
+  // Restore an existing session from the httpOnly cookie
+  useEffect(() => {
+    trpc.getUserProfile.query()
+      .then(setUser)
+      .catch(() => setUser(null))
+      .finally(() => setIsCheckingSession(false));
+  }, []);
+
+  // Listing durations and their fees come from the server
+  useEffect(() => {
+    trpc.getPostDurations.query()
+      .then(setDurations)
+      .catch((error: unknown) => console.error('Failed to load durations:', error));
+  }, []);
+
+  // The category tree is managed on the server
+  useEffect(() => {
+    trpc.getCategories.query()
+      .then(setCategories)
+      .catch((error: unknown) => console.error('Failed to load categories:', error));
+  }, []);
 
-  // Load posts with useCallback for proper dependency management
+  // Load the first page with useCallback for proper dependency management
   const loadPosts = useCallback(async () => {
     try {
       setIsLoading(true);
-      const result = await trpc.getPosts.query();
-      setPosts(result);
+      const [result, stats] = await Promise.all([
+        trpc.getUserPosts.query({ ...filters, limit: POSTS_PAGE_SIZE }),
+        trpc.getContactReveals.query()
+      ]);
+      setPosts(result.items);
+      setNextCursor(result.nextCursor);
+      setRevealStats(stats);
     } catch (error) {
       console.error('Failed to load posts:', error);
-      // Use mock data when API fails (for development with stubs)
-      const mockPosts: Post[] = [
-        {
-          id: 1,
-          title: "Welcome to Post Manager! 🎉",
-          content: "This is a sample post showing how the application works. This post is currently active and will expire in 24 hours from when it was posted.\n\nFeatures:\n• 24-hour visibility period\n• Re-posting capability\n• Edit and delete options\n• Publication fees",
-          price: 5.99,
-          posted_at: new Date(Date.now() - 2 * 60 * 60 * 1000), // 2 hours ago
-          expires_at: new Date(Date.now() + 22 * 60 * 60 * 1000), // 22 hours from now
-          is_active: true,
-          created_at: new Date(Date.now() - 2 * 60 * 60 * 1000),
-          updated_at: new Date(Date.now() - 2 * 60 * 60 * 1000)
-        },
-        {
-          id: 2,
-          title: "Expired Post Example 📅",
-          content: "This post has expired and is no longer visible to the public. You can re-post it to make it active again for another 24-hour period.\n\nRe-posting will:\n• Make the post visible again\n• Reset the 24-hour timer\n• Charge the publication fee again",
-          price: 3.50,
-          posted_at: new Date(Date.now() - 30 * 60 * 60 * 1000), // 30 hours ago
-          expires_at: new Date(Date.now() - 6 * 60 * 60 * 1000), // 6 hours ago (expired)
-          is_active: false,
-          created_at: new Date(Date.now() - 30 * 60 * 60 * 1000),
-          updated_at: new Date(Date.now() - 30 * 60 * 60 * 1000)
-        },
-        {
-          id: 3,
-          title: "Product Launch Announcement 🚀",
-          content: "Excited to announce the launch of our new product! Get 20% off for the first week.\n\n🎯 Key features:\n• Advanced analytics\n• Real-time updates\n• Mobile responsive\n• 24/7 support\n\nLimited time offer - don't miss out!",
-          price: 12.99,
-          posted_at: new Date(Date.now() - 5 * 60 * 60 * 1000), // 5 hours ago
-          expires_at: new Date(Date.now() + 19 * 60 * 60 * 1000), // 19 hours from now
-          is_active: true,
-          created_at: new Date(Date.now() - 5 * 60 * 60 * 1000),
-          updated_at: new Date(Date.now() - 1 * 60 * 60 * 1000) // Updated 1 hour ago
-        }
-      ];
-      setPosts(mockPosts);
+      setError('Failed to load posts. Please try again.');
     } finally {
       setIsLoading(false);
     }
-  }, []);
+  }, [filters]);
+
+  // Append the next page as the list is scrolled
+  const loadMorePosts = useCallback(async () => {
+    if (!nextCursor || isLoadingMore) {
+      return;
+    }
+    try {
+      setIsLoadingMore(true);
+      const result = await trpc.getUserPosts.query({ ...filters, limit: POSTS_PAGE_SIZE, cursor: nextCursor });
+      setPosts((prev: DetailedPost[]) => [...prev, ...result.items]);
+      setNextCursor(result.nextCursor);
+    } catch (error) {
+      console.error('Failed to load more posts:', error);
+      setError('Failed to load more posts. Please try again.');
+    } finally {
+      setIsLoadingMore(false);
+    }
+  }, [filters, nextCursor, isLoadingMore]);
 
-  // Load posts on component mount
+  // Load posts once the user is logged in, and again whenever the filters change
   useEffect(() => {
-    loadPosts();
-  }, [loadPosts]);
+    if (user) {
+      loadPosts();
+    }
+  }, [user, loadPosts]);
 
-  const handleCreatePost = async (formData: CreatePostInput) => {
+  // Credits change whenever a post is published, so re-read the profile
+  const refreshProfile = useCallback(async () => {
     try {
-      const response = await trpc.createPost.mutate(formData);
-      // Update posts list with the new post
-      setPosts((prev: Post[]) => [response, ...prev]);
-      setShowCreateForm(false);
+      setUser(await trpc.getUserProfile.query());
     } catch (error) {
-      console.error('Failed to create post:', error);
-      // Create mock post when API fails (for development with stubs)
-      const now = new Date();
-      const expiresAt = new Date(now.getTime() + 24 * 60 * 60 * 1000);
-      const mockPost: Post = {
-        id: Date.now(), // Use timestamp as unique ID
-        title: formData.title,
-        content: formData.content,
-        price: formData.price,
-        posted_at: now,
-        expires_at: expiresAt,
-        is_active: true,
-        created_at: now,
-        updated_at: now
-      };
-      setPosts((prev: Post[]) => [mockPost, ...prev]);
-      setShowCreateForm(false);
+      console.error('Failed to refresh profile:', error);
+    }
+  }, []);
+
+  const handleLogout = async () => {
+    try {
+      await trpc.logout.mutate();
+    } finally {
+      setUser(null);
+      setPosts([]);
+      setNextCursor(null);
+      setRevealStats([]);
+      setFilters(defaultPostListFilters);
     }
   };
 
-  const handleRepost = async (postId: number) => {
+  const handleCreatePost = async (formData: CreatePostInput) => {
+    // Errors propagate so PostForm can show them
+    const response = await trpc.createPost.mutate(formData);
+    // Update posts list with the new post
+    setPosts((prev: DetailedPost[]) => [response, ...prev]);
+    setShowCreateForm(false);
+    await refreshProfile();
+  };
+
+  const handleRepost = async (postId: number, duration: PostDuration, idempotencyKey: string) => {
     try {
       setIsLoading(true);
-      await trpc.repost.mutate({ id: postId });
+      setError(null);
+      await trpc.repost.mutate({ id: postId, duration, idempotency_key: idempotencyKey });
       // Reload posts to get updated status
       await loadPosts();
+      await refreshProfile();
     } catch (error) {
       console.error('Failed to repost:', error);
-      // Update post locally when API fails (for development with stubs)
-      const now = new Date();
-      const expiresAt = new Date(now.getTime() + 24 * 60 * 60 * 1000);
-      setPosts((prev: Post[]) => 
-        prev.map(post => 
-          post.id === postId 
-            ? { ...post, posted_at: now, expires_at: expiresAt, is_active: true, updated_at: now }
-            : post
-        )
+      setError(error instanceof Error ? error.message : 'Failed to re-post. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handlePublishPost = async (postId: number, duration: PostDuration, idempotencyKey: string) => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      const response = await trpc.publishPost.mutate({ id: postId, duration, idempotency_key: idempotencyKey });
+      // Only create and update return categories and tags; keep the ones already loaded
+      setPosts((prev: DetailedPost[]) => 
+        prev.map(post => post.id === postId ? { ...post, ...response } : post)
       );
+      await refreshProfile();
+    } catch (error) {
+      console.error('Failed to publish post:', error);
+      setError(error instanceof Error ? error.message : 'Failed to publish post. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Errors propagate so the auto-renew dialog can show them
+  const handleSetAutoRenew = async (input: SetAutoRenewInput) => {
+    const response = await trpc.setAutoRenew.mutate(input);
+    setPosts((prev: DetailedPost[]) => 
+      prev.map(post => post.id === input.id ? { ...post, ...response } : post)
+    );
+  };
+
+  // Errors propagate so the history tab can show them
+  const handleRestoreRevision = async (postId: number, revisionId: number) => {
+    const response = await trpc.restorePostRevision.mutate({ post_id: postId, revision_id: revisionId });
+    setPosts((prev: DetailedPost[]) => 
+      prev.map(post => post.id === postId ? { ...post, ...response } : post)
+    );
+  };
+
+  const handleReschedulePost = async (postId: number, publishAt: Date) => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      const response = await trpc.reschedulePost.mutate({ id: postId, publish_at: publishAt });
+      setPosts((prev: DetailedPost[]) => 
+        prev.map(post => post.id === postId ? { ...post, ...response } : post)
+      );
+    } catch (error) {
+      console.error('Failed to reschedule post:', error);
+      setError(error instanceof Error ? error.message : 'Failed to reschedule post. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleCancelScheduledPost = async (postId: number) => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      const response = await trpc.cancelScheduledPost.mutate({ id: postId });
+      setPosts((prev: DetailedPost[]) => 
+        prev.map(post => post.id === postId ? { ...post, ...response } : post)
+      );
+      // The fee is refunded
+      await refreshProfile();
+    } catch (error) {
+      console.error('Failed to cancel scheduled post:', error);
+      setError(error instanceof Error ? error.message : 'Failed to cancel scheduled post. Please try again.');
     } finally {
       setIsLoading(false);
     }
@@ -125,13 +224,14 @@ function App() {
   const handleDeletePost = async (postId: number) => {
     try {
       setIsLoading(true);
+      setError(null);
       await trpc.deletePost.mutate({ id: postId });
-      // Remove post from local state
-      setPosts((prev: Post[]) => prev.filter(post => post.id !== postId));
+      // Remove post from local state; it now shows up in the trash
+      setPosts((prev: DetailedPost[]) => prev.filter(post => post.id !== postId));
+      setTrashVersion((version: number) => version + 1);
     } catch (error) {
       console.error('Failed to delete post:', error);
-      // Remove post locally when API fails (for development with stubs)
-      setPosts((prev: Post[]) => prev.filter(post => post.id !== postId));
+      setError(error instanceof Error ? error.message : 'Failed to delete post. Please try again.');
     } finally {
       setIsLoading(false);
     }
@@ -142,26 +242,32 @@ function App() {
       setIsLoading(true);
       const response = await trpc.updatePost.mutate({ id: postId, ...updates });
       // Update post in local state
-      setPosts((prev: Post[]) => 
-        prev.map(post => post.id === postId ? response : post)
-      );
-    } catch (error) {
-      console.error('Failed to update post:', error);
-      // Update post locally when API fails (for development with stubs)
-      const now = new Date();
-      setPosts((prev: Post[]) => 
-        prev.map(post => 
-          post.id === postId 
-            ? { ...post, ...updates, updated_at: now }
-            : post
-        )
+      setPosts((prev: DetailedPost[]) => 
+        prev.map(post => post.id === postId ? { ...post, ...response } : post)
       );
-      // Don't re-throw error, let the operation complete locally
     } finally {
       setIsLoading(false);
     }
   };
 
+  if (isCheckingSession) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 flex items-center justify-center">
+        <p className="text-gray-600">🔄 Loading...</p>
+      </div>
+    );
+  }
+
+  if (!user) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100">
+        <div className="container mx-auto px-4 py-16 max-w-md">
+          <AuthForm onLogin={setUser} />
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100">
       <div className="container mx-auto px-4 py-8">
@@ -169,15 +275,25 @@ function App() {
         <div className="text-center mb-8">
           <h1 className="text-4xl font-bold text-gray-900 mb-2">📝 Post Manager</h1>
           <p className="text-gray-600 max-w-2xl mx-auto">
-            Create and manage your posts with 24-hour visibility periods. 
+            Create and manage your posts, listed for 6 hours up to 7 days. 
             Each post costs a fee to publish and can be re-posted when expired.
           </p>
-          {/* Stub notification */}
-          <div className="mt-4 p-3 bg-blue-100 border border-blue-300 rounded-lg text-sm text-blue-800 max-w-2xl mx-auto">
-            💡 <strong>Demo Mode:</strong> Using sample data to showcase functionality. In production, this would connect to a real database.
+          <div className="mt-4 flex items-center justify-center gap-3 text-sm text-gray-700">
+            <span>👤 {user.email}</span>
+            <Badge className="bg-yellow-100 text-yellow-800">💰 {user.credits} credits</Badge>
+            <Notifications />
+            <Button variant="outline" size="sm" onClick={handleLogout}>
+              🚪 Log out
+            </Button>
           </div>
         </div>
 
+        {error && (
+          <div className="max-w-2xl mx-auto mb-6 p-3 bg-red-100 border border-red-300 rounded-lg text-red-700">
+            ❌ {error}
+          </div>
+        )}
+
         {/* Action buttons */}
         <div className="flex justify-center gap-4 mb-8">
           <Button 
@@ -187,6 +303,20 @@ function App() {
           >
             {showCreateForm ? '❌ Cancel' : '✨ Create New Post'}
           </Button>
+          <Button 
+            variant="outline" 
+            onClick={() => setShowCreditPurchase(!showCreditPurchase)}
+            size="lg"
+          >
+            {showCreditPurchase ? '❌ Close' : '💳 Buy Credits'}
+          </Button>
+          <Button 
+            variant="outline" 
+            onClick={() => setShowTrash(!showTrash)}
+            size="lg"
+          >
+            {showTrash ? '❌ Close Trash' : '🗑️ Trash'}
+          </Button>
           <Button 
             variant="outline" 
             onClick={loadPosts}
@@ -208,38 +338,105 @@ function App() {
                 <PostForm 
                   onSubmit={handleCreatePost}
                   isLoading={isLoading}
+                  durations={durations}
+                  categories={categories}
                 />
               </CardContent>
             </Card>
           </div>
         )}
 
+        {/* Credit purchase */}
+        {showCreditPurchase && (
+          <div className="max-w-2xl mx-auto mb-8">
+            <CreditPurchase 
+              currentCredits={user.credits}
+              onPurchaseComplete={refreshProfile}
+            />
+          </div>
+        )}
+
+        {showTrash && (
+          <div className="max-w-2xl mx-auto mb-8">
+            <Trash refreshKey={trashVersion} onRestored={loadPosts} />
+          </div>
+        )}
+
         <Separator className="my-8" />
 
-        {/* Posts List */}
-        <div className="max-w-4xl mx-auto">
-          <div className="flex items-center justify-between mb-6">
-            <h2 className="text-2xl font-semibold text-gray-900">
-              📋 All Posts ({posts.length})
-            </h2>
-            <div className="flex gap-2">
-              <Badge variant="secondary" className="bg-green-100 text-green-800">
-                🟢 Active
-              </Badge>
-              <Badge variant="secondary" className="bg-red-100 text-red-800">
-                🔴 Expired
-              </Badge>
+        <Tabs defaultValue="mine">
+          <TabsList className="mx-auto mb-6 flex w-fit">
+            <TabsTrigger value="mine">📋 My Posts</TabsTrigger>
+            <TabsTrigger value="public">🌍 Public Feed</TabsTrigger>
+            <TabsTrigger value="categories">🗂️ Categories</TabsTrigger>
+            <TabsTrigger value="saved">⭐ Saved</TabsTrigger>
+            <TabsTrigger value="messages">💬 Messages</TabsTrigger>
+            {user.role !== 'user' && <TabsTrigger value="admin">🛡️ Admin</TabsTrigger>}
+          </TabsList>
+
+          <TabsContent value="public" className="max-w-6xl mx-auto">
+            <PublicPosts />
+          </TabsContent>
+
+          <TabsContent value="categories" className="max-w-6xl mx-auto">
+            <CategoryBrowser />
+          </TabsContent>
+
+          <TabsContent value="saved" className="max-w-6xl mx-auto">
+            <SavedPosts />
+          </TabsContent>
+
+          <TabsContent value="messages" className="max-w-5xl mx-auto">
+            <Messages />
+          </TabsContent>
+
+          {user.role !== 'user' && (
+            <TabsContent value="admin" className="max-w-7xl mx-auto">
+              <AdminDashboard user={user} />
+            </TabsContent>
+          )}
+
+          {/* Posts List */}
+          <TabsContent value="mine" className="max-w-4xl mx-auto">
+            <div className="flex items-center justify-between mb-6">
+              <h2 className="text-2xl font-semibold text-gray-900">
+                📋 My Posts ({posts.length}{nextCursor ? '+' : ''})
+              </h2>
+              <div className="flex gap-2">
+                <Badge variant="secondary" className="bg-green-100 text-green-800">
+                  🟢 Active
+                </Badge>
+                <Badge variant="secondary" className="bg-red-100 text-red-800">
+                  🔴 Expired
+                </Badge>
+              </div>
             </div>
-          </div>
 
-          <PostList 
-            posts={posts}
-            onRepost={handleRepost}
-            onDelete={handleDeletePost}
-            onUpdate={handleUpdatePost}
-            isLoading={isLoading}
-          />
-        </div>
+            <PostListFilters value={filters} onChange={setFilters} showStatus />
+
+            <PostList 
+              posts={posts}
+              onRepost={handleRepost}
+              onDelete={handleDeletePost}
+              onUpdate={handleUpdatePost}
+              onPublish={handlePublishPost}
+              onSetAutoRenew={handleSetAutoRenew}
+              onRestoreRevision={handleRestoreRevision}
+              onReschedule={handleReschedulePost}
+              onCancelScheduled={handleCancelScheduledPost}
+              durations={durations}
+              categories={categories}
+              revealStats={revealStats}
+              isLoading={isLoading}
+            />
+
+            <InfiniteScroll
+              hasMore={nextCursor !== null}
+              isLoading={isLoadingMore}
+              onLoadMore={loadMorePosts}
+            />
+          </TabsContent>
+        </Tabs>
       </div>
     </div>
   );
@@ -0,0 +1,89 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { trpc } from '@/utils/trpc';
+
+interface AdjustCreditsDialogProps {
+  userId: number;
+  email: string;
+  onAdjusted: () => void;
+}
+
+// Add or take away a user's credits; the change shows up in their ledger with the reason
+export function AdjustCreditsDialog({ userId, email, onAdjusted }: AdjustCreditsDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [amount, setAmount] = useState('');
+  const [reason, setReason] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const parsedAmount = Number.parseInt(amount, 10);
+  const isValid = Number.isInteger(parsedAmount) && parsedAmount !== 0 && reason.trim() !== '';
+
+  const handleOpenChange = (isOpen: boolean) => {
+    if (isOpen) {
+      setAmount('');
+      setReason('');
+      setError(null);
+    }
+    setOpen(isOpen);
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      await trpc.admin.adjustCredits.mutate({ user_id: userId, amount: parsedAmount, reason: reason.trim() });
+      setOpen(false);
+      onAdjusted();
+    } catch (error) {
+      console.error('Failed to adjust credits:', error);
+      setError(error instanceof Error ? error.message : 'Failed to adjust credits. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">💰 Credits</Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>💰 Adjust credits</DialogTitle>
+          <DialogDescription>For {email}. Use a negative amount to take credits away.</DialogDescription>
+        </DialogHeader>
+
+        {error && <p className="text-sm text-red-700">❌ {error}</p>}
+
+        <div className="space-y-2">
+          <Label htmlFor={`adjust-amount-${userId}`}>Amount</Label>
+          <Input
+            id={`adjust-amount-${userId}`}
+            type="number"
+            step={1}
+            value={amount}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setAmount(e.target.value)}
+            placeholder="e.g. 10 or -5"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor={`adjust-reason-${userId}`}>Reason</Label>
+          <Input
+            id={`adjust-reason-${userId}`}
+            value={reason}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setReason(e.target.value)}
+            maxLength={500}
+            placeholder="Shown in the user's credit history"
+          />
+        </div>
+        <Button onClick={handleSave} disabled={isSaving || !isValid} className="bg-indigo-600 hover:bg-indigo-700">
+          {isSaving ? '⏳ Saving...' : '💾 Apply adjustment'}
+        </Button>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,63 @@
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { AdminStats } from './AdminStats';
+import { AdminUsers } from './AdminUsers';
+import { AdminPosts } from './AdminPosts';
+import { AdminPurchases } from './AdminPurchases';
+import { ModerationQueue } from './ModerationQueue';
+import { AuditLog } from './AuditLog';
+import type { UserProfile } from '../../../server/src/schema';
+
+interface AdminDashboardProps {
+  user: UserProfile; // A moderator or admin
+}
+
+// Operator area: moderators get the report queue, admins get everything else as well
+export function AdminDashboard({ user }: AdminDashboardProps) {
+  const isAdmin = user.role === 'admin';
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-2xl font-semibold text-gray-900">🛡️ Admin</h2>
+        <p className="text-gray-600">
+          {isAdmin ? 'Site numbers, accounts, listings, payments, reports and the audit log' : 'Reported posts awaiting review'}
+        </p>
+      </div>
+
+      <Tabs defaultValue={isAdmin ? 'overview' : 'reports'}>
+        <TabsList className="mb-4">
+          {isAdmin && <TabsTrigger value="overview">📊 Overview</TabsTrigger>}
+          {isAdmin && <TabsTrigger value="users">👥 Users</TabsTrigger>}
+          {isAdmin && <TabsTrigger value="posts">📋 Posts</TabsTrigger>}
+          {isAdmin && <TabsTrigger value="purchases">💳 Purchases</TabsTrigger>}
+          {isAdmin && <TabsTrigger value="audit">📜 Audit log</TabsTrigger>}
+          <TabsTrigger value="reports">🚩 Reports</TabsTrigger>
+        </TabsList>
+
+        {isAdmin && (
+          <>
+            <TabsContent value="overview">
+              <AdminStats />
+            </TabsContent>
+            <TabsContent value="users">
+              <AdminUsers currentUserId={user.id} />
+            </TabsContent>
+            <TabsContent value="posts">
+              <AdminPosts />
+            </TabsContent>
+            <TabsContent value="purchases">
+              <AdminPurchases />
+            </TabsContent>
+            <TabsContent value="audit">
+              <AuditLog />
+            </TabsContent>
+          </>
+        )}
+
+        <TabsContent value="reports">
+          <ModerationQueue />
+        </TabsContent>
+      </Tabs>
+    </div>
+  );
+}
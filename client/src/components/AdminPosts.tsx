@@ -0,0 +1,130 @@
+import { useCallback, useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { trpc } from '@/utils/trpc';
+import { useDebouncedValue } from '@/hooks/use-debounced-value';
+import { useOffsetPage } from '@/hooks/use-offset-page';
+import { TablePager } from './TablePager';
+import { ReasonDialog } from './ReasonDialog';
+import type { AdminPost, PostStatus } from '../../../server/src/schema';
+
+const PAGE_SIZE = 20;
+
+const statusLabels: Record<PostStatus, string> = {
+  draft: '📝 Draft',
+  scheduled: '🗓️ Scheduled',
+  active: '🟢 Active',
+  expired: '🔴 Expired',
+  archived: '📦 Archived',
+  removed: '🚫 Removed'
+};
+
+// Everyone's posts, searchable by text or owner, with force-expiry for live listings
+export function AdminPosts() {
+  const [searchText, setSearchText] = useState('');
+  const [status, setStatus] = useState<PostStatus | undefined>(undefined);
+  const search = useDebouncedValue(searchText.trim(), 300);
+
+  const fetchPage = useCallback(
+    (offset: number) => trpc.admin.listPosts.query({ search: search || undefined, status, limit: PAGE_SIZE, offset }),
+    [search, status]
+  );
+  const posts = useOffsetPage<AdminPost>(fetchPage);
+
+  const handleForceExpire = async (postId: number, reason: string) => {
+    await trpc.admin.forceExpirePost.mutate({ post_id: postId, reason });
+    await posts.reload();
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-3">
+        <Input
+          type="search"
+          value={searchText}
+          onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
+            setSearchText(e.target.value);
+            posts.setOffset(0);
+          }}
+          placeholder="🔍 Search title, description or owner email..."
+          className="max-w-sm bg-white"
+        />
+        <Select
+          value={status ?? 'all'}
+          onValueChange={(value: string) => {
+            setStatus(value === 'all' ? undefined : value as PostStatus);
+            posts.setOffset(0);
+          }}
+        >
+          <SelectTrigger className="w-40 bg-white">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All statuses</SelectItem>
+            {(Object.keys(statusLabels) as PostStatus[]).map((value: PostStatus) => (
+              <SelectItem key={value} value={value}>{statusLabels[value]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {posts.error && <p className="text-sm text-red-700">❌ {posts.error}</p>}
+
+      <div className="rounded-lg border bg-white">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Title</TableHead>
+              <TableHead>Owner</TableHead>
+              <TableHead className="text-right">Price</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>Expires</TableHead>
+              <TableHead>Created</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {posts.items.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={7} className="py-8 text-center text-gray-500">
+                  {posts.isLoading ? '🔄 Loading...' : 'No posts found'}
+                </TableCell>
+              </TableRow>
+            ) : posts.items.map((post: AdminPost) => (
+              <TableRow key={post.id}>
+                <TableCell className="max-w-xs truncate font-medium" title={post.title}>{post.title}</TableCell>
+                <TableCell>{post.owner_email}</TableCell>
+                <TableCell className="text-right">${post.price.toFixed(2)}</TableCell>
+                <TableCell className="space-x-1">
+                  {/* Active posts past their expiry show as expired until the scheduler catches up */}
+                  <Badge variant="secondary">{post.status === 'active' && !post.is_active ? statusLabels.expired : statusLabels[post.status]}</Badge>
+                  {post.hidden_at && <Badge className="bg-amber-100 text-amber-800">🚩 Hidden</Badge>}
+                  {post.deleted_at && <Badge className="bg-gray-200 text-gray-700">🗑️ Trash</Badge>}
+                </TableCell>
+                <TableCell>{post.expires_at ? post.expires_at.toLocaleString() : '—'}</TableCell>
+                <TableCell>{post.created_at.toLocaleDateString()}</TableCell>
+                <TableCell className="text-right">
+                  {post.is_active && (
+                    <ReasonDialog
+                      triggerLabel="⏹️ Expire"
+                      title="⏹️ Expire this post now"
+                      description={`"${post.title}" is taken off the listings. The owner can re-post it.`}
+                      confirmLabel="⏹️ Expire post"
+                      reasonRequired
+                      destructive
+                      onConfirm={(reason: string) => handleForceExpire(post.id, reason)}
+                    />
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+
+      <TablePager offset={posts.offset} limit={PAGE_SIZE} total={posts.total} onChange={posts.setOffset} />
+    </div>
+  );
+}
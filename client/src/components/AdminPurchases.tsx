@@ -0,0 +1,115 @@
+import { useCallback, useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { trpc } from '@/utils/trpc';
+import { useDebouncedValue } from '@/hooks/use-debounced-value';
+import { useOffsetPage } from '@/hooks/use-offset-page';
+import { TablePager } from './TablePager';
+import { AdjustCreditsDialog } from './AdjustCreditsDialog';
+import type { AdminPurchase, PurchaseStatus } from '../../../server/src/schema';
+
+const PAGE_SIZE = 20;
+
+const statusBadges: Record<PurchaseStatus, { label: string; className: string }> = {
+  pending: { label: '⏳ Pending', className: 'bg-gray-100 text-gray-700' },
+  requires_action: { label: '⚠️ Needs action', className: 'bg-amber-100 text-amber-800' },
+  succeeded: { label: '✅ Succeeded', className: 'bg-green-100 text-green-800' },
+  failed: { label: '❌ Failed', className: 'bg-red-100 text-red-800' }
+};
+
+// Everyone's credit purchases, searchable by buyer email; credits can be adjusted from any row
+export function AdminPurchases() {
+  const [searchText, setSearchText] = useState('');
+  const [status, setStatus] = useState<PurchaseStatus | undefined>(undefined);
+  const search = useDebouncedValue(searchText.trim(), 300);
+
+  const fetchPage = useCallback(
+    (offset: number) => trpc.admin.listPurchases.query({ search: search || undefined, status, limit: PAGE_SIZE, offset }),
+    [search, status]
+  );
+  const purchases = useOffsetPage<AdminPurchase>(fetchPage);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-3">
+        <Input
+          type="search"
+          value={searchText}
+          onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
+            setSearchText(e.target.value);
+            purchases.setOffset(0);
+          }}
+          placeholder="🔍 Search buyer email..."
+          className="max-w-sm bg-white"
+        />
+        <Select
+          value={status ?? 'all'}
+          onValueChange={(value: string) => {
+            setStatus(value === 'all' ? undefined : value as PurchaseStatus);
+            purchases.setOffset(0);
+          }}
+        >
+          <SelectTrigger className="w-40 bg-white">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All statuses</SelectItem>
+            {(Object.keys(statusBadges) as PurchaseStatus[]).map((value: PurchaseStatus) => (
+              <SelectItem key={value} value={value}>{statusBadges[value].label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {purchases.error && <p className="text-sm text-red-700">❌ {purchases.error}</p>}
+
+      <div className="rounded-lg border bg-white">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Date</TableHead>
+              <TableHead>Buyer</TableHead>
+              <TableHead className="text-right">Credits</TableHead>
+              <TableHead className="text-right">Paid</TableHead>
+              <TableHead>Method</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {purchases.items.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={7} className="py-8 text-center text-gray-500">
+                  {purchases.isLoading ? '🔄 Loading...' : 'No purchases found'}
+                </TableCell>
+              </TableRow>
+            ) : purchases.items.map((purchase: AdminPurchase) => (
+              <TableRow key={purchase.id}>
+                <TableCell>{purchase.created_at.toLocaleString()}</TableCell>
+                <TableCell>{purchase.user_email}</TableCell>
+                <TableCell className="text-right">
+                  {purchase.credits_purchased}
+                  {purchase.bonus_credits > 0 && <span className="text-green-600"> +{purchase.bonus_credits}</span>}
+                </TableCell>
+                <TableCell className="text-right">${purchase.amount_paid.toFixed(2)}</TableCell>
+                <TableCell>{purchase.payment_method.replace('_', ' ')}</TableCell>
+                <TableCell>
+                  <Badge className={statusBadges[purchase.status].className} title={purchase.failure_reason ?? undefined}>
+                    {statusBadges[purchase.status].label}
+                  </Badge>
+                </TableCell>
+                <TableCell className="text-right">
+                  <AdjustCreditsDialog userId={purchase.user_id} email={purchase.user_email} onAdjusted={purchases.reload} />
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+
+      <TablePager offset={purchases.offset} limit={PAGE_SIZE} total={purchases.total} onChange={purchases.setOffset} />
+    </div>
+  );
+}
@@ -0,0 +1,98 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { trpc } from '@/utils/trpc';
+import type { AdminStats as Stats, DailyCount } from '../../../server/src/schema';
+
+const formatMoney = (amount: number) =>
+  amount.toLocaleString(undefined, { style: 'currency', currency: 'USD' });
+
+// Summary cards for the admin dashboard, with daily signups as a bar chart
+export function AdminStats() {
+  const [stats, setStats] = useState<Stats | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadStats = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      setStats(await trpc.admin.getStats.query());
+    } catch (error) {
+      console.error('Failed to load admin stats:', error);
+      setError('Failed to load the numbers. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadStats();
+  }, [loadStats]);
+
+  if (!stats) {
+    return error
+      ? <p className="text-sm text-red-700">❌ {error}</p>
+      : <p className="text-gray-600">🔄 Loading...</p>;
+  }
+
+  const recentSignups = stats.signups_by_day.reduce((sum: number, day: DailyCount) => sum + day.count, 0);
+  const busiestDay = Math.max(1, ...stats.signups_by_day.map((day: DailyCount) => day.count));
+
+  const cards = [
+    { title: '💵 Revenue', value: formatMoney(stats.total_revenue), detail: `${formatMoney(stats.revenue_last_30_days)} in the last 30 days` },
+    { title: '🟢 Active posts', value: stats.active_posts.toLocaleString(), detail: 'Publicly listed right now' },
+    { title: '🚩 Open reports', value: stats.open_reports.toLocaleString(), detail: 'Waiting for a moderator' },
+    { title: '👥 Users', value: stats.total_users.toLocaleString(), detail: `${recentSignups} new in the last ${stats.signups_by_day.length} days` }
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-end">
+        <Button variant="outline" onClick={loadStats} disabled={isLoading}>
+          {isLoading ? '🔄 Loading...' : '🔄 Refresh'}
+        </Button>
+      </div>
+
+      {error && <p className="text-sm text-red-700">❌ {error}</p>}
+
+      <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+        {cards.map(card => (
+          <Card key={card.title} className="bg-white">
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm font-medium text-gray-600">{card.title}</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <p className="text-2xl font-bold text-gray-900">{card.value}</p>
+              <p className="text-xs text-gray-500">{card.detail}</p>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <Card className="bg-white">
+        <CardHeader className="pb-2">
+          <CardTitle className="text-base text-gray-900">📈 New signups per day</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="flex h-40 items-end gap-1">
+            {stats.signups_by_day.map((day: DailyCount) => (
+              <div key={day.date} className="flex flex-1 flex-col items-center justify-end gap-1 h-full" title={`${day.date}: ${day.count}`}>
+                <span className="text-xs text-gray-600">{day.count > 0 ? day.count : ''}</span>
+                <div
+                  className="w-full rounded-t bg-indigo-500"
+                  style={{ height: `${(day.count / busiestDay) * 100}%`, minHeight: day.count > 0 ? '2px' : 0 }}
+                />
+              </div>
+            ))}
+          </div>
+          <div className="mt-1 flex gap-1">
+            {stats.signups_by_day.map((day: DailyCount) => (
+              <span key={day.date} className="flex-1 text-center text-[10px] text-gray-500">{day.date.slice(5)}</span>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
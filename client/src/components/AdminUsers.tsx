@@ -0,0 +1,141 @@
+import { useCallback, useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { trpc } from '@/utils/trpc';
+import { useDebouncedValue } from '@/hooks/use-debounced-value';
+import { useOffsetPage } from '@/hooks/use-offset-page';
+import { TablePager } from './TablePager';
+import { AdjustCreditsDialog } from './AdjustCreditsDialog';
+import type { AdminUser, UserRole } from '../../../server/src/schema';
+
+const PAGE_SIZE = 20;
+
+const roleLabels: Record<UserRole, string> = {
+  user: '👤 User',
+  moderator: '🛡️ Moderator',
+  admin: '👑 Admin'
+};
+
+interface AdminUsersProps {
+  currentUserId: number;
+}
+
+// All accounts, searchable by email or phone, with credit adjustments and role changes per row
+export function AdminUsers({ currentUserId }: AdminUsersProps) {
+  const [searchText, setSearchText] = useState('');
+  const [role, setRole] = useState<UserRole | undefined>(undefined);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const search = useDebouncedValue(searchText.trim(), 300);
+
+  const fetchPage = useCallback(
+    (offset: number) => trpc.admin.listUsers.query({ search: search || undefined, role, limit: PAGE_SIZE, offset }),
+    [search, role]
+  );
+  const users = useOffsetPage<AdminUser>(fetchPage);
+
+  const handleRoleChange = async (userId: number, newRole: UserRole) => {
+    try {
+      setActionError(null);
+      await trpc.admin.setUserRole.mutate({ user_id: userId, role: newRole });
+      await users.reload();
+    } catch (error) {
+      console.error('Failed to change role:', error);
+      setActionError(error instanceof Error ? error.message : 'Failed to change the role. Please try again.');
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-3">
+        <Input
+          type="search"
+          value={searchText}
+          onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
+            setSearchText(e.target.value);
+            users.setOffset(0);
+          }}
+          placeholder="🔍 Search email or phone..."
+          className="max-w-sm bg-white"
+        />
+        <Select
+          value={role ?? 'all'}
+          onValueChange={(value: string) => {
+            setRole(value === 'all' ? undefined : value as UserRole);
+            users.setOffset(0);
+          }}
+        >
+          <SelectTrigger className="w-40 bg-white">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All roles</SelectItem>
+            {(Object.keys(roleLabels) as UserRole[]).map((value: UserRole) => (
+              <SelectItem key={value} value={value}>{roleLabels[value]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {(users.error || actionError) && <p className="text-sm text-red-700">❌ {users.error || actionError}</p>}
+
+      <div className="rounded-lg border bg-white">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Email</TableHead>
+              <TableHead>Phone</TableHead>
+              <TableHead className="text-right">Credits</TableHead>
+              <TableHead className="text-right">Posts</TableHead>
+              <TableHead>Joined</TableHead>
+              <TableHead>Role</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {users.items.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={7} className="py-8 text-center text-gray-500">
+                  {users.isLoading ? '🔄 Loading...' : 'No users found'}
+                </TableCell>
+              </TableRow>
+            ) : users.items.map((user: AdminUser) => (
+              <TableRow key={user.id}>
+                <TableCell className="font-medium">
+                  {user.email}
+                  {user.banned_at && <Badge className="ml-2 bg-red-100 text-red-800">Banned</Badge>}
+                </TableCell>
+                <TableCell>{user.phone_number}</TableCell>
+                <TableCell className="text-right">{user.credits}</TableCell>
+                <TableCell className="text-right">{user.post_count}</TableCell>
+                <TableCell>{user.created_at.toLocaleDateString()}</TableCell>
+                <TableCell>
+                  <Select
+                    value={user.role}
+                    onValueChange={(value: string) => handleRoleChange(user.id, value as UserRole)}
+                    disabled={user.id === currentUserId}
+                  >
+                    <SelectTrigger className="w-36" size="sm">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(roleLabels) as UserRole[]).map((value: UserRole) => (
+                        <SelectItem key={value} value={value}>{roleLabels[value]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </TableCell>
+                <TableCell className="text-right">
+                  <AdjustCreditsDialog userId={user.id} email={user.email} onAdjusted={users.reload} />
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+
+      <TablePager offset={users.offset} limit={PAGE_SIZE} total={users.total} onChange={users.setOffset} />
+    </div>
+  );
+}
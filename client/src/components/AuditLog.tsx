@@ -0,0 +1,194 @@
+import { useCallback, useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { trpc } from '@/utils/trpc';
+import { useDebouncedValue } from '@/hooks/use-debounced-value';
+import { useOffsetPage } from '@/hooks/use-offset-page';
+import { TablePager } from './TablePager';
+import type { AuditEntityType, AuditLogEntry, AuditStatus } from '../../../server/src/schema';
+
+const PAGE_SIZE = 50;
+
+const entityLabels: Record<AuditEntityType, string> = {
+  post: 'Post',
+  user: 'User',
+  conversation: 'Conversation',
+  image: 'Image',
+  credit_package: 'Credit package'
+};
+
+const statusBadges: Record<AuditStatus, { label: string; className: string }> = {
+  success: { label: '✅ Success', className: 'bg-green-100 text-green-800' },
+  error: { label: '❌ Error', className: 'bg-red-100 text-red-800' }
+};
+
+// Start of a YYYY-MM-DD day in local time, optionally a number of days later
+const dayStart = (date: string, addDays: number = 0): Date => {
+  const start = new Date(`${date}T00:00:00`);
+  start.setDate(start.getDate() + addDays);
+  return start;
+};
+
+// Every recorded mutation, filterable by actor, entity, outcome and day range
+export function AuditLog() {
+  const [searchText, setSearchText] = useState('');
+  const [entityType, setEntityType] = useState<AuditEntityType | undefined>(undefined);
+  const [entityIdText, setEntityIdText] = useState('');
+  const [status, setStatus] = useState<AuditStatus | undefined>(undefined);
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const search = useDebouncedValue(searchText.trim(), 300);
+  const entityId = useDebouncedValue(entityIdText.trim(), 300);
+
+  const fetchPage = useCallback(
+    (offset: number) => trpc.admin.getAuditLog.query({
+      search: search || undefined,
+      entity_type: entityType,
+      entity_id: entityType && /^\d+$/.test(entityId) ? Number(entityId) : undefined,
+      status,
+      created_from: fromDate ? dayStart(fromDate) : undefined,
+      created_to: toDate ? dayStart(toDate, 1) : undefined, // The end day is included
+      limit: PAGE_SIZE,
+      offset
+    }),
+    [search, entityType, entityId, status, fromDate, toDate]
+  );
+  const entries = useOffsetPage<AuditLogEntry>(fetchPage);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-3">
+        <Input
+          type="search"
+          value={searchText}
+          onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
+            setSearchText(e.target.value);
+            entries.setOffset(0);
+          }}
+          placeholder="🔍 Search actor email..."
+          className="max-w-xs bg-white"
+        />
+        <Select
+          value={entityType ?? 'all'}
+          onValueChange={(value: string) => {
+            setEntityType(value === 'all' ? undefined : value as AuditEntityType);
+            entries.setOffset(0);
+          }}
+        >
+          <SelectTrigger className="w-40 bg-white">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All entities</SelectItem>
+            {(Object.keys(entityLabels) as AuditEntityType[]).map((value: AuditEntityType) => (
+              <SelectItem key={value} value={value}>{entityLabels[value]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Input
+          type="number"
+          min={1}
+          value={entityIdText}
+          onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
+            setEntityIdText(e.target.value);
+            entries.setOffset(0);
+          }}
+          placeholder="ID"
+          disabled={!entityType}
+          className="w-24 bg-white"
+        />
+        <Select
+          value={status ?? 'all'}
+          onValueChange={(value: string) => {
+            setStatus(value === 'all' ? undefined : value as AuditStatus);
+            entries.setOffset(0);
+          }}
+        >
+          <SelectTrigger className="w-36 bg-white">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All outcomes</SelectItem>
+            {(Object.keys(statusBadges) as AuditStatus[]).map((value: AuditStatus) => (
+              <SelectItem key={value} value={value}>{statusBadges[value].label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <div className="flex items-center gap-2 text-sm text-gray-600">
+          <Input
+            type="date"
+            value={fromDate}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
+              setFromDate(e.target.value);
+              entries.setOffset(0);
+            }}
+            aria-label="From"
+            className="w-40 bg-white"
+          />
+          to
+          <Input
+            type="date"
+            value={toDate}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
+              setToDate(e.target.value);
+              entries.setOffset(0);
+            }}
+            aria-label="To"
+            className="w-40 bg-white"
+          />
+        </div>
+      </div>
+
+      {entries.error && <p className="text-sm text-red-700">❌ {entries.error}</p>}
+
+      <div className="rounded-lg border bg-white">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Time</TableHead>
+              <TableHead>Actor</TableHead>
+              <TableHead>Action</TableHead>
+              <TableHead>Entity</TableHead>
+              <TableHead>Outcome</TableHead>
+              <TableHead>IP</TableHead>
+              <TableHead>Input</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {entries.items.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={7} className="py-8 text-center text-gray-500">
+                  {entries.isLoading ? '🔄 Loading...' : 'No entries found'}
+                </TableCell>
+              </TableRow>
+            ) : entries.items.map((entry: AuditLogEntry) => (
+              <TableRow key={entry.id}>
+                <TableCell className="whitespace-nowrap">{entry.created_at.toLocaleString()}</TableCell>
+                <TableCell>{entry.actor_email ?? <span className="text-gray-500">Anonymous</span>}</TableCell>
+                <TableCell className="font-mono text-xs">{entry.procedure}</TableCell>
+                <TableCell>
+                  {entry.entity_type ? `${entityLabels[entry.entity_type]} #${entry.entity_id}` : '—'}
+                </TableCell>
+                <TableCell>
+                  <Badge className={statusBadges[entry.status].className} title={entry.error_code ?? undefined}>
+                    {statusBadges[entry.status].label}
+                  </Badge>
+                </TableCell>
+                <TableCell className="font-mono text-xs">{entry.ip ?? '—'}</TableCell>
+                <TableCell className="max-w-xs">
+                  <pre className="truncate font-mono text-xs text-gray-600" title={JSON.stringify(entry.input, null, 2)}>
+                    {JSON.stringify(entry.input)}
+                  </pre>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+
+      <TablePager offset={entries.offset} limit={PAGE_SIZE} total={entries.total} onChange={entries.setOffset} />
+    </div>
+  );
+}
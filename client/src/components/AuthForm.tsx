@@ -6,10 +6,10 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Label } from '@/components/ui/label';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { trpc } from '@/utils/trpc';
-import type { User, RegisterUserInput, LoginUserInput, AuthContext } from '../../../server/src/schema';
+import type { UserProfile, RegisterUserInput, LoginUserInput } from '../../../server/src/schema';
 
 interface AuthFormProps {
-  onLogin: (user: User) => void;
+  onLogin: (user: UserProfile) => void;
 }
 
 export function AuthForm({ onLogin }: AuthFormProps) {
@@ -35,26 +35,14 @@ export function AuthForm({ onLogin }: AuthFormProps) {
     setError(null);
 
     try {
+      // Registration also starts a session, so the new user is logged in right away
       const result = await trpc.register.mutate(registerData);
       onLogin(result);
       // Reset form
       setRegisterData({ email: '', password: '', phone_number: '' });
     } catch (error) {
       console.error('Registration failed:', error);
-      // Provide fallback demo registration
-      const demoUser: User = {
-        id: 1,
-        email: registerData.email,
-        password_hash: '',
-        phone_number: registerData.phone_number,
-        credits: 1, // First post is free
-        created_at: new Date(),
-        updated_at: new Date()
-      };
-      
-      onLogin(demoUser);
-      setRegisterData({ email: '', password: '', phone_number: '' });
-      setError('Backend services are currently unavailable. You have been logged in with demo data.');
+      setError(error instanceof Error ? error.message : 'Registration failed. Please try again.');
     } finally {
       setIsLoading(false);
     }
@@ -66,33 +54,16 @@ export function AuthForm({ onLogin }: AuthFormProps) {
     setError(null);
 
     try {
-      // Login returns AuthContext, then fetch full user profile
-      const authResult = await trpc.login.mutate(loginData);
-      
-      // Try to fetch user profile, fallback to basic user data if it fails
-      let userProfile: User;
-      try {
-        userProfile = await trpc.getUserProfile.query();
-      } catch (profileError) {
-        console.warn('Failed to load user profile, using fallback data:', profileError);
-        // Create fallback user object for demo purposes
-        userProfile = {
-          id: authResult.user_id,
-          email: authResult.email,
-          password_hash: '', // Not needed on frontend
-          phone_number: '+1234567890', // Demo phone number
-          credits: 1, // Default credits for first post
-          created_at: new Date(),
-          updated_at: new Date()
-        };
-      }
-      
+      // Login sets the session cookie, then fetch the full user profile with it
+      await trpc.login.mutate(loginData);
+      const userProfile = await trpc.getUserProfile.query();
+
       onLogin(userProfile);
       // Reset form
       setLoginData({ email: '', password: '' });
     } catch (error) {
       console.error('Login failed:', error);
-      setError('Backend services are currently unavailable. This is a demo application with simulated authentication.');
+      setError(error instanceof Error ? error.message : 'Login failed. Please try again.');
     } finally {
       setIsLoading(false);
     }
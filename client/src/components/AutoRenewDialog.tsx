@@ -0,0 +1,119 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+// Note the extra ../ because we're in components subfolder
+import type { Post, SetAutoRenewInput } from '../../../server/src/schema';
+
+interface AutoRenewDialogProps {
+  post: Post;
+  onSave: (input: SetAutoRenewInput) => Promise<void>;
+  isLoading?: boolean;
+}
+
+// Parse an optional positive whole number from a text input
+const parseLimit = (value: string): number | undefined => {
+  const parsed = parseInt(value, 10);
+  return parsed > 0 ? parsed : undefined;
+};
+
+export function AutoRenewDialog({ post, onSave, isLoading = false }: AutoRenewDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [enabled, setEnabled] = useState(post.auto_renew);
+  const [maxRenewals, setMaxRenewals] = useState('');
+  const [spendCap, setSpendCap] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const handleOpenChange = (isOpen: boolean) => {
+    if (isOpen) {
+      // Start from what is saved on the post
+      setEnabled(post.auto_renew);
+      setMaxRenewals(post.auto_renew_max_renewals?.toString() ?? '');
+      setSpendCap(post.auto_renew_spend_cap?.toString() ?? '');
+      setError(null);
+    }
+    setOpen(isOpen);
+  };
+
+  const handleSave = async () => {
+    const input: SetAutoRenewInput = {
+      id: post.id,
+      enabled,
+      max_renewals: enabled ? parseLimit(maxRenewals) : undefined,
+      spend_cap: enabled ? parseLimit(spendCap) : undefined
+    };
+    if (enabled && input.max_renewals === undefined && input.spend_cap === undefined) {
+      setError('Set a maximum number of renewals or a spending cap.');
+      return;
+    }
+
+    try {
+      await onSave(input);
+      setOpen(false);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to save auto-renew settings.');
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" disabled={isLoading}>
+          🔁 Auto-renew{post.auto_renew ? ' (on)' : ''}
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>🔁 Auto-renew</DialogTitle>
+          <DialogDescription>
+            Re-post "{post.title}" automatically each time it expires, paying the re-post fee each time.
+          </DialogDescription>
+        </DialogHeader>
+
+        {error && <p className="text-sm text-red-700">❌ {error}</p>}
+
+        <div className="flex items-center gap-3">
+          <Switch id={`auto-renew-${post.id}`} checked={enabled} onCheckedChange={setEnabled} />
+          <Label htmlFor={`auto-renew-${post.id}`}>Renew automatically</Label>
+        </div>
+
+        {enabled && (
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor={`max-renewals-${post.id}`}>Max renewals</Label>
+              <Input
+                id={`max-renewals-${post.id}`}
+                type="number"
+                min="1"
+                value={maxRenewals}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setMaxRenewals(e.target.value)}
+                placeholder="No limit"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor={`spend-cap-${post.id}`}>Spending cap (credits)</Label>
+              <Input
+                id={`spend-cap-${post.id}`}
+                type="number"
+                min="1"
+                value={spendCap}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setSpendCap(e.target.value)}
+                placeholder="No cap"
+              />
+            </div>
+          </div>
+        )}
+
+        <p className="text-xs text-gray-500">
+          Auto-renew stops by itself when a limit is reached or your balance runs low; you will get a notification.
+        </p>
+
+        <Button onClick={handleSave} disabled={isLoading} className="bg-indigo-600 hover:bg-indigo-700">
+          💾 Save
+        </Button>
+      </DialogContent>
+    </Dialog>
+  );
+}
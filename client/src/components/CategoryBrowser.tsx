@@ -0,0 +1,117 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { trpc } from '@/utils/trpc';
+import { PublicPosts } from './PublicPosts';
+// Note the extra ../ because we're in components subfolder
+import type { CategoryWithCount } from '../../../server/src/schema';
+
+// The category and its ancestors, root first, for the breadcrumb
+const categoryPath = (categories: CategoryWithCount[], category: CategoryWithCount | undefined): CategoryWithCount[] => {
+  const parent = categories.find((c: CategoryWithCount) => c.id === category?.parent_id);
+  return category ? [...categoryPath(categories, parent), category] : [];
+};
+
+export function CategoryBrowser() {
+  const [categories, setCategories] = useState<CategoryWithCount[]>([]);
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    trpc.getCategories.query()
+      .then(setCategories)
+      .catch((error: unknown) => {
+        console.error('Failed to load categories:', error);
+        setError('Failed to load categories.');
+      });
+  }, []);
+
+  const childrenOf = (parentId: number | null) =>
+    categories.filter((category: CategoryWithCount) => category.parent_id === parentId);
+
+  const selected = categories.find((category: CategoryWithCount) => category.id === selectedId);
+
+  const path = categoryPath(categories, selected);
+
+  if (error) {
+    return <p className="text-sm text-red-700">❌ {error}</p>;
+  }
+
+  if (!selected) {
+    return (
+      <div className="space-y-6">
+        <div>
+          <h2 className="text-2xl font-bold text-purple-800">🗂️ Browse by Category</h2>
+          <p className="text-gray-600">Counts include active posts in subcategories</p>
+        </div>
+        <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+          {childrenOf(null).map((category: CategoryWithCount) => (
+            <Card key={category.id} className="border-purple-200 bg-white/90">
+              <CardHeader className="pb-2">
+                <CardTitle className="flex items-center justify-between text-lg">
+                  <button
+                    type="button"
+                    onClick={() => setSelectedId(category.id)}
+                    className="text-purple-800 hover:underline text-left"
+                  >
+                    {category.name}
+                  </button>
+                  <Badge variant="secondary">{category.post_count}</Badge>
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-1">
+                {childrenOf(category.id).map((child: CategoryWithCount) => (
+                  <button
+                    key={child.id}
+                    type="button"
+                    onClick={() => setSelectedId(child.id)}
+                    className="flex w-full items-center justify-between text-sm text-gray-700 hover:text-purple-700"
+                  >
+                    <span>{child.name}</span>
+                    <span className="text-gray-500">{child.post_count}</span>
+                  </button>
+                ))}
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <nav className="flex flex-wrap items-center gap-1 text-sm text-gray-600">
+        <button type="button" onClick={() => setSelectedId(null)} className="hover:underline">
+          All categories
+        </button>
+        {path.map((category: CategoryWithCount) => (
+          <span key={category.id} className="flex items-center gap-1">
+            <span>›</span>
+            <button
+              type="button"
+              onClick={() => setSelectedId(category.id)}
+              className={category.id === selected.id ? 'font-medium text-purple-800' : 'hover:underline'}
+            >
+              {category.name}
+            </button>
+          </span>
+        ))}
+      </nav>
+
+      {childrenOf(selected.id).length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {childrenOf(selected.id).map((child: CategoryWithCount) => (
+            <Button key={child.id} variant="outline" size="sm" onClick={() => setSelectedId(child.id)}>
+              {child.name} ({child.post_count})
+            </Button>
+          ))}
+        </div>
+      )}
+
+      {/* Remount per category so paging and filters start fresh */}
+      <PublicPosts key={selected.id} category={selected} />
+    </div>
+  );
+}
@@ -0,0 +1,56 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { trpc } from '@/utils/trpc';
+
+interface ContactRevealProps {
+  postId: number;
+  maskedPhone: string;
+}
+
+// Shows the masked number until the viewer asks for it; every reveal is logged for the seller
+export function ContactReveal({ postId, maskedPhone }: ContactRevealProps) {
+  const [phoneNumber, setPhoneNumber] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const reveal = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const contact = await trpc.revealContact.mutate({ post_id: postId });
+      setPhoneNumber(contact.phone_number);
+    } catch (error) {
+      console.error('Failed to reveal contact:', error);
+      setError(error instanceof Error ? error.message : 'Failed to show the number. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center space-x-2">
+        <span className="text-sm font-medium text-purple-700">📞 Contact:</span>
+        {phoneNumber ? (
+          <a href={`tel:${phoneNumber}`} className="text-sm font-mono bg-purple-50 px-2 py-1 rounded hover:underline">
+            {phoneNumber}
+          </a>
+        ) : (
+          <>
+            <span className="text-sm font-mono bg-purple-50 px-2 py-1 rounded">{maskedPhone}</span>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={reveal}
+              disabled={isLoading}
+              className="border-purple-300 text-purple-600 hover:bg-purple-50"
+            >
+              {isLoading ? '⏳' : 'Show number'}
+            </Button>
+          </>
+        )}
+      </div>
+      {error && <p className="text-xs text-red-700">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,99 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { trpc } from '@/utils/trpc';
+// Note the extra ../ because we're in components subfolder
+import type { CreditPurchase, PurchaseStatus } from '../../../server/src/schema';
+
+interface CreditHistoryProps {
+  refreshKey?: number; // Bump to reload from the first page
+}
+
+const PAGE_SIZE = 10;
+
+const statusStyles: Record<PurchaseStatus, string> = {
+  pending: 'bg-gray-100 text-gray-800',
+  requires_action: 'bg-yellow-100 text-yellow-800',
+  succeeded: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800'
+};
+
+const paymentMethodLabels: Record<CreditPurchase['payment_method'], string> = {
+  credit_card: '💳 Card',
+  paypal: '🟦 PayPal',
+  bank_transfer: '🏦 Bank transfer'
+};
+
+export function CreditHistory({ refreshKey = 0 }: CreditHistoryProps) {
+  const [purchases, setPurchases] = useState<CreditPurchase[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadPage = useCallback(async (offset: number) => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      const page = await trpc.getCreditHistory.query({ limit: PAGE_SIZE, offset });
+      setPurchases((prev: CreditPurchase[]) => offset === 0 ? page : [...prev, ...page]);
+      setHasMore(page.length === PAGE_SIZE);
+    } catch (error) {
+      console.error('Failed to load credit history:', error);
+      setError('Failed to load purchase history.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadPage(0);
+  }, [loadPage, refreshKey]);
+
+  return (
+    <Card className="border-purple-200 bg-white/90">
+      <CardHeader>
+        <CardTitle className="text-lg text-purple-800">🧾 Purchase History</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {error && <p className="text-sm text-red-700">{error}</p>}
+
+        {purchases.length === 0 && !isLoading && !error && (
+          <p className="text-sm text-gray-500">No purchases yet.</p>
+        )}
+
+        {purchases.map((purchase: CreditPurchase) => (
+          <div key={purchase.id} className="flex items-center justify-between border-b border-gray-100 pb-2 text-sm">
+            <div>
+              <div className="font-medium text-gray-900">
+                {purchase.credits_purchased} credits
+                {purchase.bonus_credits > 0 && ` + ${purchase.bonus_credits} bonus`} · ${purchase.amount_paid.toFixed(2)}
+              </div>
+              <div className="text-gray-500">
+                {paymentMethodLabels[purchase.payment_method]} · {purchase.created_at.toLocaleString()}
+              </div>
+              {purchase.failure_reason && (
+                <div className="text-xs text-red-600">{purchase.failure_reason}</div>
+              )}
+            </div>
+            <Badge className={statusStyles[purchase.status]}>
+              {purchase.status.replace('_', ' ')}
+            </Badge>
+          </div>
+        ))}
+
+        {hasMore && (
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={isLoading}
+            onClick={() => loadPage(purchases.length)}
+            className="w-full"
+          >
+            {isLoading ? '🔄 Loading...' : 'Load more'}
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
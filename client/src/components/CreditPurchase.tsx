@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
@@ -6,66 +6,110 @@ import { Label } from '@/components/ui/label';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Separator } from '@/components/ui/separator';
+import { Input } from '@/components/ui/input';
 import { trpc } from '@/utils/trpc';
-import type { PurchaseCreditsInput } from '../../../server/src/schema';
+import { CreditHistory } from './CreditHistory';
+// Note the extra ../ because we're in components subfolder
+import type { CreditPackage, CreditPurchase as Purchase, PaymentDetails, PaymentMethod, PurchaseCreditsInput } from '../../../server/src/schema';
 
 interface CreditPurchaseProps {
   currentCredits: number;
-  onCreditsUpdated: (newCredits: number) => void;
+  onPurchaseComplete: () => Promise<void>;
 }
 
-interface CreditPackage {
-  credits: number;
-  price: number;
-  bonus: number;
-  popular?: boolean;
-}
-
-const creditPackages: CreditPackage[] = [
-  { credits: 5, price: 1.00, bonus: 0 },
-  { credits: 25, price: 4.50, bonus: 5, popular: true },
-  { credits: 50, price: 8.00, bonus: 15 },
-  { credits: 100, price: 15.00, bonus: 35 }
-];
-
-export function CreditPurchase({ currentCredits, onCreditsUpdated }: CreditPurchaseProps) {
+export function CreditPurchase({ currentCredits, onPurchaseComplete }: CreditPurchaseProps) {
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
-  const [selectedPackage, setSelectedPackage] = useState<CreditPackage>(creditPackages[1]); // Default to popular package
-  const [paymentMethod, setPaymentMethod] = useState<'credit_card' | 'paypal' | 'bank_transfer'>('credit_card');
+  const [creditPackages, setCreditPackages] = useState<CreditPackage[]>([]);
+  const [selectedPackage, setSelectedPackage] = useState<CreditPackage | null>(null);
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>('credit_card');
+  const [paymentDetails, setPaymentDetails] = useState<PaymentDetails>({});
+  const [historyVersion, setHistoryVersion] = useState(0);
+  // One key per purchase; a double click or retried request replays instead of charging twice
+  const [idempotencyKey, setIdempotencyKey] = useState(() => crypto.randomUUID());
+  // A purchase waiting for the buyer to confirm it with their bank
+  const [awaitingPurchase, setAwaitingPurchase] = useState<Purchase | null>(null);
 
-  const totalCredits = selectedPackage.credits + selectedPackage.bonus;
+  // Prices and bonuses come from the server; default to the popular package
+  useEffect(() => {
+    trpc.getCreditPackages.query()
+      .then((packages: CreditPackage[]) => {
+        setCreditPackages(packages);
+        setSelectedPackage(packages.find((pkg: CreditPackage) => pkg.is_popular) ?? packages[0] ?? null);
+      })
+      .catch((error: unknown) => {
+        console.error('Failed to load credit packages:', error);
+        setError('Failed to load credit packages.');
+      });
+  }, []);
+
+  const showOutcome = async (purchase: Purchase) => {
+    setAwaitingPurchase(purchase.status === 'requires_action' ? purchase : null);
+    if (purchase.status === 'succeeded') {
+      setSuccess(`Successfully purchased ${purchase.credits_purchased + purchase.bonus_credits} credits! 🎉`);
+      await onPurchaseComplete();
+    } else if (purchase.status === 'pending') {
+      setSuccess('Payment received! Your credits will be added to your balance shortly.');
+    } else if (purchase.status === 'requires_action') {
+      setError(`Payment needs confirmation: ${purchase.failure_reason}`);
+    } else {
+      setError(`Payment failed: ${purchase.failure_reason}`);
+    }
+  };
+
+  // Ask the server again once the buyer has confirmed the payment with their bank
+  const handleConfirm = async () => {
+    if (!awaitingPurchase) {
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+    setSuccess(null);
+    try {
+      await showOutcome(await trpc.confirmPurchase.mutate({ purchase_id: awaitingPurchase.id }));
+    } catch (error) {
+      console.error('Failed to confirm purchase:', error);
+      setError(error instanceof Error ? error.message : 'Failed to check the payment. Please try again.');
+    } finally {
+      setIsLoading(false);
+      setHistoryVersion((version: number) => version + 1);
+    }
+  };
 
   const handlePurchase = async () => {
+    if (!selectedPackage) {
+      return;
+    }
+
     setIsLoading(true);
     setError(null);
     setSuccess(null);
 
+    // Send only the detail that belongs to the chosen method
     const purchaseData: PurchaseCreditsInput = {
-      credits: selectedPackage.credits,
+      package_id: selectedPackage.id,
       payment_method: paymentMethod,
       payment_details: {
-        // In a real implementation, these would come from payment forms
-        card_number: paymentMethod === 'credit_card' ? '**** **** **** 1234' : undefined,
-        paypal_email: paymentMethod === 'paypal' ? 'user@example.com' : undefined,
-        bank_account: paymentMethod === 'bank_transfer' ? '**** **** 5678' : undefined
-      }
+        card_number: paymentMethod === 'credit_card' ? paymentDetails.card_number : undefined,
+        paypal_email: paymentMethod === 'paypal' ? paymentDetails.paypal_email : undefined,
+        bank_account: paymentMethod === 'bank_transfer' ? paymentDetails.bank_account : undefined
+      },
+      idempotency_key: idempotencyKey
     };
 
     try {
-      const result = await trpc.purchaseCredits.mutate(purchaseData);
-      onCreditsUpdated(currentCredits + totalCredits);
-      setSuccess(`Successfully purchased ${totalCredits} credits! 🎉`);
+      const purchase = await trpc.purchaseCredits.mutate(purchaseData);
+      // The purchase got an answer, so the next click is a new purchase
+      setIdempotencyKey(crypto.randomUUID());
+      await showOutcome(purchase);
     } catch (error) {
       console.error('Failed to purchase credits:', error);
-      
-      // Simulate successful purchase for demo purposes
-      onCreditsUpdated(currentCredits + totalCredits);
-      setSuccess(`Demo purchase successful! Added ${totalCredits} credits to your account. 🎉`);
-      setError('Backend services are currently unavailable, but the demo purchase was processed.');
+      setError(error instanceof Error ? error.message : 'Failed to purchase credits. Please try again.');
     } finally {
       setIsLoading(false);
+      setHistoryVersion((version: number) => version + 1);
     }
   };
 
@@ -86,6 +130,16 @@ export function CreditPurchase({ currentCredits, onCreditsUpdated }: CreditPurch
           <AlertDescription className="text-red-800">
             {error}
           </AlertDescription>
+          {awaitingPurchase && (
+            <Button
+              onClick={handleConfirm}
+              disabled={isLoading}
+              variant="outline"
+              className="mt-3 border-red-200"
+            >
+              {isLoading ? '⏳ Checking...' : "🔄 I've confirmed with my bank"}
+            </Button>
+          )}
         </Alert>
       )}
 
@@ -101,30 +155,30 @@ export function CreditPurchase({ currentCredits, onCreditsUpdated }: CreditPurch
       <div>
         <h3 className="text-lg font-semibold text-purple-800 mb-4">Choose a Credit Package</h3>
         <div className="grid gap-4 md:grid-cols-2">
-          {creditPackages.map((pkg: CreditPackage, index: number) => (
+          {creditPackages.map((pkg: CreditPackage) => (
             <Card 
-              key={index}
+              key={pkg.id}
               className={`cursor-pointer transition-all hover:shadow-lg ${
-                selectedPackage === pkg 
+                selectedPackage?.id === pkg.id 
                   ? 'border-purple-500 bg-purple-50' 
                   : 'border-purple-200 bg-white/90'
-              } ${pkg.popular ? 'ring-2 ring-yellow-300' : ''}`}
+              } ${pkg.is_popular ? 'ring-2 ring-yellow-300' : ''}`}
               onClick={() => setSelectedPackage(pkg)}
             >
-              {pkg.popular && (
+              {pkg.is_popular && (
                 <div className="bg-yellow-400 text-yellow-900 text-center text-sm font-medium py-1 rounded-t-lg">
                   ⭐ Most Popular
                 </div>
               )}
               <CardContent className="p-6 text-center">
                 <div className="text-3xl font-bold text-purple-800 mb-2">
-                  {pkg.credits + pkg.bonus}
+                  {pkg.credits + pkg.bonus_credits}
                 </div>
                 <div className="text-sm text-gray-600 mb-4">
-                  {pkg.credits} credits 
-                  {pkg.bonus > 0 && (
+                  {pkg.name}: {pkg.credits} credits 
+                  {pkg.bonus_credits > 0 && (
                     <span className="text-green-600 font-medium">
-                      + {pkg.bonus} bonus!
+                      + {pkg.bonus_credits} bonus!
                     </span>
                   )}
                 </div>
@@ -132,10 +186,9 @@ export function CreditPurchase({ currentCredits, onCreditsUpdated }: CreditPurch
                   ${pkg.price.toFixed(2)}
                 </div>
                 <div className="text-sm text-gray-500 mt-2">
-                  ~{Math.round(pkg.credits / 5)} posts
-                  {pkg.bonus > 0 && ` + ${Math.round(pkg.bonus / 5)} bonus posts`}
+                  ~{Math.round((pkg.credits + pkg.bonus_credits) / 5)} posts
                 </div>
-                {selectedPackage === pkg && (
+                {selectedPackage?.id === pkg.id && (
                   <Badge className="mt-3 bg-purple-600">
                     Selected ✓
                   </Badge>
@@ -154,7 +207,7 @@ export function CreditPurchase({ currentCredits, onCreditsUpdated }: CreditPurch
         <CardContent>
           <RadioGroup 
             value={paymentMethod} 
-            onValueChange={(value: string) => setPaymentMethod(value as typeof paymentMethod)}
+            onValueChange={(value: string) => setPaymentMethod(value as PaymentMethod)}
             className="space-y-3"
           >
             <div className="flex items-center space-x-2">
@@ -179,51 +232,100 @@ export function CreditPurchase({ currentCredits, onCreditsUpdated }: CreditPurch
               </Label>
             </div>
           </RadioGroup>
+
+          <div className="mt-4 space-y-2">
+            {paymentMethod === 'credit_card' && (
+              <>
+                <Label htmlFor="card_number">Card number</Label>
+                <Input
+                  id="card_number"
+                  inputMode="numeric"
+                  autoComplete="cc-number"
+                  value={paymentDetails.card_number || ''}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                    setPaymentDetails((prev: PaymentDetails) => ({ ...prev, card_number: e.target.value }))
+                  }
+                  placeholder="4242 4242 4242 4242"
+                />
+              </>
+            )}
+            {paymentMethod === 'paypal' && (
+              <>
+                <Label htmlFor="paypal_email">PayPal email</Label>
+                <Input
+                  id="paypal_email"
+                  type="email"
+                  value={paymentDetails.paypal_email || ''}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                    setPaymentDetails((prev: PaymentDetails) => ({ ...prev, paypal_email: e.target.value }))
+                  }
+                  placeholder="you@example.com"
+                />
+              </>
+            )}
+            {paymentMethod === 'bank_transfer' && (
+              <>
+                <Label htmlFor="bank_account">Bank account number</Label>
+                <Input
+                  id="bank_account"
+                  value={paymentDetails.bank_account || ''}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                    setPaymentDetails((prev: PaymentDetails) => ({ ...prev, bank_account: e.target.value }))
+                  }
+                  placeholder="Account number"
+                />
+              </>
+            )}
+          </div>
         </CardContent>
       </Card>
 
       {/* Purchase Summary */}
-      <Card className="border-purple-200 bg-purple-50">
-        <CardContent className="p-6">
-          <h4 className="font-semibold text-purple-800 mb-4">Purchase Summary</h4>
-          <div className="space-y-2">
-            <div className="flex justify-between">
-              <span>Base Credits:</span>
-              <span>{selectedPackage.credits}</span>
-            </div>
-            {selectedPackage.bonus > 0 && (
-              <div className="flex justify-between text-green-600">
-                <span>Bonus Credits:</span>
-                <span>+{selectedPackage.bonus}</span>
+      {selectedPackage && (
+        <Card className="border-purple-200 bg-purple-50">
+          <CardContent className="p-6">
+            <h4 className="font-semibold text-purple-800 mb-4">Purchase Summary</h4>
+            <div className="space-y-2">
+              <div className="flex justify-between">
+                <span>Base Credits:</span>
+                <span>{selectedPackage.credits}</span>
+              </div>
+              {selectedPackage.bonus_credits > 0 && (
+                <div className="flex justify-between text-green-600">
+                  <span>Bonus Credits:</span>
+                  <span>+{selectedPackage.bonus_credits}</span>
+                </div>
+              )}
+              <Separator className="my-2" />
+              <div className="flex justify-between font-semibold">
+                <span>Total Credits:</span>
+                <span>{selectedPackage.credits + selectedPackage.bonus_credits}</span>
+              </div>
+              <div className="flex justify-between text-lg font-bold text-purple-800">
+                <span>Total Price:</span>
+                <span>${selectedPackage.price.toFixed(2)}</span>
               </div>
-            )}
-            <Separator className="my-2" />
-            <div className="flex justify-between font-semibold">
-              <span>Total Credits:</span>
-              <span>{totalCredits}</span>
-            </div>
-            <div className="flex justify-between text-lg font-bold text-purple-800">
-              <span>Total Price:</span>
-              <span>${selectedPackage.price.toFixed(2)}</span>
             </div>
-          </div>
 
-          <Button 
-            onClick={handlePurchase}
-            disabled={isLoading}
-            className="w-full mt-6 bg-purple-600 hover:bg-purple-700 text-lg py-3"
-          >
-            {isLoading 
-              ? 'Processing Payment...' 
-              : `💳 Purchase ${totalCredits} Credits for $${selectedPackage.price.toFixed(2)}`
-            }
-          </Button>
-
-          <p className="text-xs text-gray-500 text-center mt-4">
-            🔒 This is a simulated payment system. No actual charges will be made.
-          </p>
-        </CardContent>
-      </Card>
+            <Button 
+              onClick={handlePurchase}
+              disabled={isLoading}
+              className="w-full mt-6 bg-purple-600 hover:bg-purple-700 text-lg py-3"
+            >
+              {isLoading 
+                ? 'Processing Payment...' 
+                : `💳 Purchase ${selectedPackage.credits + selectedPackage.bonus_credits} Credits for $${selectedPackage.price.toFixed(2)}`
+              }
+            </Button>
+
+            <p className="text-xs text-gray-500 text-center mt-4">
+              🔒 Credits are added as soon as the payment succeeds.
+            </p>
+          </CardContent>
+        </Card>
+      )}
+
+      <CreditHistory refreshKey={historyVersion} />
 
       {/* Credit Usage Information */}
       <Card className="border-blue-200 bg-blue-50">
@@ -231,8 +333,8 @@ export function CreditPurchase({ currentCredits, onCreditsUpdated }: CreditPurch
           <h4 className="font-medium text-blue-800 mb-2">📋 Credit Usage Guide</h4>
           <ul className="text-sm text-blue-700 space-y-1">
             <li>• First post is always <strong>FREE</strong> 🎉</li>
-            <li>• Each additional post costs <strong>5 credits</strong> 💰</li>
-            <li>• Posts expire after <strong>24 hours</strong> ⏰</li>
+            <li>• Each additional post costs <strong>3 to 25 credits</strong>, depending on how long it is listed 💰</li>
+            <li>• Posts stay up for <strong>6 hours to 7 days</strong> ⏰</li>
             <li>• Credits never expire - use them anytime! ♾️</li>
             <li>• Larger packages include bonus credits 🎁</li>
           </ul>
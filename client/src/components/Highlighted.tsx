@@ -0,0 +1,22 @@
+// Search highlights come back as <mark>word</mark> around the post's own text.
+// Split on the markers and render the pieces as text, so nothing in a post is treated as HTML.
+const MARKED = /<mark>(.*?)<\/mark>/g;
+
+interface HighlightedProps {
+  text: string;
+}
+
+export function Highlighted({ text }: HighlightedProps) {
+  const parts = text.split(MARKED);
+
+  return (
+    <>
+      {parts.map((part: string, index: number) =>
+        // split() puts the captured (highlighted) text at odd positions
+        index % 2 === 1
+          ? <mark key={index} className="bg-yellow-200 rounded px-0.5">{part}</mark>
+          : part
+      )}
+    </>
+  );
+}
@@ -0,0 +1,138 @@
+import { useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { trpc } from '@/utils/trpc';
+import { assetUrl, readFileAsBase64 } from '@/lib/utils';
+// Note the extra ../ because we're in components subfolder
+import type { ImageContentType, PostImage } from '../../../server/src/schema';
+
+// Mirror the server limits in schema.ts
+const MAX_IMAGES = 8;
+const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+const ACCEPTED_TYPES: ImageContentType[] = ['image/jpeg', 'image/png', 'image/webp'];
+
+interface ImageUploaderProps {
+  images: PostImage[];
+  onChange: (images: PostImage[]) => void;
+  disabled?: boolean;
+}
+
+// Uploads pictures as soon as they are picked; the post form then sends their ids in order
+export function ImageUploader({ images, onChange, disabled = false }: ImageUploaderProps) {
+  const [isUploading, setIsUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const handleFiles = async (files: File[]) => {
+    setError(null);
+    const room = MAX_IMAGES - images.length;
+    if (files.length > room) {
+      setError(`A post can have at most ${MAX_IMAGES} images.`);
+    }
+
+    setIsUploading(true);
+    const uploaded: PostImage[] = [];
+    try {
+      for (const file of files.slice(0, room)) {
+        if (!ACCEPTED_TYPES.includes(file.type as ImageContentType)) {
+          setError(`${file.name} is not a JPEG, PNG or WebP image.`);
+          continue;
+        }
+        if (file.size > MAX_IMAGE_BYTES) {
+          setError(`${file.name} is larger than ${MAX_IMAGE_BYTES / 1024 / 1024} MB.`);
+          continue;
+        }
+        uploaded.push(await trpc.uploadImage.mutate({
+          data: await readFileAsBase64(file),
+          content_type: file.type as ImageContentType,
+          filename: file.name
+        }));
+      }
+    } catch (error) {
+      console.error('Failed to upload image:', error);
+      setError(error instanceof Error ? error.message : 'Failed to upload image. Please try again.');
+    } finally {
+      setIsUploading(false);
+      if (uploaded.length > 0) {
+        onChange([...images, ...uploaded]);
+      }
+    }
+  };
+
+  const move = (index: number, offset: number) => {
+    const reordered = [...images];
+    const [image] = reordered.splice(index, 1);
+    reordered.splice(index + offset, 0, image);
+    onChange(reordered);
+  };
+
+  return (
+    <div className="space-y-2">
+      {images.length > 0 && (
+        <div className="grid grid-cols-4 gap-2">
+          {images.map((image: PostImage, index: number) => (
+            <div key={image.id} className="relative rounded-md border border-gray-300 overflow-hidden">
+              <img src={assetUrl(image.urls.thumbnail)} alt="" className="aspect-square w-full object-cover" />
+              {index === 0 && (
+                <Badge className="absolute left-1 top-1 bg-indigo-600 text-xs">Cover</Badge>
+              )}
+              <div className="flex justify-between bg-white/90 px-1 text-xs">
+                <button
+                  type="button"
+                  onClick={() => move(index, -1)}
+                  disabled={disabled || index === 0}
+                  className="px-1 disabled:opacity-30"
+                  aria-label="Move image earlier"
+                >
+                  ◀
+                </button>
+                <button
+                  type="button"
+                  onClick={() => onChange(images.filter((other: PostImage) => other.id !== image.id))}
+                  disabled={disabled}
+                  className="px-1 text-red-600"
+                  aria-label="Remove image"
+                >
+                  ✕
+                </button>
+                <button
+                  type="button"
+                  onClick={() => move(index, 1)}
+                  disabled={disabled || index === images.length - 1}
+                  className="px-1 disabled:opacity-30"
+                  aria-label="Move image later"
+                >
+                  ▶
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <input
+        ref={inputRef}
+        type="file"
+        accept={ACCEPTED_TYPES.join(',')}
+        multiple
+        className="hidden"
+        onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
+          handleFiles(Array.from(e.target.files ?? []));
+          e.target.value = '';
+        }}
+      />
+      <Button
+        type="button"
+        variant="outline"
+        disabled={disabled || isUploading || images.length >= MAX_IMAGES}
+        onClick={() => inputRef.current?.click()}
+      >
+        {isUploading ? '⏳ Uploading...' : '📷 Add Photos'}
+      </Button>
+      <p className="text-xs text-gray-500">
+        Up to {MAX_IMAGES} JPEG, PNG or WebP images of {MAX_IMAGE_BYTES / 1024 / 1024} MB each. The first one is the cover.
+      </p>
+      {error && <p className="text-sm text-red-700">❌ {error}</p>}
+    </div>
+  );
+}
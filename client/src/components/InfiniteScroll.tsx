@@ -0,0 +1,41 @@
+import { useEffect, useRef } from 'react';
+import { Button } from '@/components/ui/button';
+
+interface InfiniteScrollProps {
+  hasMore: boolean;
+  isLoading: boolean;
+  onLoadMore: () => void;
+}
+
+// Place after a list: loads the next page when it scrolls into view,
+// with a button for browsers without IntersectionObserver
+export function InfiniteScroll({ hasMore, isLoading, onLoadMore }: InfiniteScrollProps) {
+  const sentinelRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasMore || isLoading || typeof IntersectionObserver === 'undefined') {
+      return;
+    }
+
+    const observer = new IntersectionObserver((entries: IntersectionObserverEntry[]) => {
+      if (entries.some((entry: IntersectionObserverEntry) => entry.isIntersecting)) {
+        onLoadMore();
+      }
+    }, { rootMargin: '200px' });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMore, isLoading, onLoadMore]);
+
+  if (!hasMore) {
+    return null;
+  }
+
+  return (
+    <div ref={sentinelRef} className="flex justify-center py-6">
+      <Button variant="outline" onClick={onLoadMore} disabled={isLoading}>
+        {isLoading ? '🔄 Loading...' : '⬇️ Load more'}
+      </Button>
+    </div>
+  );
+}
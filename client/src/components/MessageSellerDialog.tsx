@@ -0,0 +1,83 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { trpc } from '@/utils/trpc';
+
+// Mirrors MAX_MESSAGE_LENGTH on the server
+const MAX_MESSAGE_LENGTH = 2000;
+
+interface MessageSellerDialogProps {
+  postId: number;
+  postTitle: string;
+}
+
+// First message to a post's owner; the thread then continues in the Messages tab
+export function MessageSellerDialog({ postId, postTitle }: MessageSellerDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [body, setBody] = useState('');
+  const [isSending, setIsSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [sent, setSent] = useState(false);
+
+  const handleOpenChange = (isOpen: boolean) => {
+    if (isOpen) {
+      setBody(`Hi, is "${postTitle}" still available?`);
+      setError(null);
+      setSent(false);
+    }
+    setOpen(isOpen);
+  };
+
+  const handleSend = async () => {
+    setIsSending(true);
+    setError(null);
+    try {
+      await trpc.sendMessage.mutate({ post_id: postId, body });
+      setSent(true);
+    } catch (error) {
+      console.error('Failed to send message:', error);
+      setError(error instanceof Error ? error.message : 'Failed to send message. Please try again.');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="border-purple-300 text-purple-600 hover:bg-purple-50">
+          💬 Message
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>💬 Message the seller</DialogTitle>
+          <DialogDescription>About "{postTitle}". Replies show up under Messages.</DialogDescription>
+        </DialogHeader>
+
+        {error && <p className="text-sm text-red-700">❌ {error}</p>}
+
+        {sent ? (
+          <p className="text-sm text-green-700">✅ Sent! Follow the conversation in the Messages tab.</p>
+        ) : (
+          <>
+            <Textarea
+              value={body}
+              onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => setBody(e.target.value)}
+              maxLength={MAX_MESSAGE_LENGTH}
+              rows={4}
+            />
+            <Button
+              onClick={handleSend}
+              disabled={isSending || body.trim() === ''}
+              className="bg-purple-600 hover:bg-purple-700"
+            >
+              {isSending ? '⏳ Sending...' : '📨 Send'}
+            </Button>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
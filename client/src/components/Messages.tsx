@@ -0,0 +1,244 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import { trpc } from '@/utils/trpc';
+// Note the extra ../ because we're in components subfolder
+import type { ConversationSummary, Message, MessagePage } from '../../../server/src/schema';
+
+// Mirrors MAX_MESSAGE_LENGTH on the server
+const MAX_MESSAGE_LENGTH = 2000;
+
+// Conversations about the user's posts and the posts they asked about, with the open thread beside them
+export function Messages() {
+  const [conversations, setConversations] = useState<ConversationSummary[]>([]);
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [thread, setThread] = useState<MessagePage | null>(null);
+  const [draft, setDraft] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSending, setIsSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadConversations = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setConversations(await trpc.getConversations.query());
+    } catch (error) {
+      console.error('Failed to load conversations:', error);
+      setError('Failed to load conversations. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadConversations();
+  }, [loadConversations]);
+
+  // Take the fresh summary into the list too; its unread count changes once the thread is shown
+  const openConversation = useCallback(async (conversationId: number) => {
+    setSelectedId(conversationId);
+    setError(null);
+    try {
+      const page = await trpc.getMessages.query({ conversation_id: conversationId });
+      setThread(page);
+      setConversations((prev: ConversationSummary[]) =>
+        prev.map((conversation: ConversationSummary) => conversation.id === conversationId ? page.conversation : conversation)
+      );
+    } catch (error) {
+      console.error('Failed to load messages:', error);
+      setError('Failed to load messages. Please try again.');
+    }
+  }, []);
+
+  // Once the newest messages are on screen, mark the thread read up to the last of them
+  const threadId = thread?.conversation.id;
+  const newestMessageId = thread?.items[thread.items.length - 1]?.id;
+  const hasUnread = (thread?.conversation.unread_count ?? 0) > 0;
+  useEffect(() => {
+    if (threadId === undefined || newestMessageId === undefined || !hasUnread) {
+      return;
+    }
+    const markRead = async () => {
+      try {
+        const summary = await trpc.markConversationRead.mutate({ conversation_id: threadId, message_id: newestMessageId });
+        setThread((prev: MessagePage | null) => prev && prev.conversation.id === summary.id ? { ...prev, conversation: summary } : prev);
+        setConversations((prev: ConversationSummary[]) =>
+          prev.map((conversation: ConversationSummary) => conversation.id === summary.id ? summary : conversation)
+        );
+      } catch (error) {
+        console.error('Failed to mark conversation read:', error);
+      }
+    };
+    markRead();
+  }, [threadId, newestMessageId, hasUnread]);
+
+  const loadOlder = async () => {
+    if (!thread || thread.items.length === 0) {
+      return;
+    }
+    try {
+      const page = await trpc.getMessages.query({ conversation_id: thread.conversation.id, before_id: thread.items[0].id });
+      setThread({ ...thread, items: [...page.items, ...thread.items], has_older: page.has_older });
+    } catch (error) {
+      console.error('Failed to load older messages:', error);
+      setError('Failed to load older messages. Please try again.');
+    }
+  };
+
+  const handleSend = async () => {
+    if (!thread) {
+      return;
+    }
+    setIsSending(true);
+    setError(null);
+    try {
+      await trpc.sendMessage.mutate({ conversation_id: thread.conversation.id, body: draft });
+      setDraft('');
+      await Promise.all([openConversation(thread.conversation.id), loadConversations()]);
+    } catch (error) {
+      console.error('Failed to send message:', error);
+      setError(error instanceof Error ? error.message : 'Failed to send message. Please try again.');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const handleToggleBlock = async (conversation: ConversationSummary) => {
+    try {
+      if (conversation.blocked_by_me) {
+        await trpc.unblockUser.mutate({ user_id: conversation.other_user_id });
+      } else {
+        await trpc.blockUser.mutate({ user_id: conversation.other_user_id });
+      }
+      await Promise.all([openConversation(conversation.id), loadConversations()]);
+    } catch (error) {
+      console.error('Failed to change block:', error);
+      setError('Failed to update the block. Please try again.');
+    }
+  };
+
+  const unreadTotal = conversations.reduce((total: number, conversation: ConversationSummary) => total + conversation.unread_count, 0);
+  const otherLabel = (conversation: ConversationSummary) => conversation.role === 'owner' ? 'Buyer' : 'Seller';
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-semibold text-gray-900">
+            💬 Messages {unreadTotal > 0 && <Badge className="ml-1 bg-red-500 text-white">{unreadTotal} unread</Badge>}
+          </h2>
+          <p className="text-gray-600">Talk to buyers about your posts and to sellers about theirs</p>
+        </div>
+        <Button variant="outline" onClick={loadConversations} disabled={isLoading}>
+          {isLoading ? '🔄 Loading...' : '🔄 Refresh'}
+        </Button>
+      </div>
+
+      {error && <p className="text-sm text-red-700">❌ {error}</p>}
+
+      {conversations.length === 0 ? (
+        <Card className="border-gray-200">
+          <CardContent className="py-12 text-center text-gray-600">
+            No conversations yet. Use 💬 Message on a public post to contact its seller.
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid gap-4 md:grid-cols-[18rem_1fr]">
+          <ul className="space-y-2">
+            {conversations.map((conversation: ConversationSummary) => (
+              <li key={conversation.id}>
+                <button
+                  type="button"
+                  onClick={() => openConversation(conversation.id)}
+                  className={`w-full rounded-lg border p-3 text-left transition-colors ${
+                    conversation.id === selectedId ? 'border-indigo-400 bg-indigo-50' : 'border-gray-200 bg-white hover:bg-gray-50'
+                  }`}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="font-medium text-gray-900 line-clamp-1">{conversation.post_title}</span>
+                    {conversation.unread_count > 0 && (
+                      <Badge className="bg-red-500 text-white">{conversation.unread_count}</Badge>
+                    )}
+                  </div>
+                  <p className="text-xs text-gray-500">
+                    {conversation.role === 'owner' ? '🏷️ Selling' : '🛒 Buying'} · {conversation.last_message_at.toLocaleString()}
+                  </p>
+                  {conversation.last_message && (
+                    <p className="mt-1 text-sm text-gray-600 line-clamp-1">{conversation.last_message.body}</p>
+                  )}
+                </button>
+              </li>
+            ))}
+          </ul>
+
+          {thread ? (
+            <Card className="border-gray-200">
+              <CardHeader className="flex flex-row items-center justify-between">
+                <CardTitle className="text-lg">
+                  {thread.conversation.post_title}
+                  <span className="ml-2 text-sm font-normal text-gray-500">with the {otherLabel(thread.conversation).toLowerCase()}</span>
+                </CardTitle>
+                <Button variant="outline" size="sm" onClick={() => handleToggleBlock(thread.conversation)}>
+                  {thread.conversation.blocked_by_me ? '🔓 Unblock' : `🚫 Block ${otherLabel(thread.conversation).toLowerCase()}`}
+                </Button>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {thread.has_older && (
+                  <Button variant="ghost" size="sm" onClick={loadOlder} className="w-full">
+                    ⬆️ Load older messages
+                  </Button>
+                )}
+                <ul className="max-h-96 space-y-2 overflow-y-auto">
+                  {thread.items.map((message: Message) => {
+                    const isMine = message.sender_id !== thread.conversation.other_user_id;
+                    return (
+                      <li key={message.id} className={`flex ${isMine ? 'justify-end' : 'justify-start'}`}>
+                        <div className={`max-w-[75%] rounded-lg px-3 py-2 text-sm ${isMine ? 'bg-indigo-600 text-white' : 'bg-gray-100 text-gray-900'}`}>
+                          <p className="whitespace-pre-wrap">{message.body}</p>
+                          <p className={`mt-1 text-xs ${isMine ? 'text-indigo-100' : 'text-gray-500'}`}>
+                            {message.created_at.toLocaleString()}
+                          </p>
+                        </div>
+                      </li>
+                    );
+                  })}
+                </ul>
+
+                {thread.conversation.can_reply ? (
+                  <div className="space-y-2">
+                    <Textarea
+                      value={draft}
+                      onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => setDraft(e.target.value)}
+                      placeholder="Write a reply..."
+                      maxLength={MAX_MESSAGE_LENGTH}
+                      rows={3}
+                    />
+                    <Button
+                      onClick={handleSend}
+                      disabled={isSending || draft.trim() === ''}
+                      className="bg-indigo-600 hover:bg-indigo-700"
+                    >
+                      {isSending ? '⏳ Sending...' : '📨 Send'}
+                    </Button>
+                  </div>
+                ) : (
+                  <p className="text-sm text-gray-500">
+                    {thread.conversation.blocked_by_me
+                      ? 'You blocked this user. Unblock them to reply.'
+                      : 'You can no longer reply in this conversation.'}
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+          ) : (
+            <Card className="border-gray-200">
+              <CardContent className="py-12 text-center text-gray-500">Pick a conversation to read it.</CardContent>
+            </Card>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
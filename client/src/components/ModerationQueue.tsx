@@ -0,0 +1,172 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { trpc } from '@/utils/trpc';
+import { TablePager } from './TablePager';
+import { ReasonDialog } from './ReasonDialog';
+import type { ModeratePostInput, ModerationQueueItem, PostReport, ReportReason } from '../../../server/src/schema';
+
+const PAGE_SIZE = 20;
+
+const reasonLabels: Record<ReportReason, string> = {
+  spam: 'Spam',
+  scam: 'Scam',
+  prohibited_item: 'Prohibited item',
+  offensive: 'Offensive',
+  wrong_category: 'Wrong category',
+  other: 'Other'
+};
+
+// How many reports gave each reason, most common first
+const reasonCounts = (reports: PostReport[]) => {
+  const counts = new Map<ReportReason, number>();
+  for (const report of reports) {
+    counts.set(report.reason, (counts.get(report.reason) ?? 0) + 1);
+  }
+  return [...counts].sort((a, b) => b[1] - a[1]);
+};
+
+// Reported posts awaiting review, most reported first, with the moderator's decisions per row
+export function ModerationQueue() {
+  const [items, setItems] = useState<ModerationQueueItem[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [searchText, setSearchText] = useState('');
+  const [offset, setOffset] = useState(0);
+
+  const loadQueue = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      setItems(await trpc.getModerationQueue.query());
+    } catch (error) {
+      console.error('Failed to load moderation queue:', error);
+      setError('Failed to load the moderation queue. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadQueue();
+  }, [loadQueue]);
+
+  const moderate = async (postId: number, action: ModeratePostInput['action'], note: string) => {
+    await trpc.moderatePost.mutate({ post_id: postId, action, note: note || undefined });
+    await loadQueue();
+  };
+
+  // The queue is loaded whole, so search and paging happen here
+  const query = searchText.trim().toLowerCase();
+  const matching = query
+    ? items.filter((item: ModerationQueueItem) =>
+        item.title.toLowerCase().includes(query) || item.owner_email.toLowerCase().includes(query))
+    : items;
+  const page = matching.slice(offset, offset + PAGE_SIZE);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <Input
+          type="search"
+          value={searchText}
+          onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
+            setSearchText(e.target.value);
+            setOffset(0);
+          }}
+          placeholder="🔍 Search title or owner email..."
+          className="max-w-sm bg-white"
+        />
+        <Button variant="outline" onClick={loadQueue} disabled={isLoading}>
+          {isLoading ? '🔄 Loading...' : '🔄 Refresh'}
+        </Button>
+      </div>
+
+      {error && <p className="text-sm text-red-700">❌ {error}</p>}
+
+      <div className="rounded-lg border bg-white">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Post</TableHead>
+              <TableHead>Owner</TableHead>
+              <TableHead>Reports</TableHead>
+              <TableHead>First reported</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {page.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={5} className="py-8 text-center text-gray-500">
+                  {isLoading ? '🔄 Loading...' : '🎉 Nothing to review'}
+                </TableCell>
+              </TableRow>
+            ) : page.map((item: ModerationQueueItem) => (
+              <TableRow key={item.post_id} className="align-top">
+                <TableCell className="max-w-xs whitespace-normal">
+                  <p className="font-medium">
+                    {item.title}
+                    {item.hidden_at && <Badge className="ml-2 bg-amber-100 text-amber-800">🚩 Hidden</Badge>}
+                  </p>
+                  <p className="text-xs text-gray-500 line-clamp-2">{item.content}</p>
+                </TableCell>
+                <TableCell>{item.owner_email}</TableCell>
+                <TableCell className="whitespace-normal">
+                  <p className="font-semibold">{item.reports.length}</p>
+                  <div className="flex flex-wrap gap-1">
+                    {reasonCounts(item.reports).map(([reason, reasonCount]: [ReportReason, number]) => (
+                      <Badge key={reason} variant="outline">{reasonLabels[reason]} ×{reasonCount}</Badge>
+                    ))}
+                  </div>
+                  {item.reports.filter((report: PostReport) => report.details).map((report: PostReport) => (
+                    <p key={report.id} className="mt-1 text-xs text-gray-600">“{report.details}”</p>
+                  ))}
+                </TableCell>
+                <TableCell>{item.first_reported_at.toLocaleString()}</TableCell>
+                <TableCell>
+                  <div className="flex flex-wrap justify-end gap-1">
+                    <ReasonDialog
+                      triggerLabel="✅ Dismiss"
+                      title="✅ Dismiss the reports"
+                      description={`The reports on "${item.title}" are closed and the post is shown again.`}
+                      confirmLabel="✅ Dismiss reports"
+                      onConfirm={(note: string) => moderate(item.post_id, 'dismiss', note)}
+                    />
+                    <ReasonDialog
+                      triggerLabel="🙈 Hide"
+                      title="🙈 Hide the post"
+                      description={`"${item.title}" stays with its owner but is kept out of public listings.`}
+                      confirmLabel="🙈 Hide post"
+                      onConfirm={(note: string) => moderate(item.post_id, 'hide', note)}
+                    />
+                    <ReasonDialog
+                      triggerLabel="🗑️ Remove"
+                      title="🗑️ Remove the post"
+                      description={`"${item.title}" is taken down for good and its listing fee refunded.`}
+                      confirmLabel="🗑️ Remove post"
+                      destructive
+                      onConfirm={(note: string) => moderate(item.post_id, 'remove', note)}
+                    />
+                    <ReasonDialog
+                      triggerLabel="⛔ Ban"
+                      title="⛔ Ban the owner"
+                      description={`${item.owner_email} can no longer log in, all their posts are hidden and this one is removed without a refund.`}
+                      confirmLabel="⛔ Ban user"
+                      destructive
+                      onConfirm={(note: string) => moderate(item.post_id, 'ban', note)}
+                    />
+                  </div>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+
+      <TablePager offset={offset} limit={PAGE_SIZE} total={matching.length} onChange={setOffset} />
+    </div>
+  );
+}
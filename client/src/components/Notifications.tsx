@@ -0,0 +1,70 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { trpc } from '@/utils/trpc';
+// Note the extra ../ because we're in components subfolder
+import type { Notification } from '../../../server/src/schema';
+
+// Bell with the unread count; reloads whenever it is opened
+export function Notifications() {
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const unreadCount = notifications.filter((notification: Notification) => notification.read_at === null).length;
+
+  const loadNotifications = useCallback(async () => {
+    try {
+      setNotifications(await trpc.getNotifications.query());
+    } catch (error) {
+      console.error('Failed to load notifications:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadNotifications();
+  }, [loadNotifications]);
+
+  const handleMarkRead = async () => {
+    try {
+      await trpc.markNotificationsRead.mutate();
+      await loadNotifications();
+    } catch (error) {
+      console.error('Failed to mark notifications read:', error);
+    }
+  };
+
+  return (
+    <Popover onOpenChange={(open: boolean) => open && loadNotifications()}>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm">
+          🔔
+          {unreadCount > 0 && <Badge className="ml-1 bg-red-500 text-white">{unreadCount}</Badge>}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80 space-y-3">
+        <div className="flex items-center justify-between">
+          <h4 className="font-medium text-gray-900">Notifications</h4>
+          {unreadCount > 0 && (
+            <Button variant="ghost" size="sm" onClick={handleMarkRead}>
+              Mark all read
+            </Button>
+          )}
+        </div>
+        {notifications.length === 0 ? (
+          <p className="text-sm text-gray-500">Nothing new.</p>
+        ) : (
+          <ul className="max-h-80 space-y-2 overflow-y-auto">
+            {notifications.map((notification: Notification) => (
+              <li
+                key={notification.id}
+                className={`rounded p-2 text-sm ${notification.read_at ? 'text-gray-500' : 'bg-indigo-50 text-gray-900'}`}
+              >
+                <p>{notification.message}</p>
+                <p className="text-xs text-gray-400">{notification.created_at.toLocaleString()}</p>
+              </li>
+            ))}
+          </ul>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
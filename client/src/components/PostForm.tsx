@@ -2,51 +2,125 @@ import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { Button } from '@/components/ui/button';
 import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Badge } from '@/components/ui/badge';
 import { useState } from 'react';
+import { flattenCategoryTree, toDateTimeLocal } from '@/lib/utils';
+import { ImageUploader } from './ImageUploader';
 // Note the extra ../ because we're in components subfolder
-import type { CreatePostInput } from '../../../server/src/schema';
+import type { Category, CreatePostInput, PostDuration, PostDurationOption, PostImage } from '../../../server/src/schema';
+
+// Mirrors the server limits in createPostInputSchema
+const MAX_CATEGORIES = 3;
+const MAX_TAGS = 10;
 
 interface PostFormProps {
   onSubmit: (data: CreatePostInput) => Promise<void>;
   isLoading?: boolean;
   initialData?: Partial<CreatePostInput>;
+  initialImages?: PostImage[]; // The post's current images when editing
   submitLabel?: string;
+  durations?: PostDurationOption[]; // Shows the duration picker when given
+  categories?: Category[]; // Shows the category picker when given
 }
 
 export function PostForm({ 
   onSubmit, 
   isLoading = false, 
   initialData = {}, 
-  submitLabel = 'Create Post' 
+  initialImages = [],
+  submitLabel = 'Create Post',
+  durations,
+  categories = []
 }: PostFormProps) {
   const [formData, setFormData] = useState<CreatePostInput>({
     title: initialData.title || '',
     content: initialData.content || '',
-    price: initialData.price || 1
+    price: initialData.price || 1,
+    duration: durations ? initialData.duration || '24h' : undefined,
+    category_ids: initialData.category_ids || [],
+    tags: initialData.tags || []
   });
+  const [images, setImages] = useState<PostImage[]>(initialImages);
+  const [tagDraft, setTagDraft] = useState('');
+  const selectedCategoryIds = formData.category_ids || [];
+  const tags = formData.tags || [];
+
+  const toggleCategory = (categoryId: number, checked: boolean) =>
+    setFormData((prev: CreatePostInput) => ({
+      ...prev,
+      category_ids: checked
+        ? [...(prev.category_ids || []), categoryId]
+        : (prev.category_ids || []).filter((id: number) => id !== categoryId)
+    }));
+
+  // Tags are stored lowercased; the server applies the same rules
+  const addTag = () => {
+    const tag = tagDraft.trim().toLowerCase();
+    setTagDraft('');
+    if (tag && !tags.includes(tag) && tags.length < MAX_TAGS) {
+      setFormData((prev: CreatePostInput) => ({ ...prev, tags: [...(prev.tags || []), tag] }));
+    }
+  };
 
+  const removeTag = (tag: string) =>
+    setFormData((prev: CreatePostInput) => ({ ...prev, tags: (prev.tags || []).filter((t: string) => t !== tag) }));
+
+  const selectedDuration = durations?.find((option: PostDurationOption) => option.duration === formData.duration);
+
+  // Empty means publish right away; only offered alongside the duration picker
+  const [publishAt, setPublishAt] = useState('');
   const [error, setError] = useState<string | null>(null);
+  // One key per submission attempt; kept on failure so a retry cannot create a duplicate
+  const [idempotencyKey, setIdempotencyKey] = useState(() => crypto.randomUUID());
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
+  // Drafts are stored without a schedule and published later from the post list
+  const submit = async (asDraft: boolean) => {
     setError(null);
     
     try {
-      await onSubmit(formData);
+      await onSubmit({
+        ...formData,
+        image_ids: images.map((image: PostImage) => image.id),
+        publish_at: publishAt && !asDraft ? new Date(publishAt) : undefined,
+        draft: asDraft || undefined,
+        idempotency_key: idempotencyKey
+      });
+      setIdempotencyKey(crypto.randomUUID());
+      setPublishAt('');
       // Reset form after successful submission (only if not editing)
       if (!initialData.title) {
         setFormData({
           title: '',
           content: '',
-          price: 1
+          price: 1,
+          duration: durations ? '24h' : undefined,
+          category_ids: [],
+          tags: []
         });
+        setImages([]);
       }
     } catch (error) {
-      setError('Failed to submit post. Please try again.');
+      setError(error instanceof Error ? error.message : 'Failed to submit post. Please try again.');
       console.error('Form submission error:', error);
     }
   };
 
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    await submit(false);
+  };
+
+  const handleSaveDraft = async (e: React.MouseEvent) => {
+    // Run the browser's required-field checks the submit button would
+    const form = (e.currentTarget as HTMLButtonElement).form;
+    if (form && !form.reportValidity()) {
+      return;
+    }
+    await submit(true);
+  };
+
   return (
     <form onSubmit={handleSubmit} className="space-y-6">
       {error && (
@@ -90,7 +164,7 @@ export function PostForm({
 
       <div className="space-y-2">
         <Label htmlFor="price" className="text-sm font-medium">
-          💰 Publication Fee (USD)
+          💰 Price (USD)
         </Label>
         <Input
           id="price"
@@ -102,25 +176,159 @@ export function PostForm({
               price: parseFloat(e.target.value) || 0 
             }))
           }
-          placeholder="Enter fee amount"
+          placeholder="Enter price"
           step="0.01"
           min="0.01"
           required
           className="border-gray-300 focus:border-indigo-500 focus:ring-indigo-500"
         />
-        <p className="text-xs text-gray-500">
-          This fee will be charged each time you publish or re-post this content.
-        </p>
       </div>
 
-      <Button 
-        type="submit" 
-        disabled={isLoading}
-        className="w-full bg-indigo-600 hover:bg-indigo-700"
-        size="lg"
-      >
-        {isLoading ? '⏳ Processing...' : `💫 ${submitLabel}`}
-      </Button>
+      <div className="space-y-2">
+        <Label className="text-sm font-medium">
+          📷 Photos
+        </Label>
+        <ImageUploader images={images} onChange={setImages} disabled={isLoading} />
+      </div>
+
+      {categories.length > 0 && (
+        <div className="space-y-2">
+          <Label className="text-sm font-medium">
+            🗂️ Categories
+          </Label>
+          <div className="max-h-48 overflow-y-auto rounded-md border border-gray-300 p-2 space-y-1">
+            {flattenCategoryTree(categories).map(({ category, depth }: { category: Category; depth: number }) => {
+              const checked = selectedCategoryIds.includes(category.id);
+              return (
+                <label
+                  key={category.id}
+                  className="flex items-center gap-2 text-sm cursor-pointer"
+                  style={{ paddingLeft: `${depth * 1.25}rem` }}
+                >
+                  <Checkbox
+                    checked={checked}
+                    disabled={!checked && selectedCategoryIds.length >= MAX_CATEGORIES}
+                    onCheckedChange={(value: boolean | 'indeterminate') => toggleCategory(category.id, value === true)}
+                  />
+                  {category.name}
+                </label>
+              );
+            })}
+          </div>
+          <p className="text-xs text-gray-500">Choose up to {MAX_CATEGORIES}.</p>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <Label htmlFor="tags" className="text-sm font-medium">
+          🏷️ Tags
+        </Label>
+        {tags.length > 0 && (
+          <div className="flex flex-wrap gap-1">
+            {tags.map((tag: string) => (
+              <Badge key={tag} variant="outline" className="gap-1">
+                #{tag}
+                <button
+                  type="button"
+                  onClick={() => removeTag(tag)}
+                  className="text-gray-500 hover:text-gray-900"
+                  aria-label={`Remove tag ${tag}`}
+                >
+                  ×
+                </button>
+              </Badge>
+            ))}
+          </div>
+        )}
+        <Input
+          id="tags"
+          value={tagDraft}
+          onChange={(e: React.ChangeEvent<HTMLInputElement>) => setTagDraft(e.target.value)}
+          onKeyDown={(e: React.KeyboardEvent<HTMLInputElement>) => {
+            if (e.key === 'Enter' || e.key === ',') {
+              e.preventDefault();
+              addTag();
+            }
+          }}
+          onBlur={addTag}
+          maxLength={30}
+          disabled={tags.length >= MAX_TAGS}
+          placeholder={tags.length >= MAX_TAGS ? `Up to ${MAX_TAGS} tags` : 'Type a tag and press Enter'}
+          className="border-gray-300 focus:border-indigo-500 focus:ring-indigo-500"
+        />
+      </div>
+
+      {durations && (
+        <div className="space-y-2">
+          <Label htmlFor="duration" className="text-sm font-medium">
+            ⏰ Listing Duration
+          </Label>
+          <Select
+            value={formData.duration || '24h'}
+            onValueChange={(value: string) =>
+              setFormData((prev: CreatePostInput) => ({ ...prev, duration: value as PostDuration }))
+            }
+          >
+            <SelectTrigger id="duration" className="w-full">
+              <SelectValue placeholder="Choose how long the post stays up" />
+            </SelectTrigger>
+            <SelectContent>
+              {durations.map((option: PostDurationOption) => (
+                <SelectItem key={option.duration} value={option.duration}>
+                  {option.label} · {option.fee} credits
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-gray-500">
+            {selectedDuration && `Publishing for ${selectedDuration.label} costs ${selectedDuration.fee} credits. `}
+            Your first post is free.
+          </p>
+        </div>
+      )}
+
+      {durations && (
+        <div className="space-y-2">
+          <Label htmlFor="publish_at" className="text-sm font-medium">
+            🗓️ Schedule for later (optional)
+          </Label>
+          <Input
+            id="publish_at"
+            type="datetime-local"
+            value={publishAt}
+            min={toDateTimeLocal(new Date())}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setPublishAt(e.target.value)}
+            className="border-gray-300 focus:border-indigo-500 focus:ring-indigo-500"
+          />
+          <p className="text-xs text-gray-500">
+            {publishAt
+              ? 'The fee is charged now; the listing period starts when the post goes live.'
+              : 'Leave empty to publish right away.'}
+          </p>
+        </div>
+      )}
+
+      <div className="flex gap-3">
+        <Button 
+          type="submit" 
+          disabled={isLoading}
+          className="flex-1 bg-indigo-600 hover:bg-indigo-700"
+          size="lg"
+        >
+          {isLoading ? '⏳ Processing...' : publishAt ? '🗓️ Schedule Post' : `💫 ${submitLabel}`}
+        </Button>
+        {durations && (
+          <Button
+            type="button"
+            variant="outline"
+            disabled={isLoading}
+            onClick={handleSaveDraft}
+            size="lg"
+          >
+            📝 Save as Draft
+          </Button>
+        )}
+      </div>
     </form>
   );
 }
\ No newline at end of file
@@ -0,0 +1,53 @@
+import { assetUrl } from '@/lib/utils';
+// Note the extra ../ because we're in components subfolder
+import type { PostImage } from '../../../server/src/schema';
+
+interface PostImagesProps {
+  images: PostImage[];
+}
+
+// Thumbnail strip for a post card, each opening the full picture; renders nothing without images
+export function PostImages({ images }: PostImagesProps) {
+  if (images.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="flex gap-2 overflow-x-auto">
+      {images.map((image: PostImage, index: number) => (
+        <a key={image.id} href={assetUrl(image.urls.original)} target="_blank" rel="noreferrer" className="shrink-0">
+          <img
+            src={assetUrl(image.urls.thumbnail)}
+            alt={index === 0 ? 'Cover photo' : `Photo ${index + 1}`}
+            loading="lazy"
+            className="h-20 w-20 rounded-md border border-gray-200 object-cover"
+          />
+        </a>
+      ))}
+    </div>
+  );
+}
+
+// The cover picture, flush with the top edge of a listing card
+export function PostCover({ images }: PostImagesProps) {
+  const [cover] = images;
+  if (!cover) {
+    return null;
+  }
+
+  return (
+    <div className="relative -mt-6">
+      <img
+        src={assetUrl(cover.urls.medium)}
+        alt="Cover photo"
+        loading="lazy"
+        className="aspect-[4/3] w-full rounded-t-xl object-cover"
+      />
+      {images.length > 1 && (
+        <span className="absolute bottom-2 right-2 rounded bg-black/60 px-2 py-0.5 text-xs text-white">
+          📷 {images.length}
+        </span>
+      )}
+    </div>
+  );
+}
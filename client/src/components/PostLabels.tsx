@@ -0,0 +1,35 @@
+import { Badge } from '@/components/ui/badge';
+// Note the extra ../ because we're in components subfolder
+import type { PostLabels as PostLabelsData } from '../../../server/src/schema';
+
+interface PostLabelsProps {
+  labels: PostLabelsData;
+  onTagClick?: (tag: string) => void;
+}
+
+// Category and tag badges for a post card; renders nothing for unlabeled posts
+export function PostLabels({ labels, onTagClick }: PostLabelsProps) {
+  if (labels.categories.length === 0 && labels.tags.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="flex flex-wrap gap-1">
+      {labels.categories.map((category: PostLabelsData['categories'][number]) => (
+        <Badge key={category.id} variant="secondary" className="bg-indigo-100 text-indigo-800">
+          🗂️ {category.name}
+        </Badge>
+      ))}
+      {labels.tags.map((tag: string) => (
+        <Badge
+          key={tag}
+          variant="outline"
+          className={onTagClick ? 'cursor-pointer hover:bg-gray-100' : undefined}
+          onClick={onTagClick ? () => onTagClick(tag) : undefined}
+        >
+          #{tag}
+        </Badge>
+      ))}
+    </div>
+  );
+}
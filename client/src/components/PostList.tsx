@@ -2,22 +2,74 @@ import { Card, CardContent, CardFooter, CardHeader, CardTitle } from '@/componen
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
 import { useState } from 'react';
+import { toDateTimeLocal } from '@/lib/utils';
 import { PostForm } from './PostForm';
+import { AutoRenewDialog } from './AutoRenewDialog';
+import { PostRevisionHistory } from './PostRevisionHistory';
+import { PostLabels } from './PostLabels';
+import { PostImages } from './PostImages';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 // Note the extra ../ because we're in components subfolder
-import type { Post, CreatePostInput } from '../../../server/src/schema';
+import type { Category, CreatePostInput, DetailedPost, PostDuration, PostDurationOption, PostRevealStats, PostStatus, SetAutoRenewInput } from '../../../server/src/schema';
+
+// Label for posts that are not currently listed; an "active" post past its expiry reads as expired
+const statusLabels: Record<PostStatus, string> = {
+  draft: '📝 Draft',
+  scheduled: '🗓️ Scheduled',
+  active: '🔴 Expired',
+  expired: '🔴 Expired',
+  archived: '📦 Archived',
+  removed: '🚫 Removed'
+};
+
+// Mirrors the server: only posts that were live before can be re-posted
+const repostableStatuses: PostStatus[] = ['active', 'expired', 'archived'];
 
 interface PostListProps {
-  posts: Post[];
-  onRepost: (postId: number) => Promise<void>;
+  posts: DetailedPost[];
+  onRepost: (postId: number, duration: PostDuration, idempotencyKey: string) => Promise<void>;
   onDelete: (postId: number) => Promise<void>;
   onUpdate: (postId: number, updates: Partial<CreatePostInput>) => Promise<void>;
+  onPublish: (postId: number, duration: PostDuration, idempotencyKey: string) => Promise<void>;
+  onSetAutoRenew: (input: SetAutoRenewInput) => Promise<void>;
+  onRestoreRevision: (postId: number, revisionId: number) => Promise<void>;
+  onReschedule: (postId: number, publishAt: Date) => Promise<void>;
+  onCancelScheduled: (postId: number) => Promise<void>;
+  durations: PostDurationOption[];
+  categories?: Category[];
+  revealStats?: PostRevealStats[]; // How often each post's phone number was revealed
   isLoading?: boolean;
 }
 
-export function PostList({ posts, onRepost, onDelete, onUpdate, isLoading = false }: PostListProps) {
+export function PostList({
+  posts,
+  onRepost,
+  onDelete,
+  onUpdate,
+  onPublish,
+  onSetAutoRenew,
+  onRestoreRevision,
+  onReschedule,
+  onCancelScheduled,
+  durations,
+  categories,
+  revealStats = [],
+  isLoading = false
+}: PostListProps) {
   const [editingPostId, setEditingPostId] = useState<number | null>(null);
+  // Fresh key each time the re-post dialog opens, so repeated confirms charge only once
+  const [repostKey, setRepostKey] = useState('');
+  const [repostDuration, setRepostDuration] = useState<PostDuration>('24h');
+  const repostOption = durations.find((option: PostDurationOption) => option.duration === repostDuration);
+  const [reschedulePublishAt, setReschedulePublishAt] = useState('');
+  // Same single-charge guarantee for publishing a draft
+  const [publishKey, setPublishKey] = useState('');
+  const [publishDuration, setPublishDuration] = useState<PostDuration>('24h');
+  const publishOption = durations.find((option: PostDurationOption) => option.duration === publishDuration);
 
   if (posts.length === 0) {
     return (
@@ -50,160 +102,388 @@ export function PostList({ posts, onRepost, onDelete, onUpdate, isLoading = fals
     try {
       await onUpdate(postId, updates);
       setEditingPostId(null);
-    } catch (error) {
+    } catch {
       // Error handling is done in the parent component
     }
   };
 
-  return (
-    <div className="grid gap-6">
-      {posts.map((post: Post) => (
-        <Card key={post.id} className="border-gray-200 shadow-md hover:shadow-lg transition-shadow">
-          <CardHeader className="pb-4">
-            <div className="flex items-start justify-between">
-              <CardTitle className="text-xl font-bold text-gray-900 flex-1 pr-4">
-                {post.title}
-              </CardTitle>
-              <Badge 
-                variant={post.is_active ? "default" : "secondary"}
-                className={post.is_active 
-                  ? "bg-green-500 text-white" 
-                  : "bg-red-100 text-red-800"
-                }
-              >
-                {post.is_active ? '🟢 Active' : '🔴 Expired'}
-              </Badge>
-            </div>
-          </CardHeader>
-
-          <CardContent className="space-y-4">
-            <div className="prose prose-sm max-w-none">
-              <p className="text-gray-700 whitespace-pre-wrap leading-relaxed">
-                {post.content}
+  const revealsByPost = new Map(revealStats.map((stats: PostRevealStats) => [stats.post_id, stats]));
+
+  const renderReveals = (stats: PostRevealStats | undefined) => stats && (
+    <p>
+      📞 Number revealed to {stats.reveals} {stats.reveals === 1 ? 'person' : 'people'}
+      · last {stats.last_revealed_at.toLocaleString()}
+    </p>
+  );
+
+  const renderPost = (post: DetailedPost) => (
+    <Card key={post.id} className="border-gray-200 shadow-md hover:shadow-lg transition-shadow">
+      <CardHeader className="pb-4">
+        <div className="flex items-start justify-between">
+          <CardTitle className="text-xl font-bold text-gray-900 flex-1 pr-4">
+            {post.title}
+          </CardTitle>
+          <Badge 
+            variant={post.is_active ? "default" : "secondary"}
+            className={post.is_active 
+              ? "bg-green-500 text-white" 
+              : "bg-red-100 text-red-800"
+            }
+          >
+            {post.is_active ? '🟢 Active' : statusLabels[post.status]}
+          </Badge>
+        </div>
+      </CardHeader>
+
+      <CardContent className="space-y-4">
+        {post.hidden_at && (
+          <p className="text-sm text-amber-800 bg-amber-50 border border-amber-200 rounded-md px-3 py-2">
+            🚩 Hidden from public listings by moderation since {post.hidden_at.toLocaleString()}
+          </p>
+        )}
+
+        <div className="prose prose-sm max-w-none">
+          <p className="text-gray-700 whitespace-pre-wrap leading-relaxed">
+            {post.content}
+          </p>
+        </div>
+
+        <PostImages images={post.images} />
+
+        <PostLabels labels={post} />
+
+        <div className="grid grid-cols-2 gap-4 pt-4 border-t border-gray-100">
+          <div className="space-y-1">
+            <p className="text-sm font-medium text-gray-600">💰 Publication Fee</p>
+            <p className="text-lg font-bold text-green-600">
+              ${post.price.toFixed(2)}
+            </p>
+          </div>
+          <div className="space-y-1">
+            <p className="text-sm font-medium text-gray-600">⏰ Status</p>
+            {post.status === 'draft' ? (
+              <p className="text-sm font-medium text-gray-600">
+                Not published yet
               </p>
-            </div>
-
-            <div className="grid grid-cols-2 gap-4 pt-4 border-t border-gray-100">
-              <div className="space-y-1">
-                <p className="text-sm font-medium text-gray-600">💰 Publication Fee</p>
-                <p className="text-lg font-bold text-green-600">
-                  ${post.price.toFixed(2)}
-                </p>
-              </div>
-              <div className="space-y-1">
-                <p className="text-sm font-medium text-gray-600">⏰ Status</p>
-                <p className={`text-sm font-medium ${post.is_active ? 'text-green-600' : 'text-red-600'}`}>
-                  {post.is_active ? formatTimeRemaining(post.expires_at) : 'Expired'}
-                </p>
-              </div>
-            </div>
-
-            <div className="text-xs text-gray-500 space-y-1 pt-2 border-t border-gray-100">
-              <p>📅 Posted: {post.posted_at.toLocaleString()}</p>
-              <p>⏳ Expires: {post.expires_at.toLocaleString()}</p>
-              {post.updated_at.getTime() !== post.created_at.getTime() && (
-                <p>✏️ Last updated: {post.updated_at.toLocaleString()}</p>
-              )}
-            </div>
-          </CardContent>
-
-          <CardFooter className="flex gap-2 pt-4 border-t border-gray-100">
-            {/* Edit button - always available */}
-            <Dialog open={editingPostId === post.id} onOpenChange={(open) => !open && setEditingPostId(null)}>
-              <DialogTrigger asChild>
-                <Button 
-                  variant="outline" 
-                  size="sm"
-                  onClick={() => setEditingPostId(post.id)}
-                  disabled={isLoading}
-                >
-                  ✏️ Edit
-                </Button>
-              </DialogTrigger>
-              <DialogContent className="max-w-2xl">
-                <DialogHeader>
-                  <DialogTitle>✏️ Edit Post</DialogTitle>
-                </DialogHeader>
+            ) : post.status === 'scheduled' && post.publish_at ? (
+              <p className="text-sm font-medium text-indigo-600">
+                Goes live {post.publish_at.toLocaleString()}
+              </p>
+            ) : (
+              <p className={`text-sm font-medium ${post.is_active ? 'text-green-600' : 'text-red-600'}`}>
+                {post.is_active && post.expires_at ? formatTimeRemaining(post.expires_at) : 'Expired'}
+              </p>
+            )}
+          </div>
+        </div>
+
+        <div className="text-xs text-gray-500 space-y-1 pt-2 border-t border-gray-100">
+          {post.posted_at && <p>📅 Posted: {post.posted_at.toLocaleString()}</p>}
+          {post.expires_at && <p>⏳ Expires: {post.expires_at.toLocaleString()}</p>}
+          {post.status === 'draft' && <p>📝 Created: {post.created_at.toLocaleString()}</p>}
+          {renderReveals(revealsByPost.get(post.id))}
+          {post.auto_renew && (
+            <p>
+              🔁 Auto-renew on · {post.auto_renew_renewals}
+              {post.auto_renew_max_renewals !== null && ` of ${post.auto_renew_max_renewals}`} renewals
+              · {post.auto_renew_spent}
+              {post.auto_renew_spend_cap !== null && ` of ${post.auto_renew_spend_cap}`} credits spent
+            </p>
+          )}
+          {!post.auto_renew && post.auto_renew_stopped_reason && (
+            <p className="text-amber-700">⚠️ Auto-renew stopped: {post.auto_renew_stopped_reason}</p>
+          )}
+          {post.updated_at.getTime() !== post.created_at.getTime() && (
+            <p>✏️ Last updated: {post.updated_at.toLocaleString()}</p>
+          )}
+        </div>
+      </CardContent>
+
+      <CardFooter className="flex gap-2 pt-4 border-t border-gray-100">
+        {/* Edit button - always available */}
+        <Dialog open={editingPostId === post.id} onOpenChange={(open) => !open && setEditingPostId(null)}>
+          <DialogTrigger asChild>
+            <Button 
+              variant="outline" 
+              size="sm"
+              onClick={() => setEditingPostId(post.id)}
+              disabled={isLoading}
+            >
+              ✏️ Edit
+            </Button>
+          </DialogTrigger>
+          <DialogContent className="max-w-2xl">
+            <DialogHeader>
+              <DialogTitle>✏️ Edit Post</DialogTitle>
+            </DialogHeader>
+            <Tabs defaultValue="edit" className="space-y-4">
+              <TabsList className="grid w-full grid-cols-2">
+                <TabsTrigger value="edit">✏️ Edit</TabsTrigger>
+                <TabsTrigger value="history">🕘 History</TabsTrigger>
+              </TabsList>
+              <TabsContent value="edit">
+                {/* Remount after a restore so the form shows the restored values */}
                 <PostForm
+                  key={post.updated_at.getTime()}
                   onSubmit={(updates) => handleUpdatePost(post.id, updates)}
                   isLoading={isLoading}
                   initialData={{
                     title: post.title,
                     content: post.content,
-                    price: post.price
+                    price: post.price,
+                    category_ids: post.categories.map((category: DetailedPost['categories'][number]) => category.id),
+                    tags: post.tags
                   }}
+                  initialImages={post.images}
+                  categories={categories}
                   submitLabel="Update Post"
                 />
-              </DialogContent>
-            </Dialog>
-
-            {/* Re-post button - only for expired posts */}
-            {!post.is_active && (
-              <AlertDialog>
-                <AlertDialogTrigger asChild>
-                  <Button 
-                    variant="default" 
-                    size="sm" 
-                    disabled={isLoading}
-                    className="bg-indigo-600 hover:bg-indigo-700"
-                  >
-                    🔄 Re-post
-                  </Button>
-                </AlertDialogTrigger>
-                <AlertDialogContent>
-                  <AlertDialogHeader>
-                    <AlertDialogTitle>Re-post This Content?</AlertDialogTitle>
-                    <AlertDialogDescription>
-                      This will make your post visible again for another 24 hours. 
-                      You will be charged the publication fee of <strong>${post.price.toFixed(2)}</strong> again.
-                    </AlertDialogDescription>
-                  </AlertDialogHeader>
-                  <AlertDialogFooter>
-                    <AlertDialogCancel>Cancel</AlertDialogCancel>
-                    <AlertDialogAction 
-                      onClick={() => onRepost(post.id)}
-                      className="bg-indigo-600 hover:bg-indigo-700"
-                    >
-                      💳 Pay ${post.price.toFixed(2)} & Re-post
-                    </AlertDialogAction>
-                  </AlertDialogFooter>
-                </AlertDialogContent>
-              </AlertDialog>
-            )}
+              </TabsContent>
+              <TabsContent value="history">
+                <PostRevisionHistory post={post} onRestore={onRestoreRevision} isLoading={isLoading} />
+              </TabsContent>
+            </Tabs>
+          </DialogContent>
+        </Dialog>
 
-            {/* Delete button - always available */}
-            <AlertDialog>
-              <AlertDialogTrigger asChild>
-                <Button 
-                  variant="destructive" 
-                  size="sm" 
-                  disabled={isLoading}
+        {/* Scheduled posts can be moved or called off until they go live */}
+        {post.status === 'scheduled' && (
+          <AlertDialog
+            onOpenChange={(open: boolean) => {
+              if (open && post.publish_at) {
+                setReschedulePublishAt(toDateTimeLocal(post.publish_at));
+              }
+            }}
+          >
+            <AlertDialogTrigger asChild>
+              <Button variant="outline" size="sm" disabled={isLoading}>
+                🗓️ Reschedule
+              </Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Reschedule Post?</AlertDialogTitle>
+                <AlertDialogDescription>
+                  Pick a new time for "{post.title}" to go live. The listing period starts then.
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <Input
+                type="datetime-local"
+                value={reschedulePublishAt}
+                min={toDateTimeLocal(new Date())}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setReschedulePublishAt(e.target.value)}
+              />
+              <AlertDialogFooter>
+                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                <AlertDialogAction
+                  disabled={!reschedulePublishAt}
+                  onClick={() => onReschedule(post.id, new Date(reschedulePublishAt))}
+                  className="bg-indigo-600 hover:bg-indigo-700"
                 >
-                  🗑️ Delete
-                </Button>
-              </AlertDialogTrigger>
-              <AlertDialogContent>
-                <AlertDialogHeader>
-                  <AlertDialogTitle>Delete Post?</AlertDialogTitle>
-                  <AlertDialogDescription>
-                    This action cannot be undone. This will permanently delete your post 
-                    "{post.title}" and remove it from our servers.
-                  </AlertDialogDescription>
-                </AlertDialogHeader>
-                <AlertDialogFooter>
-                  <AlertDialogCancel>Cancel</AlertDialogCancel>
-                  <AlertDialogAction 
-                    onClick={() => onDelete(post.id)}
-                    className="bg-red-600 hover:bg-red-700"
-                  >
-                    🗑️ Delete Forever
-                  </AlertDialogAction>
-                </AlertDialogFooter>
-              </AlertDialogContent>
-            </AlertDialog>
-          </CardFooter>
-        </Card>
-      ))}
+                  🗓️ Reschedule
+                </AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        )}
+
+        {post.status === 'scheduled' && (
+          <AlertDialog>
+            <AlertDialogTrigger asChild>
+              <Button variant="outline" size="sm" disabled={isLoading}>
+                ⏹️ Cancel Schedule
+              </Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Cancel Scheduled Post?</AlertDialogTitle>
+                <AlertDialogDescription>
+                  "{post.title}" will not go live and its fee will be refunded. You can re-post it later.
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>Keep Scheduled</AlertDialogCancel>
+                <AlertDialogAction onClick={() => onCancelScheduled(post.id)}>
+                  ⏹️ Cancel & Refund
+                </AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        )}
+
+        {/* Auto-renew settings - for posts that have been live */}
+        {repostableStatuses.includes(post.status) && (
+          <AutoRenewDialog post={post} onSave={onSetAutoRenew} isLoading={isLoading} />
+        )}
+
+        {/* Publish button - only for drafts */}
+        {post.status === 'draft' && (
+          <AlertDialog
+            onOpenChange={(open: boolean) => {
+              if (open) {
+                setPublishKey(crypto.randomUUID());
+                setPublishDuration(post.duration);
+              }
+            }}
+          >
+            <AlertDialogTrigger asChild>
+              <Button 
+                variant="default" 
+                size="sm" 
+                disabled={isLoading}
+                className="bg-green-600 hover:bg-green-700"
+              >
+                🚀 Publish
+              </Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Publish This Draft?</AlertDialogTitle>
+                <AlertDialogDescription>
+                  "{post.title}" goes live now and stays up for the duration you pick. Your first post is free.
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <Select
+                value={publishDuration}
+                onValueChange={(value: string) => setPublishDuration(value as PostDuration)}
+              >
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {durations.map((option: PostDurationOption) => (
+                    <SelectItem key={option.duration} value={option.duration}>
+                      {option.label} · {option.fee} credits
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <AlertDialogFooter>
+                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                <AlertDialogAction 
+                  onClick={() => onPublish(post.id, publishDuration, publishKey)}
+                  className="bg-green-600 hover:bg-green-700"
+                >
+                  🚀 Publish for {publishOption?.label}
+                </AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        )}
+
+        {/* Re-post button - only for expired posts */}
+        {!post.is_active && repostableStatuses.includes(post.status) && (
+          <AlertDialog
+            onOpenChange={(open: boolean) => {
+              if (open) {
+                setRepostKey(crypto.randomUUID());
+                setRepostDuration(post.duration);
+              }
+            }}
+          >
+            <AlertDialogTrigger asChild>
+              <Button 
+                variant="default" 
+                size="sm" 
+                disabled={isLoading}
+                className="bg-indigo-600 hover:bg-indigo-700"
+              >
+                🔄 Re-post
+              </Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Re-post This Content?</AlertDialogTitle>
+                <AlertDialogDescription>
+                  This will make your post visible again for the duration you pick.
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <Select
+                value={repostDuration}
+                onValueChange={(value: string) => setRepostDuration(value as PostDuration)}
+              >
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {durations.map((option: PostDurationOption) => (
+                    <SelectItem key={option.duration} value={option.duration}>
+                      {option.label} · {option.fee} credits
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <AlertDialogFooter>
+                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                <AlertDialogAction 
+                  onClick={() => onRepost(post.id, repostDuration, repostKey)}
+                  className="bg-indigo-600 hover:bg-indigo-700"
+                >
+                  💳 Pay {repostOption?.fee} credits & Re-post
+                </AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        )}
+
+        {/* Delete button - always available */}
+        <AlertDialog>
+          <AlertDialogTrigger asChild>
+            <Button 
+              variant="destructive" 
+              size="sm" 
+              disabled={isLoading}
+            >
+              🗑️ Delete
+            </Button>
+          </AlertDialogTrigger>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Delete Post?</AlertDialogTitle>
+              <AlertDialogDescription>
+                "{post.title}" will be hidden and moved to the Trash. You can restore it 
+                from there for 30 days, after which it is removed for good.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction 
+                onClick={() => onDelete(post.id)}
+                className="bg-red-600 hover:bg-red-700"
+              >
+                🗑️ Move to Trash
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </CardFooter>
+    </Card>
+  );
+
+  const drafts = posts.filter((post: DetailedPost) => post.status === 'draft');
+  const published = posts.filter((post: DetailedPost) => post.status !== 'draft');
+
+  return (
+    <div className="space-y-8">
+      {drafts.length > 0 && (
+        <section className="space-y-4">
+          <h3 className="text-lg font-semibold text-gray-700">📝 Drafts ({drafts.length})</h3>
+          <div className="grid gap-6">
+            {drafts.map(renderPost)}
+          </div>
+        </section>
+      )}
+
+      {published.length > 0 && (
+        <section className="space-y-4">
+          {drafts.length > 0 && (
+            <h3 className="text-lg font-semibold text-gray-700">📢 Published ({published.length})</h3>
+          )}
+          <div className="grid gap-6">
+            {published.map(renderPost)}
+          </div>
+        </section>
+      )}
     </div>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,158 @@
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+// Note the extra ../ because we're in components subfolder
+import type { PostListStatus, PostSort, PublicPostListInput, SearchSort } from '../../../server/src/schema';
+
+// Everything but paging; the status filter only applies to the owner's own posts
+export type PostListFilterValues<Sort extends SearchSort = PostSort> =
+  Omit<PublicPostListInput, 'cursor' | 'limit' | 'sort'> & { sort: Sort; status?: PostListStatus };
+
+interface PostListFiltersProps<Sort extends SearchSort> {
+  value: PostListFilterValues<Sort>;
+  onChange: (value: PostListFilterValues<Sort>) => void;
+  showStatus?: boolean;
+  showRelevance?: boolean; // Only search results can be ordered by relevance
+}
+
+const sortLabels: Record<SearchSort, string> = {
+  relevance: '🎯 Best match',
+  newest: '🆕 Newest',
+  price_asc: '💲 Price: low to high',
+  price_desc: '💰 Price: high to low',
+  expiring_soonest: '⏰ Expiring soonest'
+};
+
+const statusLabels: Record<PostListStatus, string> = {
+  active: '🟢 Active',
+  expired: '🔴 Expired',
+  draft: '📝 Drafts'
+};
+
+// Date inputs hold a local day; the range end is exclusive, so it moves to the next midnight
+const parseDay = (day: string, endOfRange = false): Date | undefined => {
+  if (!day) {
+    return undefined;
+  }
+  const date = new Date(`${day}T00:00`);
+  if (endOfRange) {
+    date.setDate(date.getDate() + 1);
+  }
+  return date;
+};
+
+const formatDay = (date: Date | undefined, endOfRange = false): string => {
+  if (!date) {
+    return '';
+  }
+  const day = new Date(date);
+  if (endOfRange) {
+    day.setDate(day.getDate() - 1);
+  }
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  return `${day.getFullYear()}-${pad(day.getMonth() + 1)}-${pad(day.getDate())}`;
+};
+
+const parsePrice = (price: string): number | undefined =>
+  price === '' ? undefined : Math.max(0, parseFloat(price) || 0);
+
+export function PostListFilters<Sort extends SearchSort = PostSort>({
+  value,
+  onChange,
+  showStatus = false,
+  showRelevance = false
+}: PostListFiltersProps<Sort>) {
+  const update = (changes: Partial<PostListFilterValues<Sort>>) => onChange({ ...value, ...changes });
+  const sorts = (Object.keys(sortLabels) as SearchSort[])
+    .filter((sort: SearchSort) => showRelevance || sort !== 'relevance');
+
+  return (
+    <div className="flex flex-wrap items-end gap-3 mb-6 p-4 bg-white/80 rounded-lg border border-gray-200">
+      <div className="space-y-1">
+        <Label className="text-xs text-gray-600">Sort by</Label>
+        <Select value={value.sort || 'newest'} onValueChange={(sort: string) => update({ sort: sort as Sort })}>
+          <SelectTrigger className="w-48">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {sorts.map((sort: SearchSort) => (
+              <SelectItem key={sort} value={sort}>{sortLabels[sort]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {showStatus && (
+        <div className="space-y-1">
+          <Label className="text-xs text-gray-600">Status</Label>
+          <Select
+            value={value.status || 'all'}
+            onValueChange={(status: string) =>
+              update({ status: status === 'all' ? undefined : status as PostListStatus })
+            }
+          >
+            <SelectTrigger className="w-36">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">📋 All</SelectItem>
+              {(Object.keys(statusLabels) as PostListStatus[]).map((status: PostListStatus) => (
+                <SelectItem key={status} value={status}>{statusLabels[status]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      <div className="space-y-1">
+        <Label className="text-xs text-gray-600">Price</Label>
+        <div className="flex items-center gap-1">
+          <Input
+            type="number"
+            min="0"
+            step="0.01"
+            className="w-24"
+            placeholder="Min"
+            value={value.price_min ?? ''}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => update({ price_min: parsePrice(e.target.value) })}
+          />
+          <span className="text-gray-400">–</span>
+          <Input
+            type="number"
+            min="0"
+            step="0.01"
+            className="w-24"
+            placeholder="Max"
+            value={value.price_max ?? ''}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => update({ price_max: parsePrice(e.target.value) })}
+          />
+        </div>
+      </div>
+
+      <div className="space-y-1">
+        <Label className="text-xs text-gray-600">Created</Label>
+        <div className="flex items-center gap-1">
+          <Input
+            type="date"
+            className="w-40"
+            value={formatDay(value.created_from)}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => update({ created_from: parseDay(e.target.value) })}
+          />
+          <span className="text-gray-400">–</span>
+          <Input
+            type="date"
+            className="w-40"
+            value={formatDay(value.created_to, true)}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => update({ created_to: parseDay(e.target.value, true) })}
+          />
+        </div>
+      </div>
+
+      {/* Clears the filters but keeps the sort order */}
+      <Button variant="ghost" size="sm" onClick={() => onChange({ sort: value.sort })}>
+        ✖️ Clear filters
+      </Button>
+    </div>
+  );
+}
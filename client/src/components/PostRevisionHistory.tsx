@@ -0,0 +1,127 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { trpc } from '@/utils/trpc';
+import { diffWords, type DiffPart } from '@/lib/utils';
+// Note the extra ../ because we're in components subfolder
+import type { Post, PostRevision, PostRevisionAction } from '../../../server/src/schema';
+
+interface PostRevisionHistoryProps {
+  post: Post;
+  onRestore: (postId: number, revisionId: number) => Promise<void>;
+  isLoading?: boolean;
+}
+
+const actionLabels: Record<PostRevisionAction, string> = {
+  created: '🆕 Created',
+  updated: '✏️ Edited',
+  restored: '↩️ Restored'
+};
+
+// Inline diff: removed words struck through in red, added words in green
+function Diff({ before, after }: { before: string; after: string }) {
+  return (
+    <span className="whitespace-pre-wrap">
+      {diffWords(before, after).map((part: DiffPart, index: number) => (
+        <span
+          key={index}
+          className={
+            part.type === 'added'
+              ? 'bg-green-100 text-green-800'
+              : part.type === 'removed'
+                ? 'bg-red-100 text-red-800 line-through'
+                : undefined
+          }
+        >
+          {part.text}
+        </span>
+      ))}
+    </span>
+  );
+}
+
+export function PostRevisionHistory({ post, onRestore, isLoading = false }: PostRevisionHistoryProps) {
+  const [revisions, setRevisions] = useState<PostRevision[]>([]);
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Reload whenever the post changes, e.g. after an edit or a restore
+  useEffect(() => {
+    trpc.getPostRevisions.query({ post_id: post.id })
+      .then((result: PostRevision[]) => {
+        setRevisions(result);
+        setSelectedId((current: number | null) => current ?? result[1]?.id ?? null);
+      })
+      .catch((error: unknown) => {
+        console.error('Failed to load revisions:', error);
+        setError('Failed to load the revision history.');
+      });
+  }, [post.id, post.updated_at]);
+
+  const selected = revisions.find((revision: PostRevision) => revision.id === selectedId);
+
+  const handleRestore = async () => {
+    if (!selected) {
+      return;
+    }
+    try {
+      setError(null);
+      await onRestore(post.id, selected.id);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to restore this version.');
+    }
+  };
+
+  if (error) {
+    return <p className="text-sm text-red-700">❌ {error}</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <ul className="max-h-48 space-y-1 overflow-y-auto">
+        {revisions.map((revision: PostRevision, index: number) => (
+          <li key={revision.id}>
+            <button
+              type="button"
+              onClick={() => setSelectedId(revision.id)}
+              className={`flex w-full items-center justify-between rounded px-2 py-1 text-left text-sm ${
+                revision.id === selectedId ? 'bg-indigo-100' : 'hover:bg-gray-100'
+              }`}
+            >
+              <span>
+                {actionLabels[revision.action]} · {revision.created_at.toLocaleString()}
+              </span>
+              {index === 0 && <Badge variant="secondary">Current</Badge>}
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      {selected && (
+        <div className="space-y-3 rounded border border-gray-200 p-3 text-sm">
+          <p className="text-xs text-gray-500">Changes from this version to the current one</p>
+          <div>
+            <p className="font-medium text-gray-600">Title</p>
+            <Diff before={selected.title} after={post.title} />
+          </div>
+          <div>
+            <p className="font-medium text-gray-600">Content</p>
+            <Diff before={selected.content} after={post.content} />
+          </div>
+          <div>
+            <p className="font-medium text-gray-600">Price</p>
+            <Diff before={`$${selected.price.toFixed(2)}`} after={`$${post.price.toFixed(2)}`} />
+          </div>
+          <Button
+            size="sm"
+            variant="outline"
+            disabled={isLoading || selected.id === revisions[0]?.id}
+            onClick={handleRestore}
+          >
+            ↩️ Restore this version
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
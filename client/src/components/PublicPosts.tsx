@@ -1,15 +1,121 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
-import type { PublicPost } from '../../../server/src/schema';
+import { Input } from '@/components/ui/input';
+import { trpc } from '@/utils/trpc';
+import { useDebouncedValue } from '@/hooks/use-debounced-value';
+import { InfiniteScroll } from './InfiniteScroll';
+import { Highlighted } from './Highlighted';
+import { PostListFilters, type PostListFilterValues } from './PostListFilters';
+import { PostLabels } from './PostLabels';
+import { PostCover } from './PostImages';
+import { ContactReveal } from './ContactReveal';
+import { MessageSellerDialog } from './MessageSellerDialog';
+import { SaveButton } from './SaveButton';
+import { ReportPostDialog } from './ReportPostDialog';
+import type { Category, PostSearchResult, PublicPost, SavedPost, SearchSort } from '../../../server/src/schema';
+
+const PAGE_SIZE = 24;
+
+// Search hits carry highlights; plain listing rows do not
+type FeedPost = PublicPost | PostSearchResult;
+
+const isSearchResult = (post: FeedPost): post is PostSearchResult => 'snippet' in post;
 
 interface PublicPostsProps {
-  posts: PublicPost[];
-  onRefresh: () => void;
+  category?: Category; // Only posts in this category and its subcategories
 }
 
-export function PublicPosts({ posts, onRefresh }: PublicPostsProps) {
+export function PublicPosts({ category }: PublicPostsProps) {
+  const [posts, setPosts] = useState<FeedPost[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [searchText, setSearchText] = useState('');
+  // Search best matches first; the plain listing has no relevance and falls back to newest
+  const [filters, setFilters] = useState<PostListFilterValues<SearchSort>>({ sort: 'relevance' });
+  const query = useDebouncedValue(searchText.trim(), 300);
+  const isSearching = query.length > 0;
+  const sort = isSearching || filters.sort !== 'relevance' ? filters.sort : 'newest';
+  // Responses can arrive out of order while typing; only the latest request may update the list
+  const requestId = useRef(0);
+  const [savedIds, setSavedIds] = useState<Set<number>>(new Set());
+
+  // Which posts are starred
+  useEffect(() => {
+    trpc.getSavedPosts.query()
+      .then((saved: SavedPost[]) => setSavedIds(new Set(saved.map((post: SavedPost) => post.id))))
+      .catch((error: unknown) => console.error('Failed to load saved posts:', error));
+  }, []);
+
+  const handleSavedChange = (postId: number, saved: boolean) =>
+    setSavedIds((prev: Set<number>) => {
+      const next = new Set(prev);
+      if (saved) {
+        next.add(postId);
+      } else {
+        next.delete(postId);
+      }
+      return next;
+    });
+
+  const fetchPage = useCallback(async (cursor?: string) => {
+    const input = { ...filters, category_id: category?.id, limit: PAGE_SIZE, cursor };
+    if (isSearching) {
+      return trpc.searchPosts.query({ ...input, query, sort });
+    }
+    return trpc.getPublicPosts.query({ ...input, sort: sort === 'relevance' ? 'newest' : sort });
+  }, [filters, category, isSearching, query, sort]);
+
+  const loadPosts = useCallback(async () => {
+    const id = ++requestId.current;
+    try {
+      setIsLoading(true);
+      setError(null);
+      const page = await fetchPage();
+      if (id === requestId.current) {
+        setPosts(page.items);
+        setNextCursor(page.nextCursor);
+      }
+    } catch (error) {
+      console.error('Failed to load public posts:', error);
+      if (id === requestId.current) {
+        setError('Failed to load posts. Please try again.');
+      }
+    } finally {
+      if (id === requestId.current) {
+        setIsLoading(false);
+      }
+    }
+  }, [fetchPage]);
+
+  useEffect(() => {
+    loadPosts();
+  }, [loadPosts]);
+
+  const loadMorePosts = useCallback(async () => {
+    if (!nextCursor || isLoadingMore) {
+      return;
+    }
+    const id = requestId.current;
+    try {
+      setIsLoadingMore(true);
+      const page = await fetchPage(nextCursor);
+      if (id === requestId.current) {
+        setPosts((prev: FeedPost[]) => [...prev, ...page.items]);
+        setNextCursor(page.nextCursor);
+      }
+    } catch (error) {
+      console.error('Failed to load more public posts:', error);
+      setError('Failed to load more posts. Please try again.');
+    } finally {
+      setIsLoadingMore(false);
+    }
+  }, [fetchPage, nextCursor, isLoadingMore]);
+
   const formatTimeRemaining = (expiresAt: Date) => {
     const now = new Date();
     const expires = new Date(expiresAt);
@@ -47,19 +153,65 @@ export function PublicPosts({ posts, onRefresh }: PublicPostsProps) {
     <div className="space-y-6">
       <div className="flex items-center justify-between">
         <div>
-          <h2 className="text-2xl font-bold text-purple-800">🌍 Public Posts</h2>
+          <h2 className="text-2xl font-bold text-purple-800">{category ? `🗂️ ${category.name}` : '🌍 Public Posts'}</h2>
           <p className="text-gray-600">Discover what others are sharing</p>
         </div>
         <Button 
-          onClick={onRefresh}
+          onClick={loadPosts}
           variant="outline" 
+          disabled={isLoading}
           className="border-purple-300 text-purple-600 hover:bg-purple-50"
         >
-          🔄 Refresh
+          {isLoading ? '🔄 Loading...' : '🔄 Refresh'}
         </Button>
       </div>
 
-      {posts.length === 0 ? (
+      <Input
+        type="search"
+        value={searchText}
+        onChange={(e: React.ChangeEvent<HTMLInputElement>) => setSearchText(e.target.value)}
+        placeholder="🔍 Search titles and descriptions..."
+        className="bg-white border-purple-200 focus:border-purple-400"
+      />
+
+      <PostListFilters
+        value={{ ...filters, sort }}
+        onChange={setFilters}
+        showRelevance={isSearching}
+      />
+
+      {filters.tag && (
+        <div className="flex items-center gap-2 text-sm text-gray-700">
+          Tagged
+          <Badge variant="outline" className="gap-1">
+            #{filters.tag}
+            <button
+              type="button"
+              onClick={() => setFilters((prev: PostListFilterValues<SearchSort>) => ({ ...prev, tag: undefined }))}
+              className="text-gray-500 hover:text-gray-900"
+              aria-label="Clear tag filter"
+            >
+              ×
+            </button>
+          </Badge>
+        </div>
+      )}
+
+      {error && (
+        <p className="text-sm text-red-700">❌ {error}</p>
+      )}
+
+      {posts.length === 0 && isSearching ? (
+        <Card className="border-purple-200 bg-white/90">
+          <CardContent className="flex flex-col items-center justify-center py-12">
+            <div className="text-6xl mb-4">🔍</div>
+            <h3 className="text-xl font-semibold text-gray-800 mb-2">No Matches</h3>
+            <p className="text-gray-600 text-center max-w-md">
+              No active posts match “{query}”. Try fewer or shorter words.
+            </p>
+          </CardContent>
+        </Card>
+      ) : posts.length === 0 ? (
         <Card className="border-purple-200 bg-white/90">
           <CardContent className="flex flex-col items-center justify-center py-12">
             <div className="text-6xl mb-4">📭</div>
@@ -69,7 +221,7 @@ export function PublicPosts({ posts, onRefresh }: PublicPostsProps) {
             </p>
             <ul className="text-sm text-gray-500 text-left max-w-md space-y-1">
               <li>• No users have created posts yet</li>
-              <li>• All posts have expired (posts last 24 hours)</li>
+              <li>• All posts have reached the end of their listing period</li>
               <li>• Backend services are currently unavailable</li>
             </ul>
             <p className="text-gray-600 text-center max-w-md mt-4">
@@ -79,7 +231,7 @@ export function PublicPosts({ posts, onRefresh }: PublicPostsProps) {
         </Card>
       ) : (
         <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
-          {posts.map((post: PublicPost) => {
+          {posts.map((post: FeedPost) => {
             const isExpiringSoon = new Date(post.expires_at).getTime() - new Date().getTime() < 2 * 60 * 60 * 1000; // 2 hours
             
             return (
@@ -87,10 +239,11 @@ export function PublicPosts({ posts, onRefresh }: PublicPostsProps) {
                 key={post.id} 
                 className="border-purple-200 bg-white/90 backdrop-blur-sm hover:shadow-lg transition-shadow"
               >
+                <PostCover images={post.images} />
                 <CardHeader className="pb-3">
                   <div className="flex items-start justify-between">
                     <CardTitle className="text-lg text-purple-800 line-clamp-2">
-                      {post.title}
+                      {isSearchResult(post) ? <Highlighted text={post.title_highlight} /> : post.title}
                     </CardTitle>
                     <Badge 
                       variant={isExpiringSoon ? "destructive" : "secondary"}
@@ -103,38 +256,40 @@ export function PublicPosts({ posts, onRefresh }: PublicPostsProps) {
                       ⏰ {formatTimeRemaining(post.expires_at)}
                     </Badge>
                   </div>
-                  <p className="text-sm text-gray-500">
-                    📅 {formatCreatedDate(post.created_at)}
-                  </p>
-                </CardHeader>
-
-                <CardContent className="space-y-4">
-                  {/* Post Image */}
-                  <div className="aspect-video bg-gray-100 rounded-lg overflow-hidden flex items-center justify-center">
-                    <div className="text-center text-gray-400">
-                      <div className="text-4xl mb-2">🖼️</div>
-                      <p className="text-sm">Demo Image</p>
-                      <p className="text-xs">({post.image_path})</p>
+                  <div className="flex items-center justify-between">
+                    <p className="text-sm text-gray-500">
+                      📅 {formatCreatedDate(post.created_at)}
+                    </p>
+                    <div className="flex items-center">
+                      <SaveButton postId={post.id} saved={savedIds.has(post.id)} onChange={handleSavedChange} />
+                      <ReportPostDialog postId={post.id} postTitle={post.title} />
                     </div>
                   </div>
+                </CardHeader>
 
-                  {/* Post Description */}
+                <CardContent className="space-y-4">
+                  {/* Post Content */}
                   <div>
                     <p className="text-gray-700 text-sm line-clamp-3">
-                      {post.description}
+                      {isSearchResult(post) ? <Highlighted text={post.snippet} /> : post.content}
+                    </p>
+                    <div className="mt-2">
+                      <PostLabels
+                        labels={post}
+                        onTagClick={(tag: string) => setFilters((prev: PostListFilterValues<SearchSort>) => ({ ...prev, tag }))}
+                      />
+                    </div>
+                    <p className="text-lg font-semibold text-green-700 mt-2">
+                      ${post.price.toFixed(2)}
                     </p>
                   </div>
 
                   <Separator />
 
                   {/* Contact Information */}
-                  <div className="flex items-center justify-between">
-                    <div className="flex items-center space-x-2">
-                      <span className="text-sm font-medium text-purple-700">📞 Contact:</span>
-                      <span className="text-sm font-mono bg-purple-50 px-2 py-1 rounded">
-                        {post.phone_number}
-                      </span>
-                    </div>
+                  <div className="flex flex-wrap items-start justify-between gap-2">
+                    <ContactReveal postId={post.id} maskedPhone={post.phone_masked} />
+                    <MessageSellerDialog postId={post.id} postTitle={post.title} />
                   </div>
                 </CardContent>
               </Card>
@@ -142,6 +297,8 @@ export function PublicPosts({ posts, onRefresh }: PublicPostsProps) {
           })}
         </div>
       )}
+
+      <InfiniteScroll hasMore={nextCursor !== null} isLoading={isLoadingMore} onLoadMore={loadMorePosts} />
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,84 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+
+interface ReasonDialogProps {
+  triggerLabel: string;
+  title: string;
+  description: string;
+  confirmLabel: string;
+  reasonRequired?: boolean;
+  destructive?: boolean;
+  onConfirm: (reason: string) => Promise<void>; // Errors are shown in the dialog
+}
+
+// Confirm an admin or moderator action, with an explanation that is passed on to the affected user
+export function ReasonDialog({
+  triggerLabel,
+  title,
+  description,
+  confirmLabel,
+  reasonRequired = false,
+  destructive = false,
+  onConfirm
+}: ReasonDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [reason, setReason] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleOpenChange = (isOpen: boolean) => {
+    if (isOpen) {
+      setReason('');
+      setError(null);
+    }
+    setOpen(isOpen);
+  };
+
+  const handleConfirm = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      await onConfirm(reason.trim());
+      setOpen(false);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Something went wrong. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className={destructive ? 'text-red-700 border-red-200 hover:bg-red-50' : ''}>
+          {triggerLabel}
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>{description}</DialogDescription>
+        </DialogHeader>
+
+        {error && <p className="text-sm text-red-700">❌ {error}</p>}
+
+        <Textarea
+          value={reason}
+          onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => setReason(e.target.value)}
+          placeholder={reasonRequired ? 'Reason (required, shown to the user)' : 'Note for the user (optional)'}
+          maxLength={500}
+          rows={3}
+        />
+        <Button
+          onClick={handleConfirm}
+          disabled={isSaving || (reasonRequired && reason.trim() === '')}
+          className={destructive ? 'bg-red-600 hover:bg-red-700' : 'bg-indigo-600 hover:bg-indigo-700'}
+        >
+          {isSaving ? '⏳ Saving...' : confirmLabel}
+        </Button>
+      </DialogContent>
+    </Dialog>
+  );
+}
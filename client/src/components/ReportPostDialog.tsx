@@ -0,0 +1,110 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { trpc } from '@/utils/trpc';
+import type { ReportReason } from '../../../server/src/schema';
+
+// Mirrors MAX_REPORT_DETAILS_LENGTH on the server
+const MAX_REPORT_DETAILS_LENGTH = 1000;
+
+const reasonLabels: Record<ReportReason, string> = {
+  spam: 'Spam or duplicate',
+  scam: 'Scam or fraud',
+  prohibited_item: 'Prohibited item',
+  offensive: 'Offensive content',
+  wrong_category: 'Wrong category',
+  other: 'Something else'
+};
+
+interface ReportPostDialogProps {
+  postId: number;
+  postTitle: string;
+}
+
+// Flag a post for the moderators; enough reports hide it until someone reviews it
+export function ReportPostDialog({ postId, postTitle }: ReportPostDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [reason, setReason] = useState<ReportReason>('spam');
+  const [details, setDetails] = useState('');
+  const [isSending, setIsSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [sent, setSent] = useState(false);
+
+  const handleOpenChange = (isOpen: boolean) => {
+    if (isOpen) {
+      setReason('spam');
+      setDetails('');
+      setError(null);
+      setSent(false);
+    }
+    setOpen(isOpen);
+  };
+
+  const handleReport = async () => {
+    setIsSending(true);
+    setError(null);
+    try {
+      await trpc.reportPost.mutate({ post_id: postId, reason, details: details.trim() || undefined });
+      setSent(true);
+    } catch (error) {
+      console.error('Failed to report post:', error);
+      setError(error instanceof Error ? error.message : 'Failed to report post. Please try again.');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" className="text-gray-500 hover:text-red-600" aria-label="Report post">
+          🚩
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>🚩 Report this post</DialogTitle>
+          <DialogDescription>Tell the moderators what is wrong with "{postTitle}".</DialogDescription>
+        </DialogHeader>
+
+        {error && <p className="text-sm text-red-700">❌ {error}</p>}
+
+        {sent ? (
+          <p className="text-sm text-green-700">✅ Thanks! A moderator will review this post.</p>
+        ) : (
+          <>
+            <RadioGroup
+              value={reason}
+              onValueChange={(value: string) => setReason(value as ReportReason)}
+              className="space-y-2"
+            >
+              {(Object.keys(reasonLabels) as ReportReason[]).map((value: ReportReason) => (
+                <div key={value} className="flex items-center space-x-2">
+                  <RadioGroupItem value={value} id={`report-${postId}-${value}`} />
+                  <Label htmlFor={`report-${postId}-${value}`} className="cursor-pointer">{reasonLabels[value]}</Label>
+                </div>
+              ))}
+            </RadioGroup>
+            <Textarea
+              value={details}
+              onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => setDetails(e.target.value)}
+              maxLength={MAX_REPORT_DETAILS_LENGTH}
+              placeholder={reason === 'other' ? 'What is the problem? (required)' : 'Anything else we should know? (optional)'}
+              rows={3}
+            />
+            <Button
+              onClick={handleReport}
+              disabled={isSending || (reason === 'other' && details.trim() === '')}
+              className="bg-red-600 hover:bg-red-700"
+            >
+              {isSending ? '⏳ Sending...' : '🚩 Report'}
+            </Button>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,44 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { trpc } from '@/utils/trpc';
+
+interface SaveButtonProps {
+  postId: number;
+  saved: boolean;
+  onChange: (postId: number, saved: boolean) => void;
+}
+
+// Star toggle that adds a post to, or removes it from, the Saved tab
+export function SaveButton({ postId, saved, onChange }: SaveButtonProps) {
+  const [isSaving, setIsSaving] = useState(false);
+
+  const toggle = async () => {
+    setIsSaving(true);
+    try {
+      if (saved) {
+        await trpc.unsavePost.mutate({ post_id: postId });
+      } else {
+        await trpc.savePost.mutate({ post_id: postId });
+      }
+      onChange(postId, !saved);
+    } catch (error) {
+      console.error('Failed to update saved posts:', error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Button
+      variant="ghost"
+      size="sm"
+      onClick={toggle}
+      disabled={isSaving}
+      aria-pressed={saved}
+      aria-label={saved ? 'Remove from saved' : 'Save post'}
+      className={saved ? 'text-yellow-500' : 'text-gray-400'}
+    >
+      {saved ? '★' : '☆'}
+    </Button>
+  );
+}
@@ -0,0 +1,106 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { trpc } from '@/utils/trpc';
+import { PostCover } from './PostImages';
+import { PostLabels } from './PostLabels';
+import { ContactReveal } from './ContactReveal';
+// Note the extra ../ because we're in components subfolder
+import type { SavedPost, SavedPostState } from '../../../server/src/schema';
+
+const stateBadges: Record<SavedPostState, { label: string; className: string }> = {
+  active: { label: '🟢 Active', className: 'bg-green-100 text-green-800' },
+  expired: { label: '🔴 Expired', className: 'bg-red-100 text-red-800' },
+  unavailable: { label: '🚫 No longer available', className: 'bg-gray-200 text-gray-700' }
+};
+
+// The user's saved posts and whether each is still listed
+export function SavedPosts() {
+  const [posts, setPosts] = useState<SavedPost[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadPosts = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      setPosts(await trpc.getSavedPosts.query());
+    } catch (error) {
+      console.error('Failed to load saved posts:', error);
+      setError('Failed to load saved posts. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadPosts();
+  }, [loadPosts]);
+
+  const handleUnsave = async (postId: number) => {
+    try {
+      await trpc.unsavePost.mutate({ post_id: postId });
+      setPosts((prev: SavedPost[]) => prev.filter((post: SavedPost) => post.id !== postId));
+    } catch (error) {
+      console.error('Failed to unsave post:', error);
+      setError('Failed to remove the post. Please try again.');
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-semibold text-gray-900">⭐ Saved Posts ({posts.length})</h2>
+          <p className="text-gray-600">Listings you are keeping an eye on; you are notified when one expires or comes back</p>
+        </div>
+        <Button variant="outline" onClick={loadPosts} disabled={isLoading}>
+          {isLoading ? '🔄 Loading...' : '🔄 Refresh'}
+        </Button>
+      </div>
+
+      {error && <p className="text-sm text-red-700">❌ {error}</p>}
+
+      {posts.length === 0 ? (
+        <Card className="border-gray-200">
+          <CardContent className="py-12 text-center text-gray-600">
+            Nothing saved yet. Use ☆ on a public post to keep track of it.
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
+          {posts.map((post: SavedPost) => (
+            <Card key={post.id} className={`border-gray-200 ${post.state === 'active' ? '' : 'opacity-75'}`}>
+              <PostCover images={post.images} />
+              <CardHeader className="pb-2">
+                <div className="flex items-start justify-between gap-2">
+                  <CardTitle className="text-lg line-clamp-2">{post.title}</CardTitle>
+                  <Badge className={`whitespace-nowrap ${stateBadges[post.state].className}`}>
+                    {stateBadges[post.state].label}
+                  </Badge>
+                </div>
+                <p className="text-xs text-gray-500">
+                  Saved {post.saved_at.toLocaleString()}
+                  {post.state === 'active' && post.expires_at && ` · until ${post.expires_at.toLocaleString()}`}
+                </p>
+                {post.reposted && (
+                  <Badge variant="outline" className="w-fit border-indigo-300 text-indigo-700">🔁 Listed again since you saved it</Badge>
+                )}
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <p className="text-sm text-gray-700 line-clamp-3">{post.content}</p>
+                <PostLabels labels={post} />
+                <p className="text-lg font-semibold text-green-700">${post.price.toFixed(2)}</p>
+                {post.state === 'active' && <ContactReveal postId={post.id} maskedPhone={post.phone_masked} />}
+                <Button variant="outline" size="sm" onClick={() => handleUnsave(post.id)}>
+                  ✕ Remove
+                </Button>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,55 @@
+import {
+  Pagination,
+  PaginationContent,
+  PaginationItem,
+  PaginationNext,
+  PaginationPrevious
+} from '@/components/ui/pagination';
+
+interface TablePagerProps {
+  offset: number;
+  limit: number;
+  total: number;
+  onChange: (offset: number) => void;
+}
+
+// Previous/next controls for an offset-paginated table
+export function TablePager({ offset, limit, total, onChange }: TablePagerProps) {
+  const page = Math.floor(offset / limit) + 1;
+  const pageCount = Math.max(1, Math.ceil(total / limit));
+  const hasPrevious = offset > 0;
+  const hasNext = offset + limit < total;
+
+  const go = (event: React.MouseEvent, nextOffset: number, enabled: boolean) => {
+    event.preventDefault();
+    if (enabled) {
+      onChange(nextOffset);
+    }
+  };
+
+  return (
+    <Pagination className="mt-4">
+      <PaginationContent>
+        <PaginationItem>
+          <PaginationPrevious
+            href="#"
+            onClick={(event: React.MouseEvent) => go(event, Math.max(0, offset - limit), hasPrevious)}
+            aria-disabled={!hasPrevious}
+            className={hasPrevious ? '' : 'pointer-events-none opacity-50'}
+          />
+        </PaginationItem>
+        <PaginationItem className="px-3 text-sm text-gray-600">
+          Page {page} of {pageCount} · {total} total
+        </PaginationItem>
+        <PaginationItem>
+          <PaginationNext
+            href="#"
+            onClick={(event: React.MouseEvent) => go(event, offset + limit, hasNext)}
+            aria-disabled={!hasNext}
+            className={hasNext ? '' : 'pointer-events-none opacity-50'}
+          />
+        </PaginationItem>
+      </PaginationContent>
+    </Pagination>
+  );
+}
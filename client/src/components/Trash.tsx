@@ -0,0 +1,76 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { trpc } from '@/utils/trpc';
+// Note the extra ../ because we're in components subfolder
+import type { TrashedPost } from '../../../server/src/schema';
+
+interface TrashProps {
+  refreshKey?: number; // Bump to reload, e.g. after a delete
+  onRestored: () => Promise<void>;
+}
+
+export function Trash({ refreshKey = 0, onRestored }: TrashProps) {
+  const [posts, setPosts] = useState<TrashedPost[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadTrash = useCallback(async () => {
+    try {
+      setError(null);
+      setPosts(await trpc.getTrash.query());
+    } catch (error) {
+      console.error('Failed to load trash:', error);
+      setError('Failed to load the trash.');
+    }
+  }, []);
+
+  useEffect(() => {
+    loadTrash();
+  }, [loadTrash, refreshKey]);
+
+  const handleRestore = async (postId: number) => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      await trpc.restorePost.mutate({ id: postId });
+      setPosts((prev: TrashedPost[]) => prev.filter((post: TrashedPost) => post.id !== postId));
+      await onRestored();
+    } catch (error) {
+      console.error('Failed to restore post:', error);
+      setError(error instanceof Error ? error.message : 'Failed to restore post.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Card className="border-gray-200 bg-white/90">
+      <CardHeader>
+        <CardTitle className="text-lg text-gray-800">🗑️ Trash</CardTitle>
+        <p className="text-sm text-gray-500">Deleted posts are kept for 30 days before they are removed for good.</p>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {error && <p className="text-sm text-red-700">❌ {error}</p>}
+
+        {posts.length === 0 && !error && (
+          <p className="text-sm text-gray-500">The trash is empty.</p>
+        )}
+
+        {posts.map((post: TrashedPost) => (
+          <div key={post.id} className="flex items-center justify-between border-b border-gray-100 pb-2 text-sm">
+            <div>
+              <div className="font-medium text-gray-900">{post.title}</div>
+              <div className="text-gray-500">
+                Deleted {post.deleted_at?.toLocaleString()} · removed for good {post.purge_at.toLocaleDateString()}
+              </div>
+            </div>
+            <Button variant="outline" size="sm" disabled={isLoading} onClick={() => handleRestore(post.id)}>
+              ↩️ Restore
+            </Button>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,7 +1,6 @@
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { Separator } from '@/components/ui/separator';
 import type { Post } from '../../../server/src/schema';
 
 interface UserPostsProps {
@@ -38,12 +37,9 @@ export function UserPosts({ posts, onRefresh }: UserPostsProps) {
     });
   };
 
-  const isPostExpired = (expiresAt: Date) => {
-    return new Date(expiresAt).getTime() <= new Date().getTime();
-  };
-
-  const activePosts = posts.filter((post: Post) => !isPostExpired(post.expires_at));
-  const expiredPosts = posts.filter((post: Post) => isPostExpired(post.expires_at));
+  // Active posts always have an expiry; drafts and the rest fall under "expired"
+  const activePosts = posts.filter((post: Post) => post.is_active);
+  const expiredPosts = posts.filter((post: Post) => !post.is_active);
 
   return (
     <div className="space-y-6">
@@ -84,7 +80,7 @@ export function UserPosts({ posts, onRefresh }: UserPostsProps) {
               </h3>
               <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
                 {activePosts.map((post: Post) => {
-                  const isExpiringSoon = new Date(post.expires_at).getTime() - new Date().getTime() < 2 * 60 * 60 * 1000; // 2 hours
+                  const isExpiringSoon = new Date(post.expires_at!).getTime() - new Date().getTime() < 2 * 60 * 60 * 1000; // 2 hours
                   
                   return (
                     <Card 
@@ -104,7 +100,7 @@ export function UserPosts({ posts, onRefresh }: UserPostsProps) {
                                 : 'bg-green-100 text-green-700'
                             }`}
                           >
-                            ⏰ {formatTimeRemaining(post.expires_at)}
+                            ⏰ {formatTimeRemaining(post.expires_at!)}
                           </Badge>
                         </div>
                         <p className="text-sm text-gray-500">
@@ -113,21 +109,16 @@ export function UserPosts({ posts, onRefresh }: UserPostsProps) {
                       </CardHeader>
 
                       <CardContent className="space-y-4">
-                        {/* Post Image */}
-                        <div className="aspect-video bg-gray-100 rounded-lg overflow-hidden flex items-center justify-center">
-                          <div className="text-center text-gray-400">
-                            <div className="text-4xl mb-2">🖼️</div>
-                            <p className="text-sm">Demo Image</p>
-                            <p className="text-xs">({post.image_path})</p>
-                          </div>
-                        </div>
-
-                        {/* Post Description */}
+                        {/* Post Content */}
                         <div>
                           <p className="text-gray-700 text-sm line-clamp-3">
-                            {post.description}
+                            {post.content}
                           </p>
                         </div>
+
+                        <p className="text-lg font-bold text-green-600">
+                          ${post.price.toFixed(2)}
+                        </p>
                       </CardContent>
                     </Card>
                   );
@@ -164,21 +155,16 @@ export function UserPosts({ posts, onRefresh }: UserPostsProps) {
                     </CardHeader>
 
                     <CardContent className="space-y-4">
-                      {/* Post Image */}
-                      <div className="aspect-video bg-gray-100 rounded-lg overflow-hidden flex items-center justify-center grayscale">
-                        <div className="text-center text-gray-400">
-                          <div className="text-4xl mb-2">🖼️</div>
-                          <p className="text-sm">Demo Image</p>
-                          <p className="text-xs">({post.image_path})</p>
-                        </div>
-                      </div>
-
-                      {/* Post Description */}
+                      {/* Post Content */}
                       <div>
                         <p className="text-gray-500 text-sm line-clamp-3">
-                          {post.description}
+                          {post.content}
                         </p>
                       </div>
+
+                      <p className="text-lg font-bold text-gray-500">
+                        ${post.price.toFixed(2)}
+                      </p>
                     </CardContent>
                   </Card>
                 ))}
@@ -0,0 +1,13 @@
+import { useEffect, useState } from 'react';
+
+// The value as it was once it stopped changing for delayMs, e.g. to query on pauses in typing
+export function useDebouncedValue<T>(value: T, delayMs = 300): T {
+  const [debounced, setDebounced] = useState(value);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebounced(value), delayMs);
+    return () => clearTimeout(timer);
+  }, [value, delayMs]);
+
+  return debounced;
+}
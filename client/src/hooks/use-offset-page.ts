@@ -0,0 +1,44 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+export interface OffsetPage<T> {
+  items: T[];
+  total: number;
+}
+
+// One page of an offset-paginated list, reloaded whenever fetchPage or the offset changes.
+// Callers reset the offset to 0 when their filters change.
+export function useOffsetPage<T>(fetchPage: (offset: number) => Promise<OffsetPage<T>>) {
+  const [offset, setOffset] = useState(0);
+  const [page, setPage] = useState<OffsetPage<T>>({ items: [], total: 0 });
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Only the latest request may update the page, e.g. while a search is being typed
+  const requestId = useRef(0);
+
+  const reload = useCallback(async () => {
+    const id = ++requestId.current;
+    try {
+      setIsLoading(true);
+      setError(null);
+      const result = await fetchPage(offset);
+      if (id === requestId.current) {
+        setPage(result);
+      }
+    } catch (error) {
+      console.error('Failed to load page:', error);
+      if (id === requestId.current) {
+        setError('Failed to load. Please try again.');
+      }
+    } finally {
+      if (id === requestId.current) {
+        setIsLoading(false);
+      }
+    }
+  }, [fetchPage, offset]);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  return { ...page, offset, setOffset, isLoading, error, reload };
+}
@@ -4,3 +4,114 @@ import { twMerge } from "tailwind-merge"
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+// Format a date for a datetime-local input, which expects local time without a zone
+export function toDateTimeLocal(date: Date) {
+  const local = new Date(date.getTime() - date.getTimezoneOffset() * 60 * 1000)
+  return local.toISOString().slice(0, 16)
+}
+
+export type DiffPart = { type: "same" | "added" | "removed"; text: string }
+
+// Largest word-by-word table the diff builds; a bigger changed region is shown as replaced
+// wholesale, since post content has no length limit and the table would stall the page
+const MAX_DIFF_CELLS = 1_000_000
+
+// Word-level diff of two texts (longest common subsequence), keeping whitespace
+export function diffWords(before: string, after: string): DiffPart[] {
+  const a = before.split(/(\s+)/).filter(Boolean)
+  const b = after.split(/(\s+)/).filter(Boolean)
+
+  const parts: DiffPart[] = []
+  const push = (type: DiffPart["type"], text: string) => {
+    if (!text) return
+    const last = parts[parts.length - 1]
+    if (last && last.type === type) {
+      last.text += text
+    } else {
+      parts.push({ type, text })
+    }
+  }
+
+  // Unchanged words at either end need no table; most edits touch a small part of a post
+  let prefix = 0
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++
+  let suffix = 0
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) suffix++
+
+  const oldWords = a.slice(prefix, a.length - suffix)
+  const newWords = b.slice(prefix, b.length - suffix)
+  push("same", a.slice(0, prefix).join(""))
+
+  if ((oldWords.length + 1) * (newWords.length + 1) > MAX_DIFF_CELLS) {
+    push("removed", oldWords.join(""))
+    push("added", newWords.join(""))
+  } else {
+    // lengths[i * width + j] = LCS length of oldWords[i..] and newWords[j..]
+    const width = newWords.length + 1
+    const lengths = new Uint32Array((oldWords.length + 1) * width)
+    for (let i = oldWords.length - 1; i >= 0; i--) {
+      for (let j = newWords.length - 1; j >= 0; j--) {
+        lengths[i * width + j] = oldWords[i] === newWords[j]
+          ? lengths[(i + 1) * width + j + 1] + 1
+          : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1])
+      }
+    }
+
+    let i = 0
+    let j = 0
+    while (i < oldWords.length && j < newWords.length) {
+      if (oldWords[i] === newWords[j]) {
+        push("same", oldWords[i])
+        i++
+        j++
+      } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+        push("removed", oldWords[i++])
+      } else {
+        push("added", newWords[j++])
+      }
+    }
+    while (i < oldWords.length) push("removed", oldWords[i++])
+    while (j < newWords.length) push("added", newWords[j++])
+  }
+
+  push("same", a.slice(a.length - suffix).join(""))
+  return parts
+}
+
+// Depth-first order of a flat category list, with each category's nesting depth
+export function flattenCategoryTree<C extends { id: number; parent_id: number | null }>(categories: C[]) {
+  const children = new Map<number | null, C[]>()
+  for (const category of categories) {
+    children.set(category.parent_id, [...(children.get(category.parent_id) ?? []), category])
+  }
+
+  const entries: { category: C; depth: number }[] = []
+  const visit = (parentId: number | null, depth: number) => {
+    for (const category of children.get(parentId) ?? []) {
+      entries.push({ category, depth })
+      visit(category.id, depth + 1)
+    }
+  }
+  visit(null, 0)
+  return entries
+}
+
+// Server paths such as image urls, reached through the same /api proxy as tRPC
+export function assetUrl(path: string) {
+  return `/api${path}`
+}
+
+// File contents as base64 without the data: URL prefix, for JSON uploads
+export function readFileAsBase64(file: File) {
+  return new Promise<string>((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve((reader.result as string).split(",")[1] ?? "")
+    reader.onerror = () => reject(reader.error)
+    reader.readAsDataURL(file)
+  })
+}
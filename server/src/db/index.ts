@@ -9,3 +9,9 @@ const pool = new Pool({
 
 // Pass schema to drizzle for relation queries
 export const db = drizzle(pool, { schema });
+
+// Transaction handle passed to db.transaction() callbacks
+export type DbTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Anything queries can run on: the pool or an open transaction
+export type DbExecutor = typeof db | DbTransaction;
@@ -1,19 +1,426 @@
-import { serial, text, pgTable, timestamp, numeric, boolean } from 'drizzle-orm/pg-core';
+import { serial, text, pgTable, pgEnum, timestamp, numeric, boolean, integer, jsonb, uniqueIndex, index, customType, primaryKey, type AnyPgColumn } from 'drizzle-orm/pg-core';
+import { sql } from 'drizzle-orm';
+
+// Postgres full-text search document; only ever read through SQL functions
+const tsvector = customType<{ data: string }>({
+  dataType: () => 'tsvector'
+});
+
+// Kinds of credit ledger entries; the sign of the amount says which way credits moved
+export const creditEntryTypeEnum = pgEnum('credit_entry_type', ['purchase', 'post_fee', 'repost_fee', 'refund', 'grant', 'adjustment']);
+
+// How long a post stays listed; fees per duration live in lib/post_durations.ts
+export const postDurationEnum = pgEnum('post_duration', ['6h', '24h', '3d', '7d']);
+
+// Lifecycle of a post; only "active" posts are publicly listed
+export const postStatusEnum = pgEnum('post_status', ['draft', 'scheduled', 'active', 'expired', 'archived', 'removed']);
+
+// How a post revision came about
+export const postRevisionActionEnum = pgEnum('post_revision_action', ['created', 'updated', 'restored']);
+
+export const paymentMethodEnum = pgEnum('payment_method', ['credit_card', 'paypal', 'bank_transfer']);
+
+// Purchases start as pending and end as succeeded or failed; requires_action waits on the payer
+export const purchaseStatusEnum = pgEnum('purchase_status', ['pending', 'requires_action', 'succeeded', 'failed']);
+
+// Why a post was reported; mirrored by reportReasonSchema
+export const reportReasonEnum = pgEnum('report_reason', ['spam', 'scam', 'prohibited_item', 'offensive', 'wrong_category', 'other']);
+
+// Reports stay open until a moderator dismisses them or acts on the post
+export const reportStatusEnum = pgEnum('report_status', ['open', 'dismissed', 'actioned']);
+
+// What was done to a reported post; auto_hide is taken by the system, everything else by a moderator
+export const moderationActionEnum = pgEnum('moderation_action', ['auto_hide', 'dismiss', 'hide', 'remove', 'ban']);
+
+// What a user may do beyond their own account: moderators work the report queue, admins run the site
+export const userRoleEnum = pgEnum('user_role', ['user', 'moderator', 'admin']);
+
+// Operations run through the admin router; mirrored by adminActionTypeSchema
+export const adminActionEnum = pgEnum('admin_action', ['adjust_credits', 'expire_post', 'set_role']);
+
+// Outcome of an audited mutation
+export const auditStatusEnum = pgEnum('audit_status', ['success', 'error']);
+
+// What an audited mutation acted on
+export const auditEntityEnum = pgEnum('audit_entity', ['post', 'user', 'conversation', 'image', 'credit_package']);
+
+export const usersTable = pgTable('users', {
+  id: serial('id').primaryKey(),
+  email: text('email').notNull().unique(), // Login identifier, compared case-sensitively
+  password_hash: text('password_hash').notNull(), // Stored as "<scrypt hash>:<salt>"
+  phone_number: text('phone_number').notNull(),
+  credits: integer('credits').notNull().default(1), // New users get one credit for their first post
+  role: userRoleEnum('role').notNull().default('user'),
+  banned_at: timestamp('banned_at'), // Set when a moderator bans the user; banned users cannot log in
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull(),
+});
 
 export const postsTable = pgTable('posts', {
   id: serial('id').primaryKey(),
+  user_id: integer('user_id').notNull().references(() => usersTable.id), // Owner of the post
   title: text('title').notNull(),
   content: text('content').notNull(),
   price: numeric('price', { precision: 10, scale: 2 }).notNull(), // Use numeric for monetary values with precision
-  posted_at: timestamp('posted_at').defaultNow().notNull(), // When the post was published/re-posted
-  expires_at: timestamp('expires_at').notNull(), // Calculated as posted_at + 24 hours
+  publish_at: timestamp('publish_at'), // Go-live time of a scheduled post; null when published immediately
+  posted_at: timestamp('posted_at').defaultNow(), // When the post was published/re-posted; null for drafts
+  status: postStatusEnum('status').notNull().default('active'),
+  duration: postDurationEnum('duration').notNull().default('24h'), // Listing length chosen at the last (re-)post
+  expires_at: timestamp('expires_at'), // Calculated as posted_at + duration; null for drafts
+  auto_renew: boolean('auto_renew').notNull().default(false), // Re-post automatically when the listing runs out
+  auto_renew_max_renewals: integer('auto_renew_max_renewals'), // Stop after this many renewals; null for no limit
+  auto_renew_spend_cap: integer('auto_renew_spend_cap'), // Stop before spending more credits than this; null for no cap
+  auto_renew_renewals: integer('auto_renew_renewals').notNull().default(0), // Renewals since auto-renew was last enabled
+  auto_renew_spent: integer('auto_renew_spent').notNull().default(0), // Credits spent since auto-renew was last enabled
+  auto_renew_stopped_reason: text('auto_renew_stopped_reason'), // Why the scheduler turned auto-renew off
+  deleted_at: timestamp('deleted_at'), // Set when moved to the trash; purged after the retention period
+  hidden_at: timestamp('hidden_at'), // Set while moderation keeps the post out of public view
+  // Search document kept in sync by Postgres; title matches weigh more than content matches
+  search_vector: tsvector('search_vector').generatedAlwaysAs(
+    sql`setweight(to_tsvector('english', coalesce(title, '')), 'A') || setweight(to_tsvector('english', coalesce(content, '')), 'B')`
+  ),
   created_at: timestamp('created_at').defaultNow().notNull(), // When the post was first created
   updated_at: timestamp('updated_at').defaultNow().notNull(), // When the post was last modified
+}, (table) => [
+  index('posts_search_vector_idx').using('gin', table.search_vector)
+]);
+
+// Snapshot of a post's listing text and price after every change, so past versions can be shown and restored
+export const postRevisionsTable = pgTable('post_revisions', {
+  id: serial('id').primaryKey(),
+  post_id: integer('post_id').notNull().references(() => postsTable.id, { onDelete: 'cascade' }),
+  author_id: integer('author_id').notNull().references(() => usersTable.id), // Who made the change
+  action: postRevisionActionEnum('action').notNull(),
+  restored_from_id: integer('restored_from_id'), // Revision copied back by a restore
+  title: text('title').notNull(),
+  content: text('content').notNull(),
+  price: numeric('price', { precision: 10, scale: 2 }).notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Managed category tree, e.g. Vehicles > Cars; top-level categories have no parent
+export const categoriesTable = pgTable('categories', {
+  id: serial('id').primaryKey(),
+  parent_id: integer('parent_id').references((): AnyPgColumn => categoriesTable.id), // A category with children cannot be dropped
+  name: text('name').notNull(),
+  slug: text('slug').notNull().unique(), // URL-friendly, unique across the whole tree
+  sort_order: integer('sort_order').notNull().default(0), // Position among siblings
+  created_at: timestamp('created_at').defaultNow().notNull(),
 });
 
+// Free-form labels, shared between posts; names are stored lowercased
+export const tagsTable = pgTable('tags', {
+  id: serial('id').primaryKey(),
+  name: text('name').notNull().unique(),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+});
+
+export const postCategoriesTable = pgTable('post_categories', {
+  post_id: integer('post_id').notNull().references(() => postsTable.id, { onDelete: 'cascade' }),
+  category_id: integer('category_id').notNull().references(() => categoriesTable.id),
+}, (table) => [
+  primaryKey({ columns: [table.post_id, table.category_id] }),
+  index('post_categories_category_id_idx').on(table.category_id)
+]);
+
+export const postTagsTable = pgTable('post_tags', {
+  post_id: integer('post_id').notNull().references(() => postsTable.id, { onDelete: 'cascade' }),
+  tag_id: integer('tag_id').notNull().references(() => tagsTable.id),
+}, (table) => [
+  primaryKey({ columns: [table.post_id, table.tag_id] }),
+  index('post_tags_tag_id_idx').on(table.tag_id)
+]);
+
+// Uploaded images and their generated sizes. Files live in object storage under the keys below;
+// an image belongs to its uploader until it is attached to one of their posts.
+export const postImagesTable = pgTable('post_images', {
+  id: serial('id').primaryKey(),
+  user_id: integer('user_id').notNull().references(() => usersTable.id), // Uploader
+  post_id: integer('post_id').references(() => postsTable.id, { onDelete: 'cascade' }), // Null until attached
+  position: integer('position').notNull().default(0), // Order within the post; 0 is the cover
+  content_type: text('content_type').notNull(), // Of the original, as detected from the file
+  width: integer('width').notNull(),
+  height: integer('height').notNull(),
+  size_bytes: integer('size_bytes').notNull(), // Of the stored original
+  original_key: text('original_key').notNull(),
+  medium_key: text('medium_key').notNull(),
+  thumbnail_key: text('thumbnail_key').notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  index('post_images_post_id_idx').on(table.post_id, table.position)
+]);
+
+// Credit bundles on sale; prices live here so the client never decides what it pays
+export const creditPackagesTable = pgTable('credit_packages', {
+  id: serial('id').primaryKey(),
+  name: text('name').notNull(),
+  credits: integer('credits').notNull(),
+  bonus_credits: integer('bonus_credits').notNull().default(0), // Added on top of credits for free
+  price: numeric('price', { precision: 10, scale: 2 }).notNull(), // USD
+  is_popular: boolean('is_popular').notNull().default(false), // Highlighted in the shop
+  is_active: boolean('is_active').notNull().default(true), // Inactive packages can no longer be bought
+  sort_order: integer('sort_order').notNull().default(0),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Every attempt to buy credits, whatever the payment outcome
+export const creditPurchasesTable = pgTable('credit_purchases', {
+  id: serial('id').primaryKey(),
+  user_id: integer('user_id').notNull().references(() => usersTable.id),
+  package_id: integer('package_id').references(() => creditPackagesTable.id),
+  credits_purchased: integer('credits_purchased').notNull(), // Base credits of the package
+  bonus_credits: integer('bonus_credits').notNull().default(0),
+  amount_paid: numeric('amount_paid', { precision: 10, scale: 2 }).notNull(), // Charged amount in USD
+  payment_method: paymentMethodEnum('payment_method').notNull(),
+  status: purchaseStatusEnum('status').notNull().default('pending'),
+  transaction_id: text('transaction_id'), // Gateway reference, set once the gateway has answered
+  failure_reason: text('failure_reason'), // Gateway message for failed or action-required payments
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull(),
+});
+
+// Append-only record of every credit movement; users.credits is the running total of these entries
+export const creditLedgerTable = pgTable('credit_ledger', {
+  id: serial('id').primaryKey(),
+  user_id: integer('user_id').notNull().references(() => usersTable.id),
+  amount: integer('amount').notNull(), // Positive for credits added, negative for credits spent
+  entry_type: creditEntryTypeEnum('entry_type').notNull(),
+  reason: text('reason').notNull(), // Human-readable explanation shown in the history
+  post_id: integer('post_id').references(() => postsTable.id, { onDelete: 'set null' }), // Set for post and repost fees; kept after the post is purged
+  purchase_id: integer('purchase_id').references(() => creditPurchasesTable.id), // Set for purchases
+  created_at: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Results of mutations sent with an idempotency key, replayed when the same key is sent again
+export const idempotencyKeysTable = pgTable('idempotency_keys', {
+  id: serial('id').primaryKey(),
+  user_id: integer('user_id').notNull().references(() => usersTable.id),
+  operation: text('operation').notNull(), // Procedure the key was used for, e.g. "createPost"
+  key: text('key').notNull(), // Client-generated, one per user action
+  request_hash: text('request_hash').notNull(), // Detects the same key reused for a different request
+  response: text('response'), // superjson-encoded result; null while the first request is still running
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex('idempotency_keys_user_operation_key_idx').on(table.user_id, table.operation, table.key)
+]);
+
+// Messages for a user about things that happened to their account or posts
+export const notificationsTable = pgTable('notifications', {
+  id: serial('id').primaryKey(),
+  user_id: integer('user_id').notNull().references(() => usersTable.id),
+  post_id: integer('post_id').references(() => postsTable.id, { onDelete: 'set null' }),
+  message: text('message').notNull(),
+  read_at: timestamp('read_at'), // Null until the user has seen it
+  created_at: timestamp('created_at').defaultNow().notNull(),
+});
+
+// A logged-in visitor was shown a post's contact phone; one row per viewer and post
+export const contactRevealsTable = pgTable('contact_reveals', {
+  id: serial('id').primaryKey(),
+  post_id: integer('post_id').notNull().references(() => postsTable.id, { onDelete: 'cascade' }),
+  viewer_id: integer('viewer_id').notNull().references(() => usersTable.id),
+  created_at: timestamp('created_at').defaultNow().notNull(), // First reveal; repeats are not logged again
+}, (table) => [
+  uniqueIndex('contact_reveals_post_viewer_idx').on(table.post_id, table.viewer_id),
+  index('contact_reveals_viewer_created_at_idx').on(table.viewer_id, table.created_at)
+]);
+
+// A thread between a post's owner and one interested buyer
+export const conversationsTable = pgTable('conversations', {
+  id: serial('id').primaryKey(),
+  post_id: integer('post_id').notNull().references(() => postsTable.id, { onDelete: 'cascade' }),
+  owner_id: integer('owner_id').notNull().references(() => usersTable.id), // The post's owner
+  buyer_id: integer('buyer_id').notNull().references(() => usersTable.id), // Whoever started the thread
+  // Newest message each side has seen; messages after it from the other side are unread
+  owner_last_read_id: integer('owner_last_read_id').notNull().default(0),
+  buyer_last_read_id: integer('buyer_last_read_id').notNull().default(0),
+  last_message_at: timestamp('last_message_at').defaultNow().notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex('conversations_post_buyer_idx').on(table.post_id, table.buyer_id),
+  index('conversations_owner_last_message_at_idx').on(table.owner_id, table.last_message_at),
+  index('conversations_buyer_last_message_at_idx').on(table.buyer_id, table.last_message_at)
+]);
+
+export const messagesTable = pgTable('messages', {
+  id: serial('id').primaryKey(),
+  conversation_id: integer('conversation_id').notNull().references(() => conversationsTable.id, { onDelete: 'cascade' }),
+  sender_id: integer('sender_id').notNull().references(() => usersTable.id),
+  body: text('body').notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  index('messages_conversation_id_idx').on(table.conversation_id, table.id)
+]);
+
+// blocker_id no longer hears from blocked_id, and blocked_id cannot message blocker_id
+export const userBlocksTable = pgTable('user_blocks', {
+  blocker_id: integer('blocker_id').notNull().references(() => usersTable.id),
+  blocked_id: integer('blocked_id').notNull().references(() => usersTable.id),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  primaryKey({ columns: [table.blocker_id, table.blocked_id] })
+]);
+
+// Posts a user keeps track of; the list shows whether each is still listed
+export const savedPostsTable = pgTable('saved_posts', {
+  user_id: integer('user_id').notNull().references(() => usersTable.id),
+  post_id: integer('post_id').notNull().references(() => postsTable.id, { onDelete: 'cascade' }),
+  saved_at: timestamp('saved_at').defaultNow().notNull(),
+}, (table) => [
+  primaryKey({ columns: [table.user_id, table.post_id] }),
+  index('saved_posts_post_id_idx').on(table.post_id)
+]);
+
+// A user flagged a post for review; one open report per reporter and post
+export const postReportsTable = pgTable('post_reports', {
+  id: serial('id').primaryKey(),
+  post_id: integer('post_id').notNull().references(() => postsTable.id, { onDelete: 'cascade' }),
+  reporter_id: integer('reporter_id').notNull().references(() => usersTable.id),
+  reason: reportReasonEnum('reason').notNull(),
+  details: text('details'), // Free text from the reporter; required for "other"
+  status: reportStatusEnum('status').notNull().default('open'),
+  resolved_at: timestamp('resolved_at'), // When a moderator dismissed or acted on the report
+  resolved_by: integer('resolved_by').references(() => usersTable.id),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex('post_reports_open_post_reporter_idx').on(table.post_id, table.reporter_id).where(sql`${table.status} = 'open'`),
+  index('post_reports_status_created_at_idx').on(table.status, table.created_at)
+]);
+
+// Append-only record of every moderation action, automatic or not
+export const moderationActionsTable = pgTable('moderation_actions', {
+  id: serial('id').primaryKey(),
+  action: moderationActionEnum('action').notNull(),
+  moderator_id: integer('moderator_id').references(() => usersTable.id), // Null for automatic actions
+  post_id: integer('post_id').references(() => postsTable.id, { onDelete: 'set null' }), // Kept after the post is purged
+  target_user_id: integer('target_user_id').notNull().references(() => usersTable.id), // Owner of the post acted on
+  note: text('note'), // Moderator's explanation, shown to the owner
+  refunded_credits: integer('refunded_credits'), // Set when a removal refunded the listing fee
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  index('moderation_actions_created_at_idx').on(table.created_at)
+]);
+
+// Append-only record of every operation run through the admin router
+export const adminActionsTable = pgTable('admin_actions', {
+  id: serial('id').primaryKey(),
+  admin_id: integer('admin_id').notNull().references(() => usersTable.id),
+  action: adminActionEnum('action').notNull(),
+  target_user_id: integer('target_user_id').references(() => usersTable.id), // User the action was about
+  post_id: integer('post_id').references(() => postsTable.id, { onDelete: 'set null' }), // Kept after the post is purged
+  details: text('details').notNull(), // Human-readable description, e.g. "+20 credits: goodwill"
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  index('admin_actions_created_at_idx').on(table.created_at)
+]);
+
+// One row per mutation call, written by the audit middleware whether or not the call succeeded
+export const auditLogTable = pgTable('audit_log', {
+  id: serial('id').primaryKey(),
+  actor_id: integer('actor_id').references(() => usersTable.id), // Null for anonymous calls such as login
+  procedure: text('procedure').notNull(), // tRPC path, e.g. "admin.adjustCredits"
+  input: jsonb('input').$type<unknown>(), // Secrets and image data redacted, long strings shortened
+  entity_type: auditEntityEnum('entity_type'),
+  entity_id: integer('entity_id'), // Kept after the entity is purged, so not a foreign key
+  status: auditStatusEnum('status').notNull(),
+  error_code: text('error_code'), // tRPC error code when status is "error"
+  ip: text('ip'), // X-Real-IP from the proxy, else the socket address
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  index('audit_log_created_at_idx').on(table.created_at),
+  index('audit_log_actor_idx').on(table.actor_id, table.created_at),
+  index('audit_log_entity_idx').on(table.entity_type, table.entity_id)
+]);
+
 // TypeScript types for the table schema
+export type User = typeof usersTable.$inferSelect; // For SELECT operations
+export type NewUser = typeof usersTable.$inferInsert; // For INSERT operations
+
 export type Post = typeof postsTable.$inferSelect; // For SELECT operations
 export type NewPost = typeof postsTable.$inferInsert; // For INSERT operations
 
+export type PostRevision = typeof postRevisionsTable.$inferSelect;
+export type NewPostRevision = typeof postRevisionsTable.$inferInsert;
+
+export type Category = typeof categoriesTable.$inferSelect;
+export type NewCategory = typeof categoriesTable.$inferInsert;
+
+export type Tag = typeof tagsTable.$inferSelect;
+export type NewTag = typeof tagsTable.$inferInsert;
+
+export type PostCategory = typeof postCategoriesTable.$inferSelect;
+export type NewPostCategory = typeof postCategoriesTable.$inferInsert;
+
+export type PostTag = typeof postTagsTable.$inferSelect;
+export type NewPostTag = typeof postTagsTable.$inferInsert;
+
+export type PostImage = typeof postImagesTable.$inferSelect;
+export type NewPostImage = typeof postImagesTable.$inferInsert;
+
+export type CreditPackage = typeof creditPackagesTable.$inferSelect;
+export type NewCreditPackage = typeof creditPackagesTable.$inferInsert;
+
+export type CreditPurchase = typeof creditPurchasesTable.$inferSelect;
+export type NewCreditPurchase = typeof creditPurchasesTable.$inferInsert;
+
+export type CreditLedgerEntry = typeof creditLedgerTable.$inferSelect;
+export type NewCreditLedgerEntry = typeof creditLedgerTable.$inferInsert;
+
+export type IdempotencyKey = typeof idempotencyKeysTable.$inferSelect;
+export type NewIdempotencyKey = typeof idempotencyKeysTable.$inferInsert;
+
+export type Notification = typeof notificationsTable.$inferSelect;
+export type NewNotification = typeof notificationsTable.$inferInsert;
+
+export type ContactReveal = typeof contactRevealsTable.$inferSelect;
+export type NewContactReveal = typeof contactRevealsTable.$inferInsert;
+
+export type Conversation = typeof conversationsTable.$inferSelect;
+export type NewConversation = typeof conversationsTable.$inferInsert;
+
+export type Message = typeof messagesTable.$inferSelect;
+export type NewMessage = typeof messagesTable.$inferInsert;
+
+export type UserBlock = typeof userBlocksTable.$inferSelect;
+export type NewUserBlock = typeof userBlocksTable.$inferInsert;
+
+export type SavedPost = typeof savedPostsTable.$inferSelect;
+export type NewSavedPost = typeof savedPostsTable.$inferInsert;
+
+export type PostReport = typeof postReportsTable.$inferSelect;
+export type NewPostReport = typeof postReportsTable.$inferInsert;
+
+export type ModerationAction = typeof moderationActionsTable.$inferSelect;
+export type NewModerationAction = typeof moderationActionsTable.$inferInsert;
+
+export type AdminAction = typeof adminActionsTable.$inferSelect;
+export type NewAdminAction = typeof adminActionsTable.$inferInsert;
+
+export type AuditLogEntry = typeof auditLogTable.$inferSelect;
+export type NewAuditLogEntry = typeof auditLogTable.$inferInsert;
+
 // Important: Export all tables for proper query building
-export const tables = { posts: postsTable };
\ No newline at end of file
+export const tables = {
+  users: usersTable,
+  posts: postsTable,
+  postRevisions: postRevisionsTable,
+  categories: categoriesTable,
+  tags: tagsTable,
+  postCategories: postCategoriesTable,
+  postTags: postTagsTable,
+  postImages: postImagesTable,
+  creditPackages: creditPackagesTable,
+  creditPurchases: creditPurchasesTable,
+  creditLedger: creditLedgerTable,
+  idempotencyKeys: idempotencyKeysTable,
+  notifications: notificationsTable,
+  contactReveals: contactRevealsTable,
+  conversations: conversationsTable,
+  messages: messagesTable,
+  userBlocks: userBlocksTable,
+  savedPosts: savedPostsTable,
+  postReports: postReportsTable,
+  moderationActions: moderationActionsTable,
+  adminActions: adminActionsTable,
+  auditLog: auditLogTable
+};
@@ -0,0 +1,47 @@
+import { db } from '../db';
+import { postsTable } from '../db/schema';
+import { and, eq, lte } from 'drizzle-orm';
+import { getExpiresAt } from '../lib/post_durations';
+import { notDeletedCondition } from '../lib/posts';
+import { postEvents } from '../lib/post_events';
+
+// Scheduler job: publish scheduled posts whose publish time has come. The visibility
+// window starts at activation, so a late tick never shortens a listing.
+// Returns the ids of the posts activated in this run.
+export const activateScheduledPosts = async (now: Date = new Date()): Promise<number[]> => {
+  try {
+    const due = await db.select()
+      .from(postsTable)
+      .where(and(
+        eq(postsTable.status, 'scheduled'),
+        lte(postsTable.publish_at, now),
+        notDeletedCondition()
+      ))
+      .execute();
+
+    const activated: number[] = [];
+    for (const post of due) {
+      // Guarded on status so a concurrent cancel wins cleanly
+      const result = await db.update(postsTable)
+        .set({
+          status: 'active',
+          posted_at: now,
+          expires_at: getExpiresAt(now, post.duration),
+          updated_at: now
+        })
+        .where(and(eq(postsTable.id, post.id), eq(postsTable.status, 'scheduled')))
+        .returning({ id: postsTable.id })
+        .execute();
+
+      if (result.length > 0) {
+        activated.push(post.id);
+        postEvents.emit('published', { post_id: post.id, user_id: post.user_id, status: 'active', at: now });
+      }
+    }
+
+    return activated;
+  } catch (error) {
+    console.error('Activating scheduled posts failed:', error);
+    throw error;
+  }
+};
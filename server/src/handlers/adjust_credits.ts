@@ -0,0 +1,44 @@
+import { db } from '../db';
+import { usersTable } from '../db/schema';
+import { type AdjustCreditsInput } from '../schema';
+import { eq } from 'drizzle-orm';
+import { postLedgerEntry } from '../lib/credit_ledger';
+import { notifyUser } from '../lib/notifications';
+import { recordAdminAction } from '../lib/roles';
+
+// Admin tool: add or take away credits through a ledger adjustment, so the user's history explains
+// the change. Taking away more than the balance fails. Returns the new balance.
+export const adjustCredits = async (input: AdjustCreditsInput, adminId: number): Promise<{ credits: number }> => {
+  try {
+    return await db.transaction(async (tx) => {
+      const users = await tx.select({ id: usersTable.id })
+        .from(usersTable)
+        .where(eq(usersTable.id, input.user_id))
+        .execute();
+      if (users.length === 0) {
+        throw new Error(`User with id ${input.user_id} not found`);
+      }
+
+      const credits = await postLedgerEntry(tx, {
+        user_id: input.user_id,
+        amount: input.amount,
+        entry_type: 'adjustment',
+        reason: input.reason
+      });
+
+      const change = `${input.amount > 0 ? '+' : ''}${input.amount} credits`;
+      await recordAdminAction(tx, {
+        admin_id: adminId,
+        action: 'adjust_credits',
+        target_user_id: input.user_id,
+        details: `${change}: ${input.reason}`
+      });
+      await notifyUser({ user_id: input.user_id, message: `Your balance was adjusted by ${change}: ${input.reason}` }, tx);
+
+      return { credits };
+    });
+  } catch (error) {
+    console.error('Credit adjustment failed:', error);
+    throw error;
+  }
+};
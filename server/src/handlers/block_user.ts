@@ -0,0 +1,33 @@
+import { TRPCError } from '@trpc/server';
+import { db } from '../db';
+import { userBlocksTable, usersTable } from '../db/schema';
+import { type BlockUserInput } from '../schema';
+import { eq } from 'drizzle-orm';
+
+// Stop another user from messaging the current user, in every conversation; blocking twice is harmless
+export async function blockUser(input: BlockUserInput, userId: number): Promise<{ success: boolean }> {
+  try {
+    if (input.user_id === userId) {
+      throw new TRPCError({ code: 'BAD_REQUEST', message: 'You cannot block yourself' });
+    }
+
+    const users = await db.select({ id: usersTable.id })
+      .from(usersTable)
+      .where(eq(usersTable.id, input.user_id))
+      .execute();
+
+    if (users.length === 0) {
+      throw new Error(`User with id ${input.user_id} not found`);
+    }
+
+    await db.insert(userBlocksTable)
+      .values({ blocker_id: userId, blocked_id: input.user_id })
+      .onConflictDoNothing()
+      .execute();
+
+    return { success: true };
+  } catch (error) {
+    console.error('Blocking user failed:', error);
+    throw error;
+  }
+}
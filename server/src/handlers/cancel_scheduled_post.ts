@@ -0,0 +1,57 @@
+import { db } from '../db';
+import { creditLedgerTable, postsTable } from '../db/schema';
+import { type CancelScheduledPostInput, type Post } from '../schema';
+import { and, desc, eq } from 'drizzle-orm';
+import { getOwnedPost, toPost } from '../lib/posts';
+import { postLedgerEntry } from '../lib/credit_ledger';
+import { postEvents } from '../lib/post_events';
+
+// Call off a scheduled post before it goes live: it is archived and its fee refunded. It never
+// ran, so it loses its publication window and does not count as the user's free first post.
+export const cancelScheduledPost = async (input: CancelScheduledPostInput, userId: number): Promise<Post> => {
+  try {
+    const now = new Date();
+
+    const post = await db.transaction(async (tx) => {
+      await getOwnedPost(input.id, userId, tx);
+
+      // The status guard makes cancel and activation mutually exclusive
+      const result = await tx.update(postsTable)
+        .set({ status: 'archived', publish_at: null, posted_at: null, expires_at: null, updated_at: now })
+        .where(and(eq(postsTable.id, input.id), eq(postsTable.status, 'scheduled')))
+        .returning()
+        .execute();
+
+      if (result.length === 0) {
+        throw new Error(`Post with id ${input.id} is not scheduled`);
+      }
+
+      // Refund what was paid when the post was scheduled
+      const fees = await tx.select({ amount: creditLedgerTable.amount })
+        .from(creditLedgerTable)
+        .where(and(eq(creditLedgerTable.post_id, input.id), eq(creditLedgerTable.entry_type, 'post_fee')))
+        .orderBy(desc(creditLedgerTable.id))
+        .limit(1)
+        .execute();
+
+      if (fees.length > 0) {
+        await postLedgerEntry(tx, {
+          user_id: userId,
+          amount: -fees[0].amount,
+          entry_type: 'refund',
+          reason: `Refund for cancelled scheduled post "${result[0].title}"`,
+          post_id: input.id
+        });
+      }
+
+      return result[0];
+    });
+
+    postEvents.emit('cancelled', { post_id: post.id, user_id: userId, status: post.status, at: now });
+
+    return toPost(post);
+  } catch (error) {
+    console.error('Cancelling scheduled post failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,47 @@
+import { TRPCError } from '@trpc/server';
+import { db } from '../db';
+import { creditPurchasesTable } from '../db/schema';
+import { type ConfirmPurchaseInput, type CreditPurchase } from '../schema';
+import { eq } from 'drizzle-orm';
+import { finalizePurchase, isFinalPurchase, toCreditPurchase } from '../lib/credit_purchases';
+import { localPaymentGateway, type PaymentGateway } from '../lib/payment_gateway';
+
+// Called by the buyer once they have confirmed a payment with their bank: passes that on to
+// the gateway and finishes the purchase if the charge has an outcome. A purchase that
+// still needs action, or that already has an outcome, is returned as it is.
+export const confirmPurchase = async (
+  input: ConfirmPurchaseInput,
+  userId: number,
+  gateway: PaymentGateway = localPaymentGateway
+): Promise<CreditPurchase> => {
+  try {
+    const [purchase] = await db.select()
+      .from(creditPurchasesTable)
+      .where(eq(creditPurchasesTable.id, input.purchase_id))
+      .execute();
+
+    if (!purchase) {
+      throw new Error(`Credit purchase with id ${input.purchase_id} not found`);
+    }
+    if (purchase.user_id !== userId) {
+      throw new TRPCError({ code: 'FORBIDDEN', message: `You do not own purchase ${input.purchase_id}` });
+    }
+    if (purchase.status !== 'requires_action' && purchase.status !== 'pending') {
+      return toCreditPurchase(purchase);
+    }
+
+    const payment = await gateway.confirm(purchase.id);
+    if (!payment || payment.status === purchase.status) {
+      return toCreditPurchase(purchase);
+    }
+
+    const finished = await finalizePurchase(purchase.id, payment);
+    if (isFinalPurchase(finished)) {
+      gateway.release(finished.id);
+    }
+    return toCreditPurchase(finished);
+  } catch (error) {
+    console.error('Confirm purchase failed:', error);
+    throw error;
+  }
+};
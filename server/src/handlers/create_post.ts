@@ -1,38 +1,120 @@
+import { TRPCError } from '@trpc/server';
 import { db } from '../db';
 import { postsTable } from '../db/schema';
-import { type CreatePostInput, type Post } from '../schema';
+import { type CreatePostInput, type DetailedPost } from '../schema';
+import { getPostFee, postLedgerEntry } from '../lib/credit_ledger';
+import { DEFAULT_POST_DURATION, getExpiresAt, POST_DURATIONS } from '../lib/post_durations';
+import { assertFuturePublishTime, toPost } from '../lib/posts';
+import { postEvents } from '../lib/post_events';
+import { recordPostRevision } from '../lib/post_revisions';
+import { setPostLabels } from '../lib/post_labels';
+import { setPostImages } from '../lib/post_images';
+import { withPostDetails } from '../lib/post_details';
 
-export const createPost = async (input: CreatePostInput): Promise<Post> => {
-  try {
-    // Calculate timestamps
-    const now = new Date();
-    const expiresAt = new Date(now.getTime() + 24 * 60 * 60 * 1000); // 24 hours from now
-    
-    // Insert post record
-    const result = await db.insert(postsTable)
+// Store a draft: no listing window and no fee until publishPost
+const saveDraft = async (input: CreatePostInput, userId: number): Promise<DetailedPost> => {
+  if (input.publish_at) {
+    throw new TRPCError({ code: 'BAD_REQUEST', message: 'A draft cannot have a publish time' });
+  }
+
+  const now = new Date();
+  const draft = await db.transaction(async (tx) => {
+    const result = await tx.insert(postsTable)
       .values({
+        user_id: userId,
         title: input.title,
         content: input.content,
         price: input.price.toString(), // Convert number to string for numeric column
-        posted_at: now,
-        expires_at: expiresAt,
+        status: 'draft',
+        duration: input.duration ?? DEFAULT_POST_DURATION,
+        posted_at: null,
+        expires_at: null,
         created_at: now,
         updated_at: now
       })
       .returning()
       .execute();
 
-    // Convert numeric fields back to numbers and add computed field
-    const post = result[0];
-    const currentTime = new Date();
-    
-    return {
-      ...post,
-      price: parseFloat(post.price), // Convert string back to number
-      is_active: currentTime < post.expires_at // Computed field: active if not expired
-    };
+    await recordPostRevision(tx, result[0], userId, 'created');
+    await setPostLabels(tx, result[0].id, input);
+    if (input.image_ids) {
+      await setPostImages(tx, result[0].id, userId, input.image_ids);
+    }
+
+    return result[0];
+  });
+
+  postEvents.emit('created', { post_id: draft.id, user_id: userId, status: 'draft', at: now });
+
+  const [labeled] = await withPostDetails([toPost(draft)]);
+  return labeled;
+};
+
+export const createPost = async (input: CreatePostInput, userId: number): Promise<DetailedPost> => {
+  try {
+    if (input.draft) {
+      return await saveDraft(input, userId);
+    }
+
+    // Calculate timestamps; a scheduled post's window starts at its publish time
+    const duration = input.duration ?? DEFAULT_POST_DURATION;
+    const now = new Date();
+    const publishAt = input.publish_at ?? null;
+    if (publishAt) {
+      assertFuturePublishTime(publishAt, now);
+    }
+    const postedAt = publishAt ?? now;
+    const expiresAt = getExpiresAt(postedAt, duration);
+
+    // The post and its fee are written atomically: no post without payment, no charge without a post.
+    // Scheduled posts pay up front so activation cannot fail for lack of credits.
+    const post = await db.transaction(async (tx) => {
+      const fee = await getPostFee(tx, userId, duration);
+
+      // Insert post record
+      const result = await tx.insert(postsTable)
+        .values({
+          user_id: userId,
+          title: input.title,
+          content: input.content,
+          price: input.price.toString(), // Convert number to string for numeric column
+          status: publishAt ? 'scheduled' : 'active',
+          duration,
+          publish_at: publishAt,
+          posted_at: postedAt,
+          expires_at: expiresAt,
+          created_at: now,
+          updated_at: now
+        })
+        .returning()
+        .execute();
+
+      await recordPostRevision(tx, result[0], userId, 'created');
+      await setPostLabels(tx, result[0].id, input);
+      if (input.image_ids) {
+        await setPostImages(tx, result[0].id, userId, input.image_ids);
+      }
+
+      if (fee > 0) {
+        await postLedgerEntry(tx, {
+          user_id: userId,
+          amount: -fee,
+          entry_type: 'post_fee',
+          reason: `Publication fee for post "${input.title}" (${POST_DURATIONS[duration].label})`,
+          post_id: result[0].id
+        });
+      }
+
+      return result[0];
+    });
+
+    postEvents.emit('created', { post_id: post.id, user_id: userId, status: post.status, at: now });
+
+    // Convert numeric fields back to numbers, add computed field and details
+    const [labeled] = await withPostDetails([toPost(post)]);
+    return labeled;
   } catch (error) {
     console.error('Post creation failed:', error);
     throw error;
   }
-};
\ No newline at end of file
+};
@@ -2,21 +2,18 @@ import { db } from '../db';
 import { postsTable } from '../db/schema';
 import { type DeletePostInput } from '../schema';
 import { eq } from 'drizzle-orm';
+import { getOwnedPost } from '../lib/posts';
+import { postEvents } from '../lib/post_events';
 
-export async function deletePost(input: DeletePostInput): Promise<{ success: boolean; id: number }> {
+// Move a post to the trash. It disappears everywhere but can be restored until it is purged.
+export async function deletePost(input: DeletePostInput, userId: number): Promise<{ success: boolean; id: number }> {
   try {
-    // First check if the post exists
-    const existingPost = await db.select()
-      .from(postsTable)
-      .where(eq(postsTable.id, input.id))
-      .execute();
+    // First check that the post exists, is not already in the trash and belongs to the caller
+    const post = await getOwnedPost(input.id, userId);
 
-    if (existingPost.length === 0) {
-      throw new Error(`Post with id ${input.id} not found`);
-    }
-
-    // Delete the post from the database
-    const result = await db.delete(postsTable)
+    const now = new Date();
+    const result = await db.update(postsTable)
+      .set({ deleted_at: now, updated_at: now })
       .where(eq(postsTable.id, input.id))
       .returning({ id: postsTable.id })
       .execute();
@@ -26,6 +23,8 @@ export async function deletePost(input: DeletePostInput): Promise<{ success: boo
       throw new Error(`Failed to delete post with id ${input.id}`);
     }
 
+    postEvents.emit('deleted', { post_id: input.id, user_id: userId, status: post.status, at: now });
+
     return {
       success: true,
       id: input.id
@@ -34,4 +33,4 @@ export async function deletePost(input: DeletePostInput): Promise<{ success: boo
     console.error('Post deletion failed:', error);
     throw error;
   }
-}
\ No newline at end of file
+}
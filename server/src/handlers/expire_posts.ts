@@ -0,0 +1,31 @@
+import { db } from '../db';
+import { postsTable } from '../db/schema';
+import { and, eq, lte } from 'drizzle-orm';
+import { notDeletedCondition } from '../lib/posts';
+import { postEvents } from '../lib/post_events';
+
+// Scheduler job: move active posts whose listing has run out to "expired". Posts in the
+// trash are left as they are, so savers are not told about a post its owner deleted.
+// Returns the ids of the posts that expired in this run.
+export const expirePosts = async (now: Date = new Date()): Promise<number[]> => {
+  try {
+    const expired = await db.update(postsTable)
+      .set({ status: 'expired', updated_at: now })
+      .where(and(
+        eq(postsTable.status, 'active'),
+        lte(postsTable.expires_at, now),
+        notDeletedCondition()
+      ))
+      .returning({ id: postsTable.id, user_id: postsTable.user_id })
+      .execute();
+
+    for (const post of expired) {
+      postEvents.emit('expired', { post_id: post.id, user_id: post.user_id, status: 'expired', at: now });
+    }
+
+    return expired.map(post => post.id);
+  } catch (error) {
+    console.error('Expiring posts failed:', error);
+    throw error;
+  }
+};
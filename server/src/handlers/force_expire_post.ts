@@ -0,0 +1,61 @@
+import { TRPCError } from '@trpc/server';
+import { db } from '../db';
+import { postsTable } from '../db/schema';
+import { type ForceExpirePostInput, type Post } from '../schema';
+import { and, eq } from 'drizzle-orm';
+import { notDeletedCondition, toPost } from '../lib/posts';
+import { postEvents } from '../lib/post_events';
+import { notifyUser } from '../lib/notifications';
+import { recordAdminAction } from '../lib/roles';
+
+// Admin tool: end an active post's listing now. The owner is told why and can re-post it as usual.
+export const forceExpirePost = async (
+  input: ForceExpirePostInput,
+  adminId: number,
+  now: Date = new Date()
+): Promise<Post> => {
+  try {
+    const post = await db.transaction(async (tx) => {
+      const result = await tx.update(postsTable)
+        .set({ status: 'expired', expires_at: now, updated_at: now })
+        .where(and(eq(postsTable.id, input.post_id), eq(postsTable.status, 'active'), notDeletedCondition()))
+        .returning()
+        .execute();
+
+      if (result.length === 0) {
+        const existing = await tx.select({ id: postsTable.id })
+          .from(postsTable)
+          .where(and(eq(postsTable.id, input.post_id), notDeletedCondition()))
+          .execute();
+        if (existing.length === 0) {
+          throw new Error(`Post with id ${input.post_id} not found`);
+        }
+        throw new TRPCError({ code: 'BAD_REQUEST', message: 'Only active posts can be expired' });
+      }
+
+      const [expired] = result;
+      await recordAdminAction(tx, {
+        admin_id: adminId,
+        action: 'expire_post',
+        target_user_id: expired.user_id,
+        post_id: expired.id,
+        details: `Expired "${expired.title}": ${input.reason}`,
+        created_at: now
+      });
+      await notifyUser({
+        user_id: expired.user_id,
+        post_id: expired.id,
+        message: `Your post "${expired.title}" was expired by an administrator. Reason: ${input.reason}`
+      }, tx);
+
+      return expired;
+    });
+
+    postEvents.emit('expired', { post_id: post.id, user_id: post.user_id, status: post.status, at: now });
+
+    return toPost(post, now);
+  } catch (error) {
+    console.error('Force-expiring post failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,50 @@
+import { db } from '../db';
+import { postsTable, usersTable } from '../db/schema';
+import { type AdminPostListInput, type AdminPostPage } from '../schema';
+import { and, count, desc, eq, ilike, or, type SQL } from 'drizzle-orm';
+import { toPost } from '../lib/posts';
+import { containsPattern } from '../lib/like_pattern';
+
+// Admin tool: a page of everyone's posts, newest first, with the total for pagination
+export const getAdminPosts = async (
+  input: AdminPostListInput = { limit: 20, offset: 0 }
+): Promise<AdminPostPage> => {
+  try {
+    const conditions: SQL[] = [];
+    if (input.search) {
+      const pattern = containsPattern(input.search);
+      conditions.push(or(
+        ilike(postsTable.title, pattern),
+        ilike(postsTable.content, pattern),
+        ilike(usersTable.email, pattern)
+      )!);
+    }
+    if (input.status) {
+      conditions.push(eq(postsTable.status, input.status));
+    }
+    const where = and(...conditions);
+
+    const results = await db.select({ post: postsTable, owner_email: usersTable.email })
+      .from(postsTable)
+      .innerJoin(usersTable, eq(postsTable.user_id, usersTable.id))
+      .where(where)
+      .orderBy(desc(postsTable.created_at), desc(postsTable.id))
+      .limit(input.limit)
+      .offset(input.offset)
+      .execute();
+
+    const [{ total }] = await db.select({ total: count() })
+      .from(postsTable)
+      .innerJoin(usersTable, eq(postsTable.user_id, usersTable.id))
+      .where(where)
+      .execute();
+
+    const now = new Date();
+    const items = results.map(({ post, owner_email }) => ({ ...toPost(post, now), owner_email }));
+
+    return { items, total };
+  } catch (error) {
+    console.error('Failed to fetch admin posts:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,70 @@
+import { db } from '../db';
+import { creditPurchasesTable, postReportsTable, postsTable, usersTable } from '../db/schema';
+import { type AdminStats, type DailyCount } from '../schema';
+import { count, eq, gt, gte, sql } from 'drizzle-orm';
+import { publicPostCondition } from '../lib/posts';
+
+// Days of signups shown on the dashboard, today included
+export const SIGNUP_STATS_DAYS = 14;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const REVENUE_WINDOW_MS = 30 * DAY_MS;
+
+const dateKey = (date: Date): string => date.toISOString().slice(0, 10);
+
+// Admin tool: revenue, listing and signup numbers for the dashboard
+export const getAdminStats = async (now: Date = new Date()): Promise<AdminStats> => {
+  try {
+    const [revenue] = await db.select({
+      total: sql<string>`coalesce(sum(${creditPurchasesTable.amount_paid}), 0)`,
+      recent: sql<string>`coalesce(sum(${creditPurchasesTable.amount_paid}) filter (where ${gt(creditPurchasesTable.created_at, new Date(now.getTime() - REVENUE_WINDOW_MS))}), 0)`
+    })
+      .from(creditPurchasesTable)
+      .where(eq(creditPurchasesTable.status, 'succeeded'))
+      .execute();
+
+    const [{ activePosts }] = await db.select({ activePosts: count() })
+      .from(postsTable)
+      .where(publicPostCondition(now))
+      .execute();
+
+    const [{ openReports }] = await db.select({ openReports: count() })
+      .from(postReportsTable)
+      .where(eq(postReportsTable.status, 'open'))
+      .execute();
+
+    const [{ totalUsers }] = await db.select({ totalUsers: count() })
+      .from(usersTable)
+      .execute();
+
+    // One bucket per UTC day, so days without signups still show up
+    const today = new Date(`${dateKey(now)}T00:00:00.000Z`);
+    const signupsByDay = new Map<string, number>();
+    for (let day = SIGNUP_STATS_DAYS - 1; day >= 0; day--) {
+      signupsByDay.set(dateKey(new Date(today.getTime() - day * DAY_MS)), 0);
+    }
+
+    const signups = await db.select({ created_at: usersTable.created_at })
+      .from(usersTable)
+      .where(gte(usersTable.created_at, new Date(today.getTime() - (SIGNUP_STATS_DAYS - 1) * DAY_MS)))
+      .execute();
+    for (const { created_at } of signups) {
+      const key = dateKey(created_at);
+      if (signupsByDay.has(key)) {
+        signupsByDay.set(key, signupsByDay.get(key)! + 1);
+      }
+    }
+
+    return {
+      total_revenue: parseFloat(revenue.total), // Convert numeric string to number
+      revenue_last_30_days: parseFloat(revenue.recent),
+      active_posts: activePosts,
+      open_reports: openReports,
+      total_users: totalUsers,
+      signups_by_day: [...signupsByDay].map(([date, signupCount]): DailyCount => ({ date, count: signupCount }))
+    };
+  } catch (error) {
+    console.error('Failed to fetch admin stats:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,62 @@
+import { db } from '../db';
+import { auditLogTable, usersTable } from '../db/schema';
+import { type AuditLogListInput, type AuditLogPage } from '../schema';
+import { and, count, desc, eq, gte, ilike, lt, type SQL } from 'drizzle-orm';
+import { containsPattern } from '../lib/like_pattern';
+
+// Admin tool: a page of audited mutations, newest first, with the total for pagination
+export const getAuditLog = async (
+  input: AuditLogListInput = { limit: 50, offset: 0 }
+): Promise<AuditLogPage> => {
+  try {
+    const conditions: SQL[] = [];
+    if (input.search) {
+      conditions.push(ilike(usersTable.email, containsPattern(input.search)));
+    }
+    if (input.actor_id !== undefined) {
+      conditions.push(eq(auditLogTable.actor_id, input.actor_id));
+    }
+    if (input.procedure) {
+      conditions.push(eq(auditLogTable.procedure, input.procedure));
+    }
+    if (input.entity_type) {
+      conditions.push(eq(auditLogTable.entity_type, input.entity_type));
+    }
+    if (input.entity_id !== undefined) {
+      conditions.push(eq(auditLogTable.entity_id, input.entity_id));
+    }
+    if (input.status) {
+      conditions.push(eq(auditLogTable.status, input.status));
+    }
+    if (input.created_from) {
+      conditions.push(gte(auditLogTable.created_at, input.created_from));
+    }
+    if (input.created_to) {
+      conditions.push(lt(auditLogTable.created_at, input.created_to));
+    }
+    const where = and(...conditions);
+
+    // Anonymous calls have no actor, so the join must keep them
+    const results = await db.select({ entry: auditLogTable, actor_email: usersTable.email })
+      .from(auditLogTable)
+      .leftJoin(usersTable, eq(auditLogTable.actor_id, usersTable.id))
+      .where(where)
+      .orderBy(desc(auditLogTable.created_at), desc(auditLogTable.id))
+      .limit(input.limit)
+      .offset(input.offset)
+      .execute();
+
+    const [{ total }] = await db.select({ total: count() })
+      .from(auditLogTable)
+      .leftJoin(usersTable, eq(auditLogTable.actor_id, usersTable.id))
+      .where(where)
+      .execute();
+
+    const items = results.map(({ entry, actor_email }) => ({ ...entry, actor_email }));
+
+    return { items, total };
+  } catch (error) {
+    console.error('Failed to fetch audit log:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,41 @@
+import { db } from '../db';
+import { categoriesTable, postCategoriesTable, postsTable } from '../db/schema';
+import { type CategoryWithCount } from '../schema';
+import { asc, sql } from 'drizzle-orm';
+import { publicPostCondition } from '../lib/posts';
+
+export async function getCategories(): Promise<CategoryWithCount[]> {
+  try {
+    // The whole tree, siblings in display order; the client nests them by parent_id
+    const categories = await db.select()
+      .from(categoriesTable)
+      .orderBy(asc(categoriesTable.sort_order), asc(categoriesTable.name))
+      .execute();
+
+    // Pair every category with itself and each of its ancestors, then count distinct posts per
+    // ancestor: a post counts once for its category and once for each ancestor, even when filed under siblings
+    const counts = await db.execute<{ category_id: number; post_count: number }>(sql`
+      with recursive ancestry (category_id, ancestor_id) as (
+        select ${categoriesTable.id}, ${categoriesTable.id} from ${categoriesTable}
+        union all
+        select ancestry.category_id, parent.parent_id
+        from ancestry join ${categoriesTable} parent on parent.id = ancestry.ancestor_id
+        where parent.parent_id is not null
+      )
+      select ancestry.ancestor_id as category_id, count(distinct ${postCategoriesTable.post_id})::int as post_count
+      from ${postCategoriesTable}
+      join ${postsTable} on ${postsTable.id} = ${postCategoriesTable.post_id}
+      join ancestry on ancestry.category_id = ${postCategoriesTable.category_id}
+      where ${publicPostCondition()}
+      group by ancestry.ancestor_id`);
+
+    const postCounts = new Map(counts.rows.map(row => [row.category_id, row.post_count]));
+    return categories.map(category => ({
+      ...category,
+      post_count: postCounts.get(category.id) ?? 0
+    }));
+  } catch (error) {
+    console.error('Fetching categories failed:', error);
+    throw error;
+  }
+}
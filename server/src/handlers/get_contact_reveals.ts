@@ -0,0 +1,27 @@
+import { db } from '../db';
+import { contactRevealsTable, postsTable } from '../db/schema';
+import { type PostRevealStats } from '../schema';
+import { count, desc, eq, max } from 'drizzle-orm';
+
+// Reveal counts for the seller's posts that have any, most recently revealed first
+export const getContactReveals = async (userId: number): Promise<PostRevealStats[]> => {
+  try {
+    const lastRevealedAt = max(contactRevealsTable.created_at);
+    const results = await db.select({
+      post_id: contactRevealsTable.post_id,
+      reveals: count(),
+      last_revealed_at: lastRevealedAt
+    })
+      .from(contactRevealsTable)
+      .innerJoin(postsTable, eq(contactRevealsTable.post_id, postsTable.id))
+      .where(eq(postsTable.user_id, userId))
+      .groupBy(contactRevealsTable.post_id)
+      .orderBy(desc(lastRevealedAt))
+      .execute();
+
+    return results.map(result => ({ ...result, last_revealed_at: result.last_revealed_at! }));
+  } catch (error) {
+    console.error('Failed to fetch contact reveals:', error);
+    throw error;
+  }
+};
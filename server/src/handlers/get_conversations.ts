@@ -0,0 +1,12 @@
+import { type ConversationSummary } from '../schema';
+import { loadConversationSummaries } from '../lib/conversations';
+
+// The user's conversations as buyer or owner, most recent activity first, with unread counts
+export const getConversations = async (userId: number): Promise<ConversationSummary[]> => {
+  try {
+    return await loadConversationSummaries(userId);
+  } catch (error) {
+    console.error('Failed to fetch conversations:', error);
+    throw error;
+  }
+};
@@ -1,8 +1,26 @@
-import { type CreditPurchase } from '../schema';
+import { db } from '../db';
+import { creditPurchasesTable } from '../db/schema';
+import { type CreditHistoryInput, type CreditPurchase } from '../schema';
+import { desc, eq } from 'drizzle-orm';
+import { toCreditPurchase } from '../lib/credit_purchases';
 
-export async function getCreditHistory(userId: number): Promise<CreditPurchase[]> {
-    // This is a placeholder declaration! Real code should be implemented here.
-    // The goal of this handler is fetching credit purchase history for authenticated user.
-    // Should return all credit purchases ordered by date (newest first).
-    return Promise.resolve([]);
-}
\ No newline at end of file
+export async function getCreditHistory(
+  userId: number,
+  input: CreditHistoryInput = { limit: 20, offset: 0 }
+): Promise<CreditPurchase[]> {
+  try {
+    // Newest first; id breaks ties between purchases made in the same instant
+    const purchases = await db.select()
+      .from(creditPurchasesTable)
+      .where(eq(creditPurchasesTable.user_id, userId))
+      .orderBy(desc(creditPurchasesTable.created_at), desc(creditPurchasesTable.id))
+      .limit(input.limit)
+      .offset(input.offset)
+      .execute();
+
+    return purchases.map(toCreditPurchase);
+  } catch (error) {
+    console.error('Fetching credit history failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,24 @@
+import { db } from '../db';
+import { creditPackagesTable } from '../db/schema';
+import { type CreditPackage } from '../schema';
+import { asc, eq } from 'drizzle-orm';
+
+export const getCreditPackages = async (): Promise<CreditPackage[]> => {
+  try {
+    // Only packages that can still be bought, in shop order
+    const packages = await db.select()
+      .from(creditPackagesTable)
+      .where(eq(creditPackagesTable.is_active, true))
+      .orderBy(asc(creditPackagesTable.sort_order), asc(creditPackagesTable.id))
+      .execute();
+
+    // Convert numeric fields back to numbers
+    return packages.map(creditPackage => ({
+      ...creditPackage,
+      price: parseFloat(creditPackage.price)
+    }));
+  } catch (error) {
+    console.error('Fetching credit packages failed:', error);
+    throw error;
+  }
+};
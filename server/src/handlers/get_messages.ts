@@ -0,0 +1,29 @@
+import { db } from '../db';
+import { conversationsTable, messagesTable } from '../db/schema';
+import { type GetMessagesInput, type MessagePage } from '../schema';
+import { and, desc, eq, lt } from 'drizzle-orm';
+import { getParticipantConversation, loadConversationSummaries } from '../lib/conversations';
+
+// A page of a conversation's messages in chronological order. Only reads: the client marks
+// the conversation read with markConversationRead once it has shown the messages.
+export const getMessages = async (input: GetMessagesInput, userId: number): Promise<MessagePage> => {
+  try {
+    const conversation = await getParticipantConversation(input.conversation_id, userId);
+
+    const rows = await db.select()
+      .from(messagesTable)
+      .where(input.before_id !== undefined
+        ? and(eq(messagesTable.conversation_id, conversation.id), lt(messagesTable.id, input.before_id))
+        : eq(messagesTable.conversation_id, conversation.id))
+      .orderBy(desc(messagesTable.id))
+      .limit(input.limit + 1)
+      .execute();
+
+    const items = rows.slice(0, input.limit).reverse();
+    const [summary] = await loadConversationSummaries(userId, eq(conversationsTable.id, conversation.id));
+    return { conversation: summary, items, has_older: rows.length > input.limit };
+  } catch (error) {
+    console.error('Failed to fetch messages:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,49 @@
+import { db } from '../db';
+import { postReportsTable, postsTable, usersTable } from '../db/schema';
+import { type ModerationQueueItem } from '../schema';
+import { asc, eq } from 'drizzle-orm';
+
+// Posts with open reports, most reported first and then the longest waiting
+export const getModerationQueue = async (): Promise<ModerationQueueItem[]> => {
+  try {
+    const results = await db.select({
+      report: postReportsTable,
+      post: {
+        title: postsTable.title,
+        content: postsTable.content,
+        status: postsTable.status,
+        hidden_at: postsTable.hidden_at,
+        owner_id: postsTable.user_id
+      },
+      owner_email: usersTable.email
+    })
+      .from(postReportsTable)
+      .innerJoin(postsTable, eq(postReportsTable.post_id, postsTable.id))
+      .innerJoin(usersTable, eq(postsTable.user_id, usersTable.id))
+      .where(eq(postReportsTable.status, 'open'))
+      .orderBy(asc(postReportsTable.created_at), asc(postReportsTable.id))
+      .execute();
+
+    // Reports arrive oldest first, so each post's first report sets its place in the queue
+    const items = new Map<number, ModerationQueueItem>();
+    for (const { report, post, owner_email } of results) {
+      const item = items.get(report.post_id);
+      if (item) {
+        item.reports.push(report);
+      } else {
+        items.set(report.post_id, {
+          post_id: report.post_id,
+          ...post,
+          owner_email,
+          reports: [report],
+          first_reported_at: report.created_at
+        });
+      }
+    }
+
+    return [...items.values()].sort((a, b) => b.reports.length - a.reports.length);
+  } catch (error) {
+    console.error('Failed to fetch moderation queue:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,21 @@
+import { db } from '../db';
+import { notificationsTable } from '../db/schema';
+import { type Notification } from '../schema';
+import { desc, eq } from 'drizzle-orm';
+
+const NOTIFICATION_LIMIT = 50;
+
+export async function getNotifications(userId: number): Promise<Notification[]> {
+  try {
+    // The user's most recent notifications, newest first
+    return await db.select()
+      .from(notificationsTable)
+      .where(eq(notificationsTable.user_id, userId))
+      .orderBy(desc(notificationsTable.created_at), desc(notificationsTable.id))
+      .limit(NOTIFICATION_LIMIT)
+      .execute();
+  } catch (error) {
+    console.error('Failed to fetch notifications:', error);
+    throw error;
+  }
+}
@@ -1,30 +1,28 @@
 import { db } from '../db';
 import { postsTable } from '../db/schema';
-import { eq } from 'drizzle-orm';
-import { type GetPostInput, type Post } from '../schema';
+import { and, eq } from 'drizzle-orm';
+import { type AuthContext, type GetPostInput, type DetailedPost } from '../schema';
+import { canViewPost, notDeletedCondition, toPost } from '../lib/posts';
+import { withPostDetails } from '../lib/post_details';
 
-export async function getPost(input: GetPostInput): Promise<Post | null> {
+// A post by id for the given viewer (null for visitors). Posts the viewer may not see,
+// such as someone else's draft or a post hidden by moderation, count as missing.
+export async function getPost(input: GetPostInput, viewer: AuthContext | null = null): Promise<DetailedPost | null> {
   try {
     // Query the database for the specific post
     const results = await db.select()
       .from(postsTable)
-      .where(eq(postsTable.id, input.id))
+      .where(and(eq(postsTable.id, input.id), notDeletedCondition()))
       .execute();
 
     // Return null if post not found
-    if (results.length === 0) {
+    if (results.length === 0 || !canViewPost(results[0], viewer)) {
       return null;
     }
 
-    const post = results[0];
-    const currentTime = new Date();
-
-    // Convert numeric fields and calculate is_active status
-    return {
-      ...post,
-      price: parseFloat(post.price), // Convert string back to number for numeric column
-      is_active: currentTime <= post.expires_at // Post is active if current time is before expiry
-    };
+    // Convert numeric fields, calculate is_active status and add categories and tags
+    const [post] = await withPostDetails([toPost(results[0])]);
+    return post;
   } catch (error) {
     console.error('Get post failed:', error);
     throw error;
@@ -0,0 +1,9 @@
+import { type PostDuration, type PostDurationOption } from '../schema';
+import { POST_DURATIONS } from '../lib/post_durations';
+
+export const getPostDurations = async (): Promise<PostDurationOption[]> => {
+  // Shortest first, as shown in the duration picker
+  return (Object.keys(POST_DURATIONS) as PostDuration[])
+    .map(duration => ({ duration, ...POST_DURATIONS[duration] }))
+    .sort((a, b) => a.hours - b.hours);
+};
@@ -0,0 +1,25 @@
+import { db } from '../db';
+import { postRevisionsTable } from '../db/schema';
+import { type GetPostRevisionsInput, type PostRevision } from '../schema';
+import { desc, eq } from 'drizzle-orm';
+import { getOwnedPost } from '../lib/posts';
+import { toPostRevision } from '../lib/post_revisions';
+
+export async function getPostRevisions(input: GetPostRevisionsInput, userId: number): Promise<PostRevision[]> {
+  try {
+    // Only the owner may see a post's history
+    await getOwnedPost(input.post_id, userId);
+
+    // Newest first; the first entry matches the post as it is now
+    const revisions = await db.select()
+      .from(postRevisionsTable)
+      .where(eq(postRevisionsTable.post_id, input.post_id))
+      .orderBy(desc(postRevisionsTable.id))
+      .execute();
+
+    return revisions.map(toPostRevision);
+  } catch (error) {
+    console.error('Failed to fetch post revisions:', error);
+    throw error;
+  }
+}
@@ -1,26 +1,28 @@
 import { db } from '../db';
 import { postsTable } from '../db/schema';
-import { type Post } from '../schema';
-import { desc } from 'drizzle-orm';
+import { type AllPostsListInput, type PostPage } from '../schema';
+import { toPost, visiblePostCondition } from '../lib/posts';
+import { withPostDetails } from '../lib/post_details';
+import { listOrder, postListConditions, postListOrderBy, sortValueColumn, toPage } from '../lib/post_listing';
+import { and, getTableColumns } from 'drizzle-orm';
 
-export async function getPosts(): Promise<Post[]> {
+export async function getPosts(input: AllPostsListInput = { limit: 20, sort: 'newest' }): Promise<PostPage> {
   try {
-    // Query all posts ordered by posted_at descending
-    const results = await db.select()
+    // One page of the posts anyone may look up: published, not in the trash and not hidden
+    const now = new Date();
+    const order = listOrder(input.sort);
+    const results = await db.select({ ...getTableColumns(postsTable), sort_value: sortValueColumn(order) })
       .from(postsTable)
-      .orderBy(desc(postsTable.posted_at))
+      .where(and(visiblePostCondition(), ...postListConditions(input, order, now)))
+      .orderBy(...postListOrderBy(order))
+      .limit(input.limit + 1)
       .execute();
 
-    const currentTime = new Date();
-
     // Convert numeric fields and calculate is_active status
-    return results.map(post => ({
-      ...post,
-      price: parseFloat(post.price), // Convert numeric string to number
-      is_active: currentTime < post.expires_at // Calculate active status based on expiration
-    }));
+    const page = toPage(results, input.limit, order, ({ sort_value, ...post }) => toPost(post, now));
+    return { ...page, items: await withPostDetails(page.items) };
   } catch (error) {
     console.error('Failed to fetch posts:', error);
     throw error;
   }
-}
\ No newline at end of file
+}
@@ -1,12 +1,45 @@
-import { type PublicPost } from '../schema';
+import { db } from '../db';
+import { postsTable, usersTable } from '../db/schema';
+import { type PublicPostListInput, type PublicPostPage } from '../schema';
+import { and, eq } from 'drizzle-orm';
+import { publicPostCondition } from '../lib/posts';
+import { withPostDetails } from '../lib/post_details';
+import { maskPhoneNumber } from '../lib/contact_reveals';
+import { listOrder, postListConditions, postListOrderBy, sortValueColumn, toPage } from '../lib/post_listing';
 
-export async function getPublicPosts(): Promise<PublicPost[]> {
-    // This is a placeholder declaration! Real code should be implemented here.
-    // The goal of this handler is fetching all active (non-expired) posts for public display.
-    // Should:
-    // 1. Query posts that haven't expired (expires_at > current time)
-    // 2. Join with users table to get phone numbers
-    // 3. Order by creation date (newest first)
-    // 4. Return only public-safe data (no sensitive user info)
-    return Promise.resolve([]);
-}
\ No newline at end of file
+export async function getPublicPosts(
+  input: PublicPostListInput = { limit: 20, sort: 'newest' }
+): Promise<PublicPostPage> {
+  try {
+    // One page of active posts, with the owner's phone number masked
+    const now = new Date();
+    const order = listOrder(input.sort);
+    const results = await db.select({
+      id: postsTable.id,
+      title: postsTable.title,
+      content: postsTable.content,
+      price: postsTable.price,
+      phone_number: usersTable.phone_number, // Masked below
+      created_at: postsTable.created_at,
+      expires_at: postsTable.expires_at,
+      sort_value: sortValueColumn(order)
+    })
+      .from(postsTable)
+      .innerJoin(usersTable, eq(postsTable.user_id, usersTable.id))
+      .where(and(publicPostCondition(now), ...postListConditions(input, order, now)))
+      .orderBy(...postListOrderBy(order))
+      .limit(input.limit + 1)
+      .execute();
+
+    const page = toPage(results, input.limit, order, ({ sort_value, phone_number, ...post }) => ({
+      ...post,
+      phone_masked: maskPhoneNumber(phone_number),
+      price: parseFloat(post.price), // Convert numeric string to number
+      expires_at: post.expires_at! // Active posts always have an expiry
+    }));
+    return { ...page, items: await withPostDetails(page.items) };
+  } catch (error) {
+    console.error('Failed to fetch public posts:', error);
+    throw error;
+  }
+}
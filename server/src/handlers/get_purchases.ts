@@ -0,0 +1,47 @@
+import { db } from '../db';
+import { creditPurchasesTable, usersTable } from '../db/schema';
+import { type AdminPurchaseListInput, type AdminPurchasePage } from '../schema';
+import { and, count, desc, eq, ilike, type SQL } from 'drizzle-orm';
+import { containsPattern } from '../lib/like_pattern';
+import { toCreditPurchase } from '../lib/credit_purchases';
+
+// Admin tool: a page of everyone's credit purchases, newest first, with the total for pagination
+export const getPurchases = async (
+  input: AdminPurchaseListInput = { limit: 20, offset: 0 }
+): Promise<AdminPurchasePage> => {
+  try {
+    const conditions: SQL[] = [];
+    if (input.search) {
+      conditions.push(ilike(usersTable.email, containsPattern(input.search)));
+    }
+    if (input.user_id !== undefined) {
+      conditions.push(eq(creditPurchasesTable.user_id, input.user_id));
+    }
+    if (input.status) {
+      conditions.push(eq(creditPurchasesTable.status, input.status));
+    }
+    const where = and(...conditions);
+
+    const results = await db.select({ purchase: creditPurchasesTable, user_email: usersTable.email })
+      .from(creditPurchasesTable)
+      .innerJoin(usersTable, eq(creditPurchasesTable.user_id, usersTable.id))
+      .where(where)
+      .orderBy(desc(creditPurchasesTable.created_at), desc(creditPurchasesTable.id))
+      .limit(input.limit)
+      .offset(input.offset)
+      .execute();
+
+    const [{ total }] = await db.select({ total: count() })
+      .from(creditPurchasesTable)
+      .innerJoin(usersTable, eq(creditPurchasesTable.user_id, usersTable.id))
+      .where(where)
+      .execute();
+
+    const items = results.map(({ purchase, user_email }) => ({ ...toCreditPurchase(purchase), user_email }));
+
+    return { items, total };
+  } catch (error) {
+    console.error('Failed to fetch purchases:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,54 @@
+import { db } from '../db';
+import { postsTable, savedPostsTable, usersTable } from '../db/schema';
+import { type SavedPost, type SavedPostState } from '../schema';
+import { desc, eq } from 'drizzle-orm';
+import { isPostActive } from '../lib/posts';
+import { withPostDetails } from '../lib/post_details';
+import { maskPhoneNumber } from '../lib/contact_reveals';
+
+// Statuses a post that ran out can come back from through a re-post
+const EXPIRED_STATUSES = ['active', 'expired', 'archived'];
+
+// The user's saved posts, most recently saved first, each flagged with where it stands now
+export const getSavedPosts = async (userId: number, now: Date = new Date()): Promise<SavedPost[]> => {
+  try {
+    const results = await db.select({
+      post: postsTable,
+      phone_number: usersTable.phone_number,
+      saved_at: savedPostsTable.saved_at
+    })
+      .from(savedPostsTable)
+      .innerJoin(postsTable, eq(savedPostsTable.post_id, postsTable.id))
+      .innerJoin(usersTable, eq(postsTable.user_id, usersTable.id))
+      .where(eq(savedPostsTable.user_id, userId))
+      .orderBy(desc(savedPostsTable.saved_at), desc(savedPostsTable.post_id))
+      .execute();
+
+    const saved = results.map(({ post, phone_number, saved_at }) => {
+      // Posts hidden by moderation are gone from view, whatever their listing state
+      const state: SavedPostState = post.hidden_at !== null
+        ? 'unavailable'
+        : isPostActive(post, now)
+          ? 'active'
+          : post.deleted_at === null && EXPIRED_STATUSES.includes(post.status) ? 'expired' : 'unavailable';
+
+      return {
+        id: post.id,
+        title: post.title,
+        content: post.content,
+        price: parseFloat(post.price), // Convert numeric string to number
+        phone_masked: maskPhoneNumber(phone_number),
+        created_at: post.created_at,
+        expires_at: post.expires_at,
+        saved_at,
+        state,
+        reposted: post.posted_at !== null && post.posted_at > saved_at
+      };
+    });
+
+    return await withPostDetails(saved);
+  } catch (error) {
+    console.error('Failed to fetch saved posts:', error);
+    throw error;
+  }
+};
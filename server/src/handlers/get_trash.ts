@@ -0,0 +1,29 @@
+import { db } from '../db';
+import { postsTable } from '../db/schema';
+import { type TrashedPost } from '../schema';
+import { and, desc, eq, gt, isNotNull } from 'drizzle-orm';
+import { getPurgeAt, toPost, TRASH_RETENTION_MS } from '../lib/posts';
+
+export async function getTrash(userId: number): Promise<TrashedPost[]> {
+  try {
+    // The user's deleted posts that can still be restored, most recently deleted first
+    const now = new Date();
+    const results = await db.select()
+      .from(postsTable)
+      .where(and(
+        eq(postsTable.user_id, userId),
+        isNotNull(postsTable.deleted_at),
+        gt(postsTable.deleted_at, new Date(now.getTime() - TRASH_RETENTION_MS))
+      ))
+      .orderBy(desc(postsTable.deleted_at))
+      .execute();
+
+    return results.map(post => ({
+      ...toPost(post, now),
+      purge_at: getPurgeAt(post.deleted_at!)
+    }));
+  } catch (error) {
+    console.error('Failed to fetch trash:', error);
+    throw error;
+  }
+}
@@ -1,8 +1,30 @@
-import { type Post } from '../schema';
+import { db } from '../db';
+import { postsTable } from '../db/schema';
+import { type PostListInput, type PostPage } from '../schema';
+import { notDeletedCondition, toPost } from '../lib/posts';
+import { withPostDetails } from '../lib/post_details';
+import { listOrder, postListConditions, postListOrderBy, sortValueColumn, toPage } from '../lib/post_listing';
+import { and, eq, getTableColumns } from 'drizzle-orm';
 
-export async function getUserPosts(userId: number): Promise<Post[]> {
-    // This is a placeholder declaration! Real code should be implemented here.
-    // The goal of this handler is fetching all posts created by a specific authenticated user.
-    // Should return posts ordered by creation date (newest first), including expired ones.
-    return Promise.resolve([]);
-}
\ No newline at end of file
+export async function getUserPosts(
+  userId: number,
+  input: PostListInput = { limit: 20, sort: 'newest' }
+): Promise<PostPage> {
+  try {
+    // One page of the user's posts, including expired ones but not the trash
+    const now = new Date();
+    const order = listOrder(input.sort);
+    const results = await db.select({ ...getTableColumns(postsTable), sort_value: sortValueColumn(order) })
+      .from(postsTable)
+      .where(and(eq(postsTable.user_id, userId), notDeletedCondition(), ...postListConditions(input, order, now)))
+      .orderBy(...postListOrderBy(order))
+      .limit(input.limit + 1)
+      .execute();
+
+    const page = toPage(results, input.limit, order, ({ sort_value, ...post }) => toPost(post, now));
+    return { ...page, items: await withPostDetails(page.items) };
+  } catch (error) {
+    console.error('Failed to fetch user posts:', error);
+    throw error;
+  }
+}
@@ -1,17 +1,22 @@
+import { db } from '../db';
+import { usersTable } from '../db/schema';
 import { type User } from '../schema';
+import { eq } from 'drizzle-orm';
 
 export async function getUserProfile(userId: number): Promise<User> {
-    // This is a placeholder declaration! Real code should be implemented here.
-    // The goal of this handler is fetching user profile information for authenticated user.
-    // Should return user data including current credit balance.
-    // Password hash should not be returned in real implementation.
-    return Promise.resolve({
-        id: userId,
-        email: 'placeholder@example.com',
-        password_hash: '', // Should not return password hash in real implementation
-        phone_number: '+1234567890',
-        credits: 0,
-        created_at: new Date(),
-        updated_at: new Date()
-    } as User);
-}
\ No newline at end of file
+  try {
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, userId))
+      .execute();
+
+    if (users.length === 0) {
+      throw new Error(`User not found: ${userId}`);
+    }
+
+    return users[0];
+  } catch (error) {
+    console.error('Get user profile failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,50 @@
+import { db } from '../db';
+import { postsTable, usersTable } from '../db/schema';
+import { type AdminUserListInput, type AdminUserPage } from '../schema';
+import { and, count, desc, eq, getTableColumns, ilike, or, sql, type SQL } from 'drizzle-orm';
+import { containsPattern } from '../lib/like_pattern';
+
+// Admin tool: a page of users, newest first, with the total for pagination
+export const getUsers = async (
+  input: AdminUserListInput = { limit: 20, offset: 0 }
+): Promise<AdminUserPage> => {
+  try {
+    const conditions: SQL[] = [];
+    if (input.search) {
+      const pattern = containsPattern(input.search);
+      conditions.push(or(ilike(usersTable.email, pattern), ilike(usersTable.phone_number, pattern))!);
+    }
+    if (input.role) {
+      conditions.push(eq(usersTable.role, input.role));
+    }
+    const where = and(...conditions);
+
+    const postCounts = db.select({ user_id: postsTable.user_id, post_count: count().as('post_count') })
+      .from(postsTable)
+      .groupBy(postsTable.user_id)
+      .as('post_counts');
+
+    const { password_hash, ...profileColumns } = getTableColumns(usersTable);
+    const items = await db.select({
+      ...profileColumns,
+      post_count: sql<number>`coalesce(${postCounts.post_count}, 0)`.mapWith(Number)
+    })
+      .from(usersTable)
+      .leftJoin(postCounts, eq(postCounts.user_id, usersTable.id))
+      .where(where)
+      .orderBy(desc(usersTable.created_at), desc(usersTable.id))
+      .limit(input.limit)
+      .offset(input.offset)
+      .execute();
+
+    const [{ total }] = await db.select({ total: count() })
+      .from(usersTable)
+      .where(where)
+      .execute();
+
+    return { items, total };
+  } catch (error) {
+    console.error('Failed to fetch users:', error);
+    throw error;
+  }
+};
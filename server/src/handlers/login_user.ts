@@ -1,12 +1,62 @@
+import { TRPCError } from '@trpc/server';
+import { randomBytes, scryptSync, timingSafeEqual } from 'crypto';
+import { eq } from 'drizzle-orm';
+import { db } from '../db';
+import { usersTable } from '../db/schema';
 import { type LoginUserInput, type AuthContext } from '../schema';
 
+const KEY_LENGTH = 64;
+
+// Generate a random per-user salt
+export const generateSalt = (): string => randomBytes(16).toString('hex');
+
+// Derive a password hash with scrypt (memory-hard KDF)
+export const hashPassword = (password: string, salt: string): string =>
+  scryptSync(password, salt, KEY_LENGTH).toString('hex');
+
+// Check a password against a stored "<hash>:<salt>" value
+export const verifyPassword = (password: string, passwordHash: string): boolean => {
+  const [storedHash, salt] = passwordHash.split(':');
+  if (!storedHash || !salt) {
+    throw new Error('Invalid password format');
+  }
+
+  const expected = Buffer.from(storedHash, 'hex');
+  const actual = Buffer.from(hashPassword(password, salt), 'hex');
+
+  // Compare in constant time to avoid leaking how much of the hash matched
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+};
+
 export async function loginUser(input: LoginUserInput): Promise<AuthContext> {
-    // This is a placeholder declaration! Real code should be implemented here.
-    // The goal of this handler is authenticating a user with email and password.
-    // Should verify password hash using bcrypt and return auth context with user info.
-    // Should throw error if credentials are invalid.
-    return Promise.resolve({
-        user_id: 0, // Placeholder user ID
-        email: input.email
-    } as AuthContext);
-}
\ No newline at end of file
+  try {
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.email, input.email))
+      .execute();
+
+    // Same message for unknown email and wrong password to avoid account enumeration
+    if (users.length === 0) {
+      throw new Error('Invalid email or password');
+    }
+
+    const user = users[0];
+    if (!verifyPassword(input.password, user.password_hash)) {
+      throw new Error('Invalid email or password');
+    }
+
+    // Only tell banned users once they have proven who they are
+    if (user.banned_at !== null) {
+      throw new TRPCError({ code: 'FORBIDDEN', message: 'This account has been suspended' });
+    }
+
+    return {
+      user_id: user.id,
+      email: user.email,
+      role: user.role
+    };
+  } catch (error) {
+    console.error('Login failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,29 @@
+import { db } from '../db';
+import { conversationsTable, messagesTable } from '../db/schema';
+import { type ConversationSummary, type MarkConversationReadInput } from '../schema';
+import { and, eq } from 'drizzle-orm';
+import { getParticipantConversation, loadConversationSummaries, moveReadMarker } from '../lib/conversations';
+
+// Mark a conversation read up to a message the user has been shown; returns the updated summary
+export const markConversationRead = async (input: MarkConversationReadInput, userId: number): Promise<ConversationSummary> => {
+  try {
+    const conversation = await getParticipantConversation(input.conversation_id, userId);
+
+    const messages = await db.select({ id: messagesTable.id })
+      .from(messagesTable)
+      .where(and(eq(messagesTable.id, input.message_id), eq(messagesTable.conversation_id, conversation.id)))
+      .execute();
+
+    if (messages.length === 0) {
+      throw new Error(`Message with id ${input.message_id} not found`);
+    }
+
+    await moveReadMarker(db, conversation, userId, messages[0].id);
+
+    const [summary] = await loadConversationSummaries(userId, eq(conversationsTable.id, conversation.id));
+    return summary;
+  } catch (error) {
+    console.error('Marking conversation read failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,19 @@
+import { db } from '../db';
+import { notificationsTable } from '../db/schema';
+import { and, eq, isNull } from 'drizzle-orm';
+
+// Mark all of the user's unread notifications as read; returns how many changed
+export async function markNotificationsRead(userId: number): Promise<{ success: boolean; count: number }> {
+  try {
+    const result = await db.update(notificationsTable)
+      .set({ read_at: new Date() })
+      .where(and(eq(notificationsTable.user_id, userId), isNull(notificationsTable.read_at)))
+      .returning({ id: notificationsTable.id })
+      .execute();
+
+    return { success: true, count: result.length };
+  } catch (error) {
+    console.error('Marking notifications read failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,167 @@
+import { TRPCError } from '@trpc/server';
+import { db, type DbTransaction } from '../db';
+import { creditLedgerTable, postsTable, usersTable, type Post as PostRow } from '../db/schema';
+import { type ModeratePostInput, type ModerationAction } from '../schema';
+import { and, desc, eq, inArray, isNull } from 'drizzle-orm';
+import { recordModerationAction, resolveOpenReports } from '../lib/moderation';
+import { postLedgerEntry } from '../lib/credit_ledger';
+import { notifyUser } from '../lib/notifications';
+
+// Give back what the current listing cost, unless it was free or already refunded.
+// Returns the credits refunded, or null when there was nothing to refund.
+const refundListingFee = async (tx: DbTransaction, post: PostRow): Promise<number | null> => {
+  const entries = await tx.select({ amount: creditLedgerTable.amount, entry_type: creditLedgerTable.entry_type })
+    .from(creditLedgerTable)
+    .where(and(
+      eq(creditLedgerTable.post_id, post.id),
+      inArray(creditLedgerTable.entry_type, ['post_fee', 'repost_fee', 'refund'])
+    ))
+    .orderBy(desc(creditLedgerTable.id))
+    .limit(1)
+    .execute();
+
+  if (entries.length === 0 || entries[0].entry_type === 'refund') {
+    return null;
+  }
+
+  const refund = -entries[0].amount;
+  await postLedgerEntry(tx, {
+    user_id: post.user_id,
+    amount: refund,
+    entry_type: 'refund',
+    reason: `Refund for removed post "${post.title}"`,
+    post_id: post.id
+  });
+  return refund;
+};
+
+// Take a post down for good; it can no longer be re-posted or renewed
+const removePost = async (tx: DbTransaction, postId: number, now: Date): Promise<void> => {
+  await tx.update(postsTable)
+    .set({ status: 'removed', auto_renew: false, publish_at: null, updated_at: now })
+    .where(eq(postsTable.id, postId))
+    .execute();
+};
+
+// A moderator's decision on a reported post. Every decision closes the post's open reports
+// and is written to the moderation log:
+// - dismiss: the reports were unfounded; the post is shown again unless its owner is banned
+// - hide: the post stays listed for its owner but is kept out of public view
+// - remove: the post is taken down and the fee for its current listing refunded
+// - ban: the owner can no longer log in, all their posts are hidden and this one is removed without a refund
+export const moderatePost = async (
+  input: ModeratePostInput,
+  moderatorId: number,
+  now: Date = new Date()
+): Promise<ModerationAction> => {
+  try {
+    return await db.transaction(async (tx) => {
+      const posts = await tx.select()
+        .from(postsTable)
+        .where(eq(postsTable.id, input.post_id))
+        .for('update')
+        .execute();
+
+      if (posts.length === 0) {
+        throw new Error(`Post with id ${input.post_id} not found`);
+      }
+
+      const [post] = posts;
+      if (post.user_id === moderatorId) {
+        throw new TRPCError({ code: 'FORBIDDEN', message: 'You cannot moderate your own post' });
+      }
+
+      const note = input.note || null;
+      const reason = note ? ` Reason: ${note}` : '';
+      let refundedCredits: number | null = null;
+      let message: string | null = null;
+
+      switch (input.action) {
+        case 'dismiss': {
+          const [owner] = await tx.select({ banned_at: usersTable.banned_at })
+            .from(usersTable)
+            .where(eq(usersTable.id, post.user_id))
+            .execute();
+          if (post.hidden_at !== null && owner.banned_at === null) {
+            await tx.update(postsTable)
+              .set({ hidden_at: null })
+              .where(eq(postsTable.id, post.id))
+              .execute();
+            message = `Your post "${post.title}" was reviewed and is visible again`;
+          }
+          await resolveOpenReports(tx, [post.id], 'dismissed', moderatorId, now);
+          break;
+        }
+
+        case 'hide':
+          if (post.hidden_at === null) {
+            await tx.update(postsTable)
+              .set({ hidden_at: now })
+              .where(eq(postsTable.id, post.id))
+              .execute();
+          }
+          message = `Your post "${post.title}" was hidden by a moderator.${reason}`;
+          await resolveOpenReports(tx, [post.id], 'actioned', moderatorId, now);
+          break;
+
+        case 'remove':
+          if (post.status === 'removed') {
+            throw new TRPCError({ code: 'BAD_REQUEST', message: 'This post has already been removed' });
+          }
+          await removePost(tx, post.id, now);
+          refundedCredits = await refundListingFee(tx, post);
+          message = `Your post "${post.title}" was removed by a moderator` +
+            (refundedCredits !== null ? ` and its ${refundedCredits} credit fee refunded.` : '.') + reason;
+          await resolveOpenReports(tx, [post.id], 'actioned', moderatorId, now);
+          break;
+
+        case 'ban': {
+          const [owner] = await tx.select({ role: usersTable.role })
+            .from(usersTable)
+            .where(eq(usersTable.id, post.user_id))
+            .execute();
+          if (owner.role !== 'user') {
+            throw new TRPCError({ code: 'FORBIDDEN', message: 'Moderators and admins cannot be banned' });
+          }
+          // Keep the original ban time if the owner was banned before
+          await tx.update(usersTable)
+            .set({ banned_at: now, updated_at: now })
+            .where(and(eq(usersTable.id, post.user_id), isNull(usersTable.banned_at)))
+            .execute();
+          await tx.update(postsTable)
+            .set({ hidden_at: now })
+            .where(and(eq(postsTable.user_id, post.user_id), isNull(postsTable.hidden_at)))
+            .execute();
+          await removePost(tx, post.id, now);
+          // None of the owner's posts need reviewing any more
+          const ownerPosts = await tx.select({ id: postsTable.id })
+            .from(postsTable)
+            .where(eq(postsTable.user_id, post.user_id))
+            .execute();
+          await resolveOpenReports(tx, ownerPosts.map(({ id }) => id), 'actioned', moderatorId, now);
+          message = `Your account was suspended and your posts hidden by a moderator.${reason}`;
+          break;
+        }
+      }
+
+      const action = await recordModerationAction(tx, {
+        action: input.action,
+        moderator_id: moderatorId,
+        post_id: post.id,
+        target_user_id: post.user_id,
+        note,
+        refunded_credits: refundedCredits,
+        created_at: now
+      });
+
+      if (message) {
+        await notifyUser({ user_id: post.user_id, post_id: post.id, message }, tx);
+      }
+
+      return action;
+    });
+  } catch (error) {
+    console.error('Moderating post failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,61 @@
+import { db } from '../db';
+import { postsTable } from '../db/schema';
+import { type PublishPostInput, type Post } from '../schema';
+import { and, eq } from 'drizzle-orm';
+import { getOwnedPost, toPost } from '../lib/posts';
+import { postEvents } from '../lib/post_events';
+import { getPostFee, postLedgerEntry } from '../lib/credit_ledger';
+import { getExpiresAt, POST_DURATIONS } from '../lib/post_durations';
+
+// Take a draft live: charge the publication fee and start its listing window now
+export const publishPost = async (input: PublishPostInput, userId: number): Promise<Post> => {
+  try {
+    const now = new Date();
+
+    const post = await db.transaction(async (tx) => {
+      const existing = await getOwnedPost(input.id, userId, tx);
+      if (existing.status !== 'draft') {
+        throw new Error(`Post with id ${input.id} is not a draft`);
+      }
+
+      const duration = input.duration ?? existing.duration;
+      const fee = await getPostFee(tx, userId, duration);
+
+      // Guarded on status so two concurrent publishes cannot both charge
+      const result = await tx.update(postsTable)
+        .set({
+          status: 'active',
+          duration,
+          posted_at: now,
+          expires_at: getExpiresAt(now, duration),
+          updated_at: now
+        })
+        .where(and(eq(postsTable.id, input.id), eq(postsTable.status, 'draft')))
+        .returning()
+        .execute();
+
+      if (result.length === 0) {
+        throw new Error(`Post with id ${input.id} is not a draft`);
+      }
+
+      if (fee > 0) {
+        await postLedgerEntry(tx, {
+          user_id: userId,
+          amount: -fee,
+          entry_type: 'post_fee',
+          reason: `Publication fee for post "${existing.title}" (${POST_DURATIONS[duration].label})`,
+          post_id: input.id
+        });
+      }
+
+      return result[0];
+    });
+
+    postEvents.emit('published', { post_id: post.id, user_id: userId, status: post.status, at: now });
+
+    return toPost(post);
+  } catch (error) {
+    console.error('Publishing post failed:', error);
+    throw error;
+  }
+};
@@ -1,26 +1,109 @@
+import { db } from '../db';
+import { creditPackagesTable, creditPurchasesTable, usersTable } from '../db/schema';
 import { type PurchaseCreditsInput, type CreditPurchase } from '../schema';
+import { and, eq } from 'drizzle-orm';
+import { failPurchase, finalizePurchase, isFinalPurchase, toCreditPurchase } from '../lib/credit_purchases';
+import { localPaymentGateway, type PaymentGateway, type PaymentResult } from '../lib/payment_gateway';
 
-export async function purchaseCredits(input: PurchaseCreditsInput, userId: number): Promise<CreditPurchase> {
-    // This is a placeholder declaration! Real code should be implemented here.
-    // The goal of this handler is simulating credit purchase for authenticated user.
-    // Logic should:
-    // 1. Calculate total amount (e.g., 5 credits for $1)
-    // 2. Simulate payment processing based on payment method
-    // 3. Generate transaction ID
-    // 4. Update user's credit balance
-    // 5. Record the purchase transaction
-    // 6. Return transaction details
-    
-    const creditsPerDollar = 5;
-    const amountPaid = input.credits / creditsPerDollar;
-    
-    return Promise.resolve({
-        id: 0, // Placeholder ID
+// Each payment method needs its own detail field
+const validatePaymentDetails = (input: PurchaseCreditsInput): void => {
+  switch (input.payment_method) {
+    case 'credit_card':
+      if (!input.payment_details.card_number) {
+        throw new Error('Credit card number is required');
+      }
+      return;
+    case 'paypal':
+      if (!input.payment_details.paypal_email) {
+        throw new Error('PayPal email is required');
+      }
+      return;
+    case 'bank_transfer':
+      if (!input.payment_details.bank_account) {
+        throw new Error('Bank account is required');
+      }
+      return;
+    default:
+      throw new Error(`Invalid payment method: ${input.payment_method}`);
+  }
+};
+
+export async function purchaseCredits(
+  input: PurchaseCreditsInput,
+  userId: number,
+  gateway: PaymentGateway = localPaymentGateway
+): Promise<CreditPurchase> {
+  try {
+    validatePaymentDetails(input);
+
+    const users = await db.select({ id: usersTable.id })
+      .from(usersTable)
+      .where(eq(usersTable.id, userId))
+      .execute();
+
+    if (users.length === 0) {
+      throw new Error(`User not found: ${userId}`);
+    }
+
+    // Price and bonus always come from the package, never from the client
+    const packages = await db.select()
+      .from(creditPackagesTable)
+      .where(and(
+        eq(creditPackagesTable.id, input.package_id),
+        eq(creditPackagesTable.is_active, true)
+      ))
+      .execute();
+
+    if (packages.length === 0) {
+      throw new Error(`Credit package not found: ${input.package_id}`);
+    }
+
+    const creditPackage = packages[0];
+    const amountPaid = parseFloat(creditPackage.price);
+
+    // Record the attempt before charging so every gateway call has a purchase row behind it
+    const [pending] = await db.insert(creditPurchasesTable)
+      .values({
         user_id: userId,
-        credits_purchased: input.credits,
-        amount_paid: amountPaid,
+        package_id: creditPackage.id,
+        credits_purchased: creditPackage.credits,
+        bonus_credits: creditPackage.bonus_credits,
+        amount_paid: creditPackage.price,
+        payment_method: input.payment_method,
+        status: 'pending'
+      })
+      .returning()
+      .execute();
+
+    let payment: PaymentResult;
+    try {
+      payment = await gateway.charge({
+        reference: pending.id,
+        amount: amountPaid,
         payment_method: input.payment_method,
-        transaction_id: `txn_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`, // Placeholder transaction ID
-        created_at: new Date()
-    } as CreditPurchase);
-}
\ No newline at end of file
+        payment_details: input.payment_details
+      });
+    } catch (error) {
+      await failPurchase(pending.id, 'Payment gateway unavailable');
+      throw error;
+    }
+
+    // The gateway has answered, so this call must not fail any more: a failed call releases
+    // its idempotency key and a retry would charge again. A purchase that could not be
+    // finished here stays pending and reconcilePurchases finishes it from the gateway.
+    let purchase = pending;
+    try {
+      purchase = await finalizePurchase(pending.id, payment);
+      if (isFinalPurchase(purchase)) {
+        gateway.release(purchase.id);
+      }
+    } catch (error) {
+      console.error(`Recording the payment for purchase ${pending.id} failed:`, error);
+    }
+
+    return toCreditPurchase(purchase);
+  } catch (error) {
+    console.error('Credit purchase failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,44 @@
+import { db } from '../db';
+import { postImagesTable, postsTable } from '../db/schema';
+import { inArray, lte } from 'drizzle-orm';
+import { TRASH_RETENTION_MS } from '../lib/posts';
+import { postEvents } from '../lib/post_events';
+import { deleteStoredFiles, imageKeys } from '../lib/post_images';
+import { imageStorage, type ObjectStorage } from '../lib/storage';
+
+// Scheduler job: permanently remove posts that have been in the trash past the retention
+// period. Ledger entries stay, with their post reference cleared; revisions and images go
+// with the post, and so do the image files. Returns the ids of the posts purged in this run.
+export const purgeDeletedPosts = async (
+  now: Date = new Date(),
+  storage: ObjectStorage = imageStorage
+): Promise<number[]> => {
+  try {
+    const cutoff = lte(postsTable.deleted_at, new Date(now.getTime() - TRASH_RETENTION_MS));
+    const { purged, images } = await db.transaction(async (tx) => {
+      // Deleted ahead of the cascade, to learn which files to remove
+      const images = await tx.delete(postImagesTable)
+        .where(inArray(postImagesTable.post_id, tx.select({ id: postsTable.id }).from(postsTable).where(cutoff)))
+        .returning()
+        .execute();
+
+      const purged = await tx.delete(postsTable)
+        .where(cutoff)
+        .returning({ id: postsTable.id, user_id: postsTable.user_id, status: postsTable.status })
+        .execute();
+
+      return { purged, images };
+    });
+
+    await deleteStoredFiles(images.flatMap(imageKeys), storage);
+
+    for (const post of purged) {
+      postEvents.emit('purged', { post_id: post.id, user_id: post.user_id, status: post.status, at: now });
+    }
+
+    return purged.map(post => post.id);
+  } catch (error) {
+    console.error('Purging deleted posts failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,20 @@
+import { db } from '../db';
+import { idempotencyKeysTable } from '../db/schema';
+import { lt } from 'drizzle-orm';
+import { IDEMPOTENCY_RETENTION_MS } from '../lib/idempotency';
+
+// Scheduler job: remove idempotency keys past their retention window, which would otherwise
+// stay until the same key was sent again. Returns the ids of the keys removed in this run.
+export const purgeIdempotencyKeys = async (now: Date = new Date()): Promise<number[]> => {
+  try {
+    const purged = await db.delete(idempotencyKeysTable)
+      .where(lt(idempotencyKeysTable.created_at, new Date(now.getTime() - IDEMPOTENCY_RETENTION_MS)))
+      .returning({ id: idempotencyKeysTable.id })
+      .execute();
+
+    return purged.map(key => key.id);
+  } catch (error) {
+    console.error('Purging idempotency keys failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,32 @@
+import { db } from '../db';
+import { postImagesTable } from '../db/schema';
+import { and, isNull, lte } from 'drizzle-orm';
+import { deleteStoredFiles, imageKeys } from '../lib/post_images';
+import { imageStorage, type ObjectStorage } from '../lib/storage';
+
+// How long an upload may wait to be attached to a post, e.g. while its form is still open
+export const ORPHAN_IMAGE_RETENTION_MS = 24 * 60 * 60 * 1000;
+
+// Scheduler job: remove uploaded images that were never attached to a post, with their files.
+// Returns the ids of the images removed in this run.
+export const purgeOrphanImages = async (
+  now: Date = new Date(),
+  storage: ObjectStorage = imageStorage
+): Promise<number[]> => {
+  try {
+    const purged = await db.delete(postImagesTable)
+      .where(and(
+        isNull(postImagesTable.post_id),
+        lte(postImagesTable.created_at, new Date(now.getTime() - ORPHAN_IMAGE_RETENTION_MS))
+      ))
+      .returning()
+      .execute();
+
+    await deleteStoredFiles(purged.flatMap(imageKeys), storage);
+
+    return purged.map(image => image.id);
+  } catch (error) {
+    console.error('Purging orphan images failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,93 @@
+import { db } from '../db';
+import { creditPurchasesTable, type CreditPurchase as CreditPurchaseRow } from '../db/schema';
+import { and, eq, lte, or } from 'drizzle-orm';
+import { failPurchase, finalizePurchase, isFinalPurchase } from '../lib/credit_purchases';
+import { notifyUser } from '../lib/notifications';
+import { localPaymentGateway, type PaymentGateway } from '../lib/payment_gateway';
+
+// How long a purchase may stay pending before the job asks the gateway about it;
+// long enough that a purchase still being charged is never touched
+export const PENDING_RECONCILE_AFTER_MS = 5 * 60 * 1000; // 5 minutes
+
+// How long a buyer has to confirm a payment with their bank
+export const REQUIRES_ACTION_TIMEOUT_MS = 24 * 60 * 60 * 1000; // 24 hours
+
+// Settle one purchase from the gateway; returns the status it is left in
+const reconcilePurchase = async (
+  purchase: CreditPurchaseRow,
+  gateway: PaymentGateway,
+  now: Date
+): Promise<CreditPurchaseRow['status']> => {
+  const payment = await gateway.lookup(purchase.id);
+
+  if (!payment) {
+    if (purchase.status === 'pending') {
+      // The process stopped before the card was charged
+      await failPurchase(purchase.id, 'The payment was not completed', now);
+      return 'failed';
+    }
+    return purchase.status;
+  }
+
+  if (payment.status === 'requires_action') {
+    if (purchase.created_at.getTime() + REQUIRES_ACTION_TIMEOUT_MS <= now.getTime()) {
+      await failPurchase(purchase.id, 'The payment was not confirmed in time', now);
+      return 'failed';
+    }
+    if (purchase.status === 'pending') {
+      await finalizePurchase(purchase.id, payment, now);
+    }
+    return 'requires_action';
+  }
+
+  return (await finalizePurchase(purchase.id, payment, now)).status;
+};
+
+// Scheduler job: finish purchases whose outcome was never recorded (the process failed
+// after charging) or that waited for the buyer to confirm with their bank, and tell the
+// buyer how they ended. Returns the ids of the purchases that got an outcome in this run.
+export const reconcilePurchases = async (
+  now: Date = new Date(),
+  gateway: PaymentGateway = localPaymentGateway
+): Promise<number[]> => {
+  try {
+    const open = await db.select()
+      .from(creditPurchasesTable)
+      .where(or(
+        and(
+          eq(creditPurchasesTable.status, 'pending'),
+          lte(creditPurchasesTable.updated_at, new Date(now.getTime() - PENDING_RECONCILE_AFTER_MS))
+        ),
+        eq(creditPurchasesTable.status, 'requires_action')
+      ))
+      .execute();
+
+    const settled: number[] = [];
+    for (const purchase of open) {
+      // One failing purchase must not hold up the others
+      try {
+        const status = await reconcilePurchase(purchase, gateway, now);
+        if (!isFinalPurchase({ status })) {
+          continue;
+        }
+
+        gateway.release(purchase.id);
+        settled.push(purchase.id);
+        const credits = purchase.credits_purchased + purchase.bonus_credits;
+        await notifyUser({
+          user_id: purchase.user_id,
+          message: status === 'succeeded'
+            ? `Your payment went through and ${credits} credits were added to your balance.`
+            : `Your payment for ${credits} credits did not go through, and you were not charged.`
+        });
+      } catch (error) {
+        console.error(`Reconciling purchase ${purchase.id} failed:`, error);
+      }
+    }
+
+    return settled;
+  } catch (error) {
+    console.error('Reconciling purchases failed:', error);
+    throw error;
+  }
+};
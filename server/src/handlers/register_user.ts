@@ -1,17 +1,51 @@
+import { db } from '../db';
+import { usersTable } from '../db/schema';
 import { type RegisterUserInput, type User } from '../schema';
+import { eq } from 'drizzle-orm';
+import { generateSalt, hashPassword } from './login_user';
+import { postLedgerEntry } from '../lib/credit_ledger';
+
+// Credits granted on sign-up so the first post can be published
+const SIGNUP_GRANT_CREDITS = 1;
 
 export async function registerUser(input: RegisterUserInput): Promise<User> {
-    // This is a placeholder declaration! Real code should be implemented here.
-    // The goal of this handler is registering a new user with email, password hash, and phone number.
-    // Users should start with 1 credit for their first free post.
-    // Password should be hashed using bcrypt or similar before storing.
-    return Promise.resolve({
-        id: 0, // Placeholder ID
-        email: input.email,
-        password_hash: 'hashed_password_placeholder', // Should be actual bcrypt hash
-        phone_number: input.phone_number,
-        credits: 1, // First post is free
-        created_at: new Date(),
-        updated_at: new Date()
-    } as User);
-}
\ No newline at end of file
+  try {
+    // Reject duplicate emails up front for a readable error (the unique index still guards races)
+    const existing = await db.select({ id: usersTable.id })
+      .from(usersTable)
+      .where(eq(usersTable.email, input.email))
+      .execute();
+
+    if (existing.length > 0) {
+      throw new Error('User with this email already exists');
+    }
+
+    const salt = generateSalt();
+    const password_hash = `${hashPassword(input.password, salt)}:${salt}`;
+
+    return await db.transaction(async (tx) => {
+      // Start at zero and grant the welcome credit through the ledger so balance and history agree
+      const result = await tx.insert(usersTable)
+        .values({
+          email: input.email,
+          password_hash,
+          phone_number: input.phone_number,
+          credits: 0
+        })
+        .returning()
+        .execute();
+
+      const credits = await postLedgerEntry(tx, {
+        user_id: result[0].id,
+        amount: SIGNUP_GRANT_CREDITS,
+        entry_type: 'grant',
+        reason: 'Welcome credit for your first post'
+      });
+
+      return { ...result[0], credits };
+    });
+  } catch (error) {
+    console.error('User registration failed:', error);
+    throw error;
+  }
+}
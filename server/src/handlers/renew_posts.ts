@@ -0,0 +1,113 @@
+import { db, type DbTransaction } from '../db';
+import { postsTable, type Post as PostRow } from '../db/schema';
+import { and, eq, isNull, lte } from 'drizzle-orm';
+import { applyRepost } from './repost';
+import { InsufficientCreditsError } from '../lib/credit_ledger';
+import { getDurationFee } from '../lib/post_durations';
+import { notifyUser } from '../lib/notifications';
+import { postEvents } from '../lib/post_events';
+import { notDeletedCondition } from '../lib/posts';
+
+// Why the next renewal must not happen, or null if it may
+const getLimitReason = (post: PostRow, fee: number): string | null => {
+  if (post.auto_renew_max_renewals !== null && post.auto_renew_renewals >= post.auto_renew_max_renewals) {
+    return `reached the limit of ${post.auto_renew_max_renewals} renewals`;
+  }
+  if (post.auto_renew_spend_cap !== null && post.auto_renew_spent + fee > post.auto_renew_spend_cap) {
+    return `the next renewal (${fee} credits) would exceed the spending cap of ${post.auto_renew_spend_cap} credits`;
+  }
+  return null;
+};
+
+// Turn auto-renew off and tell the owner why; the post then expires as usual
+const stopAutoRenew = async (tx: DbTransaction, post: PostRow, reason: string, now: Date): Promise<void> => {
+  await tx.update(postsTable)
+    .set({ auto_renew: false, auto_renew_stopped_reason: reason, updated_at: now })
+    .where(eq(postsTable.id, post.id))
+    .execute();
+
+  await notifyUser({
+    user_id: post.user_id,
+    post_id: post.id,
+    message: `Auto-renew for "${post.title}" stopped: ${reason}.`
+  }, tx);
+};
+
+// Renew one post, or stop its auto-renew. Returns true if the post was renewed.
+const renewPost = async (candidate: PostRow, now: Date): Promise<boolean> => {
+  try {
+    return await db.transaction(async (tx) => {
+      // Re-read under a lock; the owner may have re-posted or switched auto-renew off meanwhile
+      const [post] = await tx.select()
+        .from(postsTable)
+        .where(eq(postsTable.id, candidate.id))
+        .for('update')
+        .execute();
+
+      if (!post || post.status !== 'active' || post.deleted_at || !post.auto_renew || !post.expires_at || post.expires_at > now) {
+        return false;
+      }
+
+      const fee = getDurationFee(post.duration);
+      const limitReason = getLimitReason(post, fee);
+      if (limitReason) {
+        await stopAutoRenew(tx, post, limitReason, now);
+        return false;
+      }
+
+      await applyRepost(tx, post, post.duration, now, 'Auto-renew fee');
+      await tx.update(postsTable)
+        .set({
+          auto_renew_renewals: post.auto_renew_renewals + 1,
+          auto_renew_spent: post.auto_renew_spent + fee
+        })
+        .where(eq(postsTable.id, post.id))
+        .execute();
+
+      return true;
+    });
+  } catch (error) {
+    if (!(error instanceof InsufficientCreditsError)) {
+      throw error;
+    }
+    // The failed debit rolled the renewal back
+    await db.transaction((tx) => stopAutoRenew(tx, candidate, `not enough credits (${error.message})`, now));
+    return false;
+  }
+};
+
+// Scheduler job: re-post listings with auto-renew that have run out, using the same
+// logic and fees as a manual re-post. Must run before expirePosts so renewable posts
+// never show up as expired. Returns the ids of the posts renewed in this run.
+export const renewPosts = async (now: Date = new Date()): Promise<number[]> => {
+  try {
+    const due = await db.select()
+      .from(postsTable)
+      .where(and(
+        eq(postsTable.status, 'active'),
+        eq(postsTable.auto_renew, true),
+        lte(postsTable.expires_at, now),
+        isNull(postsTable.hidden_at), // Hidden posts run out instead of charging for listings nobody sees
+        notDeletedCondition()
+      ))
+      .execute();
+
+    const renewed: number[] = [];
+    for (const post of due) {
+      // One failing post must not hold up the others
+      try {
+        if (await renewPost(post, now)) {
+          renewed.push(post.id);
+          postEvents.emit('renewed', { post_id: post.id, user_id: post.user_id, status: 'active', at: now });
+        }
+      } catch (error) {
+        console.error(`Renewing post ${post.id} failed:`, error);
+      }
+    }
+
+    return renewed;
+  } catch (error) {
+    console.error('Renewing posts failed:', error);
+    throw error;
+  }
+};
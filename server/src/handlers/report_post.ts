@@ -0,0 +1,90 @@
+import { TRPCError } from '@trpc/server';
+import { db } from '../db';
+import { postReportsTable, postsTable } from '../db/schema';
+import { type PostReport, type ReportPostInput } from '../schema';
+import { and, count, eq } from 'drizzle-orm';
+import { publicPostCondition } from '../lib/posts';
+import { AUTO_HIDE_REPORT_COUNT, recordModerationAction } from '../lib/moderation';
+import { notifyUser } from '../lib/notifications';
+
+// Flag a publicly listed post for review. Each user has at most one open report per post;
+// reporting again returns that report. Once a post has AUTO_HIDE_REPORT_COUNT open reports
+// it is hidden from the public until a moderator looks at it.
+export const reportPost = async (
+  input: ReportPostInput,
+  reporterId: number,
+  now: Date = new Date()
+): Promise<PostReport> => {
+  try {
+    return await db.transaction(async (tx) => {
+      // Lock the post so parallel reports see each other when counting
+      const posts = await tx.select({ id: postsTable.id, user_id: postsTable.user_id, title: postsTable.title })
+        .from(postsTable)
+        .where(and(eq(postsTable.id, input.post_id), publicPostCondition(now)))
+        .for('update')
+        .execute();
+
+      if (posts.length === 0) {
+        throw new Error(`Post with id ${input.post_id} not found`);
+      }
+
+      const [post] = posts;
+      if (post.user_id === reporterId) {
+        throw new TRPCError({ code: 'BAD_REQUEST', message: 'You cannot report your own post' });
+      }
+
+      const existing = await tx.select()
+        .from(postReportsTable)
+        .where(and(
+          eq(postReportsTable.post_id, post.id),
+          eq(postReportsTable.reporter_id, reporterId),
+          eq(postReportsTable.status, 'open')
+        ))
+        .execute();
+      if (existing.length > 0) {
+        return existing[0];
+      }
+
+      const [report] = await tx.insert(postReportsTable)
+        .values({
+          post_id: post.id,
+          reporter_id: reporterId,
+          reason: input.reason,
+          details: input.details || null,
+          created_at: now
+        })
+        .returning()
+        .execute();
+
+      const [{ openReports }] = await tx.select({ openReports: count() })
+        .from(postReportsTable)
+        .where(and(eq(postReportsTable.post_id, post.id), eq(postReportsTable.status, 'open')))
+        .execute();
+
+      if (openReports >= AUTO_HIDE_REPORT_COUNT) {
+        await tx.update(postsTable)
+          .set({ hidden_at: now })
+          .where(eq(postsTable.id, post.id))
+          .execute();
+        await recordModerationAction(tx, {
+          action: 'auto_hide',
+          moderator_id: null,
+          post_id: post.id,
+          target_user_id: post.user_id,
+          note: `${openReports} open reports`,
+          created_at: now
+        });
+        await notifyUser({
+          user_id: post.user_id,
+          post_id: post.id,
+          message: `Your post "${post.title}" was reported by several users and is hidden until a moderator reviews it`
+        }, tx);
+      }
+
+      return report;
+    });
+  } catch (error) {
+    console.error('Reporting post failed:', error);
+    throw error;
+  }
+};
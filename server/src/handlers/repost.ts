@@ -1,37 +1,73 @@
-import { db } from '../db';
-import { postsTable } from '../db/schema';
-import { type RepostInput, type Post } from '../schema';
+import { db, type DbTransaction } from '../db';
+import { postsTable, type Post as PostRow } from '../db/schema';
+import { type RepostInput, type Post, type PostDuration, type PostStatus } from '../schema';
 import { eq } from 'drizzle-orm';
+import { getOwnedPost, toPost } from '../lib/posts';
+import { postEvents } from '../lib/post_events';
+import { postLedgerEntry } from '../lib/credit_ledger';
+import { DEFAULT_POST_DURATION, getDurationFee, getExpiresAt, POST_DURATIONS } from '../lib/post_durations';
 
-export const repost = async (input: RepostInput): Promise<Post> => {
+// Posts that were published before; drafts, scheduled and removed posts cannot be re-posted
+const REPOSTABLE_STATUSES: PostStatus[] = ['active', 'expired', 'archived'];
+
+// Put a post back up for `duration` starting now and debit the fee. Shared by manual
+// re-posts and auto-renew; must run inside a transaction so a failed debit rolls it back.
+export const applyRepost = async (
+  tx: DbTransaction,
+  post: PostRow,
+  duration: PostDuration,
+  now: Date,
+  feeLabel: string = 'Re-post fee'
+): Promise<PostRow> => {
+  if (!REPOSTABLE_STATUSES.includes(post.status)) {
+    throw new Error(`Post with id ${post.id} cannot be re-posted while it is ${post.status}`);
+  }
+  if (!post.posted_at) {
+    // A cancelled scheduled post is archived without ever having run
+    throw new Error(`Post with id ${post.id} was never published and cannot be re-posted`);
+  }
+
+  // Update the post's duration and its posted_at, expires_at, and updated_at timestamps
+  const result = await tx.update(postsTable)
+    .set({
+      status: 'active',
+      duration,
+      posted_at: now,
+      expires_at: getExpiresAt(now, duration),
+      updated_at: now
+    })
+    .where(eq(postsTable.id, post.id))
+    .returning()
+    .execute();
+
+  await postLedgerEntry(tx, {
+    user_id: post.user_id,
+    amount: -getDurationFee(duration),
+    entry_type: 'repost_fee',
+    reason: `${feeLabel} for post "${post.title}" (${POST_DURATIONS[duration].label})`,
+    post_id: post.id
+  });
+
+  return result[0];
+};
+
+export const repost = async (input: RepostInput, userId: number): Promise<Post> => {
   try {
+    const duration = input.duration ?? DEFAULT_POST_DURATION;
     const now = new Date();
-    const expiresAt = new Date(now.getTime() + 24 * 60 * 60 * 1000); // 24 hours from now
-
-    // Update the post's posted_at, expires_at, and updated_at timestamps
-    const result = await db.update(postsTable)
-      .set({
-        posted_at: now,
-        expires_at: expiresAt,
-        updated_at: now
-      })
-      .where(eq(postsTable.id, input.id))
-      .returning()
-      .execute();
-
-    if (result.length === 0) {
-      throw new Error(`Post with id ${input.id} not found`);
-    }
+
+    const post = await db.transaction(async (tx) => {
+      // Only the owner may re-post
+      const existing = await getOwnedPost(input.id, userId, tx);
+      return applyRepost(tx, existing, duration, now);
+    });
+
+    postEvents.emit('reposted', { post_id: post.id, user_id: userId, status: post.status, at: now });
 
     // Convert numeric fields back to numbers before returning
-    const post = result[0];
-    return {
-      ...post,
-      price: parseFloat(post.price), // Convert string back to number
-      is_active: post.expires_at > new Date() // Compute active status based on expiry
-    };
+    return toPost(post);
   } catch (error) {
     console.error('Repost failed:', error);
     throw error;
   }
-};
\ No newline at end of file
+};
@@ -0,0 +1,42 @@
+import { db } from '../db';
+import { postsTable } from '../db/schema';
+import { type ReschedulePostInput, type Post } from '../schema';
+import { and, eq } from 'drizzle-orm';
+import { assertFuturePublishTime, getOwnedPost, toPost } from '../lib/posts';
+import { getExpiresAt } from '../lib/post_durations';
+import { postEvents } from '../lib/post_events';
+
+export const reschedulePost = async (input: ReschedulePostInput, userId: number): Promise<Post> => {
+  try {
+    const now = new Date();
+    assertFuturePublishTime(input.publish_at, now);
+
+    const existing = await getOwnedPost(input.id, userId);
+    if (existing.status !== 'scheduled') {
+      throw new Error(`Post with id ${input.id} is not scheduled`);
+    }
+
+    // The status guard loses cleanly if the scheduler activates the post meanwhile
+    const result = await db.update(postsTable)
+      .set({
+        publish_at: input.publish_at,
+        posted_at: input.publish_at,
+        expires_at: getExpiresAt(input.publish_at, existing.duration),
+        updated_at: now
+      })
+      .where(and(eq(postsTable.id, input.id), eq(postsTable.status, 'scheduled')))
+      .returning()
+      .execute();
+
+    if (result.length === 0) {
+      throw new Error(`Post with id ${input.id} is not scheduled`);
+    }
+
+    postEvents.emit('rescheduled', { post_id: input.id, user_id: userId, status: 'scheduled', at: now });
+
+    return toPost(result[0]);
+  } catch (error) {
+    console.error('Post rescheduling failed:', error);
+    throw error;
+  }
+};
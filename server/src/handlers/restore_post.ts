@@ -0,0 +1,38 @@
+import { db } from '../db';
+import { postsTable } from '../db/schema';
+import { type RestorePostInput, type Post } from '../schema';
+import { and, eq, isNotNull } from 'drizzle-orm';
+import { getOwnedPost, getPurgeAt, toPost } from '../lib/posts';
+import { postEvents } from '../lib/post_events';
+
+// Take a post back out of the trash. It returns in the state it was deleted in; a listing
+// that ran out meanwhile is picked up by the expiry job as usual.
+export const restorePost = async (input: RestorePostInput, userId: number): Promise<Post> => {
+  try {
+    const existing = await getOwnedPost(input.id, userId, db, { includeDeleted: true });
+    const now = new Date();
+    if (!existing.deleted_at) {
+      throw new Error(`Post with id ${input.id} is not in the trash`);
+    }
+    if (getPurgeAt(existing.deleted_at) <= now) {
+      throw new Error(`Post with id ${input.id} is past the restore window`);
+    }
+
+    const result = await db.update(postsTable)
+      .set({ deleted_at: null, updated_at: now })
+      .where(and(eq(postsTable.id, input.id), isNotNull(postsTable.deleted_at)))
+      .returning()
+      .execute();
+
+    if (result.length === 0) {
+      throw new Error(`Post with id ${input.id} is not in the trash`);
+    }
+
+    postEvents.emit('restored', { post_id: input.id, user_id: userId, status: result[0].status, at: now });
+
+    return toPost(result[0], now);
+  } catch (error) {
+    console.error('Post restore failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,52 @@
+import { db } from '../db';
+import { postsTable, postRevisionsTable } from '../db/schema';
+import { type RestorePostRevisionInput, type Post } from '../schema';
+import { and, eq } from 'drizzle-orm';
+import { getOwnedPost, toPost } from '../lib/posts';
+import { recordPostRevision } from '../lib/post_revisions';
+
+// Copy an earlier revision back onto the post. The restore is itself a new revision,
+// so the history stays append-only.
+export const restorePostRevision = async (input: RestorePostRevisionInput, userId: number): Promise<Post> => {
+  try {
+    const post = await db.transaction(async (tx) => {
+      const existing = await getOwnedPost(input.post_id, userId, tx);
+      if (existing.status === 'removed') {
+        throw new Error(`Post with id ${input.post_id} is removed and cannot be edited`);
+      }
+
+      const revisions = await tx.select()
+        .from(postRevisionsTable)
+        .where(and(
+          eq(postRevisionsTable.id, input.revision_id),
+          eq(postRevisionsTable.post_id, input.post_id)
+        ))
+        .execute();
+
+      if (revisions.length === 0) {
+        throw new Error(`Revision ${input.revision_id} not found for post ${input.post_id}`);
+      }
+
+      const revision = revisions[0];
+      const result = await tx.update(postsTable)
+        .set({
+          title: revision.title,
+          content: revision.content,
+          price: revision.price,
+          updated_at: new Date()
+        })
+        .where(eq(postsTable.id, input.post_id))
+        .returning()
+        .execute();
+
+      await recordPostRevision(tx, result[0], userId, 'restored', revision.id);
+
+      return result[0];
+    });
+
+    return toPost(post);
+  } catch (error) {
+    console.error('Restoring post revision failed:', error);
+    throw error;
+  }
+};
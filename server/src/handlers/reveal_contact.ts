@@ -0,0 +1,74 @@
+import { TRPCError } from '@trpc/server';
+import { db } from '../db';
+import { contactRevealsTable, postsTable, usersTable } from '../db/schema';
+import { type ContactReveal, type RevealContactInput } from '../schema';
+import { and, count, eq, gt } from 'drizzle-orm';
+import { publicPostCondition } from '../lib/posts';
+import { REVEAL_LIMIT, REVEAL_WINDOW_MS } from '../lib/contact_reveals';
+
+// Show an active post's contact phone to a logged-in viewer. The first reveal of each post is
+// logged for the seller's statistics and counts toward the viewer's hourly limit; revealing
+// the same post again, or one's own post, is free.
+export const revealContact = async (
+  input: RevealContactInput,
+  viewerId: number,
+  now: Date = new Date()
+): Promise<ContactReveal> => {
+  try {
+    return await db.transaction(async (tx) => {
+      const posts = await tx.select({ user_id: postsTable.user_id, phone_number: usersTable.phone_number })
+        .from(postsTable)
+        .innerJoin(usersTable, eq(postsTable.user_id, usersTable.id))
+        .where(and(eq(postsTable.id, input.post_id), publicPostCondition(now)))
+        .execute();
+
+      if (posts.length === 0) {
+        throw new Error(`Post with id ${input.post_id} not found`);
+      }
+
+      const [post] = posts;
+      const contact = { post_id: input.post_id, phone_number: post.phone_number };
+      if (post.user_id === viewerId) {
+        return contact;
+      }
+
+      // Lock the viewer's row so parallel reveals cannot both slip under the limit
+      await tx.select({ id: usersTable.id })
+        .from(usersTable)
+        .where(eq(usersTable.id, viewerId))
+        .for('update')
+        .execute();
+
+      const previous = await tx.select({ id: contactRevealsTable.id })
+        .from(contactRevealsTable)
+        .where(and(eq(contactRevealsTable.post_id, input.post_id), eq(contactRevealsTable.viewer_id, viewerId)))
+        .execute();
+      if (previous.length > 0) {
+        return contact;
+      }
+
+      const [{ recent }] = await tx.select({ recent: count() })
+        .from(contactRevealsTable)
+        .where(and(
+          eq(contactRevealsTable.viewer_id, viewerId),
+          gt(contactRevealsTable.created_at, new Date(now.getTime() - REVEAL_WINDOW_MS))
+        ))
+        .execute();
+      if (recent >= REVEAL_LIMIT) {
+        throw new TRPCError({
+          code: 'TOO_MANY_REQUESTS',
+          message: `You can reveal up to ${REVEAL_LIMIT} contacts per hour; please try again later`
+        });
+      }
+
+      await tx.insert(contactRevealsTable)
+        .values({ post_id: input.post_id, viewer_id: viewerId, created_at: now })
+        .execute();
+
+      return contact;
+    });
+  } catch (error) {
+    console.error('Contact reveal failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,29 @@
+import { db } from '../db';
+import { postsTable, savedPostsTable } from '../db/schema';
+import { type SavePostInput } from '../schema';
+import { and, eq } from 'drizzle-orm';
+import { publicPostCondition } from '../lib/posts';
+
+// Add an active post to the user's saved list; saving it again keeps the original save time
+export async function savePost(input: SavePostInput, userId: number): Promise<{ success: boolean }> {
+  try {
+    const posts = await db.select({ id: postsTable.id })
+      .from(postsTable)
+      .where(and(eq(postsTable.id, input.post_id), publicPostCondition()))
+      .execute();
+
+    if (posts.length === 0) {
+      throw new Error(`Post with id ${input.post_id} not found`);
+    }
+
+    await db.insert(savedPostsTable)
+      .values({ user_id: userId, post_id: input.post_id })
+      .onConflictDoNothing()
+      .execute();
+
+    return { success: true };
+  } catch (error) {
+    console.error('Saving post failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,57 @@
+import { db } from '../db';
+import { postsTable, usersTable } from '../db/schema';
+import { type PostSearchPage, type SearchPostsInput } from '../schema';
+import { and, eq } from 'drizzle-orm';
+import { publicPostCondition } from '../lib/posts';
+import { withPostDetails } from '../lib/post_details';
+import { maskPhoneNumber } from '../lib/contact_reveals';
+import { listOrder, postListConditions, postListOrderBy, sortValueColumn, toPage, type ListOrder } from '../lib/post_listing';
+import { contentSnippet, searchMatches, searchQuery, searchRank, titleHighlight, toPrefixQuery } from '../lib/post_search';
+
+export async function searchPosts(input: SearchPostsInput): Promise<PostSearchPage> {
+  try {
+    const prefixQuery = toPrefixQuery(input.query);
+    if (!prefixQuery) {
+      // Nothing but punctuation; no post can match
+      return { items: [], nextCursor: null };
+    }
+
+    const now = new Date();
+    const query = searchQuery(prefixQuery);
+    const rank = searchRank(query);
+    const order: ListOrder = input.sort === 'relevance'
+      ? { name: 'relevance', keys: [rank], direction: 'desc' }
+      : listOrder(input.sort);
+
+    const results = await db.select({
+      id: postsTable.id,
+      title: postsTable.title,
+      content: postsTable.content,
+      price: postsTable.price,
+      phone_number: usersTable.phone_number, // Masked below
+      created_at: postsTable.created_at,
+      expires_at: postsTable.expires_at,
+      rank,
+      title_highlight: titleHighlight(query),
+      snippet: contentSnippet(query),
+      sort_value: sortValueColumn(order)
+    })
+      .from(postsTable)
+      .innerJoin(usersTable, eq(postsTable.user_id, usersTable.id))
+      .where(and(publicPostCondition(now), searchMatches(query), ...postListConditions(input, order, now)))
+      .orderBy(...postListOrderBy(order))
+      .limit(input.limit + 1)
+      .execute();
+
+    const page = toPage(results, input.limit, order, ({ sort_value, phone_number, ...post }) => ({
+      ...post,
+      phone_masked: maskPhoneNumber(phone_number),
+      price: parseFloat(post.price), // Convert numeric string to number
+      expires_at: post.expires_at! // Active posts always have an expiry
+    }));
+    return { ...page, items: await withPostDetails(page.items) };
+  } catch (error) {
+    console.error('Post search failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,74 @@
+import { TRPCError } from '@trpc/server';
+import { db, type DbExecutor } from '../db';
+import { conversationsTable, messagesTable, postsTable, type Conversation } from '../db/schema';
+import { type Message, type SendMessageInput } from '../schema';
+import { and, eq } from 'drizzle-orm';
+import { publicPostCondition } from '../lib/posts';
+import { getParticipantConversation, isBlockedBetween, moveReadMarker, otherParticipant } from '../lib/conversations';
+
+// The sender's thread about a post, started on first contact. Only active posts take new threads.
+const buyerConversation = async (tx: DbExecutor, postId: number, buyerId: number, now: Date): Promise<Conversation> => {
+  const existing = await tx.select()
+    .from(conversationsTable)
+    .where(and(eq(conversationsTable.post_id, postId), eq(conversationsTable.buyer_id, buyerId)))
+    .execute();
+  if (existing.length > 0) {
+    return existing[0];
+  }
+
+  const posts = await tx.select({ user_id: postsTable.user_id })
+    .from(postsTable)
+    .where(and(eq(postsTable.id, postId), publicPostCondition(now)))
+    .execute();
+  if (posts.length === 0) {
+    throw new Error(`Post with id ${postId} not found`);
+  }
+  if (posts[0].user_id === buyerId) {
+    throw new TRPCError({ code: 'BAD_REQUEST', message: 'You cannot message yourself about your own post' });
+  }
+
+  // A parallel first message may have created the thread in the meantime
+  await tx.insert(conversationsTable)
+    .values({ post_id: postId, owner_id: posts[0].user_id, buyer_id: buyerId, last_message_at: now, created_at: now })
+    .onConflictDoNothing()
+    .execute();
+
+  const [conversation] = await tx.select()
+    .from(conversationsTable)
+    .where(and(eq(conversationsTable.post_id, postId), eq(conversationsTable.buyer_id, buyerId)))
+    .execute();
+  return conversation;
+};
+
+// Send a message to the other side of a conversation, starting one about a post if needed
+export const sendMessage = async (input: SendMessageInput, senderId: number): Promise<Message> => {
+  try {
+    const now = new Date();
+    return await db.transaction(async (tx) => {
+      const conversation = input.post_id !== undefined
+        ? await buyerConversation(tx, input.post_id, senderId, now)
+        : await getParticipantConversation(input.conversation_id!, senderId, tx);
+
+      if (await isBlockedBetween(senderId, otherParticipant(conversation, senderId), tx)) {
+        throw new TRPCError({ code: 'FORBIDDEN', message: 'You cannot message this user' });
+      }
+
+      const [message] = await tx.insert(messagesTable)
+        .values({ conversation_id: conversation.id, sender_id: senderId, body: input.body, created_at: now })
+        .returning()
+        .execute();
+
+      await tx.update(conversationsTable)
+        .set({ last_message_at: now })
+        .where(eq(conversationsTable.id, conversation.id))
+        .execute();
+      // The sender has obviously seen everything up to their own message
+      await moveReadMarker(tx, conversation, senderId, message.id);
+
+      return message;
+    });
+  } catch (error) {
+    console.error('Sending message failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,41 @@
+import { db } from '../db';
+import { postsTable } from '../db/schema';
+import { type SetAutoRenewInput, type Post } from '../schema';
+import { eq } from 'drizzle-orm';
+import { getOwnedPost, toPost } from '../lib/posts';
+
+export const setAutoRenew = async (input: SetAutoRenewInput, userId: number): Promise<Post> => {
+  try {
+    const existing = await getOwnedPost(input.id, userId);
+    if (existing.status === 'removed') {
+      throw new Error(`Post with id ${input.id} is removed and cannot be renewed`);
+    }
+
+    // Enabling starts a fresh subscription; disabling keeps the counters for reference
+    const updateData = input.enabled
+      ? {
+          auto_renew: true,
+          auto_renew_max_renewals: input.max_renewals ?? null,
+          auto_renew_spend_cap: input.spend_cap ?? null,
+          auto_renew_renewals: 0,
+          auto_renew_spent: 0,
+          auto_renew_stopped_reason: null,
+          updated_at: new Date()
+        }
+      : {
+          auto_renew: false,
+          updated_at: new Date()
+        };
+
+    const result = await db.update(postsTable)
+      .set(updateData)
+      .where(eq(postsTable.id, input.id))
+      .returning()
+      .execute();
+
+    return toPost(result[0]);
+  } catch (error) {
+    console.error('Updating auto-renew failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,47 @@
+import { TRPCError } from '@trpc/server';
+import { db } from '../db';
+import { usersTable } from '../db/schema';
+import { type SetUserRoleInput, type UserProfile } from '../schema';
+import { eq } from 'drizzle-orm';
+import { recordAdminAction } from '../lib/roles';
+
+// Admin tool: make a user a moderator or admin, or take that away again.
+// Admins cannot change their own role, so there is always someone left to undo a mistake.
+export const setUserRole = async (input: SetUserRoleInput, adminId: number): Promise<UserProfile> => {
+  try {
+    if (input.user_id === adminId) {
+      throw new TRPCError({ code: 'BAD_REQUEST', message: 'You cannot change your own role' });
+    }
+
+    return await db.transaction(async (tx) => {
+      const users = await tx.select({ role: usersTable.role })
+        .from(usersTable)
+        .where(eq(usersTable.id, input.user_id))
+        .for('update')
+        .execute();
+      if (users.length === 0) {
+        throw new Error(`User with id ${input.user_id} not found`);
+      }
+
+      const [{ password_hash, ...user }] = await tx.update(usersTable)
+        .set({ role: input.role, updated_at: new Date() })
+        .where(eq(usersTable.id, input.user_id))
+        .returning()
+        .execute();
+
+      if (users[0].role !== input.role) {
+        await recordAdminAction(tx, {
+          admin_id: adminId,
+          action: 'set_role',
+          target_user_id: input.user_id,
+          details: `Role changed from ${users[0].role} to ${input.role}`
+        });
+      }
+
+      return user;
+    });
+  } catch (error) {
+    console.error('Setting user role failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,18 @@
+import { db } from '../db';
+import { userBlocksTable } from '../db/schema';
+import { type BlockUserInput } from '../schema';
+import { and, eq } from 'drizzle-orm';
+
+// Lift a block set by the current user
+export async function unblockUser(input: BlockUserInput, userId: number): Promise<{ success: boolean }> {
+  try {
+    await db.delete(userBlocksTable)
+      .where(and(eq(userBlocksTable.blocker_id, userId), eq(userBlocksTable.blocked_id, input.user_id)))
+      .execute();
+
+    return { success: true };
+  } catch (error) {
+    console.error('Unblocking user failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,18 @@
+import { db } from '../db';
+import { savedPostsTable } from '../db/schema';
+import { type SavePostInput } from '../schema';
+import { and, eq } from 'drizzle-orm';
+
+// Remove a post from the user's saved list, whatever state the post is in
+export async function unsavePost(input: SavePostInput, userId: number): Promise<{ success: boolean }> {
+  try {
+    await db.delete(savedPostsTable)
+      .where(and(eq(savedPostsTable.user_id, userId), eq(savedPostsTable.post_id, input.post_id)))
+      .execute();
+
+    return { success: true };
+  } catch (error) {
+    console.error('Unsaving post failed:', error);
+    throw error;
+  }
+}
@@ -1,50 +1,86 @@
 import { db } from '../db';
 import { postsTable } from '../db/schema';
-import { type UpdatePostInput, type Post } from '../schema';
+import { type UpdatePostInput, type DetailedPost } from '../schema';
 import { eq } from 'drizzle-orm';
+import { getOwnedPost, toPost } from '../lib/posts';
+import { recordPostRevision } from '../lib/post_revisions';
+import { setPostLabels } from '../lib/post_labels';
+import { deleteStoredFiles, setPostImages } from '../lib/post_images';
+import { imageStorage, type ObjectStorage } from '../lib/storage';
+import { withPostDetails } from '../lib/post_details';
 
-export const updatePost = async (input: UpdatePostInput): Promise<Post> => {
+export const updatePost = async (
+  input: UpdatePostInput,
+  userId: number,
+  storage: ObjectStorage = imageStorage
+): Promise<DetailedPost> => {
   try {
-    // Build the update object with only provided fields
-    const updateData: any = {
-      updated_at: new Date() // Always update the updated_at timestamp
-    };
-
-    // Only include fields that were provided in the input
-    if (input.title !== undefined) {
-      updateData.title = input.title;
-    }
-    
-    if (input.content !== undefined) {
-      updateData.content = input.content;
-    }
-    
-    if (input.price !== undefined) {
-      updateData.price = input.price.toString(); // Convert number to string for numeric column
-    }
-
-    // Update the post in the database
-    const result = await db.update(postsTable)
-      .set(updateData)
-      .where(eq(postsTable.id, input.id))
-      .returning()
-      .execute();
-
-    if (result.length === 0) {
-      throw new Error(`Post with id ${input.id} not found`);
-    }
-
-    // Convert numeric fields back to numbers and calculate is_active
-    const post = result[0];
-    const now = new Date();
-    
-    return {
-      ...post,
-      price: parseFloat(post.price), // Convert string back to number
-      is_active: post.expires_at > now // Calculate if post is still active
-    };
+    let droppedFiles: string[] = [];
+    const post = await db.transaction(async (tx) => {
+      // Only the owner may edit a post
+      const existing = await getOwnedPost(input.id, userId, tx);
+      if (existing.status === 'removed') {
+        throw new Error(`Post with id ${input.id} is removed and cannot be edited`);
+      }
+
+      // Build the update object with only provided fields
+      const updateData: any = {
+        updated_at: new Date() // Always update the updated_at timestamp
+      };
+
+      // Only include fields that were provided in the input
+      if (input.title !== undefined) {
+        updateData.title = input.title;
+      }
+      
+      if (input.content !== undefined) {
+        updateData.content = input.content;
+      }
+      
+      if (input.price !== undefined) {
+        updateData.price = input.price.toString(); // Convert number to string for numeric column
+      }
+
+      if (input.duration !== undefined) {
+        if (existing.status !== 'draft') {
+          throw new Error(`Post with id ${input.id} is not a draft; re-post it to change its duration`);
+        }
+        updateData.duration = input.duration;
+      }
+
+      // Update the post in the database
+      const result = await tx.update(postsTable)
+        .set(updateData)
+        .where(eq(postsTable.id, input.id))
+        .returning()
+        .execute();
+
+      if (result.length === 0) {
+        throw new Error(`Post with id ${input.id} not found`);
+      }
+
+      // A new revision only when what buyers see actually changed
+      const updated = result[0];
+      if (updated.title !== existing.title || updated.content !== existing.content || updated.price !== existing.price) {
+        await recordPostRevision(tx, updated, userId, 'updated');
+      }
+
+      await setPostLabels(tx, updated.id, input);
+      if (input.image_ids) {
+        droppedFiles = await setPostImages(tx, updated.id, userId, input.image_ids);
+      }
+
+      return updated;
+    });
+
+    // Files go only once the rows are gone for good; a rolled back update keeps its images
+    await deleteStoredFiles(droppedFiles, storage);
+
+    // Convert numeric fields back to numbers, calculate is_active and add categories, tags and images
+    const [labeled] = await withPostDetails([toPost(post)]);
+    return labeled;
   } catch (error) {
     console.error('Post update failed:', error);
     throw error;
   }
-};
\ No newline at end of file
+};
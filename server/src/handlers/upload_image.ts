@@ -0,0 +1,54 @@
+import { randomUUID } from 'crypto';
+import { db } from '../db';
+import { postImagesTable } from '../db/schema';
+import { type PostImage, type UploadImageInput } from '../schema';
+import { processImage } from '../lib/images';
+import { deleteStoredFiles, toPostImage } from '../lib/post_images';
+import { imageStorage, type ObjectStorage } from '../lib/storage';
+
+// Store an image and its generated sizes, not yet attached to any post. It is attached by passing
+// its id in image_ids to createPost or updatePost; uploads never attached are purged after a day.
+export const uploadImage = async (
+  input: UploadImageInput,
+  userId: number,
+  storage: ObjectStorage = imageStorage
+): Promise<PostImage> => {
+  try {
+    const image = await processImage(Buffer.from(input.data, 'base64'), input.content_type);
+
+    const prefix = `images/${userId}/${randomUUID()}`;
+    const keys = {
+      original_key: `${prefix}/original.${image.extension}`,
+      medium_key: `${prefix}/medium.webp`,
+      thumbnail_key: `${prefix}/thumbnail.webp`
+    };
+
+    try {
+      await storage.put(keys.original_key, image.original, image.content_type);
+      await storage.put(keys.medium_key, image.medium, 'image/webp');
+      await storage.put(keys.thumbnail_key, image.thumbnail, 'image/webp');
+
+      const result = await db.insert(postImagesTable)
+        .values({
+          user_id: userId,
+          content_type: image.content_type,
+          width: image.width,
+          height: image.height,
+          size_bytes: image.original.length,
+          ...keys,
+          created_at: new Date()
+        })
+        .returning()
+        .execute();
+
+      return toPostImage(result[0]);
+    } catch (error) {
+      // No row points at the files, so nothing would ever clean them up
+      await deleteStoredFiles(Object.values(keys), storage);
+      throw error;
+    }
+  } catch (error) {
+    console.error('Image upload failed:', error);
+    throw error;
+  }
+};
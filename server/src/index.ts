@@ -1,80 +1,429 @@
-import { initTRPC } from '@trpc/server';
 import { createHTTPServer } from '@trpc/server/adapters/standalone';
 import 'dotenv/config';
 import cors from 'cors';
-import superjson from 'superjson';
 
 // Import schema types
 import { 
+  registerUserInputSchema,
+  loginUserInputSchema,
   createPostInputSchema, 
   updatePostInputSchema, 
   repostInputSchema,
   getPostInputSchema,
-  deletePostInputSchema 
+  deletePostInputSchema,
+  postListInputSchema,
+  allPostsListInputSchema,
+  publicPostListInputSchema,
+  searchPostsInputSchema,
+  restorePostInputSchema,
+  publishPostInputSchema,
+  getPostRevisionsInputSchema,
+  restorePostRevisionInputSchema,
+  setAutoRenewInputSchema,
+  reschedulePostInputSchema,
+  cancelScheduledPostInputSchema,
+  purchaseCreditsInputSchema,
+  confirmPurchaseInputSchema,
+  creditHistoryInputSchema,
+  uploadImageInputSchema,
+  revealContactInputSchema,
+  sendMessageInputSchema,
+  getMessagesInputSchema,
+  markConversationReadInputSchema,
+  blockUserInputSchema,
+  savePostInputSchema,
+  reportPostInputSchema,
+  moderatePostInputSchema,
+  adminUserListInputSchema,
+  adjustCreditsInputSchema,
+  forceExpirePostInputSchema,
+  setUserRoleInputSchema,
+  adminPurchaseListInputSchema,
+  adminPostListInputSchema,
+  auditLogListInputSchema
 } from './schema';
 
 // Import handlers
+import { registerUser } from './handlers/register_user';
+import { loginUser } from './handlers/login_user';
+import { getUserProfile } from './handlers/get_user_profile';
 import { createPost } from './handlers/create_post';
 import { getPosts } from './handlers/get_posts';
 import { getPost } from './handlers/get_post';
+import { getUserPosts } from './handlers/get_user_posts';
 import { updatePost } from './handlers/update_post';
 import { repost } from './handlers/repost';
 import { deletePost } from './handlers/delete_post';
+import { restorePost } from './handlers/restore_post';
+import { getTrash } from './handlers/get_trash';
+import { publishPost } from './handlers/publish_post';
+import { getPostRevisions } from './handlers/get_post_revisions';
+import { restorePostRevision } from './handlers/restore_post_revision';
+import { setAutoRenew } from './handlers/set_auto_renew';
+import { getNotifications } from './handlers/get_notifications';
+import { markNotificationsRead } from './handlers/mark_notifications_read';
+import { reschedulePost } from './handlers/reschedule_post';
+import { cancelScheduledPost } from './handlers/cancel_scheduled_post';
+import { purchaseCredits } from './handlers/purchase_credits';
+import { confirmPurchase } from './handlers/confirm_purchase';
+import { getCreditHistory } from './handlers/get_credit_history';
+import { getCreditPackages } from './handlers/get_credit_packages';
+import { getPostDurations } from './handlers/get_post_durations';
+import { getPublicPosts } from './handlers/get_public_posts';
+import { searchPosts } from './handlers/search_posts';
+import { getCategories } from './handlers/get_categories';
+import { uploadImage } from './handlers/upload_image';
+import { revealContact } from './handlers/reveal_contact';
+import { getContactReveals } from './handlers/get_contact_reveals';
+import { sendMessage } from './handlers/send_message';
+import { getConversations } from './handlers/get_conversations';
+import { getMessages } from './handlers/get_messages';
+import { markConversationRead } from './handlers/mark_conversation_read';
+import { blockUser } from './handlers/block_user';
+import { unblockUser } from './handlers/unblock_user';
+import { savePost } from './handlers/save_post';
+import { unsavePost } from './handlers/unsave_post';
+import { getSavedPosts } from './handlers/get_saved_posts';
+import { reportPost } from './handlers/report_post';
+import { getModerationQueue } from './handlers/get_moderation_queue';
+import { moderatePost } from './handlers/moderate_post';
+import { getUsers } from './handlers/get_users';
+import { adjustCredits } from './handlers/adjust_credits';
+import { forceExpirePost } from './handlers/force_expire_post';
+import { setUserRole } from './handlers/set_user_role';
+import { getPurchases } from './handlers/get_purchases';
+import { getAdminPosts } from './handlers/get_admin_posts';
+import { getAdminStats } from './handlers/get_admin_stats';
+import { getAuditLog } from './handlers/get_audit_log';
 
-const t = initTRPC.create({
-  transformer: superjson,
-});
+import { seedCreditPackages } from './lib/credit_packages';
+import { seedCategories } from './lib/categories';
+import { withIdempotency } from './lib/idempotency';
+import { seedAdmins } from './lib/roles';
+import { serveImage } from './lib/image_route';
+import { startScheduler } from './lib/scheduler';
+import { subscribeSavedPostAlerts } from './lib/saved_post_alerts';
+import { createSessionToken, serializeSessionCookie } from './lib/session';
+import {
+  createContext,
+  router,
+  publicProcedure,
+  protectedProcedure,
+  moderatorProcedure,
+  adminProcedure,
+  type Context
+} from './trpc';
 
-const publicProcedure = t.procedure;
-const router = t.router;
+// Issue a session token and store it in an httpOnly cookie
+const startSession = (ctx: Context, userId: number): string => {
+  const token = createSessionToken(userId);
+  const secure = ctx.req.headers['x-forwarded-proto'] === 'https';
+  ctx.res.setHeader('Set-Cookie', serializeSessionCookie(token, secure));
+  return token;
+};
 
 const appRouter = router({
   healthcheck: publicProcedure.query(() => {
     return { status: 'ok', timestamp: new Date().toISOString() };
   }),
+
+  // Register a new user account (password hash never leaves the server)
+  register: publicProcedure
+    .input(registerUserInputSchema)
+    .mutation(async ({ input, ctx }) => {
+      const { password_hash, ...user } = await registerUser(input);
+      startSession(ctx, user.id);
+      return user;
+    }),
+
+  // Authenticate with email and password and start a session
+  login: publicProcedure
+    .input(loginUserInputSchema)
+    .mutation(async ({ input, ctx }) => {
+      const auth = await loginUser(input);
+      const token = startSession(ctx, auth.user_id);
+      return { ...auth, token };
+    }),
+
+  // End the current session by clearing the cookie
+  logout: publicProcedure
+    .mutation(({ ctx }) => {
+      ctx.res.setHeader('Set-Cookie', serializeSessionCookie('', false));
+      return { success: true };
+    }),
+
+  // Get the current user's profile and credit balance
+  getUserProfile: protectedProcedure
+    .query(async ({ ctx }) => {
+      const { password_hash, ...user } = await getUserProfile(ctx.user.user_id);
+      return user;
+    }),
   
-  // Create a new post
-  createPost: publicProcedure
+  // Create a new post (replayed for a repeated idempotency key)
+  createPost: protectedProcedure
     .input(createPostInputSchema)
-    .mutation(({ input }) => createPost(input)),
+    .mutation(({ input, ctx }) =>
+      withIdempotency(ctx.user.user_id, 'createPost', input, () => createPost(input, ctx.user.user_id))),
+  
+  // Get the listing durations and their fees
+  getPostDurations: publicProcedure
+    .query(() => getPostDurations()),
   
-  // Get all posts (with active/expired status)
+  // Get a page of published posts (with active/expired status), filtered and sorted
   getPosts: publicProcedure
-    .query(() => getPosts()),
+    .input(allPostsListInputSchema)
+    .query(({ input }) => getPosts(input)),
+  
+  // Get a page of active posts for public display, filtered and sorted
+  getPublicPosts: publicProcedure
+    .input(publicPostListInputSchema)
+    .query(({ input }) => getPublicPosts(input)),
   
-  // Get a single post by ID
+  // Full-text search over active posts, ranked or sorted like the public listing
+  searchPosts: publicProcedure
+    .input(searchPostsInputSchema)
+    .query(({ input }) => searchPosts(input)),
+  
+  // Show an active post's contact phone to a logged-in visitor (rate-limited and logged)
+  revealContact: protectedProcedure
+    .input(revealContactInputSchema)
+    .mutation(({ input, ctx }) => revealContact(input, ctx.user.user_id)),
+  
+  // How many people revealed the contact phone of each of the current user's posts
+  getContactReveals: protectedProcedure
+    .query(({ ctx }) => getContactReveals(ctx.user.user_id)),
+  
+  // Category tree with active post counts, for browsing and the post form
+  getCategories: publicProcedure
+    .query(() => getCategories()),
+  
+  // Get a page of the current user's posts (including expired ones), filtered and sorted
+  getUserPosts: protectedProcedure
+    .input(postListInputSchema)
+    .query(({ input, ctx }) => getUserPosts(ctx.user.user_id, input)),
+  
+  // Get a single post by ID; unpublished and hidden posts only for their owner and staff
   getPost: publicProcedure
     .input(getPostInputSchema)
-    .query(({ input }) => getPost(input)),
+    .query(({ input, ctx }) => getPost(input, ctx.user)),
+  
+  // Upload an image, to be attached to a post through image_ids
+  uploadImage: protectedProcedure
+    .input(uploadImageInputSchema)
+    .mutation(({ input, ctx }) => uploadImage(input, ctx.user.user_id)),
   
   // Update an existing post
-  updatePost: publicProcedure
+  updatePost: protectedProcedure
     .input(updatePostInputSchema)
-    .mutation(({ input }) => updatePost(input)),
+    .mutation(({ input, ctx }) => updatePost(input, ctx.user.user_id)),
   
-  // Re-post an expired post
-  repost: publicProcedure
+  // Re-post an expired post (replayed for a repeated idempotency key)
+  repost: protectedProcedure
     .input(repostInputSchema)
-    .mutation(({ input }) => repost(input)),
+    .mutation(({ input, ctx }) =>
+      withIdempotency(ctx.user.user_id, 'repost', input, () => repost(input, ctx.user.user_id))),
   
-  // Delete a post
-  deletePost: publicProcedure
+  // Get a post's revision history, newest first
+  getPostRevisions: protectedProcedure
+    .input(getPostRevisionsInputSchema)
+    .query(({ input, ctx }) => getPostRevisions(input, ctx.user.user_id)),
+  
+  // Put an earlier revision of a post back
+  restorePostRevision: protectedProcedure
+    .input(restorePostRevisionInputSchema)
+    .mutation(({ input, ctx }) => restorePostRevision(input, ctx.user.user_id)),
+  
+  // Publish a draft (charges its fee)
+  publishPost: protectedProcedure
+    .input(publishPostInputSchema)
+    .mutation(({ input, ctx }) =>
+      withIdempotency(ctx.user.user_id, 'publishPost', input, () => publishPost(input, ctx.user.user_id))
+    ),
+  
+  // Turn automatic re-posting on (with a renewal limit or spending cap) or off
+  setAutoRenew: protectedProcedure
+    .input(setAutoRenewInputSchema)
+    .mutation(({ input, ctx }) => setAutoRenew(input, ctx.user.user_id)),
+  
+  // Move a scheduled post to a new publish time
+  reschedulePost: protectedProcedure
+    .input(reschedulePostInputSchema)
+    .mutation(({ input, ctx }) => reschedulePost(input, ctx.user.user_id)),
+  
+  // Cancel a scheduled post before it goes live (refunds its fee)
+  cancelScheduledPost: protectedProcedure
+    .input(cancelScheduledPostInputSchema)
+    .mutation(({ input, ctx }) => cancelScheduledPost(input, ctx.user.user_id)),
+  
+  // Move a post to the trash
+  deletePost: protectedProcedure
     .input(deletePostInputSchema)
-    .mutation(({ input }) => deletePost(input)),
+    .mutation(({ input, ctx }) => deletePost(input, ctx.user.user_id)),
+  
+  // Get the current user's trash, most recently deleted first
+  getTrash: protectedProcedure
+    .query(({ ctx }) => getTrash(ctx.user.user_id)),
+  
+  // Take a post back out of the trash
+  restorePost: protectedProcedure
+    .input(restorePostInputSchema)
+    .mutation(({ input, ctx }) => restorePost(input, ctx.user.user_id)),
+
+  // Get the credit packages on sale
+  getCreditPackages: publicProcedure
+    .query(() => getCreditPackages()),
+
+  // Buy a credit package through the payment gateway (replayed for a repeated idempotency key)
+  purchaseCredits: protectedProcedure
+    .input(purchaseCreditsInputSchema)
+    .mutation(({ input, ctx }) =>
+      withIdempotency(ctx.user.user_id, 'purchaseCredits', input, () => purchaseCredits(input, ctx.user.user_id))),
+
+  // Check on a purchase that needed confirming with the bank, and add its credits once it went through
+  confirmPurchase: protectedProcedure
+    .input(confirmPurchaseInputSchema)
+    .mutation(({ input, ctx }) => confirmPurchase(input, ctx.user.user_id)),
+
+  // Get the current user's credit purchases, newest first
+  getCreditHistory: protectedProcedure
+    .input(creditHistoryInputSchema)
+    .query(({ input, ctx }) => getCreditHistory(ctx.user.user_id, input)),
+
+  // Add an active post to the current user's saved list
+  savePost: protectedProcedure
+    .input(savePostInputSchema)
+    .mutation(({ input, ctx }) => savePost(input, ctx.user.user_id)),
+  
+  // Remove a post from the current user's saved list
+  unsavePost: protectedProcedure
+    .input(savePostInputSchema)
+    .mutation(({ input, ctx }) => unsavePost(input, ctx.user.user_id)),
+  
+  // Get the current user's saved posts, flagged as active, expired or unavailable
+  getSavedPosts: protectedProcedure
+    .query(({ ctx }) => getSavedPosts(ctx.user.user_id)),
+  
+  // Message a post's owner about it, or reply in an existing conversation
+  sendMessage: protectedProcedure
+    .input(sendMessageInputSchema)
+    .mutation(({ input, ctx }) => sendMessage(input, ctx.user.user_id)),
+
+  // Get the current user's conversations with unread counts, most recent first
+  getConversations: protectedProcedure
+    .query(({ ctx }) => getConversations(ctx.user.user_id)),
+
+  // Get a page of a conversation's messages
+  getMessages: protectedProcedure
+    .input(getMessagesInputSchema)
+    .query(({ input, ctx }) => getMessages(input, ctx.user.user_id)),
+
+  // Mark a conversation read up to the newest message the current user has seen
+  markConversationRead: protectedProcedure
+    .input(markConversationReadInputSchema)
+    .mutation(({ input, ctx }) => markConversationRead(input, ctx.user.user_id)),
+
+  // Stop a user from messaging the current user
+  blockUser: protectedProcedure
+    .input(blockUserInputSchema)
+    .mutation(({ input, ctx }) => blockUser(input, ctx.user.user_id)),
+
+  // Lift a block set by the current user
+  unblockUser: protectedProcedure
+    .input(blockUserInputSchema)
+    .mutation(({ input, ctx }) => unblockUser(input, ctx.user.user_id)),
+
+  // Flag a post for moderation with a reason code
+  reportPost: protectedProcedure
+    .input(reportPostInputSchema)
+    .mutation(({ input, ctx }) => reportPost(input, ctx.user.user_id)),
+
+  // Reported posts awaiting review, most reported first
+  getModerationQueue: moderatorProcedure
+    .query(() => getModerationQueue()),
+
+  // Dismiss the reports on a post, hide it, remove it with a refund, or ban its owner
+  moderatePost: moderatorProcedure
+    .input(moderatePostInputSchema)
+    .mutation(({ input, ctx }) => moderatePost(input, ctx.user.user_id)),
+
+  // Operator tools; every mutation here is also written to the admin log
+  admin: router({
+    // Search and page through all users
+    listUsers: adminProcedure
+      .input(adminUserListInputSchema)
+      .query(({ input }) => getUsers(input)),
+
+    // Add or take away credits through a ledger adjustment
+    adjustCredits: adminProcedure
+      .input(adjustCreditsInputSchema)
+      .mutation(({ input, ctx }) => adjustCredits(input, ctx.user.user_id)),
+
+    // End an active post's listing now
+    forceExpirePost: adminProcedure
+      .input(forceExpirePostInputSchema)
+      .mutation(({ input, ctx }) => forceExpirePost(input, ctx.user.user_id)),
+
+    // Grant or take away the moderator and admin roles
+    setUserRole: adminProcedure
+      .input(setUserRoleInputSchema)
+      .mutation(({ input, ctx }) => setUserRole(input, ctx.user.user_id)),
+
+    // Page through everyone's credit purchases
+    listPurchases: adminProcedure
+      .input(adminPurchaseListInputSchema)
+      .query(({ input }) => getPurchases(input)),
+
+    // Search and page through everyone's posts, including those in the trash
+    listPosts: adminProcedure
+      .input(adminPostListInputSchema)
+      .query(({ input }) => getAdminPosts(input)),
+
+    // Revenue, active posts, open reports and recent signups for the dashboard
+    getStats: adminProcedure
+      .query(() => getAdminStats()),
+
+    // Search the audit log by actor, procedure, entity, outcome and time range
+    getAuditLog: adminProcedure
+      .input(auditLogListInputSchema)
+      .query(({ input }) => getAuditLog(input)),
+  }),
+
+  // Get the current user's notifications, newest first
+  getNotifications: protectedProcedure
+    .query(({ ctx }) => getNotifications(ctx.user.user_id)),
+
+  // Mark all of the current user's notifications as read
+  markNotificationsRead: protectedProcedure
+    .mutation(({ ctx }) => markNotificationsRead(ctx.user.user_id)),
 });
 
 export type AppRouter = typeof appRouter;
 
 async function start() {
   const port = process.env['SERVER_PORT'] || 2022;
+  await seedCreditPackages();
+  await seedCategories();
+  await seedAdmins();
+  subscribeSavedPostAlerts();
+  startScheduler();
   const server = createHTTPServer({
     middleware: (req, res, next) => {
-      cors()(req, res, next);
+      cors()(req, res, () => {
+        serveImage(req, res)
+          .then((served: boolean) => {
+            if (!served) {
+              next();
+            }
+          })
+          .catch((error: unknown) => {
+            console.error('Serving image failed:', error);
+            res.statusCode = 500;
+            res.end();
+          });
+      });
     },
     router: appRouter,
-    createContext() {
-      return {};
-    },
+    createContext,
   });
   server.listen(port);
   console.log(`TRPC server listening at port: ${port}`);
@@ -0,0 +1,152 @@
+import type { IncomingMessage } from 'http';
+import { db } from '../db';
+import { auditLogTable, type AuditLogEntry, type NewAuditLogEntry } from '../db/schema';
+import { type AuditEntityType, type AuditStatus } from '../schema';
+
+// Logged strings are cut to this many characters, so post bodies don't bloat the log
+export const MAX_AUDIT_STRING_LENGTH = 500;
+
+const REDACTED = '[redacted]';
+
+// Values under these keys never reach the log: credentials, payment details and uploaded image bytes
+const REDACTED_KEYS = new Set(['payment_details', 'card_number', 'bank_account', 'data']);
+const SECRET_KEY_PATTERN = /password|secret|token/i;
+
+// Copy of a mutation's input that is safe to keep
+export const sanitizeAuditInput = (value: unknown): unknown => {
+  if (value === undefined) {
+    return null;
+  }
+  if (typeof value === 'string') {
+    return value.length > MAX_AUDIT_STRING_LENGTH ? `${value.slice(0, MAX_AUDIT_STRING_LENGTH)}…` : value;
+  }
+  if (Array.isArray(value)) {
+    return value.map(sanitizeAuditInput);
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, nested]) => [
+        key,
+        REDACTED_KEYS.has(key) || SECRET_KEY_PATTERN.test(key) ? REDACTED : sanitizeAuditInput(nested)
+      ])
+    );
+  }
+  return value;
+};
+
+// Where each mutation names the entity it acts on: a key of its input, or of its result
+// for mutations that create the entity
+const AUDITED_ENTITIES: Record<string, { type: AuditEntityType; key: string; fromResult?: boolean }> = {
+  register: { type: 'user', key: 'id', fromResult: true },
+  login: { type: 'user', key: 'user_id', fromResult: true },
+  createPost: { type: 'post', key: 'id', fromResult: true },
+  updatePost: { type: 'post', key: 'id' },
+  repost: { type: 'post', key: 'id' },
+  publishPost: { type: 'post', key: 'id' },
+  setAutoRenew: { type: 'post', key: 'id' },
+  reschedulePost: { type: 'post', key: 'id' },
+  cancelScheduledPost: { type: 'post', key: 'id' },
+  deletePost: { type: 'post', key: 'id' },
+  restorePost: { type: 'post', key: 'id' },
+  restorePostRevision: { type: 'post', key: 'post_id' },
+  revealContact: { type: 'post', key: 'post_id' },
+  savePost: { type: 'post', key: 'post_id' },
+  unsavePost: { type: 'post', key: 'post_id' },
+  reportPost: { type: 'post', key: 'post_id' },
+  moderatePost: { type: 'post', key: 'post_id' },
+  uploadImage: { type: 'image', key: 'id', fromResult: true },
+  purchaseCredits: { type: 'credit_package', key: 'package_id' },
+  sendMessage: { type: 'conversation', key: 'conversation_id', fromResult: true },
+  markConversationRead: { type: 'conversation', key: 'conversation_id' },
+  blockUser: { type: 'user', key: 'user_id' },
+  unblockUser: { type: 'user', key: 'user_id' },
+  'admin.adjustCredits': { type: 'user', key: 'user_id' },
+  'admin.setUserRole': { type: 'user', key: 'user_id' },
+  'admin.forceExpirePost': { type: 'post', key: 'post_id' }
+};
+
+const numberAt = (source: unknown, key: string): number | null => {
+  const value = source && typeof source === 'object' ? (source as Record<string, unknown>)[key] : undefined;
+  return typeof value === 'number' ? value : null;
+};
+
+// The entity a mutation acted on, if it names one; failed creations have none
+export const auditEntity = (
+  procedure: string,
+  input: unknown,
+  result?: unknown
+): { entity_type: AuditEntityType; entity_id: number } | null => {
+  const entity = AUDITED_ENTITIES[procedure];
+  if (!entity) {
+    return null;
+  }
+  const id = numberAt(entity.fromResult ? result : input, entity.key);
+  return id === null ? null : { entity_type: entity.type, entity_id: id };
+};
+
+// Peers whose X-Real-IP header is believed. By default that is the bundled Caddy proxy, which
+// runs in the same container and connects over loopback; TRUSTED_PROXY_IPS (comma-separated)
+// replaces the list when the proxy lives elsewhere.
+export const parseTrustedProxies = (value: string = process.env['TRUSTED_PROXY_IPS'] ?? ''): string[] => {
+  const proxies = value.split(',')
+    .map(address => address.trim())
+    .filter(address => address.length > 0);
+  return proxies.length > 0 ? proxies : ['127.0.0.1', '::1'];
+};
+
+const TRUSTED_PROXIES = parseTrustedProxies();
+
+// IPv4 peers of a dual-stack socket show up as "::ffff:a.b.c.d"
+const normalizeAddress = (address: string): string =>
+  address.startsWith('::ffff:') ? address.slice('::ffff:'.length) : address;
+
+// The caller's address. Port 2022 is also published directly, so X-Real-IP is only taken
+// from a trusted proxy; anyone else could put any address in it.
+export const readClientIp = (req: IncomingMessage, trustedProxies: string[] = TRUSTED_PROXIES): string | null => {
+  const remoteAddress = req.socket?.remoteAddress ? normalizeAddress(req.socket.remoteAddress) : null;
+  if (remoteAddress && trustedProxies.includes(remoteAddress)) {
+    const header = req.headers['x-real-ip'];
+    const realIp = (Array.isArray(header) ? header[0] : header)?.trim();
+    if (realIp) {
+      return realIp;
+    }
+  }
+  return remoteAddress;
+};
+
+export interface AuditedCall {
+  actorId: number | null;
+  procedure: string;
+  input: unknown;
+  status: AuditStatus;
+  result?: unknown; // Output of a successful call
+  errorCode?: string; // tRPC error code of a failed call
+  ip: string | null;
+}
+
+// Write one audit row. A failed write is logged but never fails the mutation it describes.
+export const recordAuditEntry = async (call: AuditedCall): Promise<AuditLogEntry | null> => {
+  const entry: Omit<NewAuditLogEntry, 'id'> = {
+    actor_id: call.actorId,
+    procedure: call.procedure,
+    input: sanitizeAuditInput(call.input),
+    ...auditEntity(call.procedure, call.input, call.result),
+    status: call.status,
+    error_code: call.errorCode ?? null,
+    ip: call.ip
+  };
+
+  try {
+    const [recorded] = await db.insert(auditLogTable)
+      .values(entry)
+      .returning()
+      .execute();
+    return recorded;
+  } catch (error) {
+    console.error('Audit log write failed:', error);
+    return null;
+  }
+};
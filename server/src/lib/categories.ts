@@ -0,0 +1,71 @@
+import { count, sql, type SQL } from 'drizzle-orm';
+import { db } from '../db';
+import { categoriesTable } from '../db/schema';
+
+interface CategorySeed {
+  name: string;
+  slug: string;
+  children?: CategorySeed[];
+}
+
+// Tree offered on a fresh install; edit the table to change it afterwards
+export const DEFAULT_CATEGORIES: CategorySeed[] = [
+  {
+    name: 'Vehicles',
+    slug: 'vehicles',
+    children: [
+      { name: 'Cars', slug: 'cars' },
+      { name: 'Motorcycles', slug: 'motorcycles' },
+      { name: 'Bicycles', slug: 'bicycles' }
+    ]
+  },
+  {
+    name: 'Electronics',
+    slug: 'electronics',
+    children: [
+      { name: 'Phones', slug: 'phones' },
+      { name: 'Computers', slug: 'computers' }
+    ]
+  },
+  {
+    name: 'Home & Garden',
+    slug: 'home-garden',
+    children: [
+      { name: 'Furniture', slug: 'furniture' },
+      { name: 'Appliances', slug: 'appliances' }
+    ]
+  },
+  { name: 'Jobs', slug: 'jobs' },
+  { name: 'Services', slug: 'services' },
+  { name: 'Other', slug: 'other' }
+];
+
+const insertCategories = async (categories: CategorySeed[], parentId: number | null): Promise<void> => {
+  for (const [index, category] of categories.entries()) {
+    const [inserted] = await db.insert(categoriesTable)
+      .values({ parent_id: parentId, name: category.name, slug: category.slug, sort_order: index + 1 })
+      .returning()
+      .execute();
+    await insertCategories(category.children ?? [], inserted.id);
+  }
+};
+
+// Insert the default tree when the table is empty; existing categories are never touched
+export const seedCategories = async (): Promise<void> => {
+  const [{ categoryCount }] = await db.select({ categoryCount: count() })
+    .from(categoriesTable)
+    .execute();
+
+  if (categoryCount === 0) {
+    await insertCategories(DEFAULT_CATEGORIES, null);
+  }
+};
+
+// Subquery with the ids of a category and everything below it
+export const categorySubtreeIds = (categoryId: number): SQL => sql`
+  with recursive subtree as (
+    select ${categoriesTable.id} from ${categoriesTable} where ${categoriesTable.id} = ${categoryId}
+    union all
+    select child.id from ${categoriesTable} child join subtree on child.parent_id = subtree.id
+  )
+  select id from subtree`;
@@ -0,0 +1,15 @@
+// Each viewer may reveal this many new contacts per window; repeat reveals of a post are free
+export const REVEAL_LIMIT = 20;
+export const REVEAL_WINDOW_MS = 60 * 60 * 1000; // 1 hour
+
+// Hide a phone number for public listings, keeping its layout, the first digit after a
+// leading "+" (usually the country code) and the last two digits: "+1 555-0190" -> "+1 ***-**90"
+export const maskPhoneNumber = (phone: string): string => {
+  const digitCount = phone.replace(/\D/g, '').length;
+  const keepFirst = phone.trimStart().startsWith('+') ? 1 : 0;
+  let seen = 0;
+  return phone.replace(/\d/g, (digit) => {
+    seen++;
+    return seen <= keepFirst || seen > digitCount - 2 ? digit : '*';
+  });
+};
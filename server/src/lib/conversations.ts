@@ -0,0 +1,139 @@
+import { TRPCError } from '@trpc/server';
+import { and, desc, eq, inArray, or, sql, type SQL } from 'drizzle-orm';
+import { db, type DbExecutor } from '../db';
+import { conversationsTable, messagesTable, postsTable, userBlocksTable, type Conversation } from '../db/schema';
+import { type ConversationRole, type ConversationSummary, type Message } from '../schema';
+
+export const conversationRole = (conversation: Conversation, userId: number): ConversationRole =>
+  conversation.owner_id === userId ? 'owner' : 'buyer';
+
+export const otherParticipant = (conversation: Conversation, userId: number): number =>
+  conversation.owner_id === userId ? conversation.buyer_id : conversation.owner_id;
+
+// Conversations the user takes part in, on either side
+export const participantCondition = (userId: number): SQL =>
+  or(eq(conversationsTable.owner_id, userId), eq(conversationsTable.buyer_id, userId))!;
+
+// Load a conversation and make sure the given user takes part in it.
+// Missing conversations throw a plain "not found" error; other people's throw FORBIDDEN.
+export const getParticipantConversation = async (
+  conversationId: number,
+  userId: number,
+  executor: DbExecutor = db
+): Promise<Conversation> => {
+  const conversations = await executor.select()
+    .from(conversationsTable)
+    .where(eq(conversationsTable.id, conversationId))
+    .execute();
+
+  if (conversations.length === 0) {
+    throw new Error(`Conversation with id ${conversationId} not found`);
+  }
+
+  const conversation = conversations[0];
+  if (conversation.owner_id !== userId && conversation.buyer_id !== userId) {
+    throw new TRPCError({ code: 'FORBIDDEN', message: `You are not part of conversation ${conversationId}` });
+  }
+
+  return conversation;
+};
+
+// Blocks between the user and each of the others, in both directions
+const loadBlocks = async (userId: number, otherIds: number[], executor: DbExecutor) => {
+  const blocks = otherIds.length === 0 ? [] : await executor.select()
+    .from(userBlocksTable)
+    .where(or(
+      and(eq(userBlocksTable.blocker_id, userId), inArray(userBlocksTable.blocked_id, otherIds)),
+      and(eq(userBlocksTable.blocked_id, userId), inArray(userBlocksTable.blocker_id, otherIds))
+    ))
+    .execute();
+
+  return {
+    blockedByMe: new Set(blocks.filter(block => block.blocker_id === userId).map(block => block.blocked_id)),
+    blockedMe: new Set(blocks.filter(block => block.blocked_id === userId).map(block => block.blocker_id))
+  };
+};
+
+// True when either user has blocked the other
+export const isBlockedBetween = async (userId: number, otherId: number, executor: DbExecutor = db): Promise<boolean> => {
+  const { blockedByMe, blockedMe } = await loadBlocks(userId, [otherId], executor);
+  return blockedByMe.has(otherId) || blockedMe.has(otherId);
+};
+
+// The user's view of the given conversations, most recent activity first
+export const loadConversationSummaries = async (
+  userId: number,
+  where?: SQL,
+  executor: DbExecutor = db
+): Promise<ConversationSummary[]> => {
+  // Messages from the other side after the user's read marker
+  const unreadCount = sql<number>`(
+    select count(*) from ${messagesTable}
+    where ${messagesTable.conversation_id} = ${conversationsTable.id}
+      and ${messagesTable.sender_id} <> ${userId}
+      and ${messagesTable.id} > case when ${conversationsTable.owner_id} = ${userId}
+        then ${conversationsTable.owner_last_read_id} else ${conversationsTable.buyer_last_read_id} end
+  )`.mapWith(Number);
+
+  const rows = await executor.select({
+    conversation: conversationsTable,
+    post_title: postsTable.title,
+    unread_count: unreadCount
+  })
+    .from(conversationsTable)
+    .innerJoin(postsTable, eq(conversationsTable.post_id, postsTable.id))
+    .where(and(participantCondition(userId), where))
+    .orderBy(desc(conversationsTable.last_message_at), desc(conversationsTable.id))
+    .execute();
+
+  if (rows.length === 0) {
+    return [];
+  }
+
+  const lastMessages: Message[] = await executor.selectDistinctOn([messagesTable.conversation_id])
+    .from(messagesTable)
+    .where(inArray(messagesTable.conversation_id, rows.map(row => row.conversation.id)))
+    .orderBy(messagesTable.conversation_id, desc(messagesTable.id))
+    .execute();
+  const lastMessageByConversation = new Map(lastMessages.map(message => [message.conversation_id, message]));
+
+  const { blockedByMe, blockedMe } = await loadBlocks(
+    userId,
+    rows.map(row => otherParticipant(row.conversation, userId)),
+    executor
+  );
+
+  return rows.map(({ conversation, post_title, unread_count }) => {
+    const otherUserId = otherParticipant(conversation, userId);
+    return {
+      id: conversation.id,
+      post_id: conversation.post_id,
+      post_title,
+      role: conversationRole(conversation, userId),
+      other_user_id: otherUserId,
+      last_message: lastMessageByConversation.get(conversation.id) ?? null,
+      last_message_at: conversation.last_message_at,
+      unread_count,
+      blocked_by_me: blockedByMe.has(otherUserId),
+      can_reply: !blockedByMe.has(otherUserId) && !blockedMe.has(otherUserId)
+    };
+  });
+};
+
+// Move the user's read marker in a conversation forward to the given message
+export const moveReadMarker = async (
+  executor: DbExecutor,
+  conversation: Conversation,
+  userId: number,
+  messageId: number
+): Promise<void> => {
+  // Never backwards: an older page read later must not mark newer messages unread again
+  const set = conversation.owner_id === userId
+    ? { owner_last_read_id: sql`greatest(${conversationsTable.owner_last_read_id}, ${messageId})` }
+    : { buyer_last_read_id: sql`greatest(${conversationsTable.buyer_last_read_id}, ${messageId})` };
+
+  await executor.update(conversationsTable)
+    .set(set)
+    .where(eq(conversationsTable.id, conversation.id))
+    .execute();
+};
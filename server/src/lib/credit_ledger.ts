@@ -0,0 +1,87 @@
+import { TRPCError } from '@trpc/server';
+import { and, count, eq, gte, isNotNull, sql } from 'drizzle-orm';
+import { type DbTransaction } from '../db';
+import { creditLedgerTable, postsTable, usersTable } from '../db/schema';
+import { type CreditEntryType, type PostDuration } from '../schema';
+import { getDurationFee } from './post_durations';
+
+// Raised when a debit would take a balance below zero
+export class InsufficientCreditsError extends TRPCError {
+  constructor(required: number, available: number) {
+    super({
+      code: 'PRECONDITION_FAILED',
+      message: `Insufficient credits: ${required} required, ${available} available`
+    });
+    this.name = 'InsufficientCreditsError';
+  }
+}
+
+export interface LedgerEntryInput {
+  user_id: number;
+  amount: number; // Signed: negative debits, positive credits
+  entry_type: CreditEntryType;
+  reason: string;
+  post_id?: number | null;
+  purchase_id?: number | null;
+}
+
+// Append an entry to the ledger and move the user's balance by the same amount.
+// Must run inside a transaction so the entry and the balance change commit together.
+// Returns the new balance.
+export const postLedgerEntry = async (tx: DbTransaction, entry: LedgerEntryInput): Promise<number> => {
+  // Conditional update keeps the balance from going negative even under concurrent debits
+  const updated = await tx.update(usersTable)
+    .set({
+      credits: sql`${usersTable.credits} + ${entry.amount}`,
+      updated_at: new Date()
+    })
+    .where(and(
+      eq(usersTable.id, entry.user_id),
+      gte(sql`${usersTable.credits} + ${entry.amount}`, 0)
+    ))
+    .returning({ credits: usersTable.credits })
+    .execute();
+
+  if (updated.length === 0) {
+    const users = await tx.select({ credits: usersTable.credits })
+      .from(usersTable)
+      .where(eq(usersTable.id, entry.user_id))
+      .execute();
+
+    if (users.length === 0) {
+      throw new Error(`User not found: ${entry.user_id}`);
+    }
+    throw new InsufficientCreditsError(-entry.amount, users[0].credits);
+  }
+
+  await tx.insert(creditLedgerTable)
+    .values({
+      user_id: entry.user_id,
+      amount: entry.amount,
+      entry_type: entry.entry_type,
+      reason: entry.reason,
+      post_id: entry.post_id ?? null,
+      purchase_id: entry.purchase_id ?? null
+    })
+    .execute();
+
+  return updated[0].credits;
+};
+
+// Fee for the user's next post; a user's very first published post is free (drafts
+// do not count until they are published). Locks the user
+// row so two concurrent "first posts" cannot both be free.
+export const getPostFee = async (tx: DbTransaction, userId: number, duration: PostDuration): Promise<number> => {
+  await tx.select({ id: usersTable.id })
+    .from(usersTable)
+    .where(eq(usersTable.id, userId))
+    .for('update')
+    .execute();
+
+  const [{ postCount }] = await tx.select({ postCount: count() })
+    .from(postsTable)
+    .where(and(eq(postsTable.user_id, userId), isNotNull(postsTable.posted_at)))
+    .execute();
+
+  return postCount === 0 ? 0 : getDurationFee(duration);
+};
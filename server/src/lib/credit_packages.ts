@@ -0,0 +1,24 @@
+import { count } from 'drizzle-orm';
+import { db } from '../db';
+import { creditPackagesTable, type NewCreditPackage } from '../db/schema';
+
+// Packages offered on a fresh install; edit the table to change the shop afterwards
+export const DEFAULT_CREDIT_PACKAGES: NewCreditPackage[] = [
+  { name: 'Starter', credits: 5, bonus_credits: 0, price: '1.00', sort_order: 1 },
+  { name: 'Popular', credits: 25, bonus_credits: 5, price: '4.50', is_popular: true, sort_order: 2 },
+  { name: 'Value', credits: 50, bonus_credits: 15, price: '8.00', sort_order: 3 },
+  { name: 'Pro', credits: 100, bonus_credits: 35, price: '15.00', sort_order: 4 }
+];
+
+// Insert the default packages when the table is empty; existing packages are never touched
+export const seedCreditPackages = async (): Promise<void> => {
+  const [{ packageCount }] = await db.select({ packageCount: count() })
+    .from(creditPackagesTable)
+    .execute();
+
+  if (packageCount === 0) {
+    await db.insert(creditPackagesTable)
+      .values(DEFAULT_CREDIT_PACKAGES)
+      .execute();
+  }
+};
@@ -0,0 +1,80 @@
+import { and, eq, inArray } from 'drizzle-orm';
+import { db } from '../db';
+import { creditPackagesTable, creditPurchasesTable, type CreditPurchase as CreditPurchaseRow } from '../db/schema';
+import { type CreditPurchase } from '../schema';
+import { postLedgerEntry } from './credit_ledger';
+import { type PaymentResult } from './payment_gateway';
+
+// Convert a credit_purchases row to the API shape
+export const toCreditPurchase = (purchase: CreditPurchaseRow): CreditPurchase => ({
+  ...purchase,
+  amount_paid: parseFloat(purchase.amount_paid) // Convert numeric string to number
+});
+
+// Whether the purchase has its outcome; the gateway can then release the charge
+export const isFinalPurchase = (purchase: Pick<CreditPurchaseRow, 'status'>): boolean =>
+  purchase.status === 'succeeded' || purchase.status === 'failed';
+
+// Record the gateway's answer on a purchase. A successful payment moves the credits in the
+// same transaction as the status change. Purchases that already succeeded or failed are
+// returned as they are, so finishing one twice never adds the credits twice.
+export const finalizePurchase = async (
+  purchaseId: number,
+  payment: PaymentResult,
+  now: Date = new Date()
+): Promise<CreditPurchaseRow> => {
+  return db.transaction(async (tx) => {
+    const [existing] = await tx.select({ purchase: creditPurchasesTable, package_name: creditPackagesTable.name })
+      .from(creditPurchasesTable)
+      .leftJoin(creditPackagesTable, eq(creditPurchasesTable.package_id, creditPackagesTable.id))
+      .where(eq(creditPurchasesTable.id, purchaseId))
+      .for('update', { of: creditPurchasesTable })
+      .execute();
+
+    if (!existing) {
+      throw new Error(`Credit purchase with id ${purchaseId} not found`);
+    }
+    if (isFinalPurchase(existing.purchase)) {
+      return existing.purchase;
+    }
+
+    const [updated] = await tx.update(creditPurchasesTable)
+      .set({
+        status: payment.status,
+        transaction_id: payment.transaction_id,
+        failure_reason: payment.status === 'succeeded' ? null : payment.reason,
+        updated_at: now
+      })
+      .where(eq(creditPurchasesTable.id, purchaseId))
+      .returning()
+      .execute();
+
+    if (payment.status === 'succeeded') {
+      const { purchase, package_name } = existing;
+      await postLedgerEntry(tx, {
+        user_id: purchase.user_id,
+        amount: purchase.credits_purchased + purchase.bonus_credits,
+        entry_type: 'purchase',
+        reason: package_name ? `Purchased ${package_name} package` : `Purchased ${purchase.credits_purchased} credits`,
+        purchase_id: purchase.id
+      });
+    }
+
+    return updated;
+  });
+};
+
+// Close a purchase whose payment was never taken, leaving purchases that already have an outcome alone
+export const failPurchase = async (
+  purchaseId: number,
+  reason: string,
+  now: Date = new Date()
+): Promise<void> => {
+  await db.update(creditPurchasesTable)
+    .set({ status: 'failed', failure_reason: reason, updated_at: now })
+    .where(and(
+      eq(creditPurchasesTable.id, purchaseId),
+      inArray(creditPurchasesTable.status, ['pending', 'requires_action'])
+    ))
+    .execute();
+};
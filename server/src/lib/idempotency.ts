@@ -0,0 +1,96 @@
+import { createHash } from 'crypto';
+import { TRPCError } from '@trpc/server';
+import { and, eq, lt } from 'drizzle-orm';
+import superjson from 'superjson';
+import { db } from '../db';
+import { idempotencyKeysTable } from '../db/schema';
+
+// How long a stored result is replayed; after that the key may be used again
+export const IDEMPOTENCY_RETENTION_MS = 24 * 60 * 60 * 1000; // 24 hours
+
+// Stable hash of the request without its key, so reordered fields still match
+const hashRequest = (input: Record<string, unknown>): string => {
+  const canonical = (value: unknown): unknown => {
+    if (Array.isArray(value)) {
+      return value.map(canonical);
+    }
+    if (value && typeof value === 'object' && !(value instanceof Date)) {
+      return Object.fromEntries(
+        Object.keys(value)
+          .filter(key => key !== 'idempotency_key')
+          .sort()
+          .map(key => [key, canonical((value as Record<string, unknown>)[key])])
+      );
+    }
+    return value;
+  };
+  return createHash('sha256').update(JSON.stringify(canonical(input))).digest('hex');
+};
+
+// Run a mutation at most once per (user, operation, key). The first call stores its result;
+// repeats within the retention window get that result back without running again.
+// Failed calls release the key so the client can retry the same action.
+export const withIdempotency = async <T>(
+  userId: number,
+  operation: string,
+  input: Record<string, unknown> & { idempotency_key?: string },
+  run: () => Promise<T>
+): Promise<T> => {
+  const key = input.idempotency_key;
+  if (!key) {
+    return run();
+  }
+
+  const requestHash = hashRequest(input);
+  const keyMatch = and(
+    eq(idempotencyKeysTable.user_id, userId),
+    eq(idempotencyKeysTable.operation, operation),
+    eq(idempotencyKeysTable.key, key)
+  );
+
+  // A key past its retention window no longer counts
+  await db.delete(idempotencyKeysTable)
+    .where(and(keyMatch, lt(idempotencyKeysTable.created_at, new Date(Date.now() - IDEMPOTENCY_RETENTION_MS))))
+    .execute();
+
+  // Claim the key; the unique index makes concurrent duplicates lose this race
+  const claimed = await db.insert(idempotencyKeysTable)
+    .values({ user_id: userId, operation, key, request_hash: requestHash })
+    .onConflictDoNothing()
+    .returning({ id: idempotencyKeysTable.id })
+    .execute();
+
+  if (claimed.length === 0) {
+    const existing = await db.select()
+      .from(idempotencyKeysTable)
+      .where(keyMatch)
+      .execute();
+
+    if (existing.length === 0) {
+      // The first request failed and released the key between our insert and select
+      throw new TRPCError({ code: 'CONFLICT', message: 'Request with this idempotency key was interrupted, please retry' });
+    }
+    if (existing[0].request_hash !== requestHash) {
+      throw new TRPCError({ code: 'UNPROCESSABLE_CONTENT', message: 'Idempotency key was already used for a different request' });
+    }
+    if (existing[0].response === null) {
+      throw new TRPCError({ code: 'CONFLICT', message: 'A request with this idempotency key is still in progress' });
+    }
+    return superjson.parse<T>(existing[0].response);
+  }
+
+  try {
+    const result = await run();
+    await db.update(idempotencyKeysTable)
+      .set({ response: superjson.stringify(result) })
+      .where(eq(idempotencyKeysTable.id, claimed[0].id))
+      .execute();
+    return result;
+  } catch (error) {
+    await db.delete(idempotencyKeysTable)
+      .where(eq(idempotencyKeysTable.id, claimed[0].id))
+      .execute();
+    throw error;
+  }
+};
+
@@ -0,0 +1,34 @@
+import type { IncomingMessage, ServerResponse } from 'http';
+import { IMAGE_ROUTE_PREFIX } from './post_images';
+import { imageStorage, isValidStorageKey, type ObjectStorage } from './storage';
+
+// Serve stored image files over plain GET, next to the tRPC endpoints. Keys contain a random
+// id and a stored file never changes, so responses can be cached for good.
+// Returns false for requests that are not for this route.
+export const serveImage = async (
+  req: IncomingMessage,
+  res: ServerResponse,
+  storage: ObjectStorage = imageStorage
+): Promise<boolean> => {
+  const path = new URL(req.url ?? '/', 'http://localhost').pathname;
+  if (!path.startsWith(IMAGE_ROUTE_PREFIX) || (req.method !== 'GET' && req.method !== 'HEAD')) {
+    return false;
+  }
+
+  const key = path.slice(IMAGE_ROUTE_PREFIX.length);
+  const file = isValidStorageKey(key) ? await storage.get(key) : null;
+  if (!file) {
+    res.writeHead(404, { 'Content-Type': 'text/plain' });
+    res.end('Not found');
+    return true;
+  }
+
+  res.writeHead(200, {
+    'Content-Type': file.content_type,
+    'Content-Length': file.data.length,
+    'Cache-Control': 'public, max-age=31536000, immutable',
+    'X-Content-Type-Options': 'nosniff'
+  });
+  res.end(req.method === 'HEAD' ? undefined : file.data);
+  return true;
+};
@@ -0,0 +1,76 @@
+import { TRPCError } from '@trpc/server';
+import sharp from 'sharp';
+import { MAX_IMAGE_BYTES, type ImageContentType } from '../schema';
+
+// Formats sharp detects, mapped to the content types we accept and the extension we store them under
+const FORMATS: Record<string, { content_type: ImageContentType; extension: string }> = {
+  jpeg: { content_type: 'image/jpeg', extension: 'jpg' },
+  png: { content_type: 'image/png', extension: 'png' },
+  webp: { content_type: 'image/webp', extension: 'webp' }
+};
+
+// Guards against decompression bombs: a small file that decodes to a huge bitmap
+const MAX_IMAGE_PIXELS = 40_000_000;
+
+export const IMAGE_SIZES = {
+  medium: { width: 1024, height: 1024, fit: 'inside' }, // Detail view, never upscaled
+  thumbnail: { width: 320, height: 320, fit: 'cover' } // Square crop for cards and lists
+} as const;
+
+export interface ProcessedImage {
+  content_type: ImageContentType;
+  extension: string;
+  width: number;
+  height: number;
+  original: Buffer;
+  medium: Buffer;
+  thumbnail: Buffer;
+}
+
+const badRequest = (message: string) => new TRPCError({ code: 'BAD_REQUEST', message });
+
+// Validate an upload by its content and produce the stored original plus the generated sizes.
+// The original is re-encoded upright and without metadata, so camera EXIF (e.g. GPS) is not published.
+export const processImage = async (data: Buffer, declaredType: ImageContentType): Promise<ProcessedImage> => {
+  if (data.length === 0) {
+    throw badRequest('Image is empty');
+  }
+  if (data.length > MAX_IMAGE_BYTES) {
+    throw badRequest(`Images can be at most ${MAX_IMAGE_BYTES / 1024 / 1024} MB`);
+  }
+
+  let metadata: sharp.Metadata;
+  try {
+    metadata = await sharp(data).metadata();
+  } catch {
+    throw badRequest('File is not a readable image');
+  }
+
+  const format = metadata.format ? FORMATS[metadata.format] : undefined;
+  if (!format) {
+    throw badRequest('Unsupported image type; use JPEG, PNG or WebP');
+  }
+  if (format.content_type !== declaredType) {
+    throw badRequest(`File content is ${format.content_type}, not ${declaredType}`);
+  }
+  if (!metadata.width || !metadata.height || metadata.width * metadata.height > MAX_IMAGE_PIXELS) {
+    throw badRequest('Image dimensions are too large');
+  }
+
+  const image = sharp(data, { limitInputPixels: MAX_IMAGE_PIXELS }).rotate();
+  const [original, medium, thumbnail] = await Promise.all([
+    image.clone().toFormat(metadata.format as keyof sharp.FormatEnum).toBuffer({ resolveWithObject: true }),
+    image.clone().resize({ ...IMAGE_SIZES.medium, withoutEnlargement: true }).webp({ quality: 80 }).toBuffer(),
+    image.clone().resize(IMAGE_SIZES.thumbnail).webp({ quality: 75 }).toBuffer()
+  ]);
+
+  return {
+    content_type: format.content_type,
+    extension: format.extension,
+    width: original.info.width,
+    height: original.info.height,
+    original: original.data,
+    medium,
+    thumbnail
+  };
+};
@@ -0,0 +1,2 @@
+// ILIKE pattern matching text anywhere, with LIKE wildcards in the text taken literally
+export const containsPattern = (text: string): string => `%${text.replace(/[\\%_]/g, '\\$&')}%`;
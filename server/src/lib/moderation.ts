@@ -0,0 +1,37 @@
+import { and, eq, inArray } from 'drizzle-orm';
+import { type DbExecutor } from '../db';
+import { moderationActionsTable, postReportsTable, type ModerationAction, type NewModerationAction } from '../db/schema';
+import { type ReportStatus } from '../schema';
+
+// Open reports at which a post is hidden from the public until a moderator reviews it
+export const AUTO_HIDE_REPORT_COUNT = 3;
+
+// Append to the moderation log; pass the transaction the action itself ran in
+export const recordModerationAction = async (
+  executor: DbExecutor,
+  action: Omit<NewModerationAction, 'id'>
+): Promise<ModerationAction> => {
+  const [recorded] = await executor.insert(moderationActionsTable)
+    .values(action)
+    .returning()
+    .execute();
+  return recorded;
+};
+
+// Close every open report on the given posts with the moderator's decision
+export const resolveOpenReports = async (
+  executor: DbExecutor,
+  postIds: number[],
+  status: Exclude<ReportStatus, 'open'>,
+  moderatorId: number,
+  now: Date = new Date()
+): Promise<void> => {
+  if (postIds.length === 0) {
+    return;
+  }
+
+  await executor.update(postReportsTable)
+    .set({ status, resolved_at: now, resolved_by: moderatorId })
+    .where(and(inArray(postReportsTable.post_id, postIds), eq(postReportsTable.status, 'open')))
+    .execute();
+};
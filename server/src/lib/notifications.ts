@@ -0,0 +1,19 @@
+import { db, type DbExecutor } from '../db';
+import { notificationsTable } from '../db/schema';
+
+export interface NotificationInput {
+  user_id: number;
+  message: string;
+  post_id?: number | null;
+}
+
+// Leave a message for a user; pass the transaction when it belongs to a larger change
+export const notifyUser = async (notification: NotificationInput, executor: DbExecutor = db): Promise<void> => {
+  await executor.insert(notificationsTable)
+    .values({
+      user_id: notification.user_id,
+      message: notification.message,
+      post_id: notification.post_id ?? null
+    })
+    .execute();
+};
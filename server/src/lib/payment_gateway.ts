@@ -0,0 +1,99 @@
+import { createHash, createHmac, randomBytes } from 'crypto';
+import { type PaymentDetails, type PaymentMethod } from '../schema';
+
+export interface PaymentRequest {
+  reference: number; // Our purchase id, so retries map to the same gateway transaction
+  amount: number; // USD
+  payment_method: PaymentMethod;
+  payment_details: PaymentDetails;
+}
+
+export type PaymentResult =
+  | { status: 'succeeded'; transaction_id: string }
+  | { status: 'failed'; transaction_id: string; reason: string }
+  | { status: 'requires_action'; transaction_id: string; reason: string };
+
+// Anything that can take a payment: the local gateway below, or a real provider
+export interface PaymentGateway {
+  charge(request: PaymentRequest): Promise<PaymentResult>;
+  // Current state of the charge made for a purchase, or null if it was never charged.
+  // Used to finish purchases whose outcome was not recorded or needed the customer's action.
+  lookup(reference: number): Promise<PaymentResult | null>;
+  // Called once the customer says they completed the action a charge required; returns
+  // the charge's state afterwards, like lookup
+  confirm(reference: number): Promise<PaymentResult | null>;
+  // The purchase's outcome is recorded; the gateway may drop anything it keeps for the charge
+  release(reference: number): void;
+}
+
+// Card numbers with a fixed outcome on the local gateway; any other card is approved
+export const TEST_CARDS = {
+  declined: '4000000000000002',
+  requiresAction: '4000000000003220'
+} as const;
+
+const TRANSACTION_PREFIXES: Record<PaymentMethod, string> = {
+  credit_card: 'cc',
+  paypal: 'pp',
+  bank_transfer: 'bt'
+};
+
+// In-process gateway for development and tests. It never talks to the network and
+// always gives the same answer (and transaction id) for the same request. Charges are
+// remembered in memory only, so lookups know nothing from before a restart.
+export class LocalPaymentGateway implements PaymentGateway {
+  // Latest charge per unfinished purchase, with a keyed hash of the request it was made
+  // for; the key lives only as long as the gateway, so card numbers cannot be recovered
+  private readonly charges = new Map<number, { request: string; result: PaymentResult }>();
+  private readonly fingerprintKey = randomBytes(32);
+
+  async charge(request: PaymentRequest): Promise<PaymentResult> {
+    // Repeating the same request gets the same transaction, including any action completed since
+    const fingerprint = createHmac('sha256', this.fingerprintKey).update(JSON.stringify(request)).digest('hex');
+    const existing = this.charges.get(request.reference);
+    if (existing?.request === fingerprint) {
+      return existing.result;
+    }
+    const result = this.decide(request);
+    this.charges.set(request.reference, { request: fingerprint, result });
+    return result;
+  }
+
+  async lookup(reference: number): Promise<PaymentResult | null> {
+    return this.charges.get(reference)?.result ?? null;
+  }
+
+  // There is no bank to ask, so the customer's word that they passed its check is taken
+  async confirm(reference: number): Promise<PaymentResult | null> {
+    const charge = this.charges.get(reference);
+    if (charge?.result.status === 'requires_action') {
+      charge.result = { status: 'succeeded', transaction_id: charge.result.transaction_id };
+    }
+    return charge?.result ?? null;
+  }
+
+  release(reference: number): void {
+    this.charges.delete(reference);
+  }
+
+  private decide(request: PaymentRequest): PaymentResult {
+    const prefix = TRANSACTION_PREFIXES[request.payment_method];
+    const digest = createHash('sha256')
+      .update(`${prefix}:${request.reference}:${request.amount.toFixed(2)}`)
+      .digest('hex')
+      .slice(0, 12);
+    const transaction_id = `${prefix}_${request.reference}_${digest}`;
+
+    const cardNumber = request.payment_details.card_number?.replace(/[\s-]/g, '');
+    if (request.payment_method === 'credit_card' && cardNumber === TEST_CARDS.declined) {
+      return { status: 'failed', transaction_id, reason: 'Your card was declined' };
+    }
+    if (request.payment_method === 'credit_card' && cardNumber === TEST_CARDS.requiresAction) {
+      return { status: 'requires_action', transaction_id, reason: 'Your bank requires additional authentication' };
+    }
+
+    return { status: 'succeeded', transaction_id };
+  }
+}
+
+export const localPaymentGateway = new LocalPaymentGateway();
@@ -0,0 +1,14 @@
+import { db, type DbExecutor } from '../db';
+import { type PostDetails } from '../schema';
+import { loadPostLabels } from './post_labels';
+import { loadPostImages } from './post_images';
+
+// Attach categories, tags and images to posts (or public post rows) in a few batched queries
+export const withPostDetails = async <T extends { id: number }>(
+  items: T[],
+  executor: DbExecutor = db
+): Promise<(T & PostDetails)[]> => {
+  const ids = items.map(item => item.id);
+  const [labels, images] = await Promise.all([loadPostLabels(ids, executor), loadPostImages(ids, executor)]);
+  return items.map(item => ({ ...item, ...labels.get(item.id)!, images: images.get(item.id)! }));
+};
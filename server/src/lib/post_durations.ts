@@ -0,0 +1,17 @@
+import { type PostDuration, type PostDurationOption } from '../schema';
+
+export const DEFAULT_POST_DURATION: PostDuration = '24h';
+
+// Listing length and fee in credits for every duration; the only place fees are defined
+export const POST_DURATIONS: Record<PostDuration, Omit<PostDurationOption, 'duration'>> = {
+  '6h': { label: '6 hours', hours: 6, fee: 3 },
+  '24h': { label: '24 hours', hours: 24, fee: 5 },
+  '3d': { label: '3 days', hours: 72, fee: 12 },
+  '7d': { label: '7 days', hours: 168, fee: 25 }
+};
+
+export const getDurationFee = (duration: PostDuration): number => POST_DURATIONS[duration].fee;
+
+// When a post published at `from` for `duration` expires
+export const getExpiresAt = (from: Date, duration: PostDuration): Date =>
+  new Date(from.getTime() + POST_DURATIONS[duration].hours * 60 * 60 * 1000);
@@ -0,0 +1,51 @@
+import { EventEmitter } from 'events';
+import { type PostStatus } from '../schema';
+
+// Payload of every lifecycle event
+export interface PostLifecycleEvent {
+  post_id: number;
+  user_id: number; // Owner of the post
+  status: PostStatus; // Status after the change
+  at: Date;
+}
+
+export type PostLifecycleEventName =
+  | 'created'
+  | 'published' // A scheduled post or a draft went live
+  | 'rescheduled'
+  | 'cancelled' // A scheduled post was called off before going live
+  | 'reposted'
+  | 'renewed' // Re-posted by auto-renew
+  | 'expired'
+  | 'deleted' // Moved to the trash
+  | 'restored' // Taken back out of the trash
+  | 'purged'; // Removed for good after the trash retention period
+
+type PostLifecycleListener = (event: PostLifecycleEvent) => void | Promise<void>;
+
+// In-process pub/sub for post lifecycle changes. Events are emitted after the change has
+// been committed; a failing subscriber is logged and never affects the emitter or other subscribers.
+class PostEvents {
+  private emitter = new EventEmitter();
+
+  // Returns a function that removes the listener again
+  on(name: PostLifecycleEventName, listener: PostLifecycleListener): () => void {
+    const safeListener = async (event: PostLifecycleEvent) => {
+      try {
+        await listener(event);
+      } catch (error) {
+        console.error(`Post "${name}" listener failed:`, error);
+      }
+    };
+    this.emitter.on(name, safeListener);
+    return () => {
+      this.emitter.off(name, safeListener);
+    };
+  }
+
+  emit(name: PostLifecycleEventName, event: PostLifecycleEvent): void {
+    this.emitter.emit(name, event);
+  }
+}
+
+export const postEvents = new PostEvents();
@@ -0,0 +1,99 @@
+import { TRPCError } from '@trpc/server';
+import { and, asc, eq, inArray, isNull, notInArray, or } from 'drizzle-orm';
+import { db, type DbExecutor } from '../db';
+import { postImagesTable, type PostImage as PostImageRow } from '../db/schema';
+import { type ImageContentType, type PostImage } from '../schema';
+import { imageStorage, type ObjectStorage } from './storage';
+
+// Path of the route in index.ts that serves stored images
+export const IMAGE_ROUTE_PREFIX = '/images/';
+
+export const imageKeys = (image: Pick<PostImageRow, 'original_key' | 'medium_key' | 'thumbnail_key'>): string[] =>
+  [image.original_key, image.medium_key, image.thumbnail_key];
+
+export const toPostImage = (image: PostImageRow): PostImage => ({
+  id: image.id,
+  post_id: image.post_id,
+  position: image.position,
+  content_type: image.content_type as ImageContentType,
+  width: image.width,
+  height: image.height,
+  size_bytes: image.size_bytes,
+  urls: {
+    original: IMAGE_ROUTE_PREFIX + image.original_key,
+    medium: IMAGE_ROUTE_PREFIX + image.medium_key,
+    thumbnail: IMAGE_ROUTE_PREFIX + image.thumbnail_key
+  },
+  created_at: image.created_at
+});
+
+// Images for many posts in one query, cover first; posts without any get an empty list
+export const loadPostImages = async (postIds: number[], executor: DbExecutor = db): Promise<Map<number, PostImage[]>> => {
+  const images = new Map<number, PostImage[]>(postIds.map(id => [id, []]));
+  if (postIds.length === 0) {
+    return images;
+  }
+
+  const rows = await executor.select()
+    .from(postImagesTable)
+    .where(inArray(postImagesTable.post_id, postIds))
+    .orderBy(asc(postImagesTable.position), asc(postImagesTable.id))
+    .execute();
+
+  for (const row of rows) {
+    images.get(row.post_id!)!.push(toPostImage(row));
+  }
+  return images;
+};
+
+// Make imageIds the post's images, in that order. Every image must be the user's own and either
+// unattached or already on this post. Images dropped from the post are deleted; their storage
+// keys are returned so the files can be removed once the transaction has committed.
+export const setPostImages = async (
+  executor: DbExecutor,
+  postId: number,
+  userId: number,
+  imageIds: number[]
+): Promise<string[]> => {
+  if (imageIds.length > 0) {
+    const usable = await executor.select({ id: postImagesTable.id })
+      .from(postImagesTable)
+      .where(and(
+        inArray(postImagesTable.id, imageIds),
+        eq(postImagesTable.user_id, userId),
+        or(isNull(postImagesTable.post_id), eq(postImagesTable.post_id, postId))
+      ))
+      .execute();
+    const known = new Set(usable.map(image => image.id));
+    const unknown = imageIds.filter(id => !known.has(id));
+    if (unknown.length > 0) {
+      throw new TRPCError({ code: 'BAD_REQUEST', message: `Unknown image: ${unknown.join(', ')}` });
+    }
+  }
+
+  const dropped = await executor.delete(postImagesTable)
+    .where(imageIds.length > 0
+      ? and(eq(postImagesTable.post_id, postId), notInArray(postImagesTable.id, imageIds))
+      : eq(postImagesTable.post_id, postId))
+    .returning()
+    .execute();
+
+  for (const [position, id] of imageIds.entries()) {
+    await executor.update(postImagesTable)
+      .set({ post_id: postId, position })
+      .where(eq(postImagesTable.id, id))
+      .execute();
+  }
+
+  return dropped.flatMap(imageKeys);
+};
+
+// Best effort: a file that cannot be removed is logged and left behind, never failing the caller
+export const deleteStoredFiles = async (keys: string[], storage: ObjectStorage = imageStorage): Promise<void> => {
+  const results = await Promise.allSettled(keys.map(key => storage.delete(key)));
+  results.forEach((result, index) => {
+    if (result.status === 'rejected') {
+      console.error(`Deleting stored file ${keys[index]} failed:`, result.reason);
+    }
+  });
+};
@@ -0,0 +1,104 @@
+import { TRPCError } from '@trpc/server';
+import { asc, eq, inArray } from 'drizzle-orm';
+import { db, type DbExecutor } from '../db';
+import { categoriesTable, postCategoriesTable, postTagsTable, tagsTable } from '../db/schema';
+import { type PostLabels } from '../schema';
+
+// Categories and tags for many posts in two queries; posts without any get empty lists
+export const loadPostLabels = async (postIds: number[], executor: DbExecutor = db): Promise<Map<number, PostLabels>> => {
+  const labels = new Map<number, PostLabels>(postIds.map(id => [id, { categories: [], tags: [] }]));
+  if (postIds.length === 0) {
+    return labels;
+  }
+
+  const categories = await executor.select({
+    post_id: postCategoriesTable.post_id,
+    id: categoriesTable.id,
+    name: categoriesTable.name,
+    slug: categoriesTable.slug
+  })
+    .from(postCategoriesTable)
+    .innerJoin(categoriesTable, eq(postCategoriesTable.category_id, categoriesTable.id))
+    .where(inArray(postCategoriesTable.post_id, postIds))
+    .orderBy(asc(categoriesTable.name))
+    .execute();
+
+  const tags = await executor.select({ post_id: postTagsTable.post_id, name: tagsTable.name })
+    .from(postTagsTable)
+    .innerJoin(tagsTable, eq(postTagsTable.tag_id, tagsTable.id))
+    .where(inArray(postTagsTable.post_id, postIds))
+    .orderBy(asc(tagsTable.name))
+    .execute();
+
+  for (const { post_id, ...category } of categories) {
+    labels.get(post_id)!.categories.push(category);
+  }
+  for (const { post_id, name } of tags) {
+    labels.get(post_id)!.tags.push(name);
+  }
+  return labels;
+};
+
+// Replace a post's categories; every id must name an existing category
+export const setPostCategories = async (executor: DbExecutor, postId: number, categoryIds: number[]): Promise<void> => {
+  if (categoryIds.length > 0) {
+    const existing = await executor.select({ id: categoriesTable.id })
+      .from(categoriesTable)
+      .where(inArray(categoriesTable.id, categoryIds))
+      .execute();
+    const known = new Set(existing.map(category => category.id));
+    const unknown = categoryIds.filter(id => !known.has(id));
+    if (unknown.length > 0) {
+      throw new TRPCError({ code: 'BAD_REQUEST', message: `Unknown category: ${unknown.join(', ')}` });
+    }
+  }
+
+  await executor.delete(postCategoriesTable)
+    .where(eq(postCategoriesTable.post_id, postId))
+    .execute();
+
+  if (categoryIds.length > 0) {
+    await executor.insert(postCategoriesTable)
+      .values(categoryIds.map(category_id => ({ post_id: postId, category_id })))
+      .execute();
+  }
+};
+
+// Replace a post's tags, creating tags nobody has used yet. Names are already normalized by tagSchema.
+export const setPostTags = async (executor: DbExecutor, postId: number, tags: string[]): Promise<void> => {
+  await executor.delete(postTagsTable)
+    .where(eq(postTagsTable.post_id, postId))
+    .execute();
+
+  if (tags.length === 0) {
+    return;
+  }
+
+  await executor.insert(tagsTable)
+    .values(tags.map(name => ({ name })))
+    .onConflictDoNothing({ target: tagsTable.name })
+    .execute();
+
+  const tagRows = await executor.select({ id: tagsTable.id })
+    .from(tagsTable)
+    .where(inArray(tagsTable.name, tags))
+    .execute();
+
+  await executor.insert(postTagsTable)
+    .values(tagRows.map(tag => ({ post_id: postId, tag_id: tag.id })))
+    .execute();
+};
+
+// Apply whichever of categories and tags the input carries
+export const setPostLabels = async (
+  executor: DbExecutor,
+  postId: number,
+  input: { category_ids?: number[]; tags?: string[] }
+): Promise<void> => {
+  if (input.category_ids !== undefined) {
+    await setPostCategories(executor, postId, input.category_ids);
+  }
+  if (input.tags !== undefined) {
+    await setPostTags(executor, postId, input.tags);
+  }
+};
@@ -0,0 +1,144 @@
+import { TRPCError } from '@trpc/server';
+import { and, asc, desc, eq, gte, lt, lte, or, sql, type SQL } from 'drizzle-orm';
+import { postCategoriesTable, postsTable, postTagsTable, tagsTable } from '../db/schema';
+import { type PostListInput, type PostSort } from '../schema';
+import { activePostCondition } from './posts';
+import { categorySubtreeIds } from './categories';
+
+// How a listing is ordered. The name is stored in cursors so they cannot be reused under another order.
+export interface ListOrder {
+  name: string;
+  keys: SQL[]; // Most significant first
+  direction: 'asc' | 'desc';
+}
+
+// Every order ends with the post id, so it is total and keyset paging never skips
+// or repeats rows. Newest follows posted_at, so reposted and renewed posts move back
+// to the top; posts published together fall back to creation time. Drafts have no
+// publication or expiry time and sort last in both orders.
+const SORTS: Record<PostSort, ListOrder> = {
+  newest: {
+    name: 'newest',
+    keys: [sql`coalesce(${postsTable.posted_at}, '-infinity'::timestamp)`, sql`${postsTable.created_at}`],
+    direction: 'desc'
+  },
+  price_asc: { name: 'price_asc', keys: [sql`${postsTable.price}`], direction: 'asc' },
+  price_desc: { name: 'price_desc', keys: [sql`${postsTable.price}`], direction: 'desc' },
+  expiring_soonest: {
+    name: 'expiring_soonest',
+    keys: [sql`coalesce(${postsTable.expires_at}, 'infinity'::timestamp)`],
+    direction: 'asc'
+  }
+};
+
+export const listOrder = (sort: PostSort): ListOrder => SORTS[sort];
+
+interface Cursor {
+  sort: string;
+  values: string[]; // Sort keys of the last row, as Postgres text so timestamps keep full precision
+  id: number;
+}
+
+const encodeCursor = (cursor: Cursor): string =>
+  Buffer.from(JSON.stringify(cursor)).toString('base64url');
+
+const decodeCursor = (encoded: string, order: ListOrder): Cursor => {
+  let cursor: Cursor;
+  try {
+    cursor = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf8'));
+  } catch {
+    throw new TRPCError({ code: 'BAD_REQUEST', message: 'Invalid cursor' });
+  }
+  const values: unknown = cursor?.values;
+  if (!Array.isArray(values) || values.some(value => typeof value !== 'string') || typeof cursor.id !== 'number') {
+    throw new TRPCError({ code: 'BAD_REQUEST', message: 'Invalid cursor' });
+  }
+  if (cursor.sort !== order.name) {
+    throw new TRPCError({ code: 'BAD_REQUEST', message: 'Cursor belongs to a different sort order' });
+  }
+  if (values.length !== order.keys.length) {
+    throw new TRPCError({ code: 'BAD_REQUEST', message: 'Invalid cursor' });
+  }
+  return cursor;
+};
+
+// Select this alongside the row; its value goes into the next cursor
+export const sortValueColumn = ({ keys }: ListOrder) =>
+  sql<string[]>`array[${sql.join(keys.map(key => sql`(${key})::text`), sql`, `)}]`;
+
+export const postListOrderBy = ({ keys, direction }: ListOrder): SQL[] => {
+  const order = direction === 'asc' ? asc : desc;
+  return [...keys.map(key => order(key)), order(postsTable.id)];
+};
+
+// WHERE clauses for the filters and the cursor. Callers add their own scope (owner, active only).
+export const postListConditions = (
+  input: Omit<PostListInput, 'limit' | 'sort'>,
+  order: ListOrder,
+  now: Date = new Date()
+): SQL[] => {
+  const conditions: SQL[] = [];
+
+  if (input.status === 'active') {
+    conditions.push(activePostCondition(now));
+  } else if (input.status === 'expired') {
+    conditions.push(or(
+      eq(postsTable.status, 'expired'),
+      and(eq(postsTable.status, 'active'), lte(postsTable.expires_at, now))
+    )!);
+  } else if (input.status === 'draft') {
+    conditions.push(eq(postsTable.status, 'draft'));
+  }
+
+  if (input.price_min !== undefined) {
+    conditions.push(gte(postsTable.price, input.price_min.toString()));
+  }
+  if (input.price_max !== undefined) {
+    conditions.push(lte(postsTable.price, input.price_max.toString()));
+  }
+  if (input.created_from) {
+    conditions.push(gte(postsTable.created_at, input.created_from));
+  }
+  if (input.created_to) {
+    conditions.push(lt(postsTable.created_at, input.created_to));
+  }
+  if (input.category_id !== undefined) {
+    conditions.push(sql`exists (
+      select 1 from ${postCategoriesTable}
+      where ${postCategoriesTable.post_id} = ${postsTable.id}
+        and ${postCategoriesTable.category_id} in (${categorySubtreeIds(input.category_id)})
+    )`);
+  }
+  if (input.tag) {
+    conditions.push(sql`exists (
+      select 1 from ${postTagsTable}
+      join ${tagsTable} on ${tagsTable.id} = ${postTagsTable.tag_id}
+      where ${postTagsTable.post_id} = ${postsTable.id} and ${tagsTable.name} = ${input.tag}
+    )`);
+  }
+
+  if (input.cursor) {
+    // Row comparison: strictly after the last row in the chosen direction
+    const cursor = decodeCursor(input.cursor, order);
+    const row = sql.join([...order.keys, sql`${postsTable.id}`], sql`, `);
+    const last = sql.join([...cursor.values.map(value => sql`${value}`), sql`${cursor.id}`], sql`, `);
+    conditions.push(order.direction === 'asc' ? sql`(${row}) > (${last})` : sql`(${row}) < (${last})`);
+  }
+
+  return conditions;
+};
+
+// Turn limit + 1 fetched rows into a page: the extra row only signals that more exist
+export const toPage = <Row extends { id: number; sort_value: string[] }, Item>(
+  rows: Row[],
+  limit: number,
+  order: ListOrder,
+  toItem: (row: Row) => Item
+): { items: Item[]; nextCursor: string | null } => {
+  const pageRows = rows.slice(0, limit);
+  const last = pageRows[pageRows.length - 1];
+  return {
+    items: pageRows.map(toItem),
+    nextCursor: rows.length > limit && last ? encodeCursor({ sort: order.name, values: last.sort_value, id: last.id }) : null
+  };
+};
@@ -0,0 +1,32 @@
+import { type DbExecutor } from '../db';
+import { postRevisionsTable, type Post as PostRow, type PostRevision as PostRevisionRow } from '../db/schema';
+import { type PostRevision, type PostRevisionAction } from '../schema';
+
+// Snapshot the post's current title, content and price. Run it in the same transaction
+// as the change so the history never misses or invents a version.
+export const recordPostRevision = async (
+  executor: DbExecutor,
+  post: PostRow,
+  authorId: number,
+  action: PostRevisionAction,
+  restoredFromId: number | null = null
+): Promise<void> => {
+  await executor.insert(postRevisionsTable)
+    .values({
+      post_id: post.id,
+      author_id: authorId,
+      action,
+      restored_from_id: restoredFromId,
+      title: post.title,
+      content: post.content,
+      price: post.price,
+      created_at: post.updated_at
+    })
+    .execute();
+};
+
+// Convert a post_revisions row to the API shape
+export const toPostRevision = (revision: PostRevisionRow): PostRevision => ({
+  ...revision,
+  price: parseFloat(revision.price) // Convert numeric string to number
+});
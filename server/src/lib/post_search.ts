@@ -0,0 +1,32 @@
+import { sql, type SQL } from 'drizzle-orm';
+import { postsTable } from '../db/schema';
+
+// Must match the configuration of postsTable.search_vector
+const SEARCH_CONFIG = 'english';
+
+const HEADLINE_OPTIONS = 'StartSel=<mark>, StopSel=</mark>';
+const SNIPPET_OPTIONS = `${HEADLINE_OPTIONS}, MinWords=10, MaxWords=30, MaxFragments=2, FragmentDelimiter=" … "`;
+
+// Turn free text into a tsquery source where every word must match as a prefix,
+// e.g. "red bike" becomes "red:* & bike:*". Returns null when no searchable words remain.
+export const toPrefixQuery = (text: string): string | null => {
+  const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+  return words.length > 0 ? words.map(word => `${word}:*`).join(' & ') : null;
+};
+
+export const searchQuery = (prefixQuery: string): SQL =>
+  sql`to_tsquery(${SEARCH_CONFIG}::regconfig, ${prefixQuery})`;
+
+export const searchMatches = (query: SQL): SQL =>
+  sql`${postsTable.search_vector} @@ ${query}`;
+
+export const searchRank = (query: SQL): SQL<number> =>
+  sql<number>`ts_rank(${postsTable.search_vector}, ${query})`.mapWith(Number);
+
+// The whole title, with matches highlighted
+export const titleHighlight = (query: SQL): SQL<string> =>
+  sql<string>`ts_headline(${SEARCH_CONFIG}::regconfig, ${postsTable.title}, ${query}, ${`${HEADLINE_OPTIONS}, HighlightAll=true`})`;
+
+// The best matching fragments of the content
+export const contentSnippet = (query: SQL): SQL<string> =>
+  sql<string>`ts_headline(${SEARCH_CONFIG}::regconfig, ${postsTable.content}, ${query}, ${SNIPPET_OPTIONS})`;
@@ -0,0 +1,87 @@
+import { TRPCError } from '@trpc/server';
+import { and, eq, gt, inArray, isNull, type SQL } from 'drizzle-orm';
+import { db, type DbExecutor } from '../db';
+import { postsTable, type Post as PostRow } from '../db/schema';
+import { type AuthContext, type Post, type PostStatus } from '../schema';
+import { hasRole } from './roles';
+
+// How long deleted posts stay in the trash before they are purged
+export const TRASH_RETENTION_MS = 30 * 24 * 60 * 60 * 1000; // 30 days
+
+export const getPurgeAt = (deletedAt: Date): Date => new Date(deletedAt.getTime() + TRASH_RETENTION_MS);
+
+// The one definition of "active": published, not in the trash and not yet past its expiry.
+// The expiry check covers posts the scheduler has not moved to "expired" yet.
+export const isPostActive = (
+  post: { status: PostStatus; expires_at: Date | null; deleted_at: Date | null },
+  now: Date = new Date()
+): boolean =>
+  post.status === 'active' && post.deleted_at === null && post.expires_at !== null && now < post.expires_at;
+
+// Same predicate as isPostActive, for WHERE clauses
+export const activePostCondition = (now: Date = new Date()): SQL =>
+  and(eq(postsTable.status, 'active'), isNull(postsTable.deleted_at), gt(postsTable.expires_at, now))!;
+
+// Active and not hidden by moderation: what visitors can browse, save and contact
+export const publicPostCondition = (now: Date = new Date()): SQL =>
+  and(activePostCondition(now), isNull(postsTable.hidden_at))!;
+
+// Posts that are not in the trash
+export const notDeletedCondition = (): SQL => isNull(postsTable.deleted_at);
+
+// Statuses of posts that have been published; a listing that ran out can still be looked up
+const VISIBLE_STATUSES: PostStatus[] = ['active', 'expired'];
+
+// Published, not in the trash and not hidden by moderation: what anyone may look up.
+// Drafts, scheduled and removed posts are only for their owner and staff.
+export const visiblePostCondition = (): SQL =>
+  and(inArray(postsTable.status, VISIBLE_STATUSES), isNull(postsTable.hidden_at), notDeletedCondition())!;
+
+// Whether the viewer (null for visitors) may see a post that is not in the trash
+export const canViewPost = (
+  post: { user_id: number; status: PostStatus; hidden_at: Date | null },
+  viewer: AuthContext | null
+): boolean =>
+  (VISIBLE_STATUSES.includes(post.status) && post.hidden_at === null) ||
+  (viewer !== null && (viewer.user_id === post.user_id || hasRole(viewer.role, 'moderator')));
+
+// Scheduled posts must go live in the future
+export const assertFuturePublishTime = (publishAt: Date, now: Date = new Date()): void => {
+  if (publishAt <= now) {
+    throw new TRPCError({ code: 'BAD_REQUEST', message: 'Publish time must be in the future' });
+  }
+};
+
+// Convert a posts row to the API shape
+// The search document stays internal to the database
+export const toPost = ({ search_vector, ...post }: PostRow, now: Date = new Date()): Post => ({
+  ...post,
+  price: parseFloat(post.price), // Convert numeric string to number
+  is_active: isPostActive(post, now)
+});
+
+// Load a post and make sure the given user owns it.
+// Missing posts throw a plain "not found" error; posts owned by someone else throw FORBIDDEN.
+// Posts in the trash count as missing unless includeDeleted is set.
+export const getOwnedPost = async (
+  postId: number,
+  userId: number,
+  executor: DbExecutor = db,
+  { includeDeleted = false }: { includeDeleted?: boolean } = {}
+): Promise<PostRow> => {
+  const posts = await executor.select()
+    .from(postsTable)
+    .where(includeDeleted ? eq(postsTable.id, postId) : and(eq(postsTable.id, postId), notDeletedCondition()))
+    .execute();
+
+  if (posts.length === 0) {
+    throw new Error(`Post with id ${postId} not found`);
+  }
+
+  const post = posts[0];
+  if (post.user_id !== userId) {
+    throw new TRPCError({ code: 'FORBIDDEN', message: `You do not own post ${postId}` });
+  }
+
+  return post;
+};
@@ -0,0 +1,41 @@
+import { and, inArray, ne } from 'drizzle-orm';
+import { db, type DbExecutor } from '../db';
+import { adminActionsTable, usersTable, type AdminAction, type NewAdminAction } from '../db/schema';
+import { type UserRole } from '../schema';
+
+// Each role can do everything the roles before it can
+const ROLE_RANK: Record<UserRole, number> = {
+  user: 0,
+  moderator: 1,
+  admin: 2
+};
+
+export const hasRole = (role: UserRole, required: UserRole): boolean => ROLE_RANK[role] >= ROLE_RANK[required];
+
+// Promote the accounts listed in ADMIN_EMAILS, so a fresh install has someone to grant roles.
+// Runs at startup; accounts registered later are promoted on the next start.
+export const seedAdmins = async (emails: string = process.env['ADMIN_EMAILS'] ?? ''): Promise<void> => {
+  const adminEmails = emails.split(',')
+    .map(email => email.trim())
+    .filter(email => email.length > 0);
+  if (adminEmails.length === 0) {
+    return;
+  }
+
+  await db.update(usersTable)
+    .set({ role: 'admin', updated_at: new Date() })
+    .where(and(inArray(usersTable.email, adminEmails), ne(usersTable.role, 'admin')))
+    .execute();
+};
+
+// Append to the admin log; pass the transaction the action itself ran in
+export const recordAdminAction = async (
+  executor: DbExecutor,
+  action: Omit<NewAdminAction, 'id'>
+): Promise<AdminAction> => {
+  const [recorded] = await executor.insert(adminActionsTable)
+    .values(action)
+    .returning()
+    .execute();
+  return recorded;
+};
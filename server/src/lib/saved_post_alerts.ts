@@ -0,0 +1,29 @@
+import { db } from '../db';
+import { postsTable, savedPostsTable } from '../db/schema';
+import { and, eq, isNull } from 'drizzle-orm';
+import { postEvents, type PostLifecycleEvent } from './post_events';
+import { notifyUser } from './notifications';
+
+// Let everyone who saved a post know when it runs out or is listed again.
+// Auto-renewals are left out: they happen before expiry, so for a saver nothing changed.
+// Posts hidden by moderation are not advertised.
+const notifySavers = (describe: (title: string) => string) => async (event: PostLifecycleEvent) => {
+  const savers = await db.select({ user_id: savedPostsTable.user_id, title: postsTable.title })
+    .from(savedPostsTable)
+    .innerJoin(postsTable, eq(savedPostsTable.post_id, postsTable.id))
+    .where(and(eq(savedPostsTable.post_id, event.post_id), isNull(postsTable.hidden_at)))
+    .execute();
+
+  for (const saver of savers) {
+    await notifyUser({ user_id: saver.user_id, post_id: event.post_id, message: describe(saver.title) });
+  }
+};
+
+// Subscribe to post lifecycle events; returns a function that unsubscribes again
+export const subscribeSavedPostAlerts = (): (() => void) => {
+  const unsubscribers = [
+    postEvents.on('expired', notifySavers(title => `A post you saved, "${title}", has expired`)),
+    postEvents.on('reposted', notifySavers(title => `A post you saved, "${title}", is listed again`))
+  ];
+  return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+};
@@ -0,0 +1,58 @@
+import { activateScheduledPosts } from '../handlers/activate_scheduled_posts';
+import { expirePosts } from '../handlers/expire_posts';
+import { renewPosts } from '../handlers/renew_posts';
+import { purgeDeletedPosts } from '../handlers/purge_deleted_posts';
+import { purgeOrphanImages } from '../handlers/purge_orphan_images';
+import { purgeIdempotencyKeys } from '../handlers/purge_idempotency_keys';
+import { reconcilePurchases } from '../handlers/reconcile_purchases';
+
+export interface ScheduledJob {
+  name: string;
+  run: (now: Date) => Promise<unknown>;
+}
+
+// Background jobs run by the server process
+export const SCHEDULED_JOBS: ScheduledJob[] = [
+  { name: 'activateScheduledPosts', run: activateScheduledPosts },
+  { name: 'renewPosts', run: renewPosts }, // Before expiry, so renewable posts never lapse
+  { name: 'expirePosts', run: expirePosts },
+  { name: 'purgeDeletedPosts', run: purgeDeletedPosts },
+  { name: 'purgeOrphanImages', run: purgeOrphanImages },
+  { name: 'purgeIdempotencyKeys', run: purgeIdempotencyKeys },
+  { name: 'reconcilePurchases', run: reconcilePurchases }
+];
+
+const DEFAULT_INTERVAL_MS = 60 * 1000; // 1 minute
+
+// Run every job once per interval, one after another in list order, so a job sees what
+// the jobs before it did. A tick still running when the next one is due makes that one
+// skip rather than run the jobs twice. Returns a function that stops the scheduler.
+export const startScheduler = (
+  jobs: ScheduledJob[] = SCHEDULED_JOBS,
+  intervalMs: number = Number(process.env['SCHEDULER_INTERVAL_MS']) || DEFAULT_INTERVAL_MS
+): (() => void) => {
+  let running = false;
+
+  const tick = async () => {
+    if (running) {
+      return;
+    }
+    running = true;
+    try {
+      for (const job of jobs) {
+        // One failing job must not hold up the ones after it
+        try {
+          await job.run(new Date());
+        } catch (error) {
+          console.error(`Scheduled job ${job.name} failed:`, error);
+        }
+      }
+    } finally {
+      running = false;
+    }
+  };
+
+  tick();
+  const timer = setInterval(tick, intervalMs);
+  return () => clearInterval(timer);
+};
@@ -0,0 +1,109 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import type { IncomingMessage } from 'http';
+import { and, eq, isNull } from 'drizzle-orm';
+import { db } from '../db';
+import { usersTable } from '../db/schema';
+import { type AuthContext } from '../schema';
+
+export const SESSION_COOKIE_NAME = 'session';
+export const SESSION_TTL_SECONDS = 7 * 24 * 60 * 60; // 7 days
+
+// Without a configured secret every restart invalidates existing sessions
+const sessionSecret = process.env['SESSION_SECRET'] || randomBytes(32).toString('hex');
+if (!process.env['SESSION_SECRET']) {
+  console.warn('SESSION_SECRET is not set; using a random per-process secret');
+}
+
+interface SessionPayload {
+  user_id: number;
+  exp: number; // Unix time in seconds
+}
+
+const sign = (data: string): string =>
+  createHmac('sha256', sessionSecret).update(data).digest('base64url');
+
+// Token format: base64url(JSON payload) + "." + base64url(HMAC-SHA256 signature)
+export const createSessionToken = (userId: number, now: Date = new Date()): string => {
+  const payload: SessionPayload = {
+    user_id: userId,
+    exp: Math.floor(now.getTime() / 1000) + SESSION_TTL_SECONDS
+  };
+  const encoded = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  return `${encoded}.${sign(encoded)}`;
+};
+
+// Returns the user id for a valid, unexpired token and null otherwise
+export const verifySessionToken = (token: string, now: Date = new Date()): number | null => {
+  const [encoded, signature] = token.split('.');
+  if (!encoded || !signature) {
+    return null;
+  }
+
+  const expected = Buffer.from(sign(encoded));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  try {
+    const payload = JSON.parse(Buffer.from(encoded, 'base64url').toString()) as SessionPayload;
+    if (typeof payload.user_id !== 'number' || payload.exp * 1000 <= now.getTime()) {
+      return null;
+    }
+    return payload.user_id;
+  } catch {
+    return null;
+  }
+};
+
+// Read the session token from "Authorization: Bearer <token>" or the session cookie
+export const readSessionToken = (req: IncomingMessage): string | null => {
+  const authorization = req.headers.authorization;
+  if (authorization?.startsWith('Bearer ')) {
+    return authorization.slice('Bearer '.length).trim() || null;
+  }
+
+  const cookies = req.headers.cookie?.split(';') ?? [];
+  for (const cookie of cookies) {
+    const [name, ...value] = cookie.trim().split('=');
+    if (name === SESSION_COOKIE_NAME) {
+      return decodeURIComponent(value.join('=')) || null;
+    }
+  }
+
+  return null;
+};
+
+// Resolve a token to the user it belongs to; tokens of deleted or banned users resolve to null
+export const resolveSession = async (token: string): Promise<AuthContext | null> => {
+  const userId = verifySessionToken(token);
+  if (userId === null) {
+    return null;
+  }
+
+  const users = await db.select({ id: usersTable.id, email: usersTable.email, role: usersTable.role })
+    .from(usersTable)
+    .where(and(eq(usersTable.id, userId), isNull(usersTable.banned_at)))
+    .execute();
+
+  if (users.length === 0) {
+    return null;
+  }
+
+  return { user_id: users[0].id, email: users[0].email, role: users[0].role };
+};
+
+// Set-Cookie value for a session; pass an empty token to clear the cookie
+export const serializeSessionCookie = (token: string, secure: boolean): string => {
+  const attributes = [
+    `${SESSION_COOKIE_NAME}=${encodeURIComponent(token)}`,
+    'Path=/',
+    'HttpOnly',
+    'SameSite=Lax',
+    `Max-Age=${token ? SESSION_TTL_SECONDS : 0}`
+  ];
+  if (secure) {
+    attributes.push('Secure');
+  }
+  return attributes.join('; ');
+};
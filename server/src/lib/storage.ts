@@ -0,0 +1,67 @@
+import { mkdir, readFile, rm, writeFile } from 'fs/promises';
+import { dirname, extname, join, resolve, sep } from 'path';
+
+export interface StoredObject {
+  data: Buffer;
+  content_type: string;
+}
+
+// Anything that can hold uploaded files: the local filesystem below, or a cloud bucket.
+// Keys are relative paths such as "images/12/abc/original.jpg".
+export interface ObjectStorage {
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  get(key: string): Promise<StoredObject | null>;
+  delete(key: string): Promise<void>;
+}
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.png': 'image/png',
+  '.webp': 'image/webp'
+};
+
+// Lowercase path segments only; nothing that could climb out of the storage root
+const KEY_PATTERN = /^[a-z0-9_-]+(\/[a-z0-9_-]+)*\.[a-z0-9]+$/;
+
+export const isValidStorageKey = (key: string): boolean => KEY_PATTERN.test(key);
+
+// Stores each object as a file under a root directory; the content type follows from the extension
+export class LocalFileStorage implements ObjectStorage {
+  private readonly root: string;
+
+  constructor(root: string) {
+    this.root = resolve(root);
+  }
+
+  private pathFor(key: string): string {
+    const path = resolve(join(this.root, key));
+    if (!isValidStorageKey(key) || !path.startsWith(this.root + sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return path;
+  }
+
+  async put(key: string, data: Buffer): Promise<void> {
+    const path = this.pathFor(key);
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(path, data);
+  }
+
+  async get(key: string): Promise<StoredObject | null> {
+    const path = this.pathFor(key);
+    try {
+      return { data: await readFile(path), content_type: CONTENT_TYPES[extname(path)] ?? 'application/octet-stream' };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await rm(this.pathFor(key), { force: true });
+  }
+}
+
+export const imageStorage: ObjectStorage = new LocalFileStorage(process.env['UPLOAD_DIR'] || 'uploads');
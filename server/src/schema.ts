@@ -1,25 +1,445 @@
 import { z } from 'zod';
 
+// Moderators work the report queue; admins can do that and run the admin tools
+export const userRoleSchema = z.enum(['user', 'moderator', 'admin']);
+
+export type UserRole = z.infer<typeof userRoleSchema>;
+
+// User schema - password_hash is stored as "<hash>:<salt>"
+export const userSchema = z.object({
+  id: z.number(),
+  email: z.string().email(),
+  password_hash: z.string(),
+  phone_number: z.string(),
+  credits: z.number().int(), // Current credit balance
+  role: userRoleSchema,
+  banned_at: z.coerce.date().nullable(), // Set when a moderator bans the user
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type User = z.infer<typeof userSchema>;
+
+// User data safe to send to the client
+export const userProfileSchema = userSchema.omit({ password_hash: true });
+
+export type UserProfile = z.infer<typeof userProfileSchema>;
+
+// Input schema for registering users
+export const registerUserInputSchema = z.object({
+  email: z.string().email("Invalid email address"),
+  password: z.string().min(6, "Password must be at least 6 characters"),
+  phone_number: z.string().min(1, "Phone number is required")
+});
+
+export type RegisterUserInput = z.infer<typeof registerUserInputSchema>;
+
+// Input schema for logging in
+export const loginUserInputSchema = z.object({
+  email: z.string().email("Invalid email address"),
+  password: z.string()
+});
+
+export type LoginUserInput = z.infer<typeof loginUserInputSchema>;
+
+// Identity of an authenticated user
+export const authContextSchema = z.object({
+  user_id: z.number(),
+  email: z.string(),
+  role: userRoleSchema
+});
+
+export type AuthContext = z.infer<typeof authContextSchema>;
+
+// Result of a successful login: the identity plus a session token for bearer auth
+export const sessionSchema = authContextSchema.extend({
+  token: z.string()
+});
+
+export type Session = z.infer<typeof sessionSchema>;
+
+// Client-generated key, one per user action; repeats of the action replay the first result
+export const idempotencyKeySchema = z.string().min(1).max(255);
+
+// Listing durations a post can be published for
+export const postDurationSchema = z.enum(['6h', '24h', '3d', '7d']);
+
+export type PostDuration = z.infer<typeof postDurationSchema>;
+
+// A duration with its length and fee, as offered to the client
+export const postDurationOptionSchema = z.object({
+  duration: postDurationSchema,
+  label: z.string(),
+  hours: z.number().int(),
+  fee: z.number().int() // Credits
+});
+
+export type PostDurationOption = z.infer<typeof postDurationOptionSchema>;
+
+// Lifecycle of a post; only "active" posts are publicly listed
+export const postStatusSchema = z.enum(['draft', 'scheduled', 'active', 'expired', 'archived', 'removed']);
+
+export type PostStatus = z.infer<typeof postStatusSchema>;
+
 // Post schema with proper numeric handling
 export const postSchema = z.object({
   id: z.number(),
+  user_id: z.number(), // Owner of the post
   title: z.string(),
   content: z.string(),
   price: z.number().positive(), // Stored as numeric in DB, but we use number in TS
-  posted_at: z.coerce.date(), // Automatically converts string timestamps to Date objects
-  expires_at: z.coerce.date(), // Calculated as posted_at + 24 hours
-  is_active: z.boolean(), // Computed field based on current time vs expires_at
+  posted_at: z.coerce.date().nullable(), // Null until a draft is published
+  status: postStatusSchema,
+  duration: postDurationSchema, // Listing length chosen at the last (re-)post, or planned for a draft
+  publish_at: z.coerce.date().nullable(), // Go-live time of a scheduled post
+  expires_at: z.coerce.date().nullable(), // Calculated as posted_at + duration; null for drafts
+  auto_renew: z.boolean(),
+  auto_renew_max_renewals: z.number().int().nullable(),
+  auto_renew_spend_cap: z.number().int().nullable(), // In credits
+  auto_renew_renewals: z.number().int(),
+  auto_renew_spent: z.number().int(),
+  auto_renew_stopped_reason: z.string().nullable(),
+  deleted_at: z.coerce.date().nullable(), // Set while the post is in the trash
+  hidden_at: z.coerce.date().nullable(), // Set while moderation keeps the post out of public view
+  is_active: z.boolean(), // Computed by isPostActive: status is active and expires_at is in the future
   created_at: z.coerce.date(),
   updated_at: z.coerce.date()
 });
 
 export type Post = z.infer<typeof postSchema>;
 
+// Category tree node; top-level categories have no parent
+export const categorySchema = z.object({
+  id: z.number(),
+  parent_id: z.number().nullable(),
+  name: z.string(),
+  slug: z.string(),
+  sort_order: z.number().int(),
+  created_at: z.coerce.date()
+});
+
+export type Category = z.infer<typeof categorySchema>;
+
+// A category with the number of active posts in it or any of its subcategories
+export const categoryWithCountSchema = categorySchema.extend({
+  post_count: z.number().int()
+});
+
+export type CategoryWithCount = z.infer<typeof categoryWithCountSchema>;
+
+// Tags are free-form but normalized, so "Bike " and "bike" are the same tag
+export const tagSchema = z.string()
+  .trim()
+  .toLowerCase()
+  .min(1, "Tags cannot be empty")
+  .max(30, "Tags can be at most 30 characters")
+  .regex(/^[\p{L}\p{N}][\p{L}\p{N} _-]*$/u, "Tags may only contain letters, numbers, spaces, dashes and underscores");
+
+export const MAX_POST_CATEGORIES = 3;
+export const MAX_POST_TAGS = 10;
+
+const postCategoryIdsSchema = z.array(z.number().int().positive())
+  .max(MAX_POST_CATEGORIES, `A post can be in at most ${MAX_POST_CATEGORIES} categories`)
+  .transform(ids => [...new Set(ids)]);
+
+const postTagsSchema = z.array(tagSchema)
+  .max(MAX_POST_TAGS, `A post can have at most ${MAX_POST_TAGS} tags`)
+  .transform(tags => [...new Set(tags)]);
+
+// The categories and tags a post is filed under
+export const postLabelsSchema = z.object({
+  categories: z.array(categorySchema.pick({ id: true, name: true, slug: true })),
+  tags: z.array(z.string())
+});
+
+export type PostLabels = z.infer<typeof postLabelsSchema>;
+
+// Image formats accepted for upload; the server checks the file content, not just the declared type
+export const imageContentTypeSchema = z.enum(['image/jpeg', 'image/png', 'image/webp']);
+
+export type ImageContentType = z.infer<typeof imageContentTypeSchema>;
+
+export const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+export const MAX_POST_IMAGES = 8;
+
+// An uploaded image. The urls are paths on the API server; medium and thumbnail are generated WebP copies.
+export const postImageSchema = z.object({
+  id: z.number(),
+  post_id: z.number().nullable(), // Null until attached to a post with createPost/updatePost
+  position: z.number().int(), // Order within the post; the first image is the cover
+  content_type: imageContentTypeSchema, // Of the original
+  width: z.number().int(),
+  height: z.number().int(),
+  size_bytes: z.number().int(), // Of the original
+  urls: z.object({
+    original: z.string(),
+    medium: z.string(),
+    thumbnail: z.string()
+  }),
+  created_at: z.coerce.date()
+});
+
+export type PostImage = z.infer<typeof postImageSchema>;
+
+// Input schema for uploading an image; attach it to a post afterwards through image_ids
+export const uploadImageInputSchema = z.object({
+  data: z.string()
+    .max(Math.ceil(MAX_IMAGE_BYTES / 3) * 4, `Images can be at most ${MAX_IMAGE_BYTES / 1024 / 1024} MB`)
+    .base64("Image data must be base64 encoded"),
+  content_type: imageContentTypeSchema,
+  filename: z.string().max(255).optional()
+});
+
+export type UploadImageInput = z.infer<typeof uploadImageInputSchema>;
+
+// Uploaded images in display order; the first becomes the cover
+const postImageIdsSchema = z.array(z.number().int().positive())
+  .max(MAX_POST_IMAGES, `A post can have at most ${MAX_POST_IMAGES} images`)
+  .refine(ids => new Set(ids).size === ids.length, "Each image can only be used once");
+
+// Everything shown alongside a post: its categories, tags and images (cover first)
+export const postDetailsSchema = postLabelsSchema.extend({
+  images: z.array(postImageSchema)
+});
+
+export type PostDetails = z.infer<typeof postDetailsSchema>;
+
+export const detailedPostSchema = postSchema.merge(postDetailsSchema);
+
+export type DetailedPost = z.infer<typeof detailedPostSchema>;
+
+// A post in the trash, with the time it will be permanently removed
+export const trashedPostSchema = postSchema.extend({
+  purge_at: z.coerce.date()
+});
+
+export type TrashedPost = z.infer<typeof trashedPostSchema>;
+
+// How a post revision came about
+export const postRevisionActionSchema = z.enum(['created', 'updated', 'restored']);
+
+export type PostRevisionAction = z.infer<typeof postRevisionActionSchema>;
+
+// A post's title, content and price as they were after one change
+export const postRevisionSchema = z.object({
+  id: z.number(),
+  post_id: z.number(),
+  author_id: z.number(),
+  action: postRevisionActionSchema,
+  restored_from_id: z.number().nullable(), // Set when action is "restored"
+  title: z.string(),
+  content: z.string(),
+  price: z.number(),
+  created_at: z.coerce.date()
+});
+
+export type PostRevision = z.infer<typeof postRevisionSchema>;
+
+// An active post as shown to the public. The seller's phone is masked (e.g. "+1*******90");
+// logged-in visitors get the full number through revealContact.
+export const publicPostSchema = z.object({
+  id: z.number(),
+  title: z.string(),
+  content: z.string(),
+  price: z.number(),
+  phone_masked: z.string(),
+  created_at: z.coerce.date(),
+  expires_at: z.coerce.date()
+}).merge(postDetailsSchema);
+
+export type PublicPost = z.infer<typeof publicPostSchema>;
+
+// Credit ledger entry types
+export const creditEntryTypeSchema = z.enum(['purchase', 'post_fee', 'repost_fee', 'refund', 'grant', 'adjustment']);
+
+export type CreditEntryType = z.infer<typeof creditEntryTypeSchema>;
+
+// A single signed movement of credits
+export const creditLedgerEntrySchema = z.object({
+  id: z.number(),
+  user_id: z.number(),
+  amount: z.number().int(), // Negative for spending
+  entry_type: creditEntryTypeSchema,
+  reason: z.string(),
+  post_id: z.number().nullable(),
+  purchase_id: z.number().nullable(),
+  created_at: z.coerce.date()
+});
+
+export type CreditLedgerEntry = z.infer<typeof creditLedgerEntrySchema>;
+
+export const paymentMethodSchema = z.enum(['credit_card', 'paypal', 'bank_transfer']);
+
+export type PaymentMethod = z.infer<typeof paymentMethodSchema>;
+
+// pending -> succeeded | failed; requires_action means the payer still has to confirm
+export const purchaseStatusSchema = z.enum(['pending', 'requires_action', 'succeeded', 'failed']);
+
+export type PurchaseStatus = z.infer<typeof purchaseStatusSchema>;
+
+// Credit package schema with proper numeric handling
+export const creditPackageSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  credits: z.number().int(),
+  bonus_credits: z.number().int(),
+  price: z.number(), // Stored as numeric in DB, but we use number in TS
+  is_popular: z.boolean(),
+  is_active: z.boolean(),
+  sort_order: z.number().int(),
+  created_at: z.coerce.date()
+});
+
+export type CreditPackage = z.infer<typeof creditPackageSchema>;
+
+// Credit purchase schema with proper numeric handling
+export const creditPurchaseSchema = z.object({
+  id: z.number(),
+  user_id: z.number(),
+  package_id: z.number().nullable(),
+  credits_purchased: z.number().int(),
+  bonus_credits: z.number().int(),
+  amount_paid: z.number(), // Stored as numeric in DB, but we use number in TS
+  payment_method: paymentMethodSchema,
+  status: purchaseStatusSchema,
+  transaction_id: z.string().nullable(),
+  failure_reason: z.string().nullable(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type CreditPurchase = z.infer<typeof creditPurchaseSchema>;
+
+// Input schema for checking on a purchase that needed the buyer to confirm with their bank
+export const confirmPurchaseInputSchema = z.object({
+  purchase_id: z.number()
+});
+
+export type ConfirmPurchaseInput = z.infer<typeof confirmPurchaseInputSchema>;
+
+// Only the field matching the payment method is required
+export const paymentDetailsSchema = z.object({
+  card_number: z.string().optional(),
+  paypal_email: z.string().email().optional(),
+  bank_account: z.string().optional()
+});
+
+export type PaymentDetails = z.infer<typeof paymentDetailsSchema>;
+
+// Input schema for buying credits; price and bonus come from the package on the server
+export const purchaseCreditsInputSchema = z.object({
+  package_id: z.number().int(),
+  payment_method: paymentMethodSchema,
+  payment_details: paymentDetailsSchema,
+  idempotency_key: idempotencyKeySchema.optional()
+});
+
+export type PurchaseCreditsInput = z.infer<typeof purchaseCreditsInputSchema>;
+
+// Input schema for paging through the purchase history
+export const creditHistoryInputSchema = z.object({
+  limit: z.number().int().min(1).max(100).default(20),
+  offset: z.number().int().min(0).default(0)
+});
+
+export type CreditHistoryInput = z.infer<typeof creditHistoryInputSchema>;
+
+// Orderings offered by the post listings
+export const postSortSchema = z.enum(['newest', 'price_asc', 'price_desc', 'expiring_soonest']);
+
+export type PostSort = z.infer<typeof postSortSchema>;
+
+// Status filter for post listings; "expired" covers active posts past their expiry too
+export const postListStatusSchema = z.enum(['active', 'expired', 'draft']);
+
+export type PostListStatus = z.infer<typeof postListStatusSchema>;
+
+// Input schema for the paginated post listings. The cursor is the opaque nextCursor
+// of the previous page and is only valid with the same sort.
+export const postListInputSchema = z.object({
+  cursor: z.string().optional(),
+  limit: z.number().int().min(1).max(100).default(20),
+  status: postListStatusSchema.optional(),
+  price_min: z.number().nonnegative().optional(),
+  price_max: z.number().nonnegative().optional(),
+  created_from: z.coerce.date().optional(), // Inclusive
+  created_to: z.coerce.date().optional(), // Exclusive
+  category_id: z.number().int().optional(), // Includes posts in its subcategories
+  tag: tagSchema.optional(),
+  sort: postSortSchema.default('newest')
+});
+
+export type PostListInput = z.infer<typeof postListInputSchema>;
+
+// The listing of all published posts; drafts are only listed for their owner, through getUserPosts
+export const allPostsListInputSchema = postListInputSchema.extend({
+  status: postListStatusSchema.exclude(['draft']).optional()
+});
+
+export type AllPostsListInput = z.infer<typeof allPostsListInputSchema>;
+
+// The public listing only ever shows active posts, so it takes no status filter
+export const publicPostListInputSchema = postListInputSchema.omit({ status: true });
+
+export type PublicPostListInput = z.infer<typeof publicPostListInputSchema>;
+
+// One page of a listing; nextCursor is null on the last page
+export const postPageSchema = z.object({
+  items: z.array(detailedPostSchema),
+  nextCursor: z.string().nullable()
+});
+
+export type PostPage = z.infer<typeof postPageSchema>;
+
+export const publicPostPageSchema = z.object({
+  items: z.array(publicPostSchema),
+  nextCursor: z.string().nullable()
+});
+
+export type PublicPostPage = z.infer<typeof publicPostPageSchema>;
+
+// Search can also order by how well a post matches
+export const searchSortSchema = z.enum([...postSortSchema.options, 'relevance']);
+
+export type SearchSort = z.infer<typeof searchSortSchema>;
+
+// Input schema for full-text search over active posts; every word is matched as a prefix
+export const searchPostsInputSchema = publicPostListInputSchema.extend({
+  query: z.string().trim().min(1, "Search query is required").max(200),
+  sort: searchSortSchema.default('relevance')
+});
+
+export type SearchPostsInput = z.infer<typeof searchPostsInputSchema>;
+
+// A search hit. title_highlight and snippet wrap matched words in <mark></mark>;
+// the rest is the post's own text, so render it as text rather than HTML.
+export const postSearchResultSchema = publicPostSchema.extend({
+  rank: z.number(),
+  title_highlight: z.string(),
+  snippet: z.string()
+});
+
+export type PostSearchResult = z.infer<typeof postSearchResultSchema>;
+
+export const postSearchPageSchema = z.object({
+  items: z.array(postSearchResultSchema),
+  nextCursor: z.string().nullable()
+});
+
+export type PostSearchPage = z.infer<typeof postSearchPageSchema>;
+
 // Input schema for creating posts
 export const createPostInputSchema = z.object({
   title: z.string().min(1, "Title is required"),
   content: z.string().min(1, "Content is required"),
-  price: z.number().positive("Price must be positive")
+  price: z.number().positive("Price must be positive"),
+  duration: postDurationSchema.optional(), // Defaults to 24h
+  publish_at: z.coerce.date().optional(), // Future go-live time; publishes immediately when omitted
+  draft: z.boolean().optional(), // Save without publishing or charging; see publishPostInputSchema
+  category_ids: postCategoryIdsSchema.optional(),
+  tags: postTagsSchema.optional(),
+  image_ids: postImageIdsSchema.optional(),
+  idempotency_key: idempotencyKeySchema.optional()
 });
 
 export type CreatePostInput = z.infer<typeof createPostInputSchema>;
@@ -29,18 +449,84 @@ export const updatePostInputSchema = z.object({
   id: z.number(),
   title: z.string().min(1, "Title is required").optional(),
   content: z.string().min(1, "Content is required").optional(),
-  price: z.number().positive("Price must be positive").optional()
+  price: z.number().positive("Price must be positive").optional(),
+  duration: postDurationSchema.optional(), // Drafts only; a live post's window is fixed until re-posted
+  category_ids: postCategoryIdsSchema.optional(), // Replaces the post's categories
+  tags: postTagsSchema.optional(), // Replaces the post's tags
+  image_ids: postImageIdsSchema.optional() // Replaces the post's images; left-out images are deleted
 });
 
 export type UpdatePostInput = z.infer<typeof updatePostInputSchema>;
 
 // Input schema for re-posting expired posts
 export const repostInputSchema = z.object({
-  id: z.number()
+  id: z.number(),
+  duration: postDurationSchema.optional(), // Defaults to 24h
+  idempotency_key: idempotencyKeySchema.optional()
 });
 
 export type RepostInput = z.infer<typeof repostInputSchema>;
 
+// Input schema for publishing a draft: charges the fee and starts the listing window
+export const publishPostInputSchema = z.object({
+  id: z.number(),
+  duration: postDurationSchema.optional(), // Defaults to the duration saved on the draft
+  idempotency_key: idempotencyKeySchema.optional()
+});
+
+export type PublishPostInput = z.infer<typeof publishPostInputSchema>;
+
+// Input schema for turning auto-renew on or off. Enabling needs at least one limit
+// and starts the renewal and spending counters from zero.
+export const setAutoRenewInputSchema = z.object({
+  id: z.number(),
+  enabled: z.boolean(),
+  max_renewals: z.number().int().positive().optional(),
+  spend_cap: z.number().int().positive().optional() // In credits
+}).refine(
+  input => !input.enabled || input.max_renewals !== undefined || input.spend_cap !== undefined,
+  { message: 'Set a maximum number of renewals or a spending cap' }
+);
+
+export type SetAutoRenewInput = z.infer<typeof setAutoRenewInputSchema>;
+
+// Input schema for moving a scheduled post to a new go-live time
+export const reschedulePostInputSchema = z.object({
+  id: z.number(),
+  publish_at: z.coerce.date()
+});
+
+export type ReschedulePostInput = z.infer<typeof reschedulePostInputSchema>;
+
+// Input schema for cancelling a scheduled post
+export const cancelScheduledPostInputSchema = z.object({
+  id: z.number()
+});
+
+export type CancelScheduledPostInput = z.infer<typeof cancelScheduledPostInputSchema>;
+
+// Input schema for listing a post's revisions
+export const getPostRevisionsInputSchema = z.object({
+  post_id: z.number()
+});
+
+export type GetPostRevisionsInput = z.infer<typeof getPostRevisionsInputSchema>;
+
+// Input schema for putting an earlier revision back
+export const restorePostRevisionInputSchema = z.object({
+  post_id: z.number(),
+  revision_id: z.number()
+});
+
+export type RestorePostRevisionInput = z.infer<typeof restorePostRevisionInputSchema>;
+
+// Input schema for taking a post back out of the trash
+export const restorePostInputSchema = z.object({
+  id: z.number()
+});
+
+export type RestorePostInput = z.infer<typeof restorePostInputSchema>;
+
 // Input schema for getting a single post
 export const getPostInputSchema = z.object({
   id: z.number()
@@ -53,4 +539,399 @@ export const deletePostInputSchema = z.object({
   id: z.number()
 });
 
-export type DeletePostInput = z.infer<typeof deletePostInputSchema>;
\ No newline at end of file
+export type DeletePostInput = z.infer<typeof deletePostInputSchema>;
+
+// Notification schema
+export const notificationSchema = z.object({
+  id: z.number(),
+  user_id: z.number(),
+  post_id: z.number().nullable(),
+  message: z.string(),
+  read_at: z.coerce.date().nullable(),
+  created_at: z.coerce.date()
+});
+
+export type Notification = z.infer<typeof notificationSchema>;
+
+// Input schema for showing a post's contact phone to the current user
+export const revealContactInputSchema = z.object({
+  post_id: z.number()
+});
+
+export type RevealContactInput = z.infer<typeof revealContactInputSchema>;
+
+export const contactRevealSchema = z.object({
+  post_id: z.number(),
+  phone_number: z.string()
+});
+
+export type ContactReveal = z.infer<typeof contactRevealSchema>;
+
+// How many people revealed the contact phone of one of the seller's posts
+export const postRevealStatsSchema = z.object({
+  post_id: z.number(),
+  reveals: z.number().int(),
+  last_revealed_at: z.coerce.date()
+});
+
+export type PostRevealStats = z.infer<typeof postRevealStatsSchema>;
+
+// Which side of a conversation the current user is on
+export const conversationRoleSchema = z.enum(['owner', 'buyer']);
+
+export type ConversationRole = z.infer<typeof conversationRoleSchema>;
+
+export const MAX_MESSAGE_LENGTH = 2000;
+
+export const messageSchema = z.object({
+  id: z.number(),
+  conversation_id: z.number(),
+  sender_id: z.number(),
+  body: z.string(),
+  created_at: z.coerce.date()
+});
+
+export type Message = z.infer<typeof messageSchema>;
+
+// A thread as listed for one of its participants
+export const conversationSummarySchema = z.object({
+  id: z.number(),
+  post_id: z.number(),
+  post_title: z.string(),
+  role: conversationRoleSchema,
+  other_user_id: z.number(),
+  last_message: messageSchema.nullable(),
+  last_message_at: z.coerce.date(),
+  unread_count: z.number().int(),
+  blocked_by_me: z.boolean(), // The current user blocked the other participant
+  can_reply: z.boolean() // False while either side has blocked the other
+});
+
+export type ConversationSummary = z.infer<typeof conversationSummarySchema>;
+
+// Input schema for sending a message: start (or continue) a thread about a post as a buyer,
+// or reply in an existing conversation. Exactly one of post_id and conversation_id is given.
+export const sendMessageInputSchema = z.object({
+  post_id: z.number().optional(),
+  conversation_id: z.number().optional(),
+  body: z.string().trim().min(1, "Message is required").max(MAX_MESSAGE_LENGTH, `Messages can be at most ${MAX_MESSAGE_LENGTH} characters`)
+}).refine(
+  input => (input.post_id === undefined) !== (input.conversation_id === undefined),
+  { message: 'Give either a post or a conversation' }
+);
+
+export type SendMessageInput = z.infer<typeof sendMessageInputSchema>;
+
+// Input schema for reading a conversation a page at a time, latest page first; reading the latest page marks it read
+export const getMessagesInputSchema = z.object({
+  conversation_id: z.number(),
+  before_id: z.number().optional(), // Load messages older than this one
+  limit: z.number().int().min(1).max(100).default(50)
+});
+
+export type GetMessagesInput = z.infer<typeof getMessagesInputSchema>;
+
+// Input schema for marking a conversation read up to the newest message the user has seen
+export const markConversationReadInputSchema = z.object({
+  conversation_id: z.number(),
+  message_id: z.number()
+});
+
+export type MarkConversationReadInput = z.infer<typeof markConversationReadInputSchema>;
+
+// Messages in chronological order, with whether older ones remain
+export const messagePageSchema = z.object({
+  conversation: conversationSummarySchema,
+  items: z.array(messageSchema),
+  has_older: z.boolean()
+});
+
+export type MessagePage = z.infer<typeof messagePageSchema>;
+
+// Input schema for blocking or unblocking another user
+export const blockUserInputSchema = z.object({
+  user_id: z.number()
+});
+
+export type BlockUserInput = z.infer<typeof blockUserInputSchema>;
+
+// Input schema for saving a post to, or removing it from, the current user's saved list
+export const savePostInputSchema = z.object({
+  post_id: z.number()
+});
+
+export type SavePostInput = z.infer<typeof savePostInputSchema>;
+
+// Where a saved post stands now: still listed, run out (it may be re-posted), or gone from view
+export const savedPostStateSchema = z.enum(['active', 'expired', 'unavailable']);
+
+export type SavedPostState = z.infer<typeof savedPostStateSchema>;
+
+// A saved post with its public details, whatever its state
+export const savedPostSchema = publicPostSchema.extend({
+  expires_at: z.coerce.date().nullable(),
+  saved_at: z.coerce.date(),
+  state: savedPostStateSchema,
+  reposted: z.boolean() // Listed again, by hand or by auto-renew, since it was saved
+});
+
+export type SavedPost = z.infer<typeof savedPostSchema>;
+
+// Why a post was reported
+export const reportReasonSchema = z.enum(['spam', 'scam', 'prohibited_item', 'offensive', 'wrong_category', 'other']);
+
+export type ReportReason = z.infer<typeof reportReasonSchema>;
+
+export const reportStatusSchema = z.enum(['open', 'dismissed', 'actioned']);
+
+export type ReportStatus = z.infer<typeof reportStatusSchema>;
+
+export const MAX_REPORT_DETAILS_LENGTH = 1000;
+
+// Input schema for reporting a post; "other" needs an explanation
+export const reportPostInputSchema = z.object({
+  post_id: z.number(),
+  reason: reportReasonSchema,
+  details: z.string().trim().max(MAX_REPORT_DETAILS_LENGTH, `Details can be at most ${MAX_REPORT_DETAILS_LENGTH} characters`).optional()
+}).refine(
+  input => input.reason !== 'other' || !!input.details,
+  { message: 'Please describe the problem', path: ['details'] }
+);
+
+export type ReportPostInput = z.infer<typeof reportPostInputSchema>;
+
+export const postReportSchema = z.object({
+  id: z.number(),
+  post_id: z.number(),
+  reporter_id: z.number(),
+  reason: reportReasonSchema,
+  details: z.string().nullable(),
+  status: reportStatusSchema,
+  resolved_at: z.coerce.date().nullable(),
+  resolved_by: z.number().nullable(),
+  created_at: z.coerce.date()
+});
+
+export type PostReport = z.infer<typeof postReportSchema>;
+
+// A reported post awaiting review, with its open reports oldest first
+export const moderationQueueItemSchema = z.object({
+  post_id: z.number(),
+  title: z.string(),
+  content: z.string(),
+  status: postStatusSchema,
+  hidden_at: z.coerce.date().nullable(),
+  owner_id: z.number(),
+  owner_email: z.string(),
+  reports: z.array(postReportSchema),
+  first_reported_at: z.coerce.date()
+});
+
+export type ModerationQueueItem = z.infer<typeof moderationQueueItemSchema>;
+
+export const moderationActionTypeSchema = z.enum(['auto_hide', 'dismiss', 'hide', 'remove', 'ban']);
+
+export type ModerationActionType = z.infer<typeof moderationActionTypeSchema>;
+
+// Input schema for a moderator's decision on a reported post:
+// dismiss the reports, hide the post, remove it with a refund, or ban its owner
+export const moderatePostInputSchema = z.object({
+  post_id: z.number(),
+  action: moderationActionTypeSchema.exclude(['auto_hide']),
+  note: z.string().trim().max(MAX_REPORT_DETAILS_LENGTH).optional() // Shown to the owner
+});
+
+export type ModeratePostInput = z.infer<typeof moderatePostInputSchema>;
+
+export const moderationActionSchema = z.object({
+  id: z.number(),
+  action: moderationActionTypeSchema,
+  moderator_id: z.number().nullable(), // Null for automatic actions
+  post_id: z.number().nullable(),
+  target_user_id: z.number(),
+  note: z.string().nullable(),
+  refunded_credits: z.number().int().nullable(),
+  created_at: z.coerce.date()
+});
+
+export type ModerationAction = z.infer<typeof moderationActionSchema>;
+
+// Input schema for the admin user list; search matches email or phone number
+export const adminUserListInputSchema = z.object({
+  search: z.string().trim().optional(),
+  role: userRoleSchema.optional(),
+  limit: z.number().int().min(1).max(100).default(20),
+  offset: z.number().int().min(0).default(0)
+});
+
+export type AdminUserListInput = z.infer<typeof adminUserListInputSchema>;
+
+// A user as seen by admins, with how many posts they have
+export const adminUserSchema = userProfileSchema.extend({
+  post_count: z.number().int()
+});
+
+export type AdminUser = z.infer<typeof adminUserSchema>;
+
+export const adminUserPageSchema = z.object({
+  items: z.array(adminUserSchema),
+  total: z.number().int()
+});
+
+export type AdminUserPage = z.infer<typeof adminUserPageSchema>;
+
+// Input schema for an admin credit adjustment; negative amounts take credits away
+export const adjustCreditsInputSchema = z.object({
+  user_id: z.number(),
+  amount: z.number().int().refine(amount => amount !== 0, { message: 'Amount cannot be zero' }),
+  reason: z.string().trim().min(1, "Reason is required").max(500)
+});
+
+export type AdjustCreditsInput = z.infer<typeof adjustCreditsInputSchema>;
+
+// Input schema for ending a post's listing now
+export const forceExpirePostInputSchema = z.object({
+  post_id: z.number(),
+  reason: z.string().trim().min(1, "Reason is required").max(500)
+});
+
+export type ForceExpirePostInput = z.infer<typeof forceExpirePostInputSchema>;
+
+// Input schema for changing a user's role
+export const setUserRoleInputSchema = z.object({
+  user_id: z.number(),
+  role: userRoleSchema
+});
+
+export type SetUserRoleInput = z.infer<typeof setUserRoleInputSchema>;
+
+// Input schema for the admin purchase list, newest first; search matches the buyer's email
+export const adminPurchaseListInputSchema = z.object({
+  search: z.string().trim().optional(),
+  user_id: z.number().optional(),
+  status: purchaseStatusSchema.optional(),
+  limit: z.number().int().min(1).max(100).default(20),
+  offset: z.number().int().min(0).default(0)
+});
+
+export type AdminPurchaseListInput = z.infer<typeof adminPurchaseListInputSchema>;
+
+export const adminPurchaseSchema = creditPurchaseSchema.extend({
+  user_email: z.string()
+});
+
+export type AdminPurchase = z.infer<typeof adminPurchaseSchema>;
+
+export const adminPurchasePageSchema = z.object({
+  items: z.array(adminPurchaseSchema),
+  total: z.number().int()
+});
+
+export type AdminPurchasePage = z.infer<typeof adminPurchasePageSchema>;
+
+// Input schema for the admin post list, newest first; search matches title, content and owner email.
+// Posts in the trash are included.
+export const adminPostListInputSchema = z.object({
+  search: z.string().trim().optional(),
+  status: postStatusSchema.optional(),
+  limit: z.number().int().min(1).max(100).default(20),
+  offset: z.number().int().min(0).default(0)
+});
+
+export type AdminPostListInput = z.infer<typeof adminPostListInputSchema>;
+
+export const adminPostSchema = postSchema.extend({
+  owner_email: z.string()
+});
+
+export type AdminPost = z.infer<typeof adminPostSchema>;
+
+export const adminPostPageSchema = z.object({
+  items: z.array(adminPostSchema),
+  total: z.number().int()
+});
+
+export type AdminPostPage = z.infer<typeof adminPostPageSchema>;
+
+// Number of something per calendar day (UTC), oldest day first
+export const dailyCountSchema = z.object({
+  date: z.string(), // YYYY-MM-DD
+  count: z.number().int()
+});
+
+export type DailyCount = z.infer<typeof dailyCountSchema>;
+
+// Headline numbers for the admin dashboard
+export const adminStatsSchema = z.object({
+  total_revenue: z.number(), // Sum of succeeded purchases, in dollars
+  revenue_last_30_days: z.number(),
+  active_posts: z.number().int(), // Publicly listed right now
+  open_reports: z.number().int(),
+  total_users: z.number().int(),
+  signups_by_day: z.array(dailyCountSchema) // Every day of the stats window, including days without signups
+});
+
+export type AdminStats = z.infer<typeof adminStatsSchema>;
+
+export const adminActionTypeSchema = z.enum(['adjust_credits', 'expire_post', 'set_role']);
+
+export type AdminActionType = z.infer<typeof adminActionTypeSchema>;
+
+export const adminActionSchema = z.object({
+  id: z.number(),
+  admin_id: z.number(),
+  action: adminActionTypeSchema,
+  target_user_id: z.number().nullable(),
+  post_id: z.number().nullable(),
+  details: z.string(),
+  created_at: z.coerce.date()
+});
+
+export type AdminAction = z.infer<typeof adminActionSchema>;
+
+export const auditStatusSchema = z.enum(['success', 'error']);
+
+export type AuditStatus = z.infer<typeof auditStatusSchema>;
+
+export const auditEntityTypeSchema = z.enum(['post', 'user', 'conversation', 'image', 'credit_package']);
+
+export type AuditEntityType = z.infer<typeof auditEntityTypeSchema>;
+
+// Input schema for searching the audit log, newest first; search matches the actor's email
+export const auditLogListInputSchema = z.object({
+  search: z.string().trim().optional(),
+  actor_id: z.number().optional(),
+  procedure: z.string().trim().optional(), // Exact tRPC path, e.g. "updatePost"
+  entity_type: auditEntityTypeSchema.optional(),
+  entity_id: z.number().optional(),
+  status: auditStatusSchema.optional(),
+  created_from: z.coerce.date().optional(), // Inclusive
+  created_to: z.coerce.date().optional(), // Exclusive
+  limit: z.number().int().min(1).max(100).default(50),
+  offset: z.number().int().min(0).default(0)
+});
+
+export type AuditLogListInput = z.infer<typeof auditLogListInputSchema>;
+
+export const auditLogEntrySchema = z.object({
+  id: z.number(),
+  actor_id: z.number().nullable(),
+  actor_email: z.string().nullable(),
+  procedure: z.string(),
+  input: z.unknown(),
+  entity_type: auditEntityTypeSchema.nullable(),
+  entity_id: z.number().nullable(),
+  status: auditStatusSchema,
+  error_code: z.string().nullable(),
+  ip: z.string().nullable(),
+  created_at: z.coerce.date()
+});
+
+export type AuditLogEntry = z.infer<typeof auditLogEntrySchema>;
+
+export const auditLogPageSchema = z.object({
+  items: z.array(auditLogEntrySchema),
+  total: z.number().int()
+});
+
+export type AuditLogPage = z.infer<typeof auditLogPageSchema>;
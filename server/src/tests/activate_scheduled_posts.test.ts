@@ -0,0 +1,94 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, postsTable } from '../db/schema';
+import { activateScheduledPosts } from '../handlers/activate_scheduled_posts';
+import { getPublicPosts } from '../handlers/get_public_posts';
+import { postEvents, type PostLifecycleEvent } from '../lib/post_events';
+import { SCHEDULED_JOBS } from '../lib/scheduler';
+import { eq } from 'drizzle-orm';
+
+const testUser = {
+  email: 'owner@example.com',
+  password_hash: 'hashed_password',
+  phone_number: '+1234567890'
+};
+
+describe('activateScheduledPosts', () => {
+  let userId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const userResult = await db.insert(usersTable)
+      .values(testUser)
+      .returning()
+      .execute();
+
+    userId = userResult[0].id;
+  });
+  afterEach(resetDB);
+
+  const insertScheduledPost = async (title: string, publishAt: Date) => {
+    const [post] = await db.insert(postsTable)
+      .values({
+        user_id: userId,
+        title,
+        content: `Content of ${title}`,
+        price: '10.00',
+        status: 'scheduled',
+        duration: '6h',
+        publish_at: publishAt,
+        posted_at: publishAt,
+        expires_at: new Date(publishAt.getTime() + 6 * 60 * 60 * 1000)
+      })
+      .returning()
+      .execute();
+    return post;
+  };
+
+  it('should keep scheduled posts out of the public list', async () => {
+    await insertScheduledPost('Later', new Date(Date.now() + 60 * 60 * 1000));
+
+    expect((await getPublicPosts()).items).toHaveLength(0);
+  });
+
+  it('should activate due posts and start their window at activation', async () => {
+    const now = new Date();
+    const due = await insertScheduledPost('Due', new Date(now.getTime() - 10 * 60 * 1000));
+    const later = await insertScheduledPost('Later', new Date(now.getTime() + 60 * 60 * 1000));
+
+    expect(await activateScheduledPosts(now)).toEqual([due.id]);
+
+    const [activated] = await db.select().from(postsTable).where(eq(postsTable.id, due.id)).execute();
+    expect(activated.status).toEqual('active');
+    expect(activated.posted_at!.getTime()).toEqual(now.getTime());
+    expect(activated.expires_at!.getTime()).toEqual(now.getTime() + 6 * 60 * 60 * 1000);
+
+    const [pending] = await db.select().from(postsTable).where(eq(postsTable.id, later.id)).execute();
+    expect(pending.status).toEqual('scheduled');
+
+    const publicPosts = (await getPublicPosts()).items;
+    expect(publicPosts.map(p => p.id)).toEqual([due.id]);
+  });
+
+  it('should emit a published event for each activated post', async () => {
+    const now = new Date();
+    const post = await insertScheduledPost('Due', now);
+    const events: PostLifecycleEvent[] = [];
+    const unsubscribe = postEvents.on('published', event => { events.push(event); });
+
+    try {
+      await activateScheduledPosts(now);
+    } finally {
+      unsubscribe();
+    }
+
+    expect(events).toEqual([{ post_id: post.id, user_id: userId, status: 'active', at: now }]);
+  });
+
+  it('should run before expiry in the scheduler', () => {
+    const names = SCHEDULED_JOBS.map(job => job.name);
+    expect(names.indexOf('activateScheduledPosts')).toBeLessThan(names.indexOf('expirePosts'));
+  });
+});
@@ -0,0 +1,65 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, creditLedgerTable, adminActionsTable, notificationsTable } from '../db/schema';
+import { adjustCredits } from '../handlers/adjust_credits';
+import { eq } from 'drizzle-orm';
+
+describe('adjustCredits', () => {
+  let adminId: number;
+  let userId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const users = await db.insert(usersTable)
+      .values([
+        { email: 'admin@example.com', password_hash: 'hash', phone_number: '+1111111111', role: 'admin' },
+        { email: 'user@example.com', password_hash: 'hash', phone_number: '+2222222222', credits: 5 }
+      ])
+      .returning()
+      .execute();
+    [adminId, userId] = users.map(user => user.id);
+  });
+  afterEach(resetDB);
+
+  it('should add credits through a ledger adjustment and log it', async () => {
+    const result = await adjustCredits({ user_id: userId, amount: 20, reason: 'Goodwill for outage' }, adminId);
+
+    expect(result.credits).toEqual(25);
+    const [user] = await db.select().from(usersTable).where(eq(usersTable.id, userId)).execute();
+    expect(user.credits).toEqual(25);
+
+    const [entry] = await db.select().from(creditLedgerTable).execute();
+    expect(entry.user_id).toEqual(userId);
+    expect(entry.amount).toEqual(20);
+    expect(entry.entry_type).toEqual('adjustment');
+    expect(entry.reason).toEqual('Goodwill for outage');
+
+    const [action] = await db.select().from(adminActionsTable).execute();
+    expect(action.admin_id).toEqual(adminId);
+    expect(action.action).toEqual('adjust_credits');
+    expect(action.target_user_id).toEqual(userId);
+    expect(action.details).toEqual('+20 credits: Goodwill for outage');
+
+    const [notification] = await db.select().from(notificationsTable).execute();
+    expect(notification.user_id).toEqual(userId);
+  });
+
+  it('should take credits away but never below zero', async () => {
+    const result = await adjustCredits({ user_id: userId, amount: -5, reason: 'Chargeback' }, adminId);
+    expect(result.credits).toEqual(0);
+
+    await expect(adjustCredits({ user_id: userId, amount: -1, reason: 'Chargeback' }, adminId))
+      .rejects.toThrow(/Insufficient credits/);
+
+    // The failed adjustment left no trace
+    expect(await db.select().from(creditLedgerTable).execute()).toHaveLength(1);
+    expect(await db.select().from(adminActionsTable).execute()).toHaveLength(1);
+  });
+
+  it('should reject unknown users', async () => {
+    await expect(adjustCredits({ user_id: 99999, amount: 5, reason: 'Test' }, adminId)).rejects.toThrow(/not found/);
+    expect(await db.select().from(adminActionsTable).execute()).toHaveLength(0);
+  });
+});
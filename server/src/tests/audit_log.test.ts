@@ -0,0 +1,153 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import type { IncomingMessage } from 'http';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, auditLogTable } from '../db/schema';
+import {
+  sanitizeAuditInput,
+  auditEntity,
+  readClientIp,
+  parseTrustedProxies,
+  recordAuditEntry,
+  MAX_AUDIT_STRING_LENGTH
+} from '../lib/audit_log';
+
+const request = (headers: Record<string, string>, remoteAddress?: string) =>
+  ({ headers, socket: { remoteAddress } }) as unknown as IncomingMessage;
+
+describe('sanitizeAuditInput', () => {
+  it('should redact passwords, tokens, payment details and image data', () => {
+    expect(sanitizeAuditInput({ email: 'a@example.com', password: 'secret123' }))
+      .toEqual({ email: 'a@example.com', password: '[redacted]' });
+    expect(sanitizeAuditInput({ package_id: 1, payment_method: 'credit_card', payment_details: { card_number: '4242' } }))
+      .toEqual({ package_id: 1, payment_method: 'credit_card', payment_details: '[redacted]' });
+    expect(sanitizeAuditInput({ data: 'iVBORw0KGgo=', content_type: 'image/png', session_token: 'abc' }))
+      .toEqual({ data: '[redacted]', content_type: 'image/png', session_token: '[redacted]' });
+  });
+
+  it('should shorten long strings and keep the rest as JSON values', () => {
+    const sanitized = sanitizeAuditInput({
+      content: 'x'.repeat(MAX_AUDIT_STRING_LENGTH + 100),
+      image_ids: [1, 2],
+      publish_at: new Date('2026-01-02T03:04:05Z'),
+      note: undefined
+    }) as Record<string, unknown>;
+
+    expect(sanitized['content']).toEqual(`${'x'.repeat(MAX_AUDIT_STRING_LENGTH)}…`);
+    expect(sanitized['image_ids']).toEqual([1, 2]);
+    expect(sanitized['publish_at']).toEqual('2026-01-02T03:04:05.000Z');
+    expect(sanitized['note']).toBeNull();
+    expect(sanitizeAuditInput(undefined)).toBeNull();
+  });
+});
+
+describe('auditEntity', () => {
+  it('should read the entity from the input or, for creations, the result', () => {
+    expect(auditEntity('updatePost', { id: 7, price: 10 })).toEqual({ entity_type: 'post', entity_id: 7 });
+    expect(auditEntity('admin.adjustCredits', { user_id: 3, amount: 5 })).toEqual({ entity_type: 'user', entity_id: 3 });
+    expect(auditEntity('createPost', { title: 'Bike' }, { id: 12 })).toEqual({ entity_type: 'post', entity_id: 12 });
+    expect(auditEntity('sendMessage', { post_id: 4 }, { id: 1, conversation_id: 9 }))
+      .toEqual({ entity_type: 'conversation', entity_id: 9 });
+  });
+
+  it('should return null for failed creations and mutations without an entity', () => {
+    expect(auditEntity('createPost', { title: 'Bike' })).toBeNull();
+    expect(auditEntity('markNotificationsRead', undefined)).toBeNull();
+    expect(auditEntity('updatePost', { id: 'seven' })).toBeNull();
+  });
+});
+
+describe('readClientIp', () => {
+  it('should take X-Real-IP from the proxy on loopback', () => {
+    expect(readClientIp(request({ 'x-real-ip': ' 203.0.113.7 ' }, '127.0.0.1'))).toEqual('203.0.113.7');
+    expect(readClientIp(request({ 'x-real-ip': '203.0.113.7' }, '::ffff:127.0.0.1'))).toEqual('203.0.113.7');
+    expect(readClientIp(request({ 'x-real-ip': '203.0.113.7' }, '::1'))).toEqual('203.0.113.7');
+  });
+
+  it('should ignore X-Real-IP from anyone else', () => {
+    expect(readClientIp(request({ 'x-real-ip': '203.0.113.7' }, '198.51.100.9'))).toEqual('198.51.100.9');
+    expect(readClientIp(request({ 'x-real-ip': '203.0.113.7' }, '::ffff:198.51.100.9'))).toEqual('198.51.100.9');
+  });
+
+  it('should trust only the configured proxies when given', () => {
+    const proxies = parseTrustedProxies(' 10.0.0.2, 10.0.0.3 ');
+    expect(proxies).toEqual(['10.0.0.2', '10.0.0.3']);
+    expect(readClientIp(request({ 'x-real-ip': '203.0.113.7' }, '10.0.0.3'), proxies)).toEqual('203.0.113.7');
+    expect(readClientIp(request({ 'x-real-ip': '203.0.113.7' }, '127.0.0.1'), proxies)).toEqual('127.0.0.1');
+    expect(parseTrustedProxies('')).toEqual(['127.0.0.1', '::1']);
+  });
+
+  it('should fall back to the socket address', () => {
+    expect(readClientIp(request({}, '127.0.0.1'))).toEqual('127.0.0.1');
+    expect(readClientIp(request({}))).toBeNull();
+  });
+});
+
+describe('recordAuditEntry', () => {
+  let userId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const [user] = await db.insert(usersTable)
+      .values({ email: 'owner@example.com', password_hash: 'hash', phone_number: '+1111111111' })
+      .returning()
+      .execute();
+    userId = user.id;
+  });
+  afterEach(resetDB);
+
+  it('should store a sanitized successful call with its entity', async () => {
+    const recorded = await recordAuditEntry({
+      actorId: userId,
+      procedure: 'purchaseCredits',
+      input: { package_id: 2, payment_method: 'credit_card', payment_details: { card_number: '4242424242424242' } },
+      status: 'success',
+      result: { id: 30 },
+      ip: '203.0.113.7'
+    });
+
+    const [entry] = await db.select().from(auditLogTable).execute();
+    expect(entry.id).toEqual(recorded!.id);
+    expect(entry.actor_id).toEqual(userId);
+    expect(entry.procedure).toEqual('purchaseCredits');
+    expect(entry.input).toEqual({ package_id: 2, payment_method: 'credit_card', payment_details: '[redacted]' });
+    expect(entry.entity_type).toEqual('credit_package');
+    expect(entry.entity_id).toEqual(2);
+    expect(entry.status).toEqual('success');
+    expect(entry.error_code).toBeNull();
+    expect(entry.ip).toEqual('203.0.113.7');
+    expect(entry.created_at).toBeInstanceOf(Date);
+  });
+
+  it('should store anonymous failed calls with their error code', async () => {
+    await recordAuditEntry({
+      actorId: null,
+      procedure: 'login',
+      input: { email: 'owner@example.com', password: 'wrong' },
+      status: 'error',
+      errorCode: 'UNAUTHORIZED',
+      ip: null
+    });
+
+    const [entry] = await db.select().from(auditLogTable).execute();
+    expect(entry.actor_id).toBeNull();
+    expect(entry.input).toEqual({ email: 'owner@example.com', password: '[redacted]' });
+    expect(entry.entity_type).toBeNull();
+    expect(entry.status).toEqual('error');
+    expect(entry.error_code).toEqual('UNAUTHORIZED');
+  });
+
+  it('should not throw when the write fails', async () => {
+    const recorded = await recordAuditEntry({
+      actorId: 99999, // No such user
+      procedure: 'logout',
+      input: undefined,
+      status: 'success',
+      ip: null
+    });
+
+    expect(recorded).toBeNull();
+    expect(await db.select().from(auditLogTable).execute()).toHaveLength(0);
+  });
+});
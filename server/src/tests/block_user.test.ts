@@ -0,0 +1,55 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, userBlocksTable } from '../db/schema';
+import { blockUser } from '../handlers/block_user';
+import { unblockUser } from '../handlers/unblock_user';
+import { isBlockedBetween } from '../lib/conversations';
+
+describe('blockUser', () => {
+  let userId: number;
+  let otherId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const users = await db.insert(usersTable)
+      .values([
+        { email: 'me@example.com', password_hash: 'hash', phone_number: '+1111111111' },
+        { email: 'pest@example.com', password_hash: 'hash', phone_number: '+2222222222' }
+      ])
+      .returning()
+      .execute();
+    userId = users[0].id;
+    otherId = users[1].id;
+  });
+  afterEach(resetDB);
+
+  it('should block in both directions and tolerate repeats', async () => {
+    await blockUser({ user_id: otherId }, userId);
+    await blockUser({ user_id: otherId }, userId);
+
+    expect(await db.select().from(userBlocksTable).execute()).toHaveLength(1);
+    expect(await isBlockedBetween(userId, otherId)).toBe(true);
+    expect(await isBlockedBetween(otherId, userId)).toBe(true);
+  });
+
+  it('should refuse blocking oneself', async () => {
+    await expect(blockUser({ user_id: userId }, userId)).rejects.toThrow(/yourself/);
+  });
+
+  it('should reject unknown users', async () => {
+    await expect(blockUser({ user_id: 99999 }, userId)).rejects.toThrow(/User with id 99999 not found/);
+    expect(await db.select().from(userBlocksTable).execute()).toHaveLength(0);
+  });
+
+  it('should lift only the current user\'s own block', async () => {
+    await blockUser({ user_id: otherId }, userId);
+
+    await unblockUser({ user_id: userId }, otherId);
+    expect(await isBlockedBetween(userId, otherId)).toBe(true);
+
+    await unblockUser({ user_id: otherId }, userId);
+    expect(await isBlockedBetween(userId, otherId)).toBe(false);
+  });
+});
@@ -0,0 +1,111 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, creditLedgerTable } from '../db/schema';
+import { createPost } from '../handlers/create_post';
+import { cancelScheduledPost } from '../handlers/cancel_scheduled_post';
+import { activateScheduledPosts } from '../handlers/activate_scheduled_posts';
+import { repost } from '../handlers/repost';
+import { eq } from 'drizzle-orm';
+
+const testUser = {
+  email: 'owner@example.com',
+  password_hash: 'hashed_password',
+  phone_number: '+1234567890',
+  credits: 100
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+
+describe('cancelScheduledPost', () => {
+  let userId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const userResult = await db.insert(usersTable)
+      .values(testUser)
+      .returning()
+      .execute();
+
+    userId = userResult[0].id;
+
+    // Use up the free first post so scheduling costs credits
+    await createPost({ title: 'Free Post', content: 'Free', price: 1 }, userId);
+  });
+  afterEach(resetDB);
+
+  const schedulePost = () => createPost({
+    title: 'Scheduled',
+    content: 'Goes live later',
+    price: 10,
+    duration: '3d',
+    publish_at: new Date(Date.now() + HOUR_MS)
+  }, userId);
+
+  const getCredits = async () => {
+    const [user] = await db.select().from(usersTable).where(eq(usersTable.id, userId)).execute();
+    return user.credits;
+  };
+
+  it('should archive the post and refund its fee', async () => {
+    const post = await schedulePost();
+    expect(await getCredits()).toEqual(88);
+
+    const result = await cancelScheduledPost({ id: post.id }, userId);
+
+    expect(result.status).toEqual('archived');
+    expect(result.publish_at).toBeNull();
+    expect(await getCredits()).toEqual(100);
+
+    const entries = await db.select()
+      .from(creditLedgerTable)
+      .where(eq(creditLedgerTable.post_id, post.id))
+      .execute();
+    expect(entries.map(e => [e.entry_type, e.amount])).toEqual([['post_fee', -12], ['refund', 12]]);
+  });
+
+  it('should clear the publication window so the post is not counted as published', async () => {
+    const post = await schedulePost();
+
+    const result = await cancelScheduledPost({ id: post.id }, userId);
+
+    expect(result.posted_at).toBeNull();
+    expect(result.expires_at).toBeNull();
+    await expect(repost({ id: post.id }, userId)).rejects.toThrow(/never published/i);
+  });
+
+  it('should give back the free first post when the cancelled post was it', async () => {
+    const [newcomer] = await db.insert(usersTable)
+      .values({ ...testUser, email: 'newcomer@example.com' })
+      .returning()
+      .execute();
+    const scheduled = await createPost({
+      title: 'Scheduled',
+      content: 'Goes live later',
+      price: 10,
+      publish_at: new Date(Date.now() + HOUR_MS)
+    }, newcomer.id);
+    await cancelScheduledPost({ id: scheduled.id }, newcomer.id);
+
+    await createPost({ title: 'First for real', content: 'Now', price: 10 }, newcomer.id);
+
+    const [user] = await db.select().from(usersTable).where(eq(usersTable.id, newcomer.id)).execute();
+    expect(user.credits).toEqual(100);
+  });
+
+  it('should not activate a cancelled post', async () => {
+    const post = await schedulePost();
+    await cancelScheduledPost({ id: post.id }, userId);
+
+    expect(await activateScheduledPosts(new Date(Date.now() + 2 * HOUR_MS))).toEqual([]);
+  });
+
+  it('should reject posts that already went live', async () => {
+    const post = await schedulePost();
+    await activateScheduledPosts(new Date(Date.now() + 2 * HOUR_MS));
+
+    await expect(cancelScheduledPost({ id: post.id }, userId)).rejects.toThrow(/not scheduled/i);
+    expect(await getCredits()).toEqual(88);
+  });
+});
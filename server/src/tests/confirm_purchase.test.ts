@@ -0,0 +1,84 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, creditPackagesTable, creditLedgerTable } from '../db/schema';
+import { purchaseCredits } from '../handlers/purchase_credits';
+import { confirmPurchase } from '../handlers/confirm_purchase';
+import { LocalPaymentGateway, TEST_CARDS, type PaymentGateway } from '../lib/payment_gateway';
+import { eq } from 'drizzle-orm';
+
+describe('confirmPurchase', () => {
+  let buyerId: number;
+  let otherId: number;
+  let gateway: LocalPaymentGateway;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const users = await db.insert(usersTable)
+      .values([
+        { email: 'buyer@example.com', password_hash: 'hash', phone_number: '+1111111111', credits: 10 },
+        { email: 'other@example.com', password_hash: 'hash', phone_number: '+2222222222' }
+      ])
+      .returning()
+      .execute();
+    [buyerId, otherId] = users.map(user => user.id);
+
+    await db.insert(creditPackagesTable)
+      .values({ id: 1, name: 'Popular', credits: 25, bonus_credits: 5, price: '4.50' })
+      .execute();
+    gateway = new LocalPaymentGateway();
+  });
+  afterEach(resetDB);
+
+  const buyWithAuthentication = () => purchaseCredits({
+    package_id: 1,
+    payment_method: 'credit_card',
+    payment_details: { card_number: TEST_CARDS.requiresAction }
+  }, buyerId, gateway);
+
+  const getCredits = async () => {
+    const [user] = await db.select().from(usersTable).where(eq(usersTable.id, buyerId)).execute();
+    return user.credits;
+  };
+
+  it('should leave the purchase waiting until the bank has confirmed it', async () => {
+    const purchase = await buyWithAuthentication();
+    // A bank that has not approved the payment yet, whatever the buyer says
+    const undecidedGateway: PaymentGateway = {
+      charge: (request) => gateway.charge(request),
+      lookup: (reference) => gateway.lookup(reference),
+      confirm: (reference) => gateway.lookup(reference),
+      release: (reference) => gateway.release(reference)
+    };
+
+    const result = await confirmPurchase({ purchase_id: purchase.id }, buyerId, undecidedGateway);
+
+    expect(result.status).toEqual('requires_action');
+    expect(await getCredits()).toEqual(10);
+  });
+
+  it('should add the credits once the payment went through, and only once', async () => {
+    const purchase = await buyWithAuthentication();
+
+    const result = await confirmPurchase({ purchase_id: purchase.id }, buyerId, gateway);
+    const again = await confirmPurchase({ purchase_id: purchase.id }, buyerId, gateway);
+
+    expect(result.status).toEqual('succeeded');
+    expect(result.failure_reason).toBeNull();
+    expect(typeof result.amount_paid).toBe('number');
+    expect(again.status).toEqual('succeeded');
+    expect(await getCredits()).toEqual(40);
+    const entries = await db.select().from(creditLedgerTable).where(eq(creditLedgerTable.purchase_id, purchase.id)).execute();
+    expect(entries).toHaveLength(1);
+    expect(entries[0].reason).toEqual('Purchased Popular package');
+    expect(await gateway.lookup(purchase.id)).toBeNull();
+  });
+
+  it('should reject missing purchases and purchases of other users', async () => {
+    const purchase = await buyWithAuthentication();
+
+    await expect(confirmPurchase({ purchase_id: 99999 }, buyerId, gateway)).rejects.toThrow(/not found/);
+    await expect(confirmPurchase({ purchase_id: purchase.id }, otherId, gateway)).rejects.toThrow(/do not own/);
+  });
+});
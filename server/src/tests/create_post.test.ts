@@ -1,8 +1,8 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { postsTable } from '../db/schema';
-import { type CreatePostInput } from '../schema';
+import { usersTable, postsTable, creditLedgerTable, categoriesTable, tagsTable } from '../db/schema';
+import { createPostInputSchema, type CreatePostInput } from '../schema';
 import { createPost } from '../handlers/create_post';
 import { eq } from 'drizzle-orm';
 
@@ -13,12 +13,32 @@ const testInput: CreatePostInput = {
   price: 29.99
 };
 
+// Owner of the test posts, with enough credits to pay fees
+const testUser = {
+  email: 'owner@example.com',
+  password_hash: 'hashed_password',
+  phone_number: '+1234567890',
+  credits: 100
+};
+
 describe('createPost', () => {
-  beforeEach(createDB);
+  let userId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    // Create the post owner
+    const userResult = await db.insert(usersTable)
+      .values(testUser)
+      .returning()
+      .execute();
+
+    userId = userResult[0].id;
+  });
   afterEach(resetDB);
 
   it('should create a post with correct fields', async () => {
-    const result = await createPost(testInput);
+    const result = await createPost(testInput, userId);
 
     // Basic field validation
     expect(result.title).toEqual('Test Post Title');
@@ -31,35 +51,48 @@ describe('createPost', () => {
 
   it('should set timestamps correctly', async () => {
     const beforeCreate = new Date();
-    const result = await createPost(testInput);
+    const result = await createPost(testInput, userId);
     const afterCreate = new Date();
 
     // Verify posted_at is set to current time
     expect(result.posted_at).toBeInstanceOf(Date);
-    expect(result.posted_at.getTime()).toBeGreaterThanOrEqual(beforeCreate.getTime());
-    expect(result.posted_at.getTime()).toBeLessThanOrEqual(afterCreate.getTime());
+    expect(result.posted_at!.getTime()).toBeGreaterThanOrEqual(beforeCreate.getTime());
+    expect(result.posted_at!.getTime()).toBeLessThanOrEqual(afterCreate.getTime());
 
     // Verify expires_at is 24 hours after posted_at
-    const expectedExpiresAt = new Date(result.posted_at.getTime() + 24 * 60 * 60 * 1000);
+    const expectedExpiresAt = new Date(result.posted_at!.getTime() + 24 * 60 * 60 * 1000);
     expect(result.expires_at).toBeInstanceOf(Date);
-    expect(result.expires_at.getTime()).toEqual(expectedExpiresAt.getTime());
+    expect(result.expires_at!.getTime()).toEqual(expectedExpiresAt.getTime());
 
     // Verify created_at and updated_at are set
     expect(result.created_at).toBeInstanceOf(Date);
     expect(result.updated_at).toBeInstanceOf(Date);
-    expect(result.created_at.getTime()).toEqual(result.posted_at.getTime());
-    expect(result.updated_at.getTime()).toEqual(result.posted_at.getTime());
+    expect(result.created_at.getTime()).toEqual(result.posted_at!.getTime());
+    expect(result.updated_at.getTime()).toEqual(result.posted_at!.getTime());
+  });
+
+  it('should assign the post to the creating user', async () => {
+    const result = await createPost(testInput, userId);
+
+    expect(result.user_id).toEqual(userId);
+
+    const savedPosts = await db.select()
+      .from(postsTable)
+      .where(eq(postsTable.id, result.id))
+      .execute();
+
+    expect(savedPosts[0].user_id).toEqual(userId);
   });
 
   it('should set is_active to true for new posts', async () => {
-    const result = await createPost(testInput);
+    const result = await createPost(testInput, userId);
     
     // New posts should be active since they just got posted
     expect(result.is_active).toBe(true);
   });
 
   it('should save post to database correctly', async () => {
-    const result = await createPost(testInput);
+    const result = await createPost(testInput, userId);
 
     // Query the database to verify the post was saved
     const savedPosts = await db.select()
@@ -89,7 +122,7 @@ describe('createPost', () => {
 
     for (const testCase of testCases) {
       const input = { ...testInput, price: testCase.price };
-      const result = await createPost(input);
+      const result = await createPost(input, userId);
       
       expect(result.price).toEqual(testCase.price);
       expect(typeof result.price).toBe('number');
@@ -108,8 +141,8 @@ describe('createPost', () => {
     const input1 = { ...testInput, title: 'First Post' };
     const input2 = { ...testInput, title: 'Second Post' };
     
-    const result1 = await createPost(input1);
-    const result2 = await createPost(input2);
+    const result1 = await createPost(input1, userId);
+    const result2 = await createPost(input2, userId);
     
     expect(result1.id).not.toEqual(result2.id);
     expect(result1.title).toEqual('First Post');
@@ -124,7 +157,7 @@ describe('createPost', () => {
     const longContent = 'A'.repeat(1000); // Long string
     const input = { ...testInput, content: longContent };
     
-    const result = await createPost(input);
+    const result = await createPost(input, userId);
     
     expect(result.content).toEqual(longContent);
     expect(result.content.length).toEqual(1000);
@@ -137,4 +170,167 @@ describe('createPost', () => {
     
     expect(savedPosts[0].content).toEqual(longContent);
   });
-});
\ No newline at end of file
+
+  it('should make the first post free and charge later posts', async () => {
+    await createPost({ ...testInput, title: 'First Post' }, userId);
+
+    let users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, userId))
+      .execute();
+    expect(users[0].credits).toEqual(100);
+
+    const second = await createPost({ ...testInput, title: 'Second Post' }, userId);
+
+    users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, userId))
+      .execute();
+    expect(users[0].credits).toEqual(95);
+
+    // Only the paid post leaves a ledger entry
+    const entries = await db.select()
+      .from(creditLedgerTable)
+      .where(eq(creditLedgerTable.user_id, userId))
+      .execute();
+    expect(entries).toHaveLength(1);
+    expect(entries[0].amount).toEqual(-5);
+    expect(entries[0].entry_type).toEqual('post_fee');
+    expect(entries[0].post_id).toEqual(second.id);
+  });
+
+  it('should reject posts without enough credits and write nothing', async () => {
+    await createPost({ ...testInput, title: 'Free Post' }, userId);
+    await db.update(usersTable)
+      .set({ credits: 4 })
+      .where(eq(usersTable.id, userId))
+      .execute();
+
+    await expect(createPost({ ...testInput, title: 'Unpaid Post' }, userId)).rejects.toThrow(/insufficient credits/i);
+
+    const allPosts = await db.select().from(postsTable).execute();
+    expect(allPosts).toHaveLength(1);
+
+    const entries = await db.select().from(creditLedgerTable).execute();
+    expect(entries).toHaveLength(0);
+
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, userId))
+      .execute();
+    expect(users[0].credits).toEqual(4);
+  });
+
+  it('should list the post for the chosen duration and charge its fee', async () => {
+    await createPost({ ...testInput, title: 'Free Post' }, userId);
+
+    const result = await createPost({ ...testInput, duration: '7d' }, userId);
+
+    expect(result.duration).toEqual('7d');
+    const expectedExpiresAt = new Date(result.posted_at!.getTime() + 7 * 24 * 60 * 60 * 1000);
+    expect(result.expires_at!.getTime()).toEqual(expectedExpiresAt.getTime());
+
+    const entries = await db.select()
+      .from(creditLedgerTable)
+      .where(eq(creditLedgerTable.post_id, result.id))
+      .execute();
+    expect(entries).toHaveLength(1);
+    expect(entries[0].amount).toEqual(-25);
+    expect(entries[0].reason).toContain('7 days');
+  });
+
+  it('should default to a 24 hour listing', async () => {
+    const result = await createPost(testInput, userId);
+
+    expect(result.duration).toEqual('24h');
+  });
+
+  it('should schedule a post with a future publish time and charge up front', async () => {
+    await createPost({ ...testInput, title: 'Free Post' }, userId);
+    const publishAt = new Date(Date.now() + 2 * 60 * 60 * 1000);
+
+    const result = await createPost({ ...testInput, duration: '6h', publish_at: publishAt }, userId);
+
+    expect(result.status).toEqual('scheduled');
+    expect(result.is_active).toBe(false);
+    expect(result.publish_at?.getTime()).toEqual(publishAt.getTime());
+    expect(result.posted_at!.getTime()).toEqual(publishAt.getTime());
+    expect(result.expires_at!.getTime()).toEqual(publishAt.getTime() + 6 * 60 * 60 * 1000);
+
+    const entries = await db.select()
+      .from(creditLedgerTable)
+      .where(eq(creditLedgerTable.post_id, result.id))
+      .execute();
+    expect(entries).toHaveLength(1);
+    expect(entries[0].amount).toEqual(-3);
+  });
+
+  it('should reject a publish time that is not in the future', async () => {
+    const publishAt = new Date(Date.now() - 60 * 1000);
+
+    await expect(createPost({ ...testInput, publish_at: publishAt }, userId))
+      .rejects.toThrow(/must be in the future/i);
+
+    const posts = await db.select().from(postsTable).execute();
+    expect(posts).toHaveLength(0);
+  });
+
+  it('should save a draft without a listing window or fee', async () => {
+    await createPost({ ...testInput, title: 'Free Post' }, userId);
+
+    const result = await createPost({ ...testInput, duration: '3d', draft: true }, userId);
+
+    expect(result.status).toEqual('draft');
+    expect(result.duration).toEqual('3d');
+    expect(result.posted_at).toBeNull();
+    expect(result.expires_at).toBeNull();
+    expect(result.is_active).toBe(false);
+
+    const entries = await db.select()
+      .from(creditLedgerTable)
+      .where(eq(creditLedgerTable.post_id, result.id))
+      .execute();
+    expect(entries).toHaveLength(0);
+  });
+
+  it('should reject a draft with a publish time', async () => {
+    const publishAt = new Date(Date.now() + 60 * 60 * 1000);
+
+    await expect(createPost({ ...testInput, draft: true, publish_at: publishAt }, userId))
+      .rejects.toThrow(/cannot have a publish time/i);
+  });
+
+  it('should file the post under categories and tags', async () => {
+    const [vehicles] = await db.insert(categoriesTable)
+      .values({ name: 'Vehicles', slug: 'vehicles' })
+      .returning()
+      .execute();
+
+    const input = createPostInputSchema.parse({ ...testInput, category_ids: [vehicles.id], tags: ['Red ', 'red', 'Vintage'] });
+    const result = await createPost(input, userId);
+
+    expect(result.categories).toEqual([{ id: vehicles.id, name: 'Vehicles', slug: 'vehicles' }]);
+    // Normalized and de-duplicated by the input schema
+    expect(result.tags).toEqual(['red', 'vintage']);
+
+    // Tags are shared; a second post reuses the existing rows
+    await createPost(createPostInputSchema.parse({ ...testInput, tags: ['red'] }), userId);
+    const tags = await db.select().from(tagsTable).execute();
+    expect(tags.map(tag => tag.name).sort()).toEqual(['red', 'vintage']);
+  });
+
+  it('should reject unknown categories without creating the post', async () => {
+    await expect(createPost({ ...testInput, category_ids: [999] }, userId))
+      .rejects.toThrow(/unknown category/i);
+
+    const posts = await db.select().from(postsTable).execute();
+    expect(posts).toHaveLength(0);
+  });
+
+  it('should validate tags and the number of labels', () => {
+    expect(createPostInputSchema.safeParse({ ...testInput, tags: ['<script>'] }).success).toBe(false);
+    expect(createPostInputSchema.safeParse({ ...testInput, tags: ['   '] }).success).toBe(false);
+    expect(createPostInputSchema.safeParse({ ...testInput, tags: Array.from({ length: 11 }, (_, i) => `tag${i}`) }).success).toBe(false);
+    expect(createPostInputSchema.safeParse({ ...testInput, category_ids: [1, 2, 3, 4] }).success).toBe(false);
+  });
+});
@@ -1,10 +1,21 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { postsTable } from '../db/schema';
+import { usersTable, postsTable } from '../db/schema';
 import { type DeletePostInput } from '../schema';
 import { deletePost } from '../handlers/delete_post';
-import { eq } from 'drizzle-orm';
+import { createPost } from '../handlers/create_post';
+import { getUserPosts } from '../handlers/get_user_posts';
+import { getPublicPosts } from '../handlers/get_public_posts';
+import { getPost } from '../handlers/get_post';
+import { eq, isNull } from 'drizzle-orm';
+
+// Owner of the test posts
+const testUser = {
+  email: 'owner@example.com',
+  password_hash: 'hashed_password',
+  phone_number: '+1234567890'
+};
 
 // Test input for deletion
 const testDeleteInput: DeletePostInput = {
@@ -12,12 +23,25 @@ const testDeleteInput: DeletePostInput = {
 };
 
 describe('deletePost', () => {
-  beforeEach(createDB);
+  let userId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    // Create the post owner
+    const userResult = await db.insert(usersTable)
+      .values(testUser)
+      .returning()
+      .execute();
+
+    userId = userResult[0].id;
+  });
   afterEach(resetDB);
 
   it('should delete an existing post successfully', async () => {
     // First create a post to delete
     const testPost = {
+      user_id: userId,
       title: 'Test Post',
       content: 'Content to be deleted',
       price: '29.99',
@@ -33,32 +57,34 @@ describe('deletePost', () => {
     const postId = insertedPost[0].id;
 
     // Delete the post
-    const result = await deletePost({ id: postId });
+    const result = await deletePost({ id: postId }, userId);
 
     // Verify the response
     expect(result.success).toBe(true);
     expect(result.id).toBe(postId);
 
-    // Verify the post was actually deleted from the database
+    // Verify the post was moved to the trash, not removed from the database
     const deletedPost = await db.select()
       .from(postsTable)
       .where(eq(postsTable.id, postId))
       .execute();
 
-    expect(deletedPost).toHaveLength(0);
+    expect(deletedPost).toHaveLength(1);
+    expect(deletedPost[0].deleted_at).toBeInstanceOf(Date);
   });
 
   it('should throw error when trying to delete non-existent post', async () => {
     const nonExistentId = 9999;
 
     // Attempt to delete non-existent post
-    await expect(deletePost({ id: nonExistentId }))
+    await expect(deletePost({ id: nonExistentId }, userId))
       .rejects.toThrow(/Post with id 9999 not found/i);
   });
 
   it('should verify post exists before deletion', async () => {
     // Create two posts
     const post1 = {
+      user_id: userId,
       title: 'Post 1',
       content: 'First post content',
       price: '19.99',
@@ -67,6 +93,7 @@ describe('deletePost', () => {
     };
 
     const post2 = {
+      user_id: userId,
       title: 'Post 2',
       content: 'Second post content',
       price: '39.99',
@@ -83,14 +110,15 @@ describe('deletePost', () => {
     const post2Id = insertedPost2[0].id;
 
     // Delete only post1
-    const result = await deletePost({ id: post1Id });
+    const result = await deletePost({ id: post1Id }, userId);
 
     expect(result.success).toBe(true);
     expect(result.id).toBe(post1Id);
 
-    // Verify post1 is deleted but post2 still exists
+    // Verify post1 is in the trash but post2 is untouched
     const remainingPosts = await db.select()
       .from(postsTable)
+      .where(isNull(postsTable.deleted_at))
       .execute();
 
     expect(remainingPosts).toHaveLength(1);
@@ -101,6 +129,7 @@ describe('deletePost', () => {
   it('should handle deletion with different post data types', async () => {
     // Create a post with various data types
     const complexPost = {
+      user_id: userId,
       title: 'Complex Post Title with Special Characters: !@#$%',
       content: 'Multi-line content\nwith special characters: áéíóú\nand numbers: 12345',
       price: '123.45',
@@ -116,7 +145,7 @@ describe('deletePost', () => {
     const postId = insertedPost[0].id;
 
     // Delete the complex post
-    const result = await deletePost({ id: postId });
+    const result = await deletePost({ id: postId }, userId);
 
     expect(result.success).toBe(true);
     expect(result.id).toBe(postId);
@@ -127,12 +156,13 @@ describe('deletePost', () => {
       .where(eq(postsTable.id, postId))
       .execute();
 
-    expect(deletedPost).toHaveLength(0);
+    expect(deletedPost[0].deleted_at).toBeInstanceOf(Date);
   });
 
   it('should handle concurrent deletion attempts gracefully', async () => {
     // Create a post
     const testPost = {
+      user_id: userId,
       title: 'Concurrent Delete Test',
       content: 'Testing concurrent deletion',
       price: '15.99',
@@ -148,11 +178,51 @@ describe('deletePost', () => {
     const postId = insertedPost[0].id;
 
     // First deletion should succeed
-    const result1 = await deletePost({ id: postId });
+    const result1 = await deletePost({ id: postId }, userId);
     expect(result1.success).toBe(true);
 
-    // Second deletion should fail since post no longer exists
-    await expect(deletePost({ id: postId }))
+    // Second deletion should fail since the post is already in the trash
+    await expect(deletePost({ id: postId }, userId))
       .rejects.toThrow(/Post with id \d+ not found/i);
   });
-});
\ No newline at end of file
+
+  it('should reject deletion by a user who does not own the post', async () => {
+    const insertedPost = await db.insert(postsTable)
+      .values({
+        user_id: userId,
+        title: 'Owned Post',
+        content: 'Only the owner may delete this',
+        price: '10.00',
+        posted_at: new Date(),
+        expires_at: new Date(Date.now() + 24 * 60 * 60 * 1000),
+      })
+      .returning()
+      .execute();
+
+    const otherUser = await db.insert(usersTable)
+      .values({ ...testUser, email: 'other@example.com' })
+      .returning()
+      .execute();
+
+    await expect(deletePost({ id: insertedPost[0].id }, otherUser[0].id))
+      .rejects.toThrow(/do not own post/i);
+
+    // Post must still exist
+    const posts = await db.select()
+      .from(postsTable)
+      .where(eq(postsTable.id, insertedPost[0].id))
+      .execute();
+
+    expect(posts).toHaveLength(1);
+  });
+
+  it('should hide deleted posts from the post lists', async () => {
+    const post = await createPost({ title: 'Gone', content: 'Deleted by accident', price: 5 }, userId);
+
+    await deletePost({ id: post.id }, userId);
+
+    expect((await getUserPosts(userId)).items).toHaveLength(0);
+    expect((await getPublicPosts()).items).toHaveLength(0);
+    expect(await getPost({ id: post.id })).toBeNull();
+  });
+});
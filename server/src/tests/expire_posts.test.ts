@@ -0,0 +1,161 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, postsTable } from '../db/schema';
+import { expirePosts } from '../handlers/expire_posts';
+import { getPost } from '../handlers/get_post';
+import { postEvents, type PostLifecycleEvent } from '../lib/post_events';
+import { startScheduler } from '../lib/scheduler';
+import { eq } from 'drizzle-orm';
+
+const testUser = {
+  email: 'owner@example.com',
+  password_hash: 'hashed_password',
+  phone_number: '+1234567890'
+};
+
+describe('expirePosts', () => {
+  let userId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const userResult = await db.insert(usersTable)
+      .values(testUser)
+      .returning()
+      .execute();
+
+    userId = userResult[0].id;
+  });
+  afterEach(resetDB);
+
+  const insertPost = async (title: string, expiresAt: Date, status: 'active' | 'archived' = 'active') => {
+    const [post] = await db.insert(postsTable)
+      .values({
+        user_id: userId,
+        title,
+        content: `Content of ${title}`,
+        price: '10.00',
+        status,
+        expires_at: expiresAt
+      })
+      .returning()
+      .execute();
+    return post;
+  };
+
+  it('should move active posts past their expiry to expired', async () => {
+    const now = new Date();
+    const stale = await insertPost('Stale', new Date(now.getTime() - 60 * 1000));
+    const fresh = await insertPost('Fresh', new Date(now.getTime() + 60 * 60 * 1000));
+
+    const expiredIds = await expirePosts(now);
+
+    expect(expiredIds).toEqual([stale.id]);
+
+    const posts = await db.select().from(postsTable).execute();
+    expect(posts.find(p => p.id === stale.id)?.status).toEqual('expired');
+    expect(posts.find(p => p.id === fresh.id)?.status).toEqual('active');
+  });
+
+  it('should treat a post expiring exactly now as expired', async () => {
+    const now = new Date();
+    const post = await insertPost('Boundary', now);
+
+    expect(await expirePosts(now)).toEqual([post.id]);
+  });
+
+  it('should leave posts in other states alone', async () => {
+    const now = new Date();
+    await insertPost('Archived', new Date(now.getTime() - 60 * 1000), 'archived');
+
+    expect(await expirePosts(now)).toEqual([]);
+
+    const posts = await db.select().from(postsTable).execute();
+    expect(posts[0].status).toEqual('archived');
+  });
+
+  it('should leave active posts in the trash alone', async () => {
+    const now = new Date();
+    const post = await insertPost('Trashed', new Date(now.getTime() - 60 * 1000));
+    await db.update(postsTable).set({ deleted_at: now }).where(eq(postsTable.id, post.id)).execute();
+
+    const events: PostLifecycleEvent[] = [];
+    const unsubscribe = postEvents.on('expired', event => {
+      events.push(event);
+    });
+
+    try {
+      expect(await expirePosts(now)).toEqual([]);
+    } finally {
+      unsubscribe();
+    }
+
+    expect(events).toEqual([]);
+    const [row] = await db.select().from(postsTable).where(eq(postsTable.id, post.id)).execute();
+    expect(row.status).toEqual('active');
+  });
+
+  it('should emit an expired event for each expired post', async () => {
+    const now = new Date();
+    const post = await insertPost('Stale', new Date(now.getTime() - 60 * 1000));
+
+    const events: PostLifecycleEvent[] = [];
+    const unsubscribe = postEvents.on('expired', event => {
+      events.push(event);
+    });
+
+    try {
+      await expirePosts(now);
+    } finally {
+      unsubscribe();
+    }
+
+    expect(events).toEqual([{ post_id: post.id, user_id: userId, status: 'expired', at: now }]);
+  });
+
+  it('should agree with is_active on a post the job has not reached yet', async () => {
+    const post = await insertPost('Stale', new Date(Date.now() - 60 * 1000));
+
+    // Still "active" in the table, but past its expiry
+    const result = await getPost({ id: post.id });
+    expect(result!.status).toEqual('active');
+    expect(result!.is_active).toBe(false);
+
+    await expirePosts();
+
+    const [row] = await db.select().from(postsTable).where(eq(postsTable.id, post.id)).execute();
+    expect(row.status).toEqual('expired');
+  });
+
+  it('should run scheduled jobs until stopped', async () => {
+    let runs = 0;
+    const stop = startScheduler([{ name: 'count', run: async () => { runs++; } }], 10);
+
+    await new Promise(resolve => setTimeout(resolve, 35));
+    stop();
+    const runsAtStop = runs;
+    await new Promise(resolve => setTimeout(resolve, 25));
+
+    expect(runsAtStop).toBeGreaterThanOrEqual(2);
+    expect(runs).toEqual(runsAtStop);
+  });
+
+  it('should run the jobs of a tick one after another', async () => {
+    const order: string[] = [];
+    const job = (name: string, ms: number) => ({
+      name,
+      run: async () => {
+        order.push(`${name} start`);
+        await new Promise(resolve => setTimeout(resolve, ms));
+        order.push(`${name} end`);
+      }
+    });
+    const stop = startScheduler([job('slow', 20), job('fast', 0)], 60 * 60 * 1000);
+
+    await new Promise(resolve => setTimeout(resolve, 50));
+    stop();
+
+    expect(order).toEqual(['slow start', 'slow end', 'fast start', 'fast end']);
+  });
+});
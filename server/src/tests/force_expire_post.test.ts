@@ -0,0 +1,76 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, postsTable, adminActionsTable, notificationsTable } from '../db/schema';
+import { forceExpirePost } from '../handlers/force_expire_post';
+import { postEvents, type PostLifecycleEvent } from '../lib/post_events';
+
+describe('forceExpirePost', () => {
+  let adminId: number;
+  let ownerId: number;
+  let postId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const users = await db.insert(usersTable)
+      .values([
+        { email: 'admin@example.com', password_hash: 'hash', phone_number: '+1111111111', role: 'admin' },
+        { email: 'owner@example.com', password_hash: 'hash', phone_number: '+2222222222' }
+      ])
+      .returning()
+      .execute();
+    [adminId, ownerId] = users.map(user => user.id);
+
+    const now = new Date();
+    const [post] = await db.insert(postsTable)
+      .values({
+        user_id: ownerId,
+        title: 'Concert tickets',
+        content: 'Two seats',
+        price: '80.00',
+        posted_at: now,
+        expires_at: new Date(now.getTime() + 24 * 60 * 60 * 1000)
+      })
+      .returning()
+      .execute();
+    postId = post.id;
+  });
+  afterEach(resetDB);
+
+  it('should expire the post now, log it and tell the owner', async () => {
+    const events: PostLifecycleEvent[] = [];
+    const unsubscribe = postEvents.on('expired', event => { events.push(event); });
+    const now = new Date();
+
+    try {
+      const post = await forceExpirePost({ post_id: postId, reason: 'Resale not allowed' }, adminId, now);
+
+      expect(post.status).toEqual('expired');
+      expect(post.expires_at).toEqual(now);
+      expect(post.is_active).toBe(false);
+      expect(events).toEqual([{ post_id: postId, user_id: ownerId, status: 'expired', at: now }]);
+    } finally {
+      unsubscribe();
+    }
+
+    const [action] = await db.select().from(adminActionsTable).execute();
+    expect(action.action).toEqual('expire_post');
+    expect(action.admin_id).toEqual(adminId);
+    expect(action.post_id).toEqual(postId);
+    expect(action.target_user_id).toEqual(ownerId);
+    expect(action.details).toMatch(/Resale not allowed/);
+
+    const [notification] = await db.select().from(notificationsTable).execute();
+    expect(notification.user_id).toEqual(ownerId);
+    expect(notification.message).toMatch(/expired by an administrator/);
+  });
+
+  it('should only expire active posts', async () => {
+    await forceExpirePost({ post_id: postId, reason: 'Spam' }, adminId);
+
+    await expect(forceExpirePost({ post_id: postId, reason: 'Spam' }, adminId)).rejects.toThrow(/Only active posts/);
+    await expect(forceExpirePost({ post_id: 99999, reason: 'Spam' }, adminId)).rejects.toThrow(/not found/);
+    expect(await db.select().from(adminActionsTable).execute()).toHaveLength(1);
+  });
+});
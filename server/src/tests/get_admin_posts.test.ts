@@ -0,0 +1,61 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, postsTable } from '../db/schema';
+import { getAdminPosts } from '../handlers/get_admin_posts';
+
+describe('getAdminPosts', () => {
+  let postIds: number[];
+
+  beforeEach(async () => {
+    await createDB();
+
+    const users = await db.insert(usersTable)
+      .values([
+        { email: 'anna@example.com', password_hash: 'hash', phone_number: '+1111111111' },
+        { email: 'ben@example.com', password_hash: 'hash', phone_number: '+2222222222' }
+      ])
+      .returning()
+      .execute();
+
+    const now = Date.now();
+    const posts = await db.insert(postsTable)
+      .values([
+        { user_id: users[0].id, title: 'Red bike', content: 'Barely used', price: '100.00', expires_at: new Date(now + 60000), created_at: new Date(now - 3000) },
+        { user_id: users[1].id, title: 'Lamp', content: 'Red shade', price: '15.50', status: 'expired', created_at: new Date(now - 2000) },
+        { user_id: users[1].id, title: 'Desk', content: 'Oak', price: '80.00', status: 'draft', deleted_at: new Date(), created_at: new Date(now - 1000) }
+      ])
+      .returning()
+      .execute();
+    postIds = posts.map(post => post.id);
+  });
+  afterEach(resetDB);
+
+  it("should list everyone's posts newest first, trash included, with the owner's email", async () => {
+    const page = await getAdminPosts();
+
+    expect(page.total).toEqual(3);
+    expect(page.items.map(post => post.id)).toEqual([postIds[2], postIds[1], postIds[0]]);
+    expect(page.items[1].owner_email).toEqual('ben@example.com');
+    expect(page.items[1].price).toEqual(15.5);
+    expect(page.items[2].is_active).toBe(true);
+    expect(page.items[0].deleted_at).toBeInstanceOf(Date);
+  });
+
+  it('should search title, content and owner email', async () => {
+    const red = await getAdminPosts({ search: 'red', limit: 20, offset: 0 });
+    expect(red.items.map(post => post.id)).toEqual([postIds[1], postIds[0]]);
+
+    const ben = await getAdminPosts({ search: 'ben@', limit: 20, offset: 0 });
+    expect(ben.total).toEqual(2);
+  });
+
+  it('should filter by status and page', async () => {
+    const expired = await getAdminPosts({ status: 'expired', limit: 20, offset: 0 });
+    expect(expired.items.map(post => post.id)).toEqual([postIds[1]]);
+
+    const page = await getAdminPosts({ limit: 1, offset: 2 });
+    expect(page.total).toEqual(3);
+    expect(page.items.map(post => post.id)).toEqual([postIds[0]]);
+  });
+});
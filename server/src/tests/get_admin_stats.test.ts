@@ -0,0 +1,73 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, postsTable, creditPurchasesTable, postReportsTable } from '../db/schema';
+import { getAdminStats, SIGNUP_STATS_DAYS } from '../handlers/get_admin_stats';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('getAdminStats', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should return zeros and an empty signup series for an empty site', async () => {
+    const now = new Date('2024-06-15T12:00:00Z');
+    const stats = await getAdminStats(now);
+
+    expect(stats.total_revenue).toEqual(0);
+    expect(stats.revenue_last_30_days).toEqual(0);
+    expect(stats.active_posts).toEqual(0);
+    expect(stats.open_reports).toEqual(0);
+    expect(stats.total_users).toEqual(0);
+    expect(stats.signups_by_day).toHaveLength(SIGNUP_STATS_DAYS);
+    expect(stats.signups_by_day[0].date).toEqual('2024-06-02');
+    expect(stats.signups_by_day[SIGNUP_STATS_DAYS - 1]).toEqual({ date: '2024-06-15', count: 0 });
+  });
+
+  it('should sum succeeded purchases and count public posts, open reports and signups', async () => {
+    const now = new Date();
+    const users = await db.insert(usersTable)
+      .values([
+        { email: 'old@example.com', password_hash: 'hash', phone_number: '+1111111111', created_at: new Date(now.getTime() - 60 * DAY_MS) },
+        { email: 'new@example.com', password_hash: 'hash', phone_number: '+2222222222', created_at: now },
+        { email: 'newer@example.com', password_hash: 'hash', phone_number: '+3333333333', created_at: now }
+      ])
+      .returning()
+      .execute();
+
+    await db.insert(creditPurchasesTable)
+      .values([
+        { user_id: users[0].id, credits_purchased: 25, amount_paid: '20.00', payment_method: 'credit_card', status: 'succeeded', created_at: new Date(now.getTime() - 45 * DAY_MS) },
+        { user_id: users[1].id, credits_purchased: 10, amount_paid: '9.99', payment_method: 'paypal', status: 'succeeded', created_at: now },
+        { user_id: users[1].id, credits_purchased: 10, amount_paid: '9.99', payment_method: 'paypal', status: 'failed', created_at: now }
+      ])
+      .execute();
+
+    const expiresAt = new Date(now.getTime() + DAY_MS);
+    const posts = await db.insert(postsTable)
+      .values([
+        { user_id: users[0].id, title: 'Listed', content: 'Content', price: '5.00', expires_at: expiresAt },
+        { user_id: users[0].id, title: 'Hidden', content: 'Content', price: '5.00', expires_at: expiresAt, hidden_at: now },
+        { user_id: users[0].id, title: 'Expired', content: 'Content', price: '5.00', status: 'expired', expires_at: now }
+      ])
+      .returning()
+      .execute();
+
+    await db.insert(postReportsTable)
+      .values([
+        { post_id: posts[1].id, reporter_id: users[1].id, reason: 'spam' },
+        { post_id: posts[1].id, reporter_id: users[2].id, reason: 'spam', status: 'dismissed' }
+      ])
+      .execute();
+
+    const stats = await getAdminStats(now);
+
+    expect(stats.total_revenue).toBeCloseTo(29.99);
+    expect(stats.revenue_last_30_days).toBeCloseTo(9.99);
+    expect(stats.active_posts).toEqual(1);
+    expect(stats.open_reports).toEqual(1);
+    expect(stats.total_users).toEqual(3);
+    expect(stats.signups_by_day[SIGNUP_STATS_DAYS - 1]).toEqual({ date: now.toISOString().slice(0, 10), count: 2 });
+    expect(stats.signups_by_day.reduce((sum, day) => sum + day.count, 0)).toEqual(2);
+  });
+});
@@ -0,0 +1,78 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, auditLogTable } from '../db/schema';
+import { getAuditLog } from '../handlers/get_audit_log';
+import { auditLogListInputSchema, type AuditLogListInput } from '../schema';
+
+describe('getAuditLog', () => {
+  let aliceId: number;
+  let bobId: number;
+  const now = Date.now();
+  const hoursAgo = (hours: number) => new Date(now - hours * 60 * 60 * 1000);
+
+  beforeEach(async () => {
+    await createDB();
+
+    const users = await db.insert(usersTable)
+      .values([
+        { email: 'alice@example.com', password_hash: 'hash', phone_number: '+1111111111' },
+        { email: 'bob@example.com', password_hash: 'hash', phone_number: '+2222222222' }
+      ])
+      .returning()
+      .execute();
+    [aliceId, bobId] = users.map(user => user.id);
+
+    await db.insert(auditLogTable)
+      .values([
+        { actor_id: aliceId, procedure: 'updatePost', input: { id: 5, price: 20 }, entity_type: 'post', entity_id: 5, status: 'success', ip: '203.0.113.1', created_at: hoursAgo(30) },
+        { actor_id: bobId, procedure: 'updatePost', input: { id: 5, price: 1 }, entity_type: 'post', entity_id: 5, status: 'error', error_code: 'FORBIDDEN', created_at: hoursAgo(20) },
+        { actor_id: bobId, procedure: 'admin.adjustCredits', input: { user_id: aliceId, amount: 5 }, entity_type: 'user', entity_id: aliceId, status: 'success', created_at: hoursAgo(10) },
+        { actor_id: null, procedure: 'login', input: { email: 'x@example.com', password: '[redacted]' }, status: 'error', error_code: 'UNAUTHORIZED', created_at: hoursAgo(1) }
+      ])
+      .execute();
+  });
+  afterEach(resetDB);
+
+  const search = (input: Partial<AuditLogListInput> = {}) => getAuditLog(auditLogListInputSchema.parse(input));
+
+  it('should page through everything, newest first, with actor emails', async () => {
+    const page = await search({ limit: 3 });
+
+    expect(page.total).toEqual(4);
+    expect(page.items.map(entry => entry.procedure)).toEqual(['login', 'admin.adjustCredits', 'updatePost']);
+    expect(page.items[0].actor_email).toBeNull();
+    expect(page.items[1].actor_email).toEqual('bob@example.com');
+    expect(page.items[2].input).toEqual({ id: 5, price: 1 });
+
+    const next = await search({ limit: 3, offset: 3 });
+    expect(next.items.map(entry => entry.ip)).toEqual(['203.0.113.1']);
+  });
+
+  it('should filter by actor id or actor email', async () => {
+    const byId = await search({ actor_id: aliceId });
+    expect(byId.items.map(entry => entry.actor_id)).toEqual([aliceId]);
+
+    const byEmail = await search({ search: 'BOB@' });
+    expect(byEmail.total).toEqual(2);
+    expect(byEmail.items.every(entry => entry.actor_id === bobId)).toBe(true);
+  });
+
+  it('should filter by entity, procedure and status', async () => {
+    const postHistory = await search({ entity_type: 'post', entity_id: 5 });
+    expect(postHistory.items.map(entry => entry.actor_id)).toEqual([bobId, aliceId]);
+
+    const aboutAlice = await search({ entity_type: 'user', entity_id: aliceId });
+    expect(aboutAlice.items.map(entry => entry.procedure)).toEqual(['admin.adjustCredits']);
+
+    const failedUpdates = await search({ procedure: 'updatePost', status: 'error' });
+    expect(failedUpdates.items.map(entry => entry.error_code)).toEqual(['FORBIDDEN']);
+  });
+
+  it('should filter by time range, inclusive start and exclusive end', async () => {
+    const page = await search({ created_from: hoursAgo(20), created_to: hoursAgo(1) });
+
+    expect(page.total).toEqual(2);
+    expect(page.items.map(entry => entry.procedure)).toEqual(['admin.adjustCredits', 'updatePost']);
+  });
+});
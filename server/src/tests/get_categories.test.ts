@@ -0,0 +1,108 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, postsTable, categoriesTable, postCategoriesTable } from '../db/schema';
+import { getCategories } from '../handlers/get_categories';
+import { DEFAULT_CATEGORIES, seedCategories } from '../lib/categories';
+
+describe('getCategories', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should seed the default tree once', async () => {
+    await seedCategories();
+    await seedCategories();
+
+    const categories = await getCategories();
+    const topLevel = categories.filter(category => category.parent_id === null);
+
+    expect(topLevel.map(category => category.slug)).toEqual(DEFAULT_CATEGORIES.map(category => category.slug));
+    const vehicles = categories.find(category => category.slug === 'vehicles')!;
+    const cars = categories.find(category => category.slug === 'cars')!;
+    expect(cars.parent_id).toEqual(vehicles.id);
+  });
+
+  it('should count active posts in each category and its ancestors', async () => {
+    const [vehicles] = await db.insert(categoriesTable)
+      .values({ name: 'Vehicles', slug: 'vehicles' })
+      .returning()
+      .execute();
+    const [cars, bikes] = await db.insert(categoriesTable)
+      .values([
+        { name: 'Cars', slug: 'cars', parent_id: vehicles.id },
+        { name: 'Bicycles', slug: 'bicycles', parent_id: vehicles.id }
+      ])
+      .returning()
+      .execute();
+
+    const [user] = await db.insert(usersTable)
+      .values({ email: 'seller@example.com', password_hash: 'hash', phone_number: '+1234567890' })
+      .returning()
+      .execute();
+    const tomorrow = new Date(Date.now() + 24 * 60 * 60 * 1000);
+    const yesterday = new Date(Date.now() - 24 * 60 * 60 * 1000);
+    const [carPost, bothPost, expiredPost] = await db.insert(postsTable)
+      .values([tomorrow, tomorrow, yesterday].map((expires_at, i) => ({
+        user_id: user.id,
+        title: `Post ${i}`,
+        content: 'Content',
+        price: '10.00',
+        expires_at
+      })))
+      .returning()
+      .execute();
+
+    await db.insert(postCategoriesTable)
+      .values([
+        { post_id: carPost.id, category_id: cars.id },
+        { post_id: bothPost.id, category_id: cars.id },
+        { post_id: bothPost.id, category_id: bikes.id },
+        { post_id: expiredPost.id, category_id: bikes.id }
+      ])
+      .execute();
+
+    const counts = Object.fromEntries((await getCategories()).map(category => [category.slug, category.post_count]));
+
+    expect(counts).toEqual({ vehicles: 2, cars: 2, bicycles: 1 });
+  });
+
+  it('should count posts in every ancestor of a deeper category', async () => {
+    const [vehicles] = await db.insert(categoriesTable)
+      .values({ name: 'Vehicles', slug: 'vehicles' })
+      .returning()
+      .execute();
+    const [cars] = await db.insert(categoriesTable)
+      .values({ name: 'Cars', slug: 'cars', parent_id: vehicles.id })
+      .returning()
+      .execute();
+    const [electric] = await db.insert(categoriesTable)
+      .values({ name: 'Electric', slug: 'electric', parent_id: cars.id })
+      .returning()
+      .execute();
+    await db.insert(categoriesTable)
+      .values({ name: 'Jobs', slug: 'jobs' })
+      .execute();
+
+    const [user] = await db.insert(usersTable)
+      .values({ email: 'seller@example.com', password_hash: 'hash', phone_number: '+1234567890' })
+      .returning()
+      .execute();
+    const [post] = await db.insert(postsTable)
+      .values({
+        user_id: user.id,
+        title: 'Electric car',
+        content: 'Content',
+        price: '10.00',
+        expires_at: new Date(Date.now() + 24 * 60 * 60 * 1000)
+      })
+      .returning()
+      .execute();
+    await db.insert(postCategoriesTable)
+      .values({ post_id: post.id, category_id: electric.id })
+      .execute();
+
+    const counts = Object.fromEntries((await getCategories()).map(category => [category.slug, category.post_count]));
+
+    expect(counts).toEqual({ vehicles: 1, cars: 1, electric: 1, jobs: 0 });
+  });
+});
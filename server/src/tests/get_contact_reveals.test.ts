@@ -0,0 +1,47 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, postsTable } from '../db/schema';
+import { revealContact } from '../handlers/reveal_contact';
+import { getContactReveals } from '../handlers/get_contact_reveals';
+
+describe('getContactReveals', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should count reveals per post for the seller only', async () => {
+    const users = await db.insert(usersTable)
+      .values([
+        { email: 'seller@example.com', password_hash: 'hash', phone_number: '+1111111111' },
+        { email: 'other@example.com', password_hash: 'hash', phone_number: '+2222222222' },
+        { email: 'viewer1@example.com', password_hash: 'hash', phone_number: '+3333333333' },
+        { email: 'viewer2@example.com', password_hash: 'hash', phone_number: '+4444444444' }
+      ])
+      .returning()
+      .execute();
+    const [seller, other, viewer1, viewer2] = users;
+
+    const now = new Date();
+    const expiresAt = new Date(now.getTime() + 24 * 60 * 60 * 1000);
+    const posts = await db.insert(postsTable)
+      .values([
+        { user_id: seller.id, title: 'Popular', content: 'A', price: '1.00', posted_at: now, expires_at: expiresAt },
+        { user_id: seller.id, title: 'Quiet', content: 'B', price: '1.00', posted_at: now, expires_at: expiresAt },
+        { user_id: other.id, title: 'Someone else', content: 'C', price: '1.00', posted_at: now, expires_at: expiresAt }
+      ])
+      .returning()
+      .execute();
+
+    await revealContact({ post_id: posts[0].id }, viewer1.id);
+    await revealContact({ post_id: posts[0].id }, viewer2.id);
+    await revealContact({ post_id: posts[0].id }, viewer2.id);
+    await revealContact({ post_id: posts[2].id }, viewer1.id);
+
+    const stats = await getContactReveals(seller.id);
+
+    expect(stats).toHaveLength(1);
+    expect(stats[0].post_id).toEqual(posts[0].id);
+    expect(stats[0].reveals).toEqual(2);
+    expect(stats[0].last_revealed_at).toBeInstanceOf(Date);
+  });
+});
@@ -0,0 +1,76 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, postsTable } from '../db/schema';
+import { sendMessage } from '../handlers/send_message';
+import { getConversations } from '../handlers/get_conversations';
+import { blockUser } from '../handlers/block_user';
+
+describe('getConversations', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should list threads with roles, unread counts and block state', async () => {
+    const users = await db.insert(usersTable)
+      .values([
+        { email: 'owner@example.com', password_hash: 'hash', phone_number: '+1111111111' },
+        { email: 'buyer1@example.com', password_hash: 'hash', phone_number: '+2222222222' },
+        { email: 'buyer2@example.com', password_hash: 'hash', phone_number: '+3333333333' }
+      ])
+      .returning()
+      .execute();
+    const [owner, buyer1, buyer2] = users;
+
+    const now = new Date();
+    const [post] = await db.insert(postsTable)
+      .values({
+        user_id: owner.id,
+        title: 'Sofa',
+        content: 'Comfy',
+        price: '80.00',
+        posted_at: now,
+        expires_at: new Date(now.getTime() + 24 * 60 * 60 * 1000)
+      })
+      .returning()
+      .execute();
+
+    const first = await sendMessage({ post_id: post.id, body: 'Still there?' }, buyer1.id);
+    await sendMessage({ post_id: post.id, body: 'Can I see it today?' }, buyer1.id);
+    await sendMessage({ post_id: post.id, body: 'Interested!' }, buyer2.id);
+    await blockUser({ user_id: buyer2.id }, owner.id);
+    await sendMessage({ conversation_id: first.conversation_id, body: 'Yes' }, owner.id);
+
+    const ownerView = await getConversations(owner.id);
+    expect(ownerView).toHaveLength(2);
+    // Most recent activity first
+    expect(ownerView[0].id).toEqual(first.conversation_id);
+    expect(ownerView[0].role).toEqual('owner');
+    expect(ownerView[0].post_title).toEqual('Sofa');
+    expect(ownerView[0].other_user_id).toEqual(buyer1.id);
+    expect(ownerView[0].last_message!.body).toEqual('Yes');
+    // Replying marks what came before as read
+    expect(ownerView[0].unread_count).toEqual(0);
+    expect(ownerView[1].unread_count).toEqual(1);
+    expect(ownerView[1].blocked_by_me).toBe(true);
+    expect(ownerView[1].can_reply).toBe(false);
+
+    const buyerView = await getConversations(buyer1.id);
+    expect(buyerView).toHaveLength(1);
+    expect(buyerView[0].role).toEqual('buyer');
+    expect(buyerView[0].unread_count).toEqual(1);
+    expect(buyerView[0].can_reply).toBe(true);
+
+    const blockedView = await getConversations(buyer2.id);
+    expect(blockedView[0].blocked_by_me).toBe(false);
+    expect(blockedView[0].can_reply).toBe(false);
+  });
+
+  it('should return an empty list without conversations', async () => {
+    const [user] = await db.insert(usersTable)
+      .values({ email: 'lonely@example.com', password_hash: 'hash', phone_number: '+1111111111' })
+      .returning()
+      .execute();
+
+    expect(await getConversations(user.id)).toEqual([]);
+  });
+});
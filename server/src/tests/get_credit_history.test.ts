@@ -233,4 +233,66 @@ describe('getCreditHistory', () => {
     expect(result.find(p => p.transaction_id === 'txn_1')?.amount_paid).toBe(0.99);
     expect(result.find(p => p.transaction_id === 'txn_2')?.amount_paid).toBe(99.99);
   });
-});
\ No newline at end of file
+
+  it('should page through purchases with limit and offset', async () => {
+    const user = await db.insert(usersTable)
+      .values({
+        email: 'test@example.com',
+        password_hash: 'hashedpassword',
+        phone_number: '+1234567890',
+        credits: 1
+      })
+      .returning()
+      .execute();
+
+    const now = Date.now();
+    await db.insert(creditPurchasesTable)
+      .values([1, 2, 3, 4, 5].map(n => ({
+        user_id: user[0].id,
+        credits_purchased: n,
+        amount_paid: '1.00',
+        payment_method: 'credit_card' as const,
+        status: 'succeeded' as const,
+        transaction_id: `txn_${n}`,
+        created_at: new Date(now - n * 60 * 1000) // txn_1 is the newest
+      })))
+      .execute();
+
+    const firstPage = await getCreditHistory(user[0].id, { limit: 2, offset: 0 });
+    const secondPage = await getCreditHistory(user[0].id, { limit: 2, offset: 2 });
+    const lastPage = await getCreditHistory(user[0].id, { limit: 2, offset: 4 });
+
+    expect(firstPage.map(p => p.transaction_id)).toEqual(['txn_1', 'txn_2']);
+    expect(secondPage.map(p => p.transaction_id)).toEqual(['txn_3', 'txn_4']);
+    expect(lastPage.map(p => p.transaction_id)).toEqual(['txn_5']);
+  });
+
+  it('should include the status of each purchase', async () => {
+    const user = await db.insert(usersTable)
+      .values({
+        email: 'test@example.com',
+        password_hash: 'hashedpassword',
+        phone_number: '+1234567890',
+        credits: 1
+      })
+      .returning()
+      .execute();
+
+    await db.insert(creditPurchasesTable)
+      .values({
+        user_id: user[0].id,
+        credits_purchased: 10,
+        amount_paid: '2.00',
+        payment_method: 'credit_card',
+        status: 'failed',
+        transaction_id: 'txn_declined',
+        failure_reason: 'Your card was declined'
+      })
+      .execute();
+
+    const result = await getCreditHistory(user[0].id);
+
+    expect(result[0].status).toBe('failed');
+    expect(result[0].failure_reason).toBe('Your card was declined');
+  });
+});
@@ -0,0 +1,68 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { creditPackagesTable } from '../db/schema';
+import { getCreditPackages } from '../handlers/get_credit_packages';
+import { DEFAULT_CREDIT_PACKAGES, seedCreditPackages } from '../lib/credit_packages';
+
+describe('getCreditPackages', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should return empty array when no packages exist', async () => {
+    const result = await getCreditPackages();
+
+    expect(result).toEqual([]);
+  });
+
+  it('should return active packages in sort order', async () => {
+    await db.insert(creditPackagesTable)
+      .values([
+        { name: 'Large', credits: 100, bonus_credits: 35, price: '15.00', sort_order: 3 },
+        { name: 'Small', credits: 5, price: '1.00', sort_order: 1 },
+        { name: 'Medium', credits: 25, bonus_credits: 5, price: '4.50', is_popular: true, sort_order: 2 }
+      ])
+      .execute();
+
+    const result = await getCreditPackages();
+
+    expect(result.map(p => p.name)).toEqual(['Small', 'Medium', 'Large']);
+    expect(result[1].bonus_credits).toEqual(5);
+    expect(result[1].is_popular).toBe(true);
+  });
+
+  it('should convert price to a number', async () => {
+    await db.insert(creditPackagesTable)
+      .values({ name: 'Medium', credits: 25, bonus_credits: 5, price: '4.50' })
+      .execute();
+
+    const result = await getCreditPackages();
+
+    expect(result[0].price).toEqual(4.5);
+    expect(typeof result[0].price).toBe('number');
+  });
+
+  it('should hide inactive packages', async () => {
+    await db.insert(creditPackagesTable)
+      .values([
+        { name: 'Current', credits: 25, price: '4.50' },
+        { name: 'Retired', credits: 10, price: '2.00', is_active: false }
+      ])
+      .execute();
+
+    const result = await getCreditPackages();
+
+    expect(result).toHaveLength(1);
+    expect(result[0].name).toEqual('Current');
+  });
+
+  it('should seed the default packages only once', async () => {
+    await seedCreditPackages();
+    await seedCreditPackages();
+
+    const result = await getCreditPackages();
+
+    expect(result).toHaveLength(DEFAULT_CREDIT_PACKAGES.length);
+    expect(result.map(p => p.credits)).toEqual([5, 25, 50, 100]);
+  });
+});
@@ -0,0 +1,77 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, postsTable } from '../db/schema';
+import { getMessagesInputSchema } from '../schema';
+import { sendMessage } from '../handlers/send_message';
+import { getMessages } from '../handlers/get_messages';
+
+describe('getMessages', () => {
+  let ownerId: number;
+  let buyerId: number;
+  let conversationId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const users = await db.insert(usersTable)
+      .values([
+        { email: 'owner@example.com', password_hash: 'hash', phone_number: '+1111111111' },
+        { email: 'buyer@example.com', password_hash: 'hash', phone_number: '+2222222222' }
+      ])
+      .returning()
+      .execute();
+    ownerId = users[0].id;
+    buyerId = users[1].id;
+
+    const now = new Date();
+    const [post] = await db.insert(postsTable)
+      .values({
+        user_id: ownerId,
+        title: 'Lamp',
+        content: 'Bright',
+        price: '15.00',
+        posted_at: now,
+        expires_at: new Date(now.getTime() + 24 * 60 * 60 * 1000)
+      })
+      .returning()
+      .execute();
+
+    for (let i = 1; i <= 5; i++) {
+      const message = await sendMessage({ post_id: post.id, body: `Message ${i}` }, buyerId);
+      conversationId = message.conversation_id;
+    }
+  });
+  afterEach(resetDB);
+
+  it('should page backwards through messages in chronological order', async () => {
+    const latest = await getMessages(getMessagesInputSchema.parse({ conversation_id: conversationId, limit: 3 }), ownerId);
+
+    expect(latest.items.map(message => message.body)).toEqual(['Message 3', 'Message 4', 'Message 5']);
+    expect(latest.has_older).toBe(true);
+
+    const older = await getMessages({ conversation_id: conversationId, limit: 3, before_id: latest.items[0].id }, ownerId);
+    expect(older.items.map(message => message.body)).toEqual(['Message 1', 'Message 2']);
+    expect(older.has_older).toBe(false);
+  });
+
+  it('should leave the conversation unread', async () => {
+    const latest = await getMessages({ conversation_id: conversationId, limit: 2 }, ownerId);
+    expect(latest.conversation.unread_count).toEqual(5);
+    expect(latest.conversation.role).toEqual('owner');
+
+    const again = await getMessages({ conversation_id: conversationId, limit: 2 }, ownerId);
+    expect(again.conversation.unread_count).toEqual(5);
+  });
+
+  it('should refuse people outside the conversation', async () => {
+    const [outsider] = await db.insert(usersTable)
+      .values({ email: 'outsider@example.com', password_hash: 'hash', phone_number: '+3333333333' })
+      .returning()
+      .execute();
+
+    await expect(getMessages({ conversation_id: conversationId, limit: 50 }, outsider.id))
+      .rejects.toThrow(/not part of conversation/);
+    await expect(getMessages({ conversation_id: 99999, limit: 50 }, ownerId)).rejects.toThrow(/not found/);
+  });
+});
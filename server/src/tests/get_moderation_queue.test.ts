@@ -0,0 +1,89 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, postsTable, postReportsTable } from '../db/schema';
+import { getModerationQueue } from '../handlers/get_moderation_queue';
+
+describe('getModerationQueue', () => {
+  let userIds: number[];
+  let postIds: number[];
+
+  beforeEach(async () => {
+    await createDB();
+
+    const users = await db.insert(usersTable)
+      .values([
+        { email: 'owner@example.com', password_hash: 'hash', phone_number: '+1111111111' },
+        { email: 'first@example.com', password_hash: 'hash', phone_number: '+2222222222' },
+        { email: 'second@example.com', password_hash: 'hash', phone_number: '+3333333333' }
+      ])
+      .returning()
+      .execute();
+    userIds = users.map(user => user.id);
+
+    const now = new Date();
+    const posts = await db.insert(postsTable)
+      .values(['Bike', 'Lamp', 'Sofa'].map(title => ({
+        user_id: userIds[0],
+        title,
+        content: `${title} for sale`,
+        price: '50.00',
+        posted_at: now,
+        expires_at: new Date(now.getTime() + 24 * 60 * 60 * 1000)
+      })))
+      .returning()
+      .execute();
+    postIds = posts.map(post => post.id);
+  });
+  afterEach(resetDB);
+
+  const report = (postId: number, reporterId: number, minutesAgo: number, status: 'open' | 'dismissed' = 'open') =>
+    db.insert(postReportsTable)
+      .values({
+        post_id: postId,
+        reporter_id: reporterId,
+        reason: 'spam',
+        status,
+        created_at: new Date(Date.now() - minutesAgo * 60 * 1000)
+      })
+      .execute();
+
+  it('should return an empty queue when nothing is reported', async () => {
+    expect(await getModerationQueue()).toEqual([]);
+  });
+
+  it('should group open reports by post, most reported first', async () => {
+    await report(postIds[0], userIds[1], 30);
+    await report(postIds[1], userIds[1], 20);
+    await report(postIds[1], userIds[2], 10);
+
+    const queue = await getModerationQueue();
+
+    expect(queue.map(item => item.post_id)).toEqual([postIds[1], postIds[0]]);
+    expect(queue[0].title).toEqual('Lamp');
+    expect(queue[0].owner_email).toEqual('owner@example.com');
+    expect(queue[0].reports.map(r => r.reporter_id)).toEqual([userIds[1], userIds[2]]);
+    expect(queue[0].first_reported_at).toEqual(queue[0].reports[0].created_at);
+  });
+
+  it('should put the longest waiting post first among equals', async () => {
+    await report(postIds[0], userIds[1], 5);
+    await report(postIds[2], userIds[1], 50);
+
+    const queue = await getModerationQueue();
+
+    expect(queue.map(item => item.post_id)).toEqual([postIds[2], postIds[0]]);
+  });
+
+  it('should leave out resolved reports', async () => {
+    await report(postIds[0], userIds[1], 30, 'dismissed');
+    await report(postIds[1], userIds[1], 20, 'dismissed');
+    await report(postIds[1], userIds[2], 10);
+
+    const queue = await getModerationQueue();
+
+    expect(queue).toHaveLength(1);
+    expect(queue[0].post_id).toEqual(postIds[1]);
+    expect(queue[0].reports).toHaveLength(1);
+  });
+});
@@ -0,0 +1,56 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable } from '../db/schema';
+import { getNotifications } from '../handlers/get_notifications';
+import { markNotificationsRead } from '../handlers/mark_notifications_read';
+import { notifyUser } from '../lib/notifications';
+
+const testUser = {
+  email: 'owner@example.com',
+  password_hash: 'hashed_password',
+  phone_number: '+1234567890'
+};
+
+describe('getNotifications', () => {
+  let userId: number;
+  let otherUserId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const userResult = await db.insert(usersTable)
+      .values([testUser, { ...testUser, email: 'other@example.com' }])
+      .returning()
+      .execute();
+
+    userId = userResult[0].id;
+    otherUserId = userResult[1].id;
+  });
+  afterEach(resetDB);
+
+  it('should return only the user\'s notifications, newest first', async () => {
+    await notifyUser({ user_id: userId, message: 'First' });
+    await notifyUser({ user_id: userId, message: 'Second' });
+    await notifyUser({ user_id: otherUserId, message: 'Not yours' });
+
+    const result = await getNotifications(userId);
+
+    expect(result.map(n => n.message)).toEqual(['Second', 'First']);
+    expect(result[0].read_at).toBeNull();
+  });
+
+  it('should mark unread notifications as read', async () => {
+    await notifyUser({ user_id: userId, message: 'First' });
+    await notifyUser({ user_id: otherUserId, message: 'Not yours' });
+
+    expect(await markNotificationsRead(userId)).toEqual({ success: true, count: 1 });
+    expect(await markNotificationsRead(userId)).toEqual({ success: true, count: 0 });
+
+    const [notification] = await getNotifications(userId);
+    expect(notification.read_at).toBeInstanceOf(Date);
+
+    const [other] = await getNotifications(otherUserId);
+    expect(other.read_at).toBeNull();
+  });
+});
@@ -1,12 +1,31 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { postsTable } from '../db/schema';
+import { usersTable, postsTable } from '../db/schema';
 import { type GetPostInput } from '../schema';
 import { getPost } from '../handlers/get_post';
 
+// Owner of the test posts
+const testUser = {
+  email: 'owner@example.com',
+  password_hash: 'hashed_password',
+  phone_number: '+1234567890'
+};
+
 describe('getPost', () => {
-  beforeEach(createDB);
+  let userId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    // Create the post owner
+    const userResult = await db.insert(usersTable)
+      .values(testUser)
+      .returning()
+      .execute();
+
+    userId = userResult[0].id;
+  });
   afterEach(resetDB);
 
   it('should return a post when it exists', async () => {
@@ -16,6 +35,7 @@ describe('getPost', () => {
 
     const insertResult = await db.insert(postsTable)
       .values({
+        user_id: userId,
         title: 'Test Post',
         content: 'This is test content',
         price: '19.99', // Insert as string for numeric column
@@ -59,6 +79,7 @@ describe('getPost', () => {
 
     const insertResult = await db.insert(postsTable)
       .values({
+        user_id: userId,
         title: 'Active Post',
         content: 'Content for active post',
         price: '25.50',
@@ -83,6 +104,7 @@ describe('getPost', () => {
 
     const insertResult = await db.insert(postsTable)
       .values({
+        user_id: userId,
         title: 'Expired Post',
         content: 'Content for expired post',
         price: '15.75',
@@ -107,6 +129,7 @@ describe('getPost', () => {
 
     const insertResult = await db.insert(postsTable)
       .values({
+        user_id: userId,
         title: 'Edge Case Post',
         content: 'Content for edge case',
         price: '30.00',
@@ -131,6 +154,7 @@ describe('getPost', () => {
 
     const insertResult = await db.insert(postsTable)
       .values({
+        user_id: userId,
         title: 'Price Test Post',
         content: 'Testing price conversion',
         price: '123.46', // Exactly 2 decimal places to match DB schema
@@ -147,4 +171,55 @@ describe('getPost', () => {
     expect(typeof result!.price).toEqual('number');
     expect(result!.price).toEqual(123.46); // Should match the 2 decimal precision
   });
-});
\ No newline at end of file
+
+  describe('visibility', () => {
+    const insertPost = async (values: Partial<typeof postsTable.$inferInsert>) => {
+      const now = new Date();
+      const [post] = await db.insert(postsTable)
+        .values({
+          user_id: userId,
+          title: 'Not for everyone',
+          content: 'Only some people may see this',
+          price: '10.00',
+          posted_at: now,
+          expires_at: new Date(now.getTime() + 24 * 60 * 60 * 1000),
+          ...values
+        })
+        .returning()
+        .execute();
+      return post;
+    };
+
+    it('should hide drafts, scheduled, removed and hidden posts from visitors and other users', async () => {
+      const [stranger] = await db.insert(usersTable)
+        .values({ email: 'stranger@example.com', password_hash: 'hash', phone_number: '+2222222222' })
+        .returning()
+        .execute();
+      const strangerAuth = { user_id: stranger.id, email: stranger.email, role: 'user' as const };
+
+      const posts = [
+        await insertPost({ status: 'draft', posted_at: null, expires_at: null }),
+        await insertPost({ status: 'scheduled', publish_at: new Date(Date.now() + 60 * 60 * 1000) }),
+        await insertPost({ status: 'removed' }),
+        await insertPost({ hidden_at: new Date() })
+      ];
+
+      for (const post of posts) {
+        expect(await getPost({ id: post.id })).toBeNull();
+        expect(await getPost({ id: post.id }, strangerAuth)).toBeNull();
+      }
+    });
+
+    it('should show them to their owner and to staff', async () => {
+      const post = await insertPost({ hidden_at: new Date() });
+      const draft = await insertPost({ status: 'draft', posted_at: null, expires_at: null });
+
+      const ownerAuth = { user_id: userId, email: testUser.email, role: 'user' as const };
+      const moderatorAuth = { user_id: userId + 1000, email: 'mod@example.com', role: 'moderator' as const };
+
+      expect((await getPost({ id: post.id }, ownerAuth))!.id).toEqual(post.id);
+      expect((await getPost({ id: draft.id }, ownerAuth))!.status).toEqual('draft');
+      expect((await getPost({ id: post.id }, moderatorAuth))!.id).toEqual(post.id);
+    });
+  });
+});
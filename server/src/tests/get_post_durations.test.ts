@@ -0,0 +1,20 @@
+import { describe, expect, it } from 'bun:test';
+import { getPostDurations } from '../handlers/get_post_durations';
+
+describe('getPostDurations', () => {
+  it('should return every duration, shortest first', async () => {
+    const result = await getPostDurations();
+
+    expect(result.map(option => option.duration)).toEqual(['6h', '24h', '3d', '7d']);
+    expect(result.map(option => option.hours)).toEqual([6, 24, 72, 168]);
+  });
+
+  it('should charge more for longer listings', async () => {
+    const result = await getPostDurations();
+
+    for (let i = 1; i < result.length; i++) {
+      expect(result[i].fee).toBeGreaterThan(result[i - 1].fee);
+    }
+    expect(result.find(option => option.duration === '24h')?.fee).toEqual(5);
+  });
+});
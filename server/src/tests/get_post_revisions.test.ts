@@ -0,0 +1,74 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable } from '../db/schema';
+import { createPost } from '../handlers/create_post';
+import { updatePost } from '../handlers/update_post';
+import { getPostRevisions } from '../handlers/get_post_revisions';
+
+const testUser = {
+  email: 'owner@example.com',
+  password_hash: 'hashed_password',
+  phone_number: '+1234567890'
+};
+
+describe('getPostRevisions', () => {
+  let userId: number;
+  let otherUserId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const userResult = await db.insert(usersTable)
+      .values([testUser, { ...testUser, email: 'other@example.com' }])
+      .returning()
+      .execute();
+
+    userId = userResult[0].id;
+    otherUserId = userResult[1].id;
+  });
+  afterEach(resetDB);
+
+  it('should record the created version', async () => {
+    const post = await createPost({ title: 'Bike', content: 'Red bike', price: 50 }, userId);
+
+    const revisions = await getPostRevisions({ post_id: post.id }, userId);
+
+    expect(revisions).toHaveLength(1);
+    expect(revisions[0].action).toEqual('created');
+    expect(revisions[0].author_id).toEqual(userId);
+    expect(revisions[0].title).toEqual('Bike');
+    expect(revisions[0].price).toEqual(50);
+    expect(typeof revisions[0].price).toBe('number');
+  });
+
+  it('should record every change, newest first', async () => {
+    const post = await createPost({ title: 'Bike', content: 'Red bike', price: 50 }, userId);
+    await updatePost({ id: post.id, price: 45 }, userId);
+    await updatePost({ id: post.id, content: 'Red bike, new tyres' }, userId);
+
+    const revisions = await getPostRevisions({ post_id: post.id }, userId);
+
+    expect(revisions.map(r => [r.action, r.content, r.price])).toEqual([
+      ['updated', 'Red bike, new tyres', 45],
+      ['updated', 'Red bike', 45],
+      ['created', 'Red bike', 50]
+    ]);
+  });
+
+  it('should not record a revision when nothing visible changed', async () => {
+    const post = await createPost({ title: 'Bike', content: 'Red bike', price: 50, draft: true }, userId);
+    await updatePost({ id: post.id, title: 'Bike' }, userId);
+    await updatePost({ id: post.id, duration: '7d' }, userId);
+
+    const revisions = await getPostRevisions({ post_id: post.id }, userId);
+
+    expect(revisions).toHaveLength(1);
+  });
+
+  it('should only show the history to the owner', async () => {
+    const post = await createPost({ title: 'Bike', content: 'Red bike', price: 50 }, userId);
+
+    await expect(getPostRevisions({ post_id: post.id }, otherUserId)).rejects.toThrow(/do not own/i);
+  });
+});
@@ -1,15 +1,35 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { postsTable } from '../db/schema';
+import { usersTable, postsTable } from '../db/schema';
 import { getPosts } from '../handlers/get_posts';
+import { allPostsListInputSchema } from '../schema';
+
+// Owner of the test posts
+const testUser = {
+  email: 'owner@example.com',
+  password_hash: 'hashed_password',
+  phone_number: '+1234567890'
+};
 
 describe('getPosts', () => {
-  beforeEach(createDB);
+  let userId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    // Create the post owner
+    const userResult = await db.insert(usersTable)
+      .values(testUser)
+      .returning()
+      .execute();
+
+    userId = userResult[0].id;
+  });
   afterEach(resetDB);
 
   it('should return empty array when no posts exist', async () => {
-    const result = await getPosts();
+    const result = (await getPosts()).items;
     expect(result).toEqual([]);
   });
 
@@ -21,6 +41,7 @@ describe('getPosts', () => {
     // Create test posts - one active, one expired
     await db.insert(postsTable).values([
       {
+        user_id: userId,
         title: 'Active Post',
         content: 'This post is still active',
         price: '19.99',
@@ -30,6 +51,7 @@ describe('getPosts', () => {
         updated_at: now
       },
       {
+        user_id: userId,
         title: 'Expired Post',
         content: 'This post has expired',
         price: '29.99',
@@ -40,7 +62,7 @@ describe('getPosts', () => {
       }
     ]).execute();
 
-    const result = await getPosts();
+    const result = (await getPosts()).items;
 
     expect(result).toHaveLength(2);
 
@@ -73,6 +95,7 @@ describe('getPosts', () => {
     // Create posts with different posted_at times
     await db.insert(postsTable).values([
       {
+        user_id: userId,
         title: 'First Post',
         content: 'Posted first',
         price: '10.00',
@@ -82,6 +105,7 @@ describe('getPosts', () => {
         updated_at: baseTime
       },
       {
+        user_id: userId,
         title: 'Latest Post',
         content: 'Posted last',
         price: '20.00',
@@ -91,6 +115,7 @@ describe('getPosts', () => {
         updated_at: baseTime
       },
       {
+        user_id: userId,
         title: 'Middle Post',
         content: 'Posted in between',
         price: '15.00',
@@ -101,7 +126,7 @@ describe('getPosts', () => {
       }
     ]).execute();
 
-    const result = await getPosts();
+    const result = (await getPosts()).items;
 
     expect(result).toHaveLength(3);
     expect(result[0].title).toEqual('Latest Post'); // Most recent first
@@ -109,8 +134,8 @@ describe('getPosts', () => {
     expect(result[2].title).toEqual('First Post'); // Oldest last
 
     // Verify ordering is correct
-    expect(result[0].posted_at >= result[1].posted_at).toBe(true);
-    expect(result[1].posted_at >= result[2].posted_at).toBe(true);
+    expect(result[0].posted_at! >= result[1].posted_at!).toBe(true);
+    expect(result[1].posted_at! >= result[2].posted_at!).toBe(true);
   });
 
   it('should correctly calculate is_active for edge cases', async () => {
@@ -120,6 +145,7 @@ describe('getPosts', () => {
 
     await db.insert(postsTable).values([
       {
+        user_id: userId,
         title: 'Just Expired',
         content: 'Expired 1 second ago',
         price: '5.00',
@@ -129,6 +155,7 @@ describe('getPosts', () => {
         updated_at: now
       },
       {
+        user_id: userId,
         title: 'Just Active',
         content: 'Expires in 1 second',
         price: '10.00',
@@ -139,7 +166,7 @@ describe('getPosts', () => {
       }
     ]).execute();
 
-    const result = await getPosts();
+    const result = (await getPosts()).items;
 
     expect(result).toHaveLength(2);
     
@@ -155,6 +182,7 @@ describe('getPosts', () => {
     const futureExpiry = new Date(now.getTime() + 24 * 60 * 60 * 1000);
 
     await db.insert(postsTable).values({
+      user_id: userId,
       title: 'Decimal Price Post',
       content: 'Post with decimal price',
       price: '123.45', // String representation of decimal
@@ -164,10 +192,42 @@ describe('getPosts', () => {
       updated_at: now
     }).execute();
 
-    const result = await getPosts();
+    const result = (await getPosts()).items;
 
     expect(result).toHaveLength(1);
     expect(result[0].price).toEqual(123.45);
     expect(typeof result[0].price).toBe('number');
   });
-});
\ No newline at end of file
+
+  it('should leave out posts visitors may not see', async () => {
+    const now = new Date();
+    const expiresAt = new Date(now.getTime() + 24 * 60 * 60 * 1000);
+    const post = (title: string, values: Partial<typeof postsTable.$inferInsert> = {}) => ({
+      user_id: userId,
+      title,
+      content: 'For sale',
+      price: '10.00',
+      posted_at: now,
+      expires_at: expiresAt,
+      ...values
+    });
+
+    await db.insert(postsTable).values([
+      post('Visible'),
+      post('Draft', { status: 'draft', posted_at: null, expires_at: null }),
+      post('Scheduled', { status: 'scheduled', publish_at: expiresAt }),
+      post('Removed', { status: 'removed' }),
+      post('Hidden', { hidden_at: now }),
+      post('Trashed', { deleted_at: now })
+    ]).execute();
+
+    const result = (await getPosts()).items;
+
+    expect(result.map(p => p.title)).toEqual(['Visible']);
+  });
+
+  it('should not accept the draft filter', async () => {
+    expect(allPostsListInputSchema.safeParse({ status: 'draft' }).success).toBe(false);
+    expect(allPostsListInputSchema.parse({ status: 'expired' }).status).toEqual('expired');
+  });
+});
@@ -1,8 +1,10 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { usersTable, postsTable } from '../db/schema';
+import { usersTable, postsTable, categoriesTable } from '../db/schema';
 import { getPublicPosts } from '../handlers/get_public_posts';
+import { createPost } from '../handlers/create_post';
+import { createPostInputSchema } from '../schema';
 
 describe('getPublicPosts', () => {
   beforeEach(createDB);
@@ -38,26 +40,26 @@ describe('getPublicPosts', () => {
         {
           user_id: users[0].id,
           title: 'Active Post',
-          description: 'This post is still active',
-          image_path: '/images/active.jpg',
+          content: 'This post is still active',
+          price: '10.00',
           expires_at: tomorrow
         },
         {
           user_id: users[1].id,
           title: 'Expired Post',
-          description: 'This post has expired',
-          image_path: '/images/expired.jpg',
+          content: 'This post has expired',
+          price: '10.00',
           expires_at: yesterday
         }
       ])
       .execute();
 
-    const result = await getPublicPosts();
+    const result = (await getPublicPosts()).items;
 
     // Should only return the active post
     expect(result).toHaveLength(1);
     expect(result[0].title).toEqual('Active Post');
-    expect(result[0].phone_number).toEqual('+1234567890');
+    expect(result[0].phone_masked).toEqual('+1*******90');
     expect(result[0].expires_at).toBeInstanceOf(Date);
     expect(result[0].expires_at > now).toBe(true);
   });
@@ -85,31 +87,31 @@ describe('getPublicPosts', () => {
         {
           user_id: user[0].id,
           title: 'Oldest Post',
-          description: 'Created 2 hours ago',
-          image_path: '/images/old.jpg',
+          content: 'Created 2 hours ago',
+          price: '10.00',
           expires_at: tomorrow,
           created_at: twoHoursAgo
         },
         {
           user_id: user[0].id,
           title: 'Newest Post',
-          description: 'Created now',
-          image_path: '/images/new.jpg',
+          content: 'Created now',
+          price: '10.00',
           expires_at: tomorrow,
           created_at: now
         },
         {
           user_id: user[0].id,
           title: 'Middle Post',
-          description: 'Created 1 hour ago',
-          image_path: '/images/middle.jpg',
+          content: 'Created 1 hour ago',
+          price: '10.00',
           expires_at: tomorrow,
           created_at: oneHourAgo
         }
       ])
       .execute();
 
-    const result = await getPublicPosts();
+    const result = (await getPublicPosts()).items;
 
     expect(result).toHaveLength(3);
     expect(result[0].title).toEqual('Newest Post');
@@ -121,7 +123,7 @@ describe('getPublicPosts', () => {
     expect(result[1].created_at >= result[2].created_at).toBe(true);
   });
 
-  it('should include correct user phone number for each post', async () => {
+  it('should include each owner\'s masked phone number', async () => {
     // Create multiple users
     const users = await db.insert(usersTable)
       .values([
@@ -149,21 +151,21 @@ describe('getPublicPosts', () => {
         {
           user_id: users[0].id,
           title: "John's Post",
-          description: 'Posted by John',
-          image_path: '/images/john.jpg',
+          content: 'Posted by John',
+          price: '10.00',
           expires_at: tomorrow
         },
         {
           user_id: users[1].id,
           title: "Jane's Post",
-          description: 'Posted by Jane',
-          image_path: '/images/jane.jpg',
+          content: 'Posted by Jane',
+          price: '10.00',
           expires_at: tomorrow
         }
       ])
       .execute();
 
-    const result = await getPublicPosts();
+    const result = (await getPublicPosts()).items;
 
     expect(result).toHaveLength(2);
 
@@ -173,8 +175,8 @@ describe('getPublicPosts', () => {
 
     expect(johnPost).toBeDefined();
     expect(janePost).toBeDefined();
-    expect(johnPost!.phone_number).toEqual('+1111111111');
-    expect(janePost!.phone_number).toEqual('+2222222222');
+    expect(johnPost!.phone_masked).toEqual('+1*******11');
+    expect(janePost!.phone_masked).toEqual('+2*******22');
   });
 
   it('should return empty array when no active posts exist', async () => {
@@ -188,7 +190,7 @@ describe('getPublicPosts', () => {
       })
       .execute();
 
-    const result = await getPublicPosts();
+    const result = (await getPublicPosts()).items;
 
     expect(result).toHaveLength(0);
   });
@@ -212,13 +214,13 @@ describe('getPublicPosts', () => {
       .values({
         user_id: user[0].id,
         title: 'Expired Post',
-        description: 'This expired yesterday',
-        image_path: '/images/expired.jpg',
+        content: 'This expired yesterday',
+        price: '10.00',
         expires_at: yesterday
       })
       .execute();
 
-    const result = await getPublicPosts();
+    const result = (await getPublicPosts()).items;
 
     expect(result).toHaveLength(0);
   });
@@ -241,13 +243,13 @@ describe('getPublicPosts', () => {
       .values({
         user_id: user[0].id,
         title: 'Test Post',
-        description: 'Test description',
-        image_path: '/images/test.jpg',
+        content: 'Test description',
+        price: '10.00',
         expires_at: tomorrow
       })
       .execute();
 
-    const result = await getPublicPosts();
+    const result = (await getPublicPosts()).items;
 
     expect(result).toHaveLength(1);
     const post = result[0];
@@ -256,9 +258,10 @@ describe('getPublicPosts', () => {
     expect(post.id).toBeDefined();
     expect(typeof post.id).toBe('number');
     expect(post.title).toEqual('Test Post');
-    expect(post.description).toEqual('Test description');
-    expect(post.image_path).toEqual('/images/test.jpg');
-    expect(post.phone_number).toEqual('+1234567890');
+    expect(post.content).toEqual('Test description');
+    expect(post.price).toEqual(10);
+    expect(post.phone_masked).toEqual('+1*******90');
+    expect(post).not.toHaveProperty('phone_number');
     expect(post.created_at).toBeInstanceOf(Date);
     expect(post.expires_at).toBeInstanceOf(Date);
 
@@ -268,4 +271,109 @@ describe('getPublicPosts', () => {
     expect((post as any).user_id).toBeUndefined();
     expect((post as any).credits).toBeUndefined();
   });
-});
\ No newline at end of file
+
+  it('should only return posts whose status is active', async () => {
+    const user = await db.insert(usersTable)
+      .values({
+        email: 'user@test.com',
+        password_hash: 'hash',
+        phone_number: '+1234567890',
+        credits: 1
+      })
+      .returning()
+      .execute();
+
+    const tomorrow = new Date(Date.now() + 24 * 60 * 60 * 1000);
+
+    // Not yet past expires_at, but no longer (or not yet) listed
+    await db.insert(postsTable)
+      .values(['active', 'expired', 'archived', 'removed'].map(status => ({
+        user_id: user[0].id,
+        title: `${status} post`,
+        content: `Post with status ${status}`,
+        price: '10.00',
+        status: status as 'active' | 'expired' | 'archived' | 'removed',
+        expires_at: tomorrow
+      })))
+      .execute();
+
+    const result = (await getPublicPosts()).items;
+
+    expect(result).toHaveLength(1);
+    expect(result[0].title).toEqual('active post');
+  });
+
+  it('should page through active posts with filters applied', async () => {
+    const user = await db.insert(usersTable)
+      .values({
+        email: 'user@test.com',
+        password_hash: 'hash',
+        phone_number: '+1234567890',
+        credits: 1
+      })
+      .returning()
+      .execute();
+
+    const tomorrow = new Date(Date.now() + 24 * 60 * 60 * 1000);
+    await db.insert(postsTable)
+      .values([5, 15, 25, 35].map(price => ({
+        user_id: user[0].id,
+        title: `Post for ${price}`,
+        content: 'Priced post',
+        price: price.toFixed(2),
+        expires_at: tomorrow
+      })))
+      .execute();
+
+    const first = await getPublicPosts({ limit: 2, sort: 'price_desc', price_min: 10 });
+    expect(first.items.map(post => post.price)).toEqual([35, 25]);
+
+    const second = await getPublicPosts({ limit: 2, sort: 'price_desc', price_min: 10, cursor: first.nextCursor! });
+    expect(second.items.map(post => post.price)).toEqual([15]);
+    expect(second.nextCursor).toBeNull();
+  });
+
+  it('should filter by category subtree and tag', async () => {
+    const user = await db.insert(usersTable)
+      .values({
+        email: 'user@test.com',
+        password_hash: 'hash',
+        phone_number: '+1234567890',
+        credits: 100
+      })
+      .returning()
+      .execute();
+
+    const [vehicles] = await db.insert(categoriesTable)
+      .values({ name: 'Vehicles', slug: 'vehicles' })
+      .returning()
+      .execute();
+    const [cars, furniture] = await db.insert(categoriesTable)
+      .values([
+        { name: 'Cars', slug: 'cars', parent_id: vehicles.id },
+        { name: 'Furniture', slug: 'furniture' }
+      ])
+      .returning()
+      .execute();
+
+    const post = (title: string, category_ids: number[], tags: string[]) =>
+      createPost(createPostInputSchema.parse({ title, content: 'Content', price: 10, category_ids, tags }), user[0].id);
+    await post('Sedan', [cars.id], ['red']);
+    await post('Vehicle parts', [vehicles.id], ['spares']);
+    await post('Red sofa', [furniture.id], ['red']);
+
+    const inVehicles = await getPublicPosts({ limit: 20, sort: 'newest', category_id: vehicles.id });
+    expect(inVehicles.items.map(item => item.title).sort()).toEqual(['Sedan', 'Vehicle parts']);
+    expect(inVehicles.items.find(item => item.title === 'Sedan')!.categories.map(category => category.slug)).toEqual(['cars']);
+
+    const inCars = await getPublicPosts({ limit: 20, sort: 'newest', category_id: cars.id });
+    expect(inCars.items.map(item => item.title)).toEqual(['Sedan']);
+
+    const red = await getPublicPosts({ limit: 20, sort: 'newest', tag: 'red' });
+    expect(red.items.map(item => item.title).sort()).toEqual(['Red sofa', 'Sedan']);
+    expect(red.items.every(item => item.tags.includes('red'))).toBe(true);
+
+    const redVehicles = await getPublicPosts({ limit: 20, sort: 'newest', category_id: vehicles.id, tag: 'red' });
+    expect(redVehicles.items.map(item => item.title)).toEqual(['Sedan']);
+  });
+});
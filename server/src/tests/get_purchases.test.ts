@@ -0,0 +1,65 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, creditPurchasesTable } from '../db/schema';
+import { getPurchases } from '../handlers/get_purchases';
+
+describe('getPurchases', () => {
+  let userIds: number[];
+
+  beforeEach(async () => {
+    await createDB();
+
+    const users = await db.insert(usersTable)
+      .values([
+        { email: 'first@example.com', password_hash: 'hash', phone_number: '+1111111111' },
+        { email: 'second@example.com', password_hash: 'hash', phone_number: '+2222222222' }
+      ])
+      .returning()
+      .execute();
+    userIds = users.map(user => user.id);
+
+    const now = Date.now();
+    await db.insert(creditPurchasesTable)
+      .values([
+        { user_id: userIds[0], credits_purchased: 25, amount_paid: '24.99', payment_method: 'credit_card', status: 'succeeded', created_at: new Date(now - 3000) },
+        { user_id: userIds[1], credits_purchased: 10, amount_paid: '9.99', payment_method: 'paypal', status: 'failed', created_at: new Date(now - 2000) },
+        { user_id: userIds[1], credits_purchased: 50, amount_paid: '44.99', payment_method: 'bank_transfer', status: 'succeeded', created_at: new Date(now - 1000) }
+      ])
+      .execute();
+  });
+  afterEach(resetDB);
+
+  it("should list everyone's purchases newest first with the buyer's email", async () => {
+    const page = await getPurchases();
+
+    expect(page.total).toEqual(3);
+    expect(page.items.map(purchase => purchase.credits_purchased)).toEqual([50, 10, 25]);
+    expect(page.items[0].user_email).toEqual('second@example.com');
+    expect(page.items[0].amount_paid).toEqual(44.99);
+    expect(typeof page.items[0].amount_paid).toBe('number');
+  });
+
+  it('should filter by user and status', async () => {
+    const byUser = await getPurchases({ user_id: userIds[1], limit: 20, offset: 0 });
+    expect(byUser.total).toEqual(2);
+
+    const succeeded = await getPurchases({ user_id: userIds[1], status: 'succeeded', limit: 20, offset: 0 });
+    expect(succeeded.total).toEqual(1);
+    expect(succeeded.items[0].credits_purchased).toEqual(50);
+  });
+
+  it("should search the buyer's email", async () => {
+    const page = await getPurchases({ search: 'SECOND', limit: 20, offset: 0 });
+
+    expect(page.total).toEqual(2);
+    expect(page.items.every(purchase => purchase.user_email === 'second@example.com')).toBe(true);
+  });
+
+  it('should page with limit and offset, keeping the full total', async () => {
+    const page = await getPurchases({ limit: 1, offset: 1 });
+
+    expect(page.total).toEqual(3);
+    expect(page.items.map(purchase => purchase.credits_purchased)).toEqual([10]);
+  });
+});
@@ -0,0 +1,99 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, postsTable, notificationsTable, type Notification } from '../db/schema';
+import { savePost } from '../handlers/save_post';
+import { getSavedPosts } from '../handlers/get_saved_posts';
+import { expirePosts } from '../handlers/expire_posts';
+import { subscribeSavedPostAlerts } from '../lib/saved_post_alerts';
+import { eq } from 'drizzle-orm';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('getSavedPosts', () => {
+  let ownerId: number;
+  let userId: number;
+
+  const createActivePost = async (title: string) => {
+    const now = new Date();
+    const [post] = await db.insert(postsTable)
+      .values({ user_id: ownerId, title, content: 'Details', price: '10.00', posted_at: now, expires_at: new Date(now.getTime() + DAY_MS) })
+      .returning()
+      .execute();
+    return post;
+  };
+
+  beforeEach(async () => {
+    await createDB();
+
+    const users = await db.insert(usersTable)
+      .values([
+        { email: 'owner@example.com', password_hash: 'hash', phone_number: '+1111111111' },
+        { email: 'visitor@example.com', password_hash: 'hash', phone_number: '+2222222222' }
+      ])
+      .returning()
+      .execute();
+    ownerId = users[0].id;
+    userId = users[1].id;
+  });
+  afterEach(resetDB);
+
+  it('should flag each saved post as active, expired or unavailable', async () => {
+    const active = await createActivePost('Still listed');
+    const expired = await createActivePost('Ran out');
+    const deleted = await createActivePost('Deleted');
+    for (const post of [active, expired, deleted]) {
+      await savePost({ post_id: post.id }, userId);
+    }
+    await db.update(postsTable).set({ status: 'expired' }).where(eq(postsTable.id, expired.id)).execute();
+    await db.update(postsTable).set({ deleted_at: new Date() }).where(eq(postsTable.id, deleted.id)).execute();
+
+    const saved = await getSavedPosts(userId);
+
+    const stateOf = (id: number) => saved.find(post => post.id === id)!.state;
+    expect(saved).toHaveLength(3);
+    expect(stateOf(active.id)).toEqual('active');
+    expect(stateOf(expired.id)).toEqual('expired');
+    expect(stateOf(deleted.id)).toEqual('unavailable');
+    expect(saved[0].phone_masked).toEqual('+1*******11');
+    expect(saved[0].images).toEqual([]);
+  });
+
+  it('should flag posts listed again since they were saved', async () => {
+    const post = await createActivePost('Comes back');
+    await savePost({ post_id: post.id }, userId);
+    expect((await getSavedPosts(userId))[0].reposted).toBe(false);
+
+    const later = new Date(Date.now() + 2 * DAY_MS);
+    await db.update(postsTable)
+      .set({ posted_at: later, expires_at: new Date(later.getTime() + DAY_MS) })
+      .where(eq(postsTable.id, post.id))
+      .execute();
+
+    expect((await getSavedPosts(userId))[0].reposted).toBe(true);
+    expect(await getSavedPosts(ownerId)).toEqual([]);
+  });
+
+  it('should alert savers when a saved post expires', async () => {
+    const post = await createActivePost('Short listing');
+    await savePost({ post_id: post.id }, userId);
+    const unsubscribe = subscribeSavedPostAlerts();
+
+    try {
+      await expirePosts(new Date(Date.now() + 2 * DAY_MS));
+
+      // Listeners run after the change; give the alert a moment to be written
+      let notifications: Notification[] = [];
+      for (let attempt = 0; attempt < 20 && notifications.length === 0; attempt++) {
+        await new Promise(resolve => setTimeout(resolve, 25));
+        notifications = await db.select().from(notificationsTable).where(eq(notificationsTable.user_id, userId)).execute();
+      }
+
+      expect(notifications).toHaveLength(1);
+      expect(notifications[0].post_id).toEqual(post.id);
+      expect(notifications[0].message).toContain('"Short listing", has expired');
+    } finally {
+      unsubscribe();
+    }
+  });
+});
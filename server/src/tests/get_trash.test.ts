@@ -0,0 +1,55 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, postsTable } from '../db/schema';
+import { createPost } from '../handlers/create_post';
+import { deletePost } from '../handlers/delete_post';
+import { getTrash } from '../handlers/get_trash';
+import { TRASH_RETENTION_MS } from '../lib/posts';
+import { eq } from 'drizzle-orm';
+
+const testUser = {
+  email: 'owner@example.com',
+  password_hash: 'hashed_password',
+  phone_number: '+1234567890',
+  credits: 100
+};
+
+describe('getTrash', () => {
+  let userId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const userResult = await db.insert(usersTable)
+      .values(testUser)
+      .returning()
+      .execute();
+
+    userId = userResult[0].id;
+  });
+  afterEach(resetDB);
+
+  it('should list deleted posts with their purge time', async () => {
+    const kept = await createPost({ title: 'Kept', content: 'Still listed', price: 5 }, userId);
+    const deleted = await createPost({ title: 'Deleted', content: 'In the trash', price: 5 }, userId);
+    await deletePost({ id: deleted.id }, userId);
+
+    const trash = await getTrash(userId);
+
+    expect(trash.map(p => p.id)).toEqual([deleted.id]);
+    expect(trash.map(p => p.id)).not.toContain(kept.id);
+    expect(trash[0].is_active).toBe(false);
+    expect(trash[0].purge_at.getTime()).toEqual(trash[0].deleted_at!.getTime() + TRASH_RETENTION_MS);
+  });
+
+  it('should leave out posts past the retention period', async () => {
+    const post = await createPost({ title: 'Old', content: 'Long gone', price: 5 }, userId);
+    await db.update(postsTable)
+      .set({ deleted_at: new Date(Date.now() - TRASH_RETENTION_MS - 1000) })
+      .where(eq(postsTable.id, post.id))
+      .execute();
+
+    expect(await getTrash(userId)).toHaveLength(0);
+  });
+});
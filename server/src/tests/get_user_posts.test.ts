@@ -21,7 +21,7 @@ describe('getUserPosts', () => {
       .execute();
 
     const userId = users[0].id;
-    const result = await getUserPosts(userId);
+    const result = (await getUserPosts(userId)).items;
 
     expect(result).toHaveLength(0);
   });
@@ -50,31 +50,31 @@ describe('getUserPosts', () => {
         {
           user_id: userId,
           title: 'First Post',
-          description: 'Description 1',
-          image_path: '/images/first.jpg',
+          content: 'Description 1',
+          price: '19.99',
           expires_at: tomorrow,
           created_at: twoHoursAgo
         },
         {
           user_id: userId,
           title: 'Second Post',
-          description: 'Description 2',
-          image_path: '/images/second.jpg',
+          content: 'Description 2',
+          price: '19.99',
           expires_at: tomorrow,
           created_at: oneHourAgo
         },
         {
           user_id: userId,
           title: 'Third Post',
-          description: 'Description 3',
-          image_path: '/images/third.jpg',
+          content: 'Description 3',
+          price: '19.99',
           expires_at: tomorrow,
           created_at: now
         }
       ])
       .execute();
 
-    const result = await getUserPosts(userId);
+    const result = (await getUserPosts(userId)).items;
 
     // Should return 3 posts
     expect(result).toHaveLength(3);
@@ -86,8 +86,9 @@ describe('getUserPosts', () => {
 
     // Verify all fields are present and correct
     expect(result[0].user_id).toEqual(userId);
-    expect(result[0].description).toEqual('Description 3');
-    expect(result[0].image_path).toEqual('/images/third.jpg');
+    expect(result[0].content).toEqual('Description 3');
+    expect(result[0].price).toEqual(19.99);
+    expect(typeof result[0].price).toBe('number');
     expect(result[0].expires_at).toBeInstanceOf(Date);
     expect(result[0].created_at).toBeInstanceOf(Date);
     expect(result[0].updated_at).toBeInstanceOf(Date);
@@ -115,18 +116,19 @@ describe('getUserPosts', () => {
       .values({
         user_id: userId,
         title: 'Expired Post',
-        description: 'This post has expired',
-        image_path: '/images/expired.jpg',
+        content: 'This post has expired',
+        price: '19.99',
         expires_at: yesterday,
         created_at: twoDaysAgo
       })
       .execute();
 
-    const result = await getUserPosts(userId);
+    const result = (await getUserPosts(userId)).items;
 
     expect(result).toHaveLength(1);
     expect(result[0].title).toEqual('Expired Post');
     expect(result[0].expires_at).toEqual(yesterday);
+    expect(result[0].is_active).toBe(false);
   });
 
   it('should only return posts for the specified user', async () => {
@@ -158,22 +160,22 @@ describe('getUserPosts', () => {
         {
           user_id: user1Id,
           title: 'User 1 Post',
-          description: 'Post by user 1',
-          image_path: '/images/user1.jpg',
+          content: 'Post by user 1',
+          price: '19.99',
           expires_at: tomorrow
         },
         {
           user_id: user2Id,
           title: 'User 2 Post',
-          description: 'Post by user 2',
-          image_path: '/images/user2.jpg',
+          content: 'Post by user 2',
+          price: '19.99',
           expires_at: tomorrow
         }
       ])
       .execute();
 
-    const user1Posts = await getUserPosts(user1Id);
-    const user2Posts = await getUserPosts(user2Id);
+    const user1Posts = (await getUserPosts(user1Id)).items;
+    const user2Posts = (await getUserPosts(user2Id)).items;
 
     // Each user should only see their own posts
     expect(user1Posts).toHaveLength(1);
@@ -187,7 +189,7 @@ describe('getUserPosts', () => {
 
   it('should handle non-existent user gracefully', async () => {
     const nonExistentUserId = 999999;
-    const result = await getUserPosts(nonExistentUserId);
+    const result = (await getUserPosts(nonExistentUserId)).items;
 
     expect(result).toHaveLength(0);
   });
@@ -211,14 +213,14 @@ describe('getUserPosts', () => {
       .values({
         user_id: userId,
         title: 'Database Test Post',
-        description: 'Testing database storage',
-        image_path: '/images/dbtest.jpg',
+        content: 'Testing database storage',
+        price: '19.99',
         expires_at: tomorrow
       })
       .execute();
 
     // Fetch using handler
-    const handlerResult = await getUserPosts(userId);
+    const handlerResult = (await getUserPosts(userId)).items;
 
     // Verify directly in database
     const dbPosts = await db.select()
@@ -229,7 +231,108 @@ describe('getUserPosts', () => {
     expect(handlerResult).toHaveLength(1);
     expect(dbPosts).toHaveLength(1);
     expect(handlerResult[0].title).toEqual(dbPosts[0].title);
-    expect(handlerResult[0].description).toEqual(dbPosts[0].description);
-    expect(handlerResult[0].image_path).toEqual(dbPosts[0].image_path);
+    expect(handlerResult[0].content).toEqual(dbPosts[0].content);
+    expect(handlerResult[0].price).toEqual(parseFloat(dbPosts[0].price));
   });
-});
\ No newline at end of file
+
+  describe('paging, filters and sorting', () => {
+    let userId: number;
+    const now = Date.now();
+    const hour = 60 * 60 * 1000;
+
+    beforeEach(async () => {
+      const users = await db.insert(usersTable)
+        .values({
+          email: 'test@example.com',
+          password_hash: 'hashedpassword',
+          phone_number: '1234567890'
+        })
+        .returning()
+        .execute();
+      userId = users[0].id;
+
+      // Five posts created an hour apart; prices and expiries deliberately out of order
+      await db.insert(postsTable)
+        .values([
+          { title: 'A', price: '30.00', created_at: new Date(now - 5 * hour), expires_at: new Date(now + 3 * hour) },
+          { title: 'B', price: '10.00', created_at: new Date(now - 4 * hour), expires_at: new Date(now - hour) },
+          { title: 'C', price: '50.00', created_at: new Date(now - 3 * hour), expires_at: new Date(now + hour) },
+          { title: 'D', price: '20.00', created_at: new Date(now - 2 * hour), expires_at: new Date(now + 2 * hour) },
+          { title: 'E', price: '40.00', created_at: new Date(now - hour), status: 'draft' as const, posted_at: null, expires_at: null }
+        ].map(post => ({ ...post, user_id: userId, content: `Post ${post.title}` })))
+        .execute();
+    });
+
+    it('should page through posts with a cursor', async () => {
+      const first = await getUserPosts(userId, { limit: 2, sort: 'newest' });
+      expect(first.items.map(p => p.title)).toEqual(['D', 'C']);
+      expect(first.nextCursor).not.toBeNull();
+
+      const second = await getUserPosts(userId, { limit: 2, sort: 'newest', cursor: first.nextCursor! });
+      expect(second.items.map(p => p.title)).toEqual(['B', 'A']);
+
+      // The draft was never published and comes last
+      const third = await getUserPosts(userId, { limit: 2, sort: 'newest', cursor: second.nextCursor! });
+      expect(third.items.map(p => p.title)).toEqual(['E']);
+      expect(third.nextCursor).toBeNull();
+    });
+
+    it('should keep paging stable when sort values tie', async () => {
+      await db.update(postsTable).set({ price: '25.00' }).execute();
+
+      const first = await getUserPosts(userId, { limit: 3, sort: 'price_asc' });
+      const second = await getUserPosts(userId, { limit: 3, sort: 'price_asc', cursor: first.nextCursor! });
+
+      const ids = [...first.items, ...second.items].map(p => p.id);
+      expect(ids).toHaveLength(5);
+      expect(new Set(ids).size).toEqual(5);
+      expect(second.nextCursor).toBeNull();
+    });
+
+    it('should sort by price and by expiry', async () => {
+      const priceAsc = await getUserPosts(userId, { limit: 20, sort: 'price_asc' });
+      expect(priceAsc.items.map(p => p.title)).toEqual(['B', 'D', 'A', 'E', 'C']);
+
+      const priceDesc = await getUserPosts(userId, { limit: 20, sort: 'price_desc' });
+      expect(priceDesc.items.map(p => p.title)).toEqual(['C', 'E', 'A', 'D', 'B']);
+
+      // Drafts have no expiry and come last
+      const expiring = await getUserPosts(userId, { limit: 20, sort: 'expiring_soonest' });
+      expect(expiring.items.map(p => p.title)).toEqual(['B', 'C', 'D', 'A', 'E']);
+    });
+
+    it('should filter by status', async () => {
+      const active = await getUserPosts(userId, { limit: 20, sort: 'newest', status: 'active' });
+      expect(active.items.map(p => p.title)).toEqual(['D', 'C', 'A']);
+
+      // Past its expiry but not yet swept by the expiry job
+      const expired = await getUserPosts(userId, { limit: 20, sort: 'newest', status: 'expired' });
+      expect(expired.items.map(p => p.title)).toEqual(['B']);
+
+      const drafts = await getUserPosts(userId, { limit: 20, sort: 'newest', status: 'draft' });
+      expect(drafts.items.map(p => p.title)).toEqual(['E']);
+    });
+
+    it('should filter by price and creation date ranges', async () => {
+      const byPrice = await getUserPosts(userId, { limit: 20, sort: 'price_asc', price_min: 20, price_max: 40 });
+      expect(byPrice.items.map(p => p.title)).toEqual(['D', 'A', 'E']);
+
+      const byDate = await getUserPosts(userId, {
+        limit: 20,
+        sort: 'newest',
+        created_from: new Date(now - 4 * hour),
+        created_to: new Date(now - 2 * hour)
+      });
+      expect(byDate.items.map(p => p.title)).toEqual(['C', 'B']);
+    });
+
+    it('should reject a cursor from another sort order', async () => {
+      const first = await getUserPosts(userId, { limit: 2, sort: 'newest' });
+
+      await expect(getUserPosts(userId, { limit: 2, sort: 'price_asc', cursor: first.nextCursor! }))
+        .rejects.toThrow(/different sort order/i);
+      await expect(getUserPosts(userId, { limit: 2, sort: 'newest', cursor: 'not-a-cursor' }))
+        .rejects.toThrow(/invalid cursor/i);
+    });
+  });
+});
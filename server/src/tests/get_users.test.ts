@@ -0,0 +1,61 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, postsTable } from '../db/schema';
+import { getUsers } from '../handlers/get_users';
+
+describe('getUsers', () => {
+  let userIds: number[];
+
+  beforeEach(async () => {
+    await createDB();
+
+    const now = Date.now();
+    const users = await db.insert(usersTable)
+      .values([
+        { email: 'alice@example.com', password_hash: 'hash', phone_number: '+1111111111', created_at: new Date(now - 3000) },
+        { email: 'bob@example.com', password_hash: 'hash', phone_number: '+2222222222', role: 'moderator', created_at: new Date(now - 2000) },
+        { email: 'carol_99@example.com', password_hash: 'hash', phone_number: '+3333333333', created_at: new Date(now - 1000) }
+      ])
+      .returning()
+      .execute();
+    userIds = users.map(user => user.id);
+
+    await db.insert(postsTable)
+      .values([1, 2].map(i => ({ user_id: userIds[0], title: `Post ${i}`, content: 'Content', price: '5.00' })))
+      .execute();
+  });
+  afterEach(resetDB);
+
+  it('should list users newest first with post counts and no password hashes', async () => {
+    const page = await getUsers();
+
+    expect(page.total).toEqual(3);
+    expect(page.items.map(user => user.email)).toEqual(['carol_99@example.com', 'bob@example.com', 'alice@example.com']);
+    expect(page.items[2].post_count).toEqual(2);
+    expect(page.items[0].post_count).toEqual(0);
+    expect(page.items[0]).not.toHaveProperty('password_hash');
+  });
+
+  it('should search email and phone number literally', async () => {
+    expect((await getUsers({ search: 'BOB', limit: 20, offset: 0 })).items.map(user => user.id)).toEqual([userIds[1]]);
+    expect((await getUsers({ search: '3333', limit: 20, offset: 0 })).items.map(user => user.id)).toEqual([userIds[2]]);
+    // "_" is not a wildcard
+    expect((await getUsers({ search: 'e_', limit: 20, offset: 0 })).total).toEqual(0);
+    expect((await getUsers({ search: 'l_9', limit: 20, offset: 0 })).total).toEqual(1);
+  });
+
+  it('should filter by role', async () => {
+    const page = await getUsers({ role: 'moderator', limit: 20, offset: 0 });
+
+    expect(page.total).toEqual(1);
+    expect(page.items[0].id).toEqual(userIds[1]);
+  });
+
+  it('should page with limit and offset, keeping the full total', async () => {
+    const page = await getUsers({ limit: 2, offset: 2 });
+
+    expect(page.total).toEqual(3);
+    expect(page.items.map(user => user.id)).toEqual([userIds[0]]);
+  });
+});
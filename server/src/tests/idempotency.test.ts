@@ -0,0 +1,153 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, postsTable, creditLedgerTable, idempotencyKeysTable } from '../db/schema';
+import { type CreatePostInput } from '../schema';
+import { createPost } from '../handlers/create_post';
+import { withIdempotency, IDEMPOTENCY_RETENTION_MS } from '../lib/idempotency';
+import { eq } from 'drizzle-orm';
+
+const testUser = {
+  email: 'owner@example.com',
+  password_hash: 'hashed_password',
+  phone_number: '+1234567890',
+  credits: 100
+};
+
+const testInput: CreatePostInput = {
+  title: 'Test Post Title',
+  content: 'This is test content for our post.',
+  price: 29.99,
+  idempotency_key: 'key-1'
+};
+
+describe('withIdempotency', () => {
+  let userId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const userResult = await db.insert(usersTable)
+      .values(testUser)
+      .returning()
+      .execute();
+
+    userId = userResult[0].id;
+  });
+  afterEach(resetDB);
+
+  const runCreatePost = (input: CreatePostInput, ownerId: number = userId) =>
+    withIdempotency(ownerId, 'createPost', input, () => createPost(input, ownerId));
+
+  it('should run the operation once and replay the stored result', async () => {
+    // Second post so a fee is charged
+    await createPost({ ...testInput, title: 'Free first post' }, userId);
+
+    const first = await runCreatePost(testInput);
+    const second = await runCreatePost(testInput);
+
+    expect(second).toEqual(first);
+    expect(second.posted_at).toBeInstanceOf(Date);
+
+    const posts = await db.select().from(postsTable).execute();
+    expect(posts).toHaveLength(2);
+
+    // Charged exactly once
+    const entries = await db.select().from(creditLedgerTable).execute();
+    expect(entries).toHaveLength(1);
+  });
+
+  it('should run again for a different key', async () => {
+    await runCreatePost(testInput);
+    await runCreatePost({ ...testInput, idempotency_key: 'key-2' });
+
+    const posts = await db.select().from(postsTable).execute();
+    expect(posts).toHaveLength(2);
+  });
+
+  it('should always run when no key is given', async () => {
+    const { idempotency_key, ...withoutKey } = testInput;
+
+    await runCreatePost(withoutKey);
+    await runCreatePost(withoutKey);
+
+    const posts = await db.select().from(postsTable).execute();
+    expect(posts).toHaveLength(2);
+
+    const keys = await db.select().from(idempotencyKeysTable).execute();
+    expect(keys).toHaveLength(0);
+  });
+
+  it('should reject a key reused for a different request', async () => {
+    await runCreatePost(testInput);
+
+    await expect(runCreatePost({ ...testInput, title: 'Something else' }))
+      .rejects.toThrow(/different request/i);
+  });
+
+  it('should keep keys separate per user', async () => {
+    const otherUser = await db.insert(usersTable)
+      .values({ ...testUser, email: 'other@example.com' })
+      .returning()
+      .execute();
+
+    await runCreatePost(testInput);
+    const otherResult = await runCreatePost(testInput, otherUser[0].id);
+
+    expect(otherResult.user_id).toEqual(otherUser[0].id);
+
+    const posts = await db.select().from(postsTable).execute();
+    expect(posts).toHaveLength(2);
+  });
+
+  it('should release the key when the operation fails', async () => {
+    await createPost({ ...testInput, title: 'Free first post' }, userId);
+    await db.update(usersTable)
+      .set({ credits: 0 })
+      .where(eq(usersTable.id, userId))
+      .execute();
+
+    await expect(runCreatePost(testInput)).rejects.toThrow(/insufficient credits/i);
+
+    const keys = await db.select().from(idempotencyKeysTable).execute();
+    expect(keys).toHaveLength(0);
+
+    // Retrying the same action after topping up succeeds
+    await db.update(usersTable)
+      .set({ credits: 10 })
+      .where(eq(usersTable.id, userId))
+      .execute();
+
+    const result = await runCreatePost(testInput);
+    expect(result.title).toEqual(testInput.title);
+  });
+
+  it('should report a duplicate that arrives while the first request is running', async () => {
+    await db.insert(idempotencyKeysTable)
+      .values({
+        user_id: userId,
+        operation: 'createPost',
+        key: 'key-1',
+        request_hash: 'in-flight'
+      })
+      .execute();
+
+    await expect(runCreatePost(testInput)).rejects.toThrow();
+
+    const posts = await db.select().from(postsTable).execute();
+    expect(posts).toHaveLength(0);
+  });
+
+  it('should run again once the retention window has passed', async () => {
+    await runCreatePost(testInput);
+
+    await db.update(idempotencyKeysTable)
+      .set({ created_at: new Date(Date.now() - IDEMPOTENCY_RETENTION_MS - 1000) })
+      .execute();
+
+    await runCreatePost(testInput);
+
+    const posts = await db.select().from(postsTable).execute();
+    expect(posts).toHaveLength(2);
+  });
+});
@@ -0,0 +1,83 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, postsTable } from '../db/schema';
+import { type Message } from '../schema';
+import { sendMessage } from '../handlers/send_message';
+import { markConversationRead } from '../handlers/mark_conversation_read';
+
+describe('markConversationRead', () => {
+  let ownerId: number;
+  let buyerId: number;
+  let postId: number;
+  let messages: Message[];
+
+  beforeEach(async () => {
+    await createDB();
+
+    const users = await db.insert(usersTable)
+      .values([
+        { email: 'owner@example.com', password_hash: 'hash', phone_number: '+1111111111' },
+        { email: 'buyer@example.com', password_hash: 'hash', phone_number: '+2222222222' }
+      ])
+      .returning()
+      .execute();
+    ownerId = users[0].id;
+    buyerId = users[1].id;
+
+    const now = new Date();
+    const [post] = await db.insert(postsTable)
+      .values({
+        user_id: ownerId,
+        title: 'Lamp',
+        content: 'Bright',
+        price: '15.00',
+        posted_at: now,
+        expires_at: new Date(now.getTime() + 24 * 60 * 60 * 1000)
+      })
+      .returning()
+      .execute();
+    postId = post.id;
+
+    messages = [];
+    for (let i = 1; i <= 3; i++) {
+      messages.push(await sendMessage({ post_id: post.id, body: `Message ${i}` }, buyerId));
+    }
+  });
+  afterEach(resetDB);
+
+  it('should mark messages read up to the given one and never move backwards', async () => {
+    const conversationId = messages[0].conversation_id;
+
+    const partly = await markConversationRead({ conversation_id: conversationId, message_id: messages[1].id }, ownerId);
+    expect(partly.unread_count).toEqual(1);
+    expect(partly.role).toEqual('owner');
+
+    const all = await markConversationRead({ conversation_id: conversationId, message_id: messages[2].id }, ownerId);
+    expect(all.unread_count).toEqual(0);
+
+    const older = await markConversationRead({ conversation_id: conversationId, message_id: messages[0].id }, ownerId);
+    expect(older.unread_count).toEqual(0);
+  });
+
+  it('should refuse messages from another conversation', async () => {
+    const [otherBuyer] = await db.insert(usersTable)
+      .values({ email: 'other@example.com', password_hash: 'hash', phone_number: '+3333333333' })
+      .returning()
+      .execute();
+    const elsewhere = await sendMessage({ post_id: postId, body: 'Still available?' }, otherBuyer.id);
+
+    await expect(markConversationRead({ conversation_id: messages[0].conversation_id, message_id: elsewhere.id }, ownerId))
+      .rejects.toThrow(/not found/);
+  });
+
+  it('should refuse people outside the conversation', async () => {
+    const [outsider] = await db.insert(usersTable)
+      .values({ email: 'outsider@example.com', password_hash: 'hash', phone_number: '+3333333333' })
+      .returning()
+      .execute();
+
+    await expect(markConversationRead({ conversation_id: messages[0].conversation_id, message_id: messages[0].id }, outsider.id))
+      .rejects.toThrow(/not part of conversation/);
+  });
+});
@@ -0,0 +1,170 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import {
+  usersTable,
+  postsTable,
+  postReportsTable,
+  creditLedgerTable,
+  moderationActionsTable,
+  notificationsTable
+} from '../db/schema';
+import { moderatePost } from '../handlers/moderate_post';
+import { loginUser, generateSalt, hashPassword } from '../handlers/login_user';
+import { eq } from 'drizzle-orm';
+
+describe('moderatePost', () => {
+  let ownerId: number;
+  let reporterId: number;
+  let moderatorId: number;
+  let postId: number;
+  let otherPostId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const salt = generateSalt();
+    const users = await db.insert(usersTable)
+      .values([
+        { email: 'owner@example.com', password_hash: `${hashPassword('secret123', salt)}:${salt}`, phone_number: '+1111111111', credits: 10 },
+        { email: 'reporter@example.com', password_hash: 'hash', phone_number: '+2222222222' },
+        { email: 'moderator@example.com', password_hash: 'hash', phone_number: '+3333333333' }
+      ])
+      .returning()
+      .execute();
+    [ownerId, reporterId, moderatorId] = users.map(user => user.id);
+
+    const now = new Date();
+    const posts = await db.insert(postsTable)
+      .values(['Cheap phones', 'Old bike'].map(title => ({
+        user_id: ownerId,
+        title,
+        content: 'For sale',
+        price: '10.00',
+        posted_at: now,
+        expires_at: new Date(now.getTime() + 24 * 60 * 60 * 1000),
+        auto_renew: true
+      })))
+      .returning()
+      .execute();
+    [postId, otherPostId] = posts.map(post => post.id);
+
+    await db.insert(creditLedgerTable)
+      .values({ user_id: ownerId, amount: -5, entry_type: 'post_fee', reason: 'Publication fee', post_id: postId })
+      .execute();
+    await db.insert(postReportsTable)
+      .values([
+        { post_id: postId, reporter_id: reporterId, reason: 'scam' },
+        { post_id: otherPostId, reporter_id: reporterId, reason: 'spam' }
+      ])
+      .execute();
+  });
+  afterEach(resetDB);
+
+  const reportsOf = (id: number) =>
+    db.select().from(postReportsTable).where(eq(postReportsTable.post_id, id)).execute();
+
+  const ownerNotifications = () =>
+    db.select().from(notificationsTable).where(eq(notificationsTable.user_id, ownerId)).execute();
+
+  it('should dismiss the reports and show a hidden post again', async () => {
+    await db.update(postsTable).set({ hidden_at: new Date() }).where(eq(postsTable.id, postId)).execute();
+
+    const action = await moderatePost({ post_id: postId, action: 'dismiss' }, moderatorId);
+
+    expect(action.action).toEqual('dismiss');
+    expect(action.moderator_id).toEqual(moderatorId);
+    const [post] = await db.select().from(postsTable).where(eq(postsTable.id, postId)).execute();
+    expect(post.hidden_at).toBeNull();
+    const [report] = await reportsOf(postId);
+    expect(report.status).toEqual('dismissed');
+    expect(report.resolved_by).toEqual(moderatorId);
+    expect(report.resolved_at).toBeInstanceOf(Date);
+    // Other posts' reports are left alone
+    expect((await reportsOf(otherPostId))[0].status).toEqual('open');
+    expect((await ownerNotifications())[0].message).toMatch(/visible again/);
+  });
+
+  it('should hide a post and close its reports', async () => {
+    const action = await moderatePost({ post_id: postId, action: 'hide', note: 'Misleading' }, moderatorId);
+
+    expect(action.note).toEqual('Misleading');
+    const [post] = await db.select().from(postsTable).where(eq(postsTable.id, postId)).execute();
+    expect(post.hidden_at).toBeInstanceOf(Date);
+    expect(post.status).toEqual('active');
+    expect((await reportsOf(postId))[0].status).toEqual('actioned');
+    expect((await ownerNotifications())[0].message).toMatch(/hidden by a moderator\. Reason: Misleading/);
+  });
+
+  it('should remove a post and refund its listing fee once', async () => {
+    const action = await moderatePost({ post_id: postId, action: 'remove' }, moderatorId);
+
+    expect(action.refunded_credits).toEqual(5);
+    const [post] = await db.select().from(postsTable).where(eq(postsTable.id, postId)).execute();
+    expect(post.status).toEqual('removed');
+    expect(post.auto_renew).toBe(false);
+    const [owner] = await db.select().from(usersTable).where(eq(usersTable.id, ownerId)).execute();
+    expect(owner.credits).toEqual(15);
+    const refunds = await db.select().from(creditLedgerTable).where(eq(creditLedgerTable.entry_type, 'refund')).execute();
+    expect(refunds).toHaveLength(1);
+    expect(refunds[0].amount).toEqual(5);
+
+    await expect(moderatePost({ post_id: postId, action: 'remove' }, moderatorId)).rejects.toThrow(/already been removed/);
+  });
+
+  it('should remove a free post without a refund', async () => {
+    const action = await moderatePost({ post_id: otherPostId, action: 'remove' }, moderatorId);
+
+    expect(action.refunded_credits).toBeNull();
+    const [owner] = await db.select().from(usersTable).where(eq(usersTable.id, ownerId)).execute();
+    expect(owner.credits).toEqual(10);
+  });
+
+  it('should ban the owner, hide all their posts and remove this one without a refund', async () => {
+    const action = await moderatePost({ post_id: postId, action: 'ban', note: 'Repeated scams' }, moderatorId);
+
+    expect(action.action).toEqual('ban');
+    expect(action.refunded_credits).toBeNull();
+    const [owner] = await db.select().from(usersTable).where(eq(usersTable.id, ownerId)).execute();
+    expect(owner.banned_at).toBeInstanceOf(Date);
+    expect(owner.credits).toEqual(10);
+
+    const posts = await db.select().from(postsTable).orderBy(postsTable.id).execute();
+    expect(posts.map(post => post.status)).toEqual(['removed', 'active']);
+    expect(posts.every(post => post.hidden_at !== null)).toBe(true);
+    expect((await reportsOf(otherPostId))[0].status).toEqual('actioned');
+
+    await expect(loginUser({ email: 'owner@example.com', password: 'secret123' })).rejects.toThrow(/suspended/);
+
+    // Dismissing reports later does not bring a banned user's post back
+    await db.insert(postReportsTable).values({ post_id: otherPostId, reporter_id: reporterId, reason: 'spam' }).execute();
+    await moderatePost({ post_id: otherPostId, action: 'dismiss' }, moderatorId);
+    const [other] = await db.select().from(postsTable).where(eq(postsTable.id, otherPostId)).execute();
+    expect(other.hidden_at).toBeInstanceOf(Date);
+  });
+
+  it('should not ban moderators or admins', async () => {
+    await db.update(usersTable).set({ role: 'moderator' }).where(eq(usersTable.id, ownerId)).execute();
+
+    await expect(moderatePost({ post_id: postId, action: 'ban' }, moderatorId)).rejects.toThrow(/cannot be banned/);
+    const [owner] = await db.select().from(usersTable).where(eq(usersTable.id, ownerId)).execute();
+    expect(owner.banned_at).toBeNull();
+  });
+
+  it('should record every action', async () => {
+    await moderatePost({ post_id: postId, action: 'hide' }, moderatorId);
+    await moderatePost({ post_id: postId, action: 'dismiss' }, moderatorId);
+
+    const actions = await db.select().from(moderationActionsTable).orderBy(moderationActionsTable.id).execute();
+    expect(actions.map(action => action.action)).toEqual(['hide', 'dismiss']);
+    expect(actions.every(action => action.post_id === postId && action.target_user_id === ownerId)).toBe(true);
+  });
+
+  it('should reject missing posts and moderating your own post', async () => {
+    await expect(moderatePost({ post_id: 99999, action: 'hide' }, moderatorId)).rejects.toThrow(/not found/);
+    await expect(moderatePost({ post_id: postId, action: 'hide' }, ownerId)).rejects.toThrow(/own post/);
+
+    const actions = await db.select().from(moderationActionsTable).execute();
+    expect(actions).toHaveLength(0);
+  });
+});
@@ -0,0 +1,109 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, creditLedgerTable } from '../db/schema';
+import { type CreatePostInput } from '../schema';
+import { createPost } from '../handlers/create_post';
+import { publishPost } from '../handlers/publish_post';
+import { getPublicPosts } from '../handlers/get_public_posts';
+import { eq } from 'drizzle-orm';
+
+const testUser = {
+  email: 'owner@example.com',
+  password_hash: 'hashed_password',
+  phone_number: '+1234567890',
+  credits: 10
+};
+
+const draftInput: CreatePostInput = {
+  title: 'Draft Post',
+  content: 'Still working on this',
+  price: 15,
+  duration: '6h',
+  draft: true
+};
+
+describe('publishPost', () => {
+  let userId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const userResult = await db.insert(usersTable)
+      .values(testUser)
+      .returning()
+      .execute();
+
+    userId = userResult[0].id;
+  });
+  afterEach(resetDB);
+
+  const getCredits = async () => {
+    const [user] = await db.select().from(usersTable).where(eq(usersTable.id, userId)).execute();
+    return user.credits;
+  };
+
+  it('should keep drafts out of the public list', async () => {
+    await createPost(draftInput, userId);
+
+    expect((await getPublicPosts()).items).toHaveLength(0);
+  });
+
+  it('should publish a first draft for free', async () => {
+    const draft = await createPost(draftInput, userId);
+
+    const result = await publishPost({ id: draft.id }, userId);
+
+    expect(result.status).toEqual('active');
+    expect(result.is_active).toBe(true);
+    expect(await getCredits()).toEqual(10);
+  });
+
+  it('should charge the fee and start the window when published', async () => {
+    await createPost({ ...draftInput, title: 'Free Post', draft: false }, userId);
+    const draft = await createPost(draftInput, userId);
+
+    const before = new Date();
+    const result = await publishPost({ id: draft.id }, userId);
+
+    expect(result.posted_at!.getTime()).toBeGreaterThanOrEqual(before.getTime());
+    expect(result.expires_at!.getTime()).toEqual(result.posted_at!.getTime() + 6 * 60 * 60 * 1000);
+    expect(await getCredits()).toEqual(7);
+
+    const entries = await db.select()
+      .from(creditLedgerTable)
+      .where(eq(creditLedgerTable.post_id, draft.id))
+      .execute();
+    expect(entries.map(e => [e.entry_type, e.amount])).toEqual([['post_fee', -3]]);
+
+    const publicPosts = (await getPublicPosts()).items;
+    expect(publicPosts.map(p => p.id)).toContain(draft.id);
+  });
+
+  it('should let the duration be picked at publish time', async () => {
+    await createPost({ ...draftInput, title: 'Free Post', draft: false }, userId);
+    const draft = await createPost(draftInput, userId);
+
+    const result = await publishPost({ id: draft.id, duration: '24h' }, userId);
+
+    expect(result.duration).toEqual('24h');
+    expect(await getCredits()).toEqual(5);
+  });
+
+  it('should leave the draft alone without enough credits', async () => {
+    await createPost({ ...draftInput, title: 'Free Post', draft: false }, userId);
+    const draft = await createPost(draftInput, userId);
+
+    await expect(publishPost({ id: draft.id, duration: '7d' }, userId)).rejects.toThrow(/insufficient credits/i);
+
+    expect(await getCredits()).toEqual(10);
+    const publicPosts = (await getPublicPosts()).items;
+    expect(publicPosts.map(p => p.id)).not.toContain(draft.id);
+  });
+
+  it('should reject posts that are not drafts', async () => {
+    const post = await createPost({ ...draftInput, draft: false }, userId);
+
+    await expect(publishPost({ id: post.id }, userId)).rejects.toThrow(/not a draft/i);
+  });
+});
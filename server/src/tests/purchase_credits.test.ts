@@ -1,10 +1,13 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { usersTable, creditPurchasesTable } from '../db/schema';
+import { usersTable, creditPackagesTable, creditPurchasesTable, creditLedgerTable } from '../db/schema';
 import { type PurchaseCreditsInput } from '../schema';
 import { purchaseCredits } from '../handlers/purchase_credits';
 import { eq } from 'drizzle-orm';
+import { LocalPaymentGateway, TEST_CARDS, type PaymentGateway } from '../lib/payment_gateway';
+import { withIdempotency } from '../lib/idempotency';
+import { reconcilePurchases, PENDING_RECONCILE_AFTER_MS } from '../handlers/reconcile_purchases';
 
 // Test user data
 const testUser = {
@@ -14,9 +17,17 @@ const testUser = {
   credits: 10 // Starting with 10 credits
 };
 
+// Packages on sale during the tests
+const testPackages = [
+  { id: 1, name: 'Popular', credits: 25, bonus_credits: 5, price: '4.50' },
+  { id: 2, name: 'Value', credits: 50, bonus_credits: 15, price: '8.00' },
+  { id: 3, name: 'Pro', credits: 100, bonus_credits: 35, price: '15.00' },
+  { id: 4, name: 'Retired', credits: 5, bonus_credits: 0, price: '1.00', is_active: false }
+];
+
 // Test input for credit card payment
 const creditCardInput: PurchaseCreditsInput = {
-  credits: 25,
+  package_id: 1,
   payment_method: 'credit_card',
   payment_details: {
     card_number: '4111111111111111'
@@ -25,7 +36,7 @@ const creditCardInput: PurchaseCreditsInput = {
 
 // Test input for PayPal payment
 const paypalInput: PurchaseCreditsInput = {
-  credits: 50,
+  package_id: 2,
   payment_method: 'paypal',
   payment_details: {
     paypal_email: 'user@paypal.com'
@@ -34,7 +45,7 @@ const paypalInput: PurchaseCreditsInput = {
 
 // Test input for bank transfer
 const bankTransferInput: PurchaseCreditsInput = {
-  credits: 100,
+  package_id: 3,
   payment_method: 'bank_transfer',
   payment_details: {
     bank_account: '1234567890'
@@ -54,6 +65,10 @@ describe('purchaseCredits', () => {
       .execute();
     
     userId = userResult[0].id;
+
+    await db.insert(creditPackagesTable)
+      .values(testPackages)
+      .execute();
   });
 
   afterEach(resetDB);
@@ -63,8 +78,10 @@ describe('purchaseCredits', () => {
 
     // Verify purchase record
     expect(result.user_id).toEqual(userId);
+    expect(result.package_id).toEqual(1);
     expect(result.credits_purchased).toEqual(25);
-    expect(result.amount_paid).toEqual(5); // 25 credits / 5 credits per dollar = $5
+    expect(result.bonus_credits).toEqual(5);
+    expect(result.amount_paid).toEqual(4.5); // Package price
     expect(result.payment_method).toEqual('credit_card');
     expect(result.transaction_id).toMatch(/^cc_\d+_[a-z0-9]+$/);
     expect(result.id).toBeDefined();
@@ -76,7 +93,7 @@ describe('purchaseCredits', () => {
     const result = await purchaseCredits(paypalInput, userId);
 
     expect(result.credits_purchased).toEqual(50);
-    expect(result.amount_paid).toEqual(10); // 50 credits / 5 credits per dollar = $10
+    expect(result.amount_paid).toEqual(8); // Package price
     expect(result.payment_method).toEqual('paypal');
     expect(result.transaction_id).toMatch(/^pp_\d+_[a-z0-9]+$/);
   });
@@ -85,14 +102,14 @@ describe('purchaseCredits', () => {
     const result = await purchaseCredits(bankTransferInput, userId);
 
     expect(result.credits_purchased).toEqual(100);
-    expect(result.amount_paid).toEqual(20); // 100 credits / 5 credits per dollar = $20
+    expect(result.amount_paid).toEqual(15); // Package price
     expect(result.payment_method).toEqual('bank_transfer');
     expect(result.transaction_id).toMatch(/^bt_\d+_[a-z0-9]+$/);
   });
 
   it('should update user credit balance correctly', async () => {
     const initialCredits = 10;
-    const creditsToPurchase = 25;
+    const creditsToPurchase = 25 + 5; // Base credits plus bonus
 
     await purchaseCredits(creditCardInput, userId);
 
@@ -103,7 +120,7 @@ describe('purchaseCredits', () => {
       .execute();
 
     const updatedUser = updatedUsers[0];
-    expect(updatedUser.credits).toEqual(initialCredits + creditsToPurchase); // 10 + 25 = 35
+    expect(updatedUser.credits).toEqual(initialCredits + creditsToPurchase); // 10 + 30 = 40
     expect(updatedUser.updated_at).toBeInstanceOf(Date);
   });
 
@@ -120,32 +137,36 @@ describe('purchaseCredits', () => {
     const savedPurchase = purchases[0];
     expect(savedPurchase.user_id).toEqual(userId);
     expect(savedPurchase.credits_purchased).toEqual(25);
-    expect(parseFloat(savedPurchase.amount_paid)).toEqual(5);
+    expect(parseFloat(savedPurchase.amount_paid)).toEqual(4.5);
     expect(savedPurchase.payment_method).toEqual('credit_card');
     expect(savedPurchase.transaction_id).toMatch(/^cc_\d+_[a-z0-9]+$/);
     expect(savedPurchase.created_at).toBeInstanceOf(Date);
   });
 
-  it('should calculate correct amount for different credit quantities', async () => {
-    // Test 1 credit = $0.20
-    const smallInput: PurchaseCreditsInput = {
-      credits: 1,
-      payment_method: 'credit_card',
-      payment_details: { card_number: '4111111111111111' }
-    };
+  it('should take the price from the package rather than the client', async () => {
+    const result = await purchaseCredits(bankTransferInput, userId);
+
+    const purchases = await db.select()
+      .from(creditPurchasesTable)
+      .where(eq(creditPurchasesTable.id, result.id))
+      .execute();
 
-    const smallResult = await purchaseCredits(smallInput, userId);
-    expect(smallResult.amount_paid).toEqual(0.2); // 1 / 5 = 0.2
+    expect(parseFloat(purchases[0].amount_paid)).toEqual(15);
+    expect(purchases[0].credits_purchased).toEqual(100);
+    expect(purchases[0].bonus_credits).toEqual(35);
+  });
 
-    // Test 150 credits = $30
-    const largeInput: PurchaseCreditsInput = {
-      credits: 150,
-      payment_method: 'paypal',
-      payment_details: { paypal_email: 'test@paypal.com' }
-    };
+  it('should reject unknown packages', async () => {
+    await expect(purchaseCredits({ ...creditCardInput, package_id: 999 }, userId))
+      .rejects.toThrow(/credit package not found/i);
 
-    const largeResult = await purchaseCredits(largeInput, userId);
-    expect(largeResult.amount_paid).toEqual(30); // 150 / 5 = 30
+    const purchases = await db.select().from(creditPurchasesTable).execute();
+    expect(purchases).toHaveLength(0);
+  });
+
+  it('should reject inactive packages', async () => {
+    await expect(purchaseCredits({ ...creditCardInput, package_id: 4 }, userId))
+      .rejects.toThrow(/credit package not found/i);
   });
 
   it('should throw error for non-existent user', async () => {
@@ -157,7 +178,7 @@ describe('purchaseCredits', () => {
 
   it('should throw error for credit card payment without card number', async () => {
     const invalidInput: PurchaseCreditsInput = {
-      credits: 10,
+      package_id: 1,
       payment_method: 'credit_card',
       payment_details: {} // Missing card_number
     };
@@ -168,7 +189,7 @@ describe('purchaseCredits', () => {
 
   it('should throw error for PayPal payment without email', async () => {
     const invalidInput: PurchaseCreditsInput = {
-      credits: 10,
+      package_id: 1,
       payment_method: 'paypal',
       payment_details: {} // Missing paypal_email
     };
@@ -179,7 +200,7 @@ describe('purchaseCredits', () => {
 
   it('should throw error for bank transfer without account', async () => {
     const invalidInput: PurchaseCreditsInput = {
-      credits: 10,
+      package_id: 1,
       payment_method: 'bank_transfer',
       payment_details: {} // Missing bank_account
     };
@@ -190,7 +211,7 @@ describe('purchaseCredits', () => {
 
   it('should throw error for invalid payment method', async () => {
     const invalidInput = {
-      credits: 10,
+      package_id: 1,
       payment_method: 'invalid_method',
       payment_details: {}
     } as any; // TypeScript bypass for testing invalid input
@@ -201,10 +222,10 @@ describe('purchaseCredits', () => {
 
   it('should handle multiple purchases for same user', async () => {
     // First purchase
-    await purchaseCredits(creditCardInput, userId); // 25 credits
+    await purchaseCredits(creditCardInput, userId); // 25 + 5 bonus credits
     
     // Second purchase
-    await purchaseCredits(paypalInput, userId); // 50 credits
+    await purchaseCredits(paypalInput, userId); // 50 + 15 bonus credits
 
     // Check final credit balance
     const users = await db.select()
@@ -213,7 +234,7 @@ describe('purchaseCredits', () => {
       .execute();
 
     const user = users[0];
-    expect(user.credits).toEqual(85); // 10 (initial) + 25 + 50 = 85
+    expect(user.credits).toEqual(105); // 10 (initial) + 30 + 65 = 105
 
     // Check both purchase records exist
     const purchases = await db.select()
@@ -227,4 +248,145 @@ describe('purchaseCredits', () => {
     const transactionIds = purchases.map(p => p.transaction_id);
     expect(new Set(transactionIds).size).toEqual(2); // All unique
   });
-});
\ No newline at end of file
+
+  it('should mark successful purchases as succeeded and record a ledger entry', async () => {
+    const result = await purchaseCredits(creditCardInput, userId);
+
+    expect(result.status).toEqual('succeeded');
+    expect(result.failure_reason).toBeNull();
+
+    const entries = await db.select()
+      .from(creditLedgerTable)
+      .where(eq(creditLedgerTable.user_id, userId))
+      .execute();
+
+    expect(entries).toHaveLength(1);
+    expect(entries[0].amount).toEqual(30); // Bonus credits are included
+    expect(entries[0].entry_type).toEqual('purchase');
+    expect(entries[0].purchase_id).toEqual(result.id);
+  });
+
+  it('should record declined payments as failed without adding credits', async () => {
+    const result = await purchaseCredits({
+      ...creditCardInput,
+      payment_details: { card_number: TEST_CARDS.declined }
+    }, userId);
+
+    expect(result.status).toEqual('failed');
+    expect(result.failure_reason).toMatch(/declined/i);
+    expect(result.transaction_id).toMatch(/^cc_\d+_[a-z0-9]+$/);
+
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, userId))
+      .execute();
+    expect(users[0].credits).toEqual(10);
+
+    const entries = await db.select().from(creditLedgerTable).execute();
+    expect(entries).toHaveLength(0);
+  });
+
+  it('should leave payments that need authentication in requires_action', async () => {
+    const result = await purchaseCredits({
+      ...creditCardInput,
+      payment_details: { card_number: TEST_CARDS.requiresAction }
+    }, userId);
+
+    expect(result.status).toEqual('requires_action');
+
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, userId))
+      .execute();
+    expect(users[0].credits).toEqual(10);
+  });
+
+  it('should let the gateway drop charges once their purchase has an outcome', async () => {
+    const gateway = new LocalPaymentGateway();
+
+    const succeeded = await purchaseCredits(creditCardInput, userId, gateway);
+    const waiting = await purchaseCredits({
+      ...creditCardInput,
+      payment_details: { card_number: TEST_CARDS.requiresAction }
+    }, userId, gateway);
+
+    expect(await gateway.lookup(succeeded.id)).toBeNull();
+    expect((await gateway.lookup(waiting.id))?.status).toEqual('requires_action');
+  });
+
+  it('should give the same transaction id for the same purchase', async () => {
+    const result = await purchaseCredits(creditCardInput, userId);
+
+    const replay = await new LocalPaymentGateway().charge({
+      reference: result.id,
+      amount: result.amount_paid,
+      payment_method: 'credit_card',
+      payment_details: creditCardInput.payment_details
+    });
+
+    expect(replay.transaction_id).toEqual(result.transaction_id!);
+  });
+
+  it('should mark the purchase failed when the gateway errors', async () => {
+    const brokenGateway: PaymentGateway = {
+      charge: async () => {
+        throw new Error('Gateway timeout');
+      },
+      lookup: async () => null,
+      confirm: async () => null,
+      release: () => {}
+    };
+
+    await expect(purchaseCredits(creditCardInput, userId, brokenGateway)).rejects.toThrow(/gateway timeout/i);
+
+    const purchases = await db.select()
+      .from(creditPurchasesTable)
+      .where(eq(creditPurchasesTable.user_id, userId))
+      .execute();
+
+    expect(purchases).toHaveLength(1);
+    expect(purchases[0].status).toEqual('failed');
+
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, userId))
+      .execute();
+    expect(users[0].credits).toEqual(10);
+  });
+
+  it('should keep a charged purchase for reconciliation when recording it fails, without charging again', async () => {
+    const gateway = new LocalPaymentGateway();
+    let charges = 0;
+    const flakyGateway: PaymentGateway = {
+      charge: async (request) => {
+        charges++;
+        // Push the balance so low that adding the credits afterwards fails
+        await db.update(usersTable).set({ credits: -1000 }).where(eq(usersTable.id, userId)).execute();
+        return gateway.charge(request);
+      },
+      lookup: (reference) => gateway.lookup(reference),
+      confirm: (reference) => gateway.confirm(reference),
+      release: (reference) => gateway.release(reference)
+    };
+    const input = { ...creditCardInput, idempotency_key: 'purchase-1' };
+    const run = () => withIdempotency(userId, 'purchaseCredits', input, () => purchaseCredits(input, userId, flakyGateway));
+
+    const first = await run();
+    const retry = await run();
+
+    expect(first.status).toEqual('pending');
+    expect(retry.id).toEqual(first.id);
+    expect(charges).toEqual(1);
+
+    // Once the ledger can take the credits again, the job finishes the purchase from the gateway
+    await db.update(usersTable).set({ credits: 10 }).where(eq(usersTable.id, userId)).execute();
+    const settled = await reconcilePurchases(new Date(Date.now() + PENDING_RECONCILE_AFTER_MS), flakyGateway);
+
+    expect(settled).toEqual([first.id]);
+    const [purchase] = await db.select().from(creditPurchasesTable).where(eq(creditPurchasesTable.id, first.id)).execute();
+    expect(purchase.status).toEqual('succeeded');
+    expect(purchase.transaction_id).not.toBeNull();
+    const [user] = await db.select().from(usersTable).where(eq(usersTable.id, userId)).execute();
+    expect(user.credits).toEqual(40);
+  });
+});
@@ -0,0 +1,100 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, postsTable, creditLedgerTable, postImagesTable } from '../db/schema';
+import { createPost } from '../handlers/create_post';
+import { deletePost } from '../handlers/delete_post';
+import { purgeDeletedPosts } from '../handlers/purge_deleted_posts';
+import { TRASH_RETENTION_MS } from '../lib/posts';
+import { SCHEDULED_JOBS } from '../lib/scheduler';
+import { uploadImage } from '../handlers/upload_image';
+import { LocalFileStorage } from '../lib/storage';
+import { eq } from 'drizzle-orm';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import sharp from 'sharp';
+
+const testUser = {
+  email: 'owner@example.com',
+  password_hash: 'hashed_password',
+  phone_number: '+1234567890',
+  credits: 100
+};
+
+describe('purgeDeletedPosts', () => {
+  let userId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const userResult = await db.insert(usersTable)
+      .values(testUser)
+      .returning()
+      .execute();
+
+    userId = userResult[0].id;
+
+    // Use up the free first post so later posts pay a fee
+    await createPost({ title: 'Free Post', content: 'Free', price: 1 }, userId);
+  });
+  afterEach(resetDB);
+
+  it('should purge posts past retention and keep their ledger entries', async () => {
+    const post = await createPost({ title: 'Paid Post', content: 'Paid for', price: 5 }, userId);
+    await deletePost({ id: post.id }, userId);
+    const [{ deleted_at }] = await db.select().from(postsTable).where(eq(postsTable.id, post.id)).execute();
+
+    const purged = await purgeDeletedPosts(new Date(deleted_at!.getTime() + TRASH_RETENTION_MS));
+
+    expect(purged).toEqual([post.id]);
+    expect(await db.select().from(postsTable).where(eq(postsTable.id, post.id)).execute()).toHaveLength(0);
+
+    const fees = await db.select()
+      .from(creditLedgerTable)
+      .where(eq(creditLedgerTable.entry_type, 'post_fee'))
+      .execute();
+    expect(fees).toHaveLength(1);
+    expect(fees[0].post_id).toBeNull();
+    expect(fees[0].amount).toEqual(-5);
+    expect(fees[0].reason).toContain('Paid Post');
+  });
+
+  it('should keep posts still within the restore window', async () => {
+    const post = await createPost({ title: 'Recent', content: 'Just deleted', price: 5 }, userId);
+    await deletePost({ id: post.id }, userId);
+
+    expect(await purgeDeletedPosts()).toEqual([]);
+    expect(await db.select().from(postsTable).where(eq(postsTable.id, post.id)).execute()).toHaveLength(1);
+  });
+
+  it('should never purge posts that are not deleted', async () => {
+    const farFuture = new Date(Date.now() + 10 * TRASH_RETENTION_MS);
+
+    expect(await purgeDeletedPosts(farFuture)).toEqual([]);
+  });
+
+  it('should remove the image files of purged posts', async () => {
+    const uploadDir = await mkdtemp(join(tmpdir(), 'uploads-'));
+    const storage = new LocalFileStorage(uploadDir);
+    try {
+      const data = (await sharp({ create: { width: 40, height: 40, channels: 3, background: '#664422' } }).png().toBuffer()).toString('base64');
+      const image = await uploadImage({ data, content_type: 'image/png' }, userId, storage);
+      const post = await createPost({ title: 'Photo Post', content: 'With a photo', price: 5, image_ids: [image.id] }, userId);
+      await deletePost({ id: post.id }, userId);
+      const [{ deleted_at }] = await db.select().from(postsTable).where(eq(postsTable.id, post.id)).execute();
+
+      expect(await purgeDeletedPosts(new Date(deleted_at!.getTime() + TRASH_RETENTION_MS), storage)).toEqual([post.id]);
+
+      expect(await db.select().from(postImagesTable).execute()).toHaveLength(0);
+      expect(await storage.get(image.urls.original.replace('/images/', ''))).toBeNull();
+      expect(await storage.get(image.urls.thumbnail.replace('/images/', ''))).toBeNull();
+    } finally {
+      await rm(uploadDir, { recursive: true, force: true });
+    }
+  });
+
+  it('should be run by the scheduler', () => {
+    expect(SCHEDULED_JOBS.map(job => job.name)).toContain('purgeDeletedPosts');
+  });
+});
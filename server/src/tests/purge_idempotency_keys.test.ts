@@ -0,0 +1,51 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, idempotencyKeysTable } from '../db/schema';
+import { purgeIdempotencyKeys } from '../handlers/purge_idempotency_keys';
+import { IDEMPOTENCY_RETENTION_MS } from '../lib/idempotency';
+import { SCHEDULED_JOBS } from '../lib/scheduler';
+
+describe('purgeIdempotencyKeys', () => {
+  let userId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const [user] = await db.insert(usersTable)
+      .values({ email: 'owner@example.com', password_hash: 'hash', phone_number: '+1234567890' })
+      .returning()
+      .execute();
+    userId = user.id;
+  });
+  afterEach(resetDB);
+
+  const insertKey = async (key: string, ageMs: number) => {
+    const [stored] = await db.insert(idempotencyKeysTable)
+      .values({
+        user_id: userId,
+        operation: 'createPost',
+        key,
+        request_hash: 'hash',
+        response: '{}',
+        created_at: new Date(Date.now() - ageMs)
+      })
+      .returning()
+      .execute();
+    return stored;
+  };
+
+  it('should remove keys past retention and keep the rest', async () => {
+    const expired = await insertKey('old', IDEMPOTENCY_RETENTION_MS + 1000);
+    const recent = await insertKey('new', 1000);
+
+    expect(await purgeIdempotencyKeys()).toEqual([expired.id]);
+
+    const remaining = await db.select().from(idempotencyKeysTable).execute();
+    expect(remaining.map(key => key.id)).toEqual([recent.id]);
+  });
+
+  it('should be run by the scheduler', () => {
+    expect(SCHEDULED_JOBS.map(job => job.name)).toContain('purgeIdempotencyKeys');
+  });
+});
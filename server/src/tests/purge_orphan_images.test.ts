@@ -0,0 +1,71 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import sharp from 'sharp';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, postImagesTable } from '../db/schema';
+import { uploadImage } from '../handlers/upload_image';
+import { createPost } from '../handlers/create_post';
+import { purgeOrphanImages, ORPHAN_IMAGE_RETENTION_MS } from '../handlers/purge_orphan_images';
+import { LocalFileStorage } from '../lib/storage';
+import { SCHEDULED_JOBS } from '../lib/scheduler';
+
+const testUser = {
+  email: 'uploader@example.com',
+  password_hash: 'hashed_password',
+  phone_number: '+1234567890'
+};
+
+describe('purgeOrphanImages', () => {
+  let userId: number;
+  let uploadDir: string;
+  let storage: LocalFileStorage;
+
+  const upload = async () => uploadImage({
+    data: (await sharp({ create: { width: 40, height: 40, channels: 3, background: '#224466' } }).png().toBuffer()).toString('base64'),
+    content_type: 'image/png'
+  }, userId, storage);
+
+  beforeEach(async () => {
+    await createDB();
+
+    const userResult = await db.insert(usersTable)
+      .values(testUser)
+      .returning()
+      .execute();
+
+    userId = userResult[0].id;
+    uploadDir = await mkdtemp(join(tmpdir(), 'uploads-'));
+    storage = new LocalFileStorage(uploadDir);
+  });
+  afterEach(async () => {
+    await rm(uploadDir, { recursive: true, force: true });
+    await resetDB();
+  });
+
+  it('should remove stale unattached uploads and their files', async () => {
+    const orphan = await upload();
+    const attached = await upload();
+    await createPost({ title: 'Kept', content: 'Has a photo', price: 5, image_ids: [attached.id] }, userId);
+
+    const purged = await purgeOrphanImages(new Date(orphan.created_at.getTime() + ORPHAN_IMAGE_RETENTION_MS), storage);
+
+    expect(purged).toEqual([orphan.id]);
+    expect(await storage.get(orphan.urls.original.replace('/images/', ''))).toBeNull();
+    expect(await storage.get(attached.urls.original.replace('/images/', ''))).not.toBeNull();
+    const remaining = await db.select().from(postImagesTable).execute();
+    expect(remaining.map(image => image.id)).toEqual([attached.id]);
+  });
+
+  it('should leave recent uploads alone', async () => {
+    await upload();
+
+    expect(await purgeOrphanImages(new Date(), storage)).toEqual([]);
+  });
+
+  it('should be registered with the scheduler', () => {
+    expect(SCHEDULED_JOBS.map(job => job.name)).toContain('purgeOrphanImages');
+  });
+});
@@ -0,0 +1,116 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, creditPackagesTable, creditPurchasesTable, creditLedgerTable, notificationsTable } from '../db/schema';
+import { purchaseCredits } from '../handlers/purchase_credits';
+import { reconcilePurchases, PENDING_RECONCILE_AFTER_MS, REQUIRES_ACTION_TIMEOUT_MS } from '../handlers/reconcile_purchases';
+import { LocalPaymentGateway, TEST_CARDS } from '../lib/payment_gateway';
+import { SCHEDULED_JOBS } from '../lib/scheduler';
+import { eq } from 'drizzle-orm';
+
+describe('reconcilePurchases', () => {
+  let userId: number;
+  let gateway: LocalPaymentGateway;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const [user] = await db.insert(usersTable)
+      .values({ email: 'buyer@example.com', password_hash: 'hash', phone_number: '+1111111111', credits: 10 })
+      .returning()
+      .execute();
+    userId = user.id;
+
+    await db.insert(creditPackagesTable)
+      .values({ id: 1, name: 'Popular', credits: 25, bonus_credits: 5, price: '4.50' })
+      .execute();
+    gateway = new LocalPaymentGateway();
+  });
+  afterEach(resetDB);
+
+  // A purchase row the process gave up on before charging, last touched the given time ago
+  const insertPendingPurchase = async (ageMs: number) => {
+    const touchedAt = new Date(Date.now() - ageMs);
+    const [purchase] = await db.insert(creditPurchasesTable)
+      .values({
+        user_id: userId,
+        package_id: 1,
+        credits_purchased: 25,
+        bonus_credits: 5,
+        amount_paid: '4.50',
+        payment_method: 'credit_card',
+        created_at: touchedAt,
+        updated_at: touchedAt
+      })
+      .returning()
+      .execute();
+    return purchase;
+  };
+
+  const buyWithAuthentication = () => purchaseCredits({
+    package_id: 1,
+    payment_method: 'credit_card',
+    payment_details: { card_number: TEST_CARDS.requiresAction }
+  }, userId, gateway);
+
+  const getPurchase = async (id: number) => {
+    const [purchase] = await db.select().from(creditPurchasesTable).where(eq(creditPurchasesTable.id, id)).execute();
+    return purchase;
+  };
+
+  const getCredits = async () => {
+    const [user] = await db.select().from(usersTable).where(eq(usersTable.id, userId)).execute();
+    return user.credits;
+  };
+
+  it('should fail stale pending purchases the gateway never charged', async () => {
+    const stale = await insertPendingPurchase(PENDING_RECONCILE_AFTER_MS + 1000);
+    const recent = await insertPendingPurchase(1000);
+
+    expect(await reconcilePurchases(new Date(), gateway)).toEqual([stale.id]);
+
+    expect((await getPurchase(stale.id)).status).toEqual('failed');
+    expect((await getPurchase(recent.id)).status).toEqual('pending');
+    expect(await getCredits()).toEqual(10);
+    const [notification] = await db.select().from(notificationsTable).execute();
+    expect(notification.message).toMatch(/did not go through/);
+  });
+
+  it('should add the credits once the buyer has confirmed with their bank', async () => {
+    const purchase = await buyWithAuthentication();
+
+    expect(await reconcilePurchases(new Date(), gateway)).toEqual([]);
+    expect((await getPurchase(purchase.id)).status).toEqual('requires_action');
+
+    await gateway.confirm(purchase.id);
+    expect(await reconcilePurchases(new Date(), gateway)).toEqual([purchase.id]);
+    expect(await reconcilePurchases(new Date(), gateway)).toEqual([]);
+
+    expect((await getPurchase(purchase.id)).status).toEqual('succeeded');
+    expect(await getCredits()).toEqual(40);
+    const entries = await db.select().from(creditLedgerTable).execute();
+    expect(entries).toHaveLength(1);
+    const notifications = await db.select().from(notificationsTable).execute();
+    expect(notifications.map(n => n.message)).toEqual(['Your payment went through and 30 credits were added to your balance.']);
+  });
+
+  it('should give up on purchases not confirmed in time', async () => {
+    const purchase = await buyWithAuthentication();
+
+    const later = new Date(Date.now() + REQUIRES_ACTION_TIMEOUT_MS);
+    expect(await reconcilePurchases(later, gateway)).toEqual([purchase.id]);
+
+    const failed = await getPurchase(purchase.id);
+    expect(failed.status).toEqual('failed');
+    expect(failed.failure_reason).toMatch(/not confirmed in time/);
+
+    // Confirming afterwards does not revive it
+    await gateway.confirm(purchase.id);
+    expect(await reconcilePurchases(new Date(), gateway)).toEqual([]);
+    expect(await getCredits()).toEqual(10);
+  });
+
+  it('should be run by the scheduler', () => {
+    expect(SCHEDULED_JOBS.map(job => job.name)).toContain('reconcilePurchases');
+  });
+});
@@ -1,17 +1,16 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
-import { createHash } from 'crypto';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { usersTable } from '../db/schema';
+import { usersTable, creditLedgerTable } from '../db/schema';
 import { type RegisterUserInput } from '../schema';
 import { registerUser } from '../handlers/register_user';
+import { hashPassword } from '../handlers/login_user';
 import { eq } from 'drizzle-orm';
 
-// Helper function to verify password hash
+// Helper function to verify password hash ("<hash>:<salt>")
 const verifyPassword = (password: string, hash: string): boolean => {
-  const [salt, storedHash] = hash.split(':');
-  const computedHash = createHash('sha256').update(password + salt).digest('hex');
-  return computedHash === storedHash;
+  const [storedHash, salt] = hash.split(':');
+  return hashPassword(password, salt) === storedHash;
 };
 
 // Test input with all required fields
@@ -83,6 +82,16 @@ describe('registerUser', () => {
       .execute();
 
     expect(users[0].credits).toEqual(1);
+
+    // The welcome credit is recorded in the ledger
+    const entries = await db.select()
+      .from(creditLedgerTable)
+      .where(eq(creditLedgerTable.user_id, result.id))
+      .execute();
+
+    expect(entries).toHaveLength(1);
+    expect(entries[0].amount).toEqual(1);
+    expect(entries[0].entry_type).toEqual('grant');
   });
 
   it('should reject duplicate email addresses', async () => {
@@ -176,8 +185,8 @@ describe('registerUser', () => {
     expect(user1.password_hash).not.toEqual(user2.password_hash);
 
     // Extract salts from hashes
-    const salt1 = user1.password_hash.split(':')[0];
-    const salt2 = user2.password_hash.split(':')[0];
+    const salt1 = user1.password_hash.split(':')[1];
+    const salt2 = user2.password_hash.split(':')[1];
     
     // Salts should be different
     expect(salt1).not.toEqual(salt2);
@@ -0,0 +1,181 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, postsTable, creditLedgerTable, notificationsTable } from '../db/schema';
+import { renewPosts } from '../handlers/renew_posts';
+import { expirePosts } from '../handlers/expire_posts';
+import { postEvents, type PostLifecycleEvent } from '../lib/post_events';
+import { SCHEDULED_JOBS, startScheduler } from '../lib/scheduler';
+import { eq } from 'drizzle-orm';
+
+const testUser = {
+  email: 'owner@example.com',
+  password_hash: 'hashed_password',
+  phone_number: '+1234567890',
+  credits: 20
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+
+describe('renewPosts', () => {
+  let userId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const userResult = await db.insert(usersTable)
+      .values(testUser)
+      .returning()
+      .execute();
+
+    userId = userResult[0].id;
+  });
+  afterEach(resetDB);
+
+  // An active 24h post (5 credits to renew) that ran out a minute ago
+  const insertLapsedPost = async (autoRenew: Partial<typeof postsTable.$inferInsert> = {}) => {
+    const expiresAt = new Date(Date.now() - 60 * 1000);
+    const [post] = await db.insert(postsTable)
+      .values({
+        user_id: userId,
+        title: 'Daily Listing',
+        content: 'Renew me',
+        price: '10.00',
+        status: 'active',
+        duration: '24h',
+        posted_at: new Date(expiresAt.getTime() - 24 * HOUR_MS),
+        expires_at: expiresAt,
+        auto_renew: true,
+        ...autoRenew
+      })
+      .returning()
+      .execute();
+    return post;
+  };
+
+  const getPostRow = async (postId: number) => {
+    const [post] = await db.select().from(postsTable).where(eq(postsTable.id, postId)).execute();
+    return post;
+  };
+
+  const getCredits = async () => {
+    const [user] = await db.select().from(usersTable).where(eq(usersTable.id, userId)).execute();
+    return user.credits;
+  };
+
+  it('should re-post lapsed posts and charge the re-post fee', async () => {
+    const post = await insertLapsedPost({ auto_renew_max_renewals: 3 });
+    const now = new Date();
+
+    expect(await renewPosts(now)).toEqual([post.id]);
+
+    const renewed = await getPostRow(post.id);
+    expect(renewed.status).toEqual('active');
+    expect(renewed.posted_at!.getTime()).toEqual(now.getTime());
+    expect(renewed.expires_at!.getTime()).toEqual(now.getTime() + 24 * HOUR_MS);
+    expect(renewed.auto_renew_renewals).toEqual(1);
+    expect(renewed.auto_renew_spent).toEqual(5);
+    expect(await getCredits()).toEqual(15);
+
+    const entries = await db.select()
+      .from(creditLedgerTable)
+      .where(eq(creditLedgerTable.post_id, post.id))
+      .execute();
+    expect(entries).toHaveLength(1);
+    expect(entries[0].entry_type).toEqual('repost_fee');
+    expect(entries[0].amount).toEqual(-5);
+    expect(entries[0].reason).toContain('Auto-renew');
+  });
+
+  it('should leave posts without auto-renew to expire', async () => {
+    const post = await insertLapsedPost({ auto_renew: false });
+
+    expect(await renewPosts()).toEqual([]);
+    expect(await expirePosts()).toEqual([post.id]);
+  });
+
+  it('should stop at the renewal limit and notify the owner', async () => {
+    const post = await insertLapsedPost({ auto_renew_max_renewals: 2, auto_renew_renewals: 2 });
+
+    expect(await renewPosts()).toEqual([]);
+
+    const stopped = await getPostRow(post.id);
+    expect(stopped.auto_renew).toBe(false);
+    expect(stopped.auto_renew_stopped_reason).toContain('limit of 2 renewals');
+    expect(await getCredits()).toEqual(20);
+
+    const notifications = await db.select().from(notificationsTable).execute();
+    expect(notifications).toHaveLength(1);
+    expect(notifications[0].user_id).toEqual(userId);
+    expect(notifications[0].post_id).toEqual(post.id);
+    expect(notifications[0].message).toContain('Daily Listing');
+
+    // With auto-renew off, the post lapses as usual
+    expect(await expirePosts()).toEqual([post.id]);
+  });
+
+  it('should stop before exceeding the spending cap', async () => {
+    const post = await insertLapsedPost({ auto_renew_spend_cap: 12, auto_renew_spent: 10 });
+
+    expect(await renewPosts()).toEqual([]);
+
+    const stopped = await getPostRow(post.id);
+    expect(stopped.auto_renew).toBe(false);
+    expect(stopped.auto_renew_stopped_reason).toContain('spending cap of 12 credits');
+    expect(await getCredits()).toEqual(20);
+  });
+
+  it('should stop and notify when the balance is insufficient', async () => {
+    await db.update(usersTable).set({ credits: 2 }).where(eq(usersTable.id, userId)).execute();
+    const post = await insertLapsedPost({ auto_renew_max_renewals: 5 });
+
+    expect(await renewPosts()).toEqual([]);
+
+    const stopped = await getPostRow(post.id);
+    expect(stopped.status).toEqual('active');
+    expect(stopped.auto_renew).toBe(false);
+    expect(stopped.auto_renew_renewals).toEqual(0);
+    expect(stopped.auto_renew_stopped_reason).toContain('not enough credits');
+    expect(await getCredits()).toEqual(2);
+
+    const notifications = await db.select().from(notificationsTable).execute();
+    expect(notifications).toHaveLength(1);
+  });
+
+  it('should emit a renewed event for each renewed post', async () => {
+    const post = await insertLapsedPost({ auto_renew_max_renewals: 1 });
+    const now = new Date();
+    const events: PostLifecycleEvent[] = [];
+    const unsubscribe = postEvents.on('renewed', event => { events.push(event); });
+
+    try {
+      await renewPosts(now);
+    } finally {
+      unsubscribe();
+    }
+
+    expect(events).toEqual([{ post_id: post.id, user_id: userId, status: 'active', at: now }]);
+  });
+
+  it('should run before expiry in the scheduler', () => {
+    const names = SCHEDULED_JOBS.map(job => job.name);
+    expect(names.indexOf('renewPosts')).toBeLessThan(names.indexOf('expirePosts'));
+  });
+
+  it('should renew lapsed posts before the scheduler expires them', async () => {
+    const post = await insertLapsedPost();
+
+    // A last job that only finishes the tick, so the test knows every real job has run
+    let stop = () => {};
+    await new Promise<void>(resolve => {
+      stop = startScheduler([...SCHEDULED_JOBS, { name: 'tickDone', run: async () => resolve() }], 60 * 60 * 1000);
+    });
+    stop();
+
+    const renewed = await getPostRow(post.id);
+    expect(renewed.status).toEqual('active');
+    expect(renewed.auto_renew_renewals).toEqual(1);
+    expect(renewed.expires_at!.getTime()).toBeGreaterThan(Date.now());
+    expect(await getCredits()).toEqual(15);
+  });
+});
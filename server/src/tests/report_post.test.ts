@@ -0,0 +1,115 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, postsTable, postReportsTable, moderationActionsTable, notificationsTable } from '../db/schema';
+import { reportPost } from '../handlers/report_post';
+import { getPublicPosts } from '../handlers/get_public_posts';
+import { AUTO_HIDE_REPORT_COUNT } from '../lib/moderation';
+import { eq } from 'drizzle-orm';
+
+describe('reportPost', () => {
+  let ownerId: number;
+  let reporterIds: number[];
+  let postId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const users = await db.insert(usersTable)
+      .values(Array.from({ length: AUTO_HIDE_REPORT_COUNT + 1 }, (_, i) => ({
+        email: `user${i}@example.com`,
+        password_hash: 'hash',
+        phone_number: `+100000000${i}`
+      })))
+      .returning()
+      .execute();
+    ownerId = users[0].id;
+    reporterIds = users.slice(1).map(user => user.id);
+
+    const now = new Date();
+    const [post] = await db.insert(postsTable)
+      .values({
+        user_id: ownerId,
+        title: 'Cheap phones',
+        content: 'Too good to be true',
+        price: '10.00',
+        posted_at: now,
+        expires_at: new Date(now.getTime() + 24 * 60 * 60 * 1000)
+      })
+      .returning()
+      .execute();
+    postId = post.id;
+  });
+  afterEach(resetDB);
+
+  it('should record an open report with its reason', async () => {
+    const report = await reportPost({ post_id: postId, reason: 'scam', details: 'Asked for a deposit' }, reporterIds[0]);
+
+    expect(report.post_id).toEqual(postId);
+    expect(report.reporter_id).toEqual(reporterIds[0]);
+    expect(report.reason).toEqual('scam');
+    expect(report.details).toEqual('Asked for a deposit');
+    expect(report.status).toEqual('open');
+    expect(report.resolved_at).toBeNull();
+  });
+
+  it('should keep one open report per reporter', async () => {
+    const first = await reportPost({ post_id: postId, reason: 'spam' }, reporterIds[0]);
+    const second = await reportPost({ post_id: postId, reason: 'offensive' }, reporterIds[0]);
+
+    expect(second.id).toEqual(first.id);
+    expect(second.reason).toEqual('spam');
+    const reports = await db.select().from(postReportsTable).execute();
+    expect(reports).toHaveLength(1);
+  });
+
+  it('should not let owners report their own posts', async () => {
+    await expect(reportPost({ post_id: postId, reason: 'spam' }, ownerId)).rejects.toThrow(/own post/);
+  });
+
+  it('should only accept reports on publicly listed posts', async () => {
+    await db.update(postsTable).set({ status: 'expired' }).execute();
+
+    await expect(reportPost({ post_id: postId, reason: 'spam' }, reporterIds[0])).rejects.toThrow(/not found/);
+    await expect(reportPost({ post_id: 99999, reason: 'spam' }, reporterIds[0])).rejects.toThrow(/not found/);
+  });
+
+  it('should hide the post once enough users reported it', async () => {
+    for (const reporterId of reporterIds.slice(0, -1)) {
+      await reportPost({ post_id: postId, reason: 'scam' }, reporterId);
+    }
+    let [post] = await db.select().from(postsTable).execute();
+    expect(post.hidden_at).toBeNull();
+
+    await reportPost({ post_id: postId, reason: 'scam' }, reporterIds[reporterIds.length - 1]);
+
+    [post] = await db.select().from(postsTable).execute();
+    expect(post.hidden_at).toBeInstanceOf(Date);
+    const page = await getPublicPosts();
+    expect(page.items).toHaveLength(0);
+
+    const actions = await db.select().from(moderationActionsTable).execute();
+    expect(actions).toHaveLength(1);
+    expect(actions[0].action).toEqual('auto_hide');
+    expect(actions[0].moderator_id).toBeNull();
+    expect(actions[0].target_user_id).toEqual(ownerId);
+
+    const notifications = await db.select().from(notificationsTable)
+      .where(eq(notificationsTable.user_id, ownerId))
+      .execute();
+    expect(notifications).toHaveLength(1);
+    expect(notifications[0].message).toMatch(/hidden until a moderator reviews it/);
+  });
+
+  it('should not count resolved reports towards hiding', async () => {
+    for (const reporterId of reporterIds.slice(0, -1)) {
+      await reportPost({ post_id: postId, reason: 'spam' }, reporterId);
+    }
+    await db.update(postReportsTable).set({ status: 'dismissed' }).execute();
+
+    await reportPost({ post_id: postId, reason: 'spam' }, reporterIds[reporterIds.length - 1]);
+
+    const [post] = await db.select().from(postsTable).execute();
+    expect(post.hidden_at).toBeNull();
+  });
+});
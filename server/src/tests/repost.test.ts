@@ -1,13 +1,33 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { postsTable } from '../db/schema';
+import { usersTable, postsTable, creditLedgerTable } from '../db/schema';
 import { type RepostInput } from '../schema';
 import { repost } from '../handlers/repost';
 import { eq } from 'drizzle-orm';
 
+// Owner of the test posts, with enough credits to pay fees
+const testUser = {
+  email: 'owner@example.com',
+  password_hash: 'hashed_password',
+  phone_number: '+1234567890',
+  credits: 100
+};
+
 describe('repost', () => {
-  beforeEach(createDB);
+  let userId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    // Create the post owner
+    const userResult = await db.insert(usersTable)
+      .values(testUser)
+      .returning()
+      .execute();
+
+    userId = userResult[0].id;
+  });
   afterEach(resetDB);
 
   it('should repost an expired post with new timestamps', async () => {
@@ -17,6 +37,7 @@ describe('repost', () => {
 
     const [createdPost] = await db.insert(postsTable)
       .values({
+        user_id: userId,
         title: 'Expired Post',
         content: 'This post has expired',
         price: '29.99',
@@ -33,7 +54,7 @@ describe('repost', () => {
     };
 
     const beforeRepost = new Date();
-    const result = await repost(input);
+    const result = await repost(input, userId);
     const afterRepost = new Date();
 
     // Verify basic fields are preserved
@@ -49,12 +70,12 @@ describe('repost', () => {
     expect(result.updated_at).toBeInstanceOf(Date);
 
     // Verify posted_at is updated to current time (within test execution window)
-    expect(result.posted_at.getTime()).toBeGreaterThanOrEqual(beforeRepost.getTime());
-    expect(result.posted_at.getTime()).toBeLessThanOrEqual(afterRepost.getTime());
+    expect(result.posted_at!.getTime()).toBeGreaterThanOrEqual(beforeRepost.getTime());
+    expect(result.posted_at!.getTime()).toBeLessThanOrEqual(afterRepost.getTime());
 
     // Verify expires_at is 24 hours after posted_at
-    const expectedExpiry = new Date(result.posted_at.getTime() + 24 * 60 * 60 * 1000);
-    expect(Math.abs(result.expires_at.getTime() - expectedExpiry.getTime())).toBeLessThan(1000); // Within 1 second
+    const expectedExpiry = new Date(result.posted_at!.getTime() + 24 * 60 * 60 * 1000);
+    expect(Math.abs(result.expires_at!.getTime() - expectedExpiry.getTime())).toBeLessThan(1000); // Within 1 second
 
     // Verify created_at is preserved (unchanged from original)
     expect(result.created_at).toEqual(pastDate);
@@ -68,6 +89,7 @@ describe('repost', () => {
     const originalDate = new Date('2024-01-01T10:00:00Z');
     const [createdPost] = await db.insert(postsTable)
       .values({
+        user_id: userId,
         title: 'Test Repost',
         content: 'Testing repost functionality',
         price: '15.50',
@@ -83,7 +105,7 @@ describe('repost', () => {
       id: createdPost.id
     };
 
-    await repost(input);
+    await repost(input, userId);
 
     // Verify database was updated
     const updatedPosts = await db.select()
@@ -101,12 +123,12 @@ describe('repost', () => {
 
     // Verify posted_at and updated_at are recent
     const now = new Date();
-    expect(updatedPost.posted_at.getTime()).toBeGreaterThan(originalDate.getTime());
+    expect(updatedPost.posted_at!.getTime()).toBeGreaterThan(originalDate.getTime());
     expect(updatedPost.updated_at.getTime()).toBeGreaterThan(originalDate.getTime());
 
     // Verify expires_at is 24 hours after posted_at
-    const expectedExpiry = new Date(updatedPost.posted_at.getTime() + 24 * 60 * 60 * 1000);
-    expect(Math.abs(updatedPost.expires_at.getTime() - expectedExpiry.getTime())).toBeLessThan(1000);
+    const expectedExpiry = new Date(updatedPost.posted_at!.getTime() + 24 * 60 * 60 * 1000);
+    expect(Math.abs(updatedPost.expires_at!.getTime() - expectedExpiry.getTime())).toBeLessThan(1000);
 
     // Verify created_at is preserved
     expect(updatedPost.created_at).toEqual(originalDate);
@@ -124,6 +146,7 @@ describe('repost', () => {
 
     const [createdPost] = await db.insert(postsTable)
       .values({
+        user_id: userId,
         title: 'Active Post',
         content: 'This post is still active',
         price: '99.99',
@@ -139,16 +162,16 @@ describe('repost', () => {
       id: createdPost.id
     };
 
-    const result = await repost(input);
+    const result = await repost(input, userId);
 
     // Should still work and reset the expiry time
     expect(result.id).toEqual(createdPost.id);
     expect(result.is_active).toBe(true);
-    expect(result.posted_at.getTime()).toBeGreaterThan(recentDate.getTime());
+    expect(result.posted_at!.getTime()).toBeGreaterThan(recentDate.getTime());
 
     // New expiry should be 24 hours from the new posted_at time
-    const expectedExpiry = new Date(result.posted_at.getTime() + 24 * 60 * 60 * 1000);
-    expect(Math.abs(result.expires_at.getTime() - expectedExpiry.getTime())).toBeLessThan(1000);
+    const expectedExpiry = new Date(result.posted_at!.getTime() + 24 * 60 * 60 * 1000);
+    expect(Math.abs(result.expires_at!.getTime() - expectedExpiry.getTime())).toBeLessThan(1000);
   });
 
   it('should throw error for non-existent post', async () => {
@@ -156,7 +179,7 @@ describe('repost', () => {
       id: 99999 // Non-existent ID
     };
 
-    await expect(repost(input)).rejects.toThrow(/Post with id 99999 not found/i);
+    await expect(repost(input, userId)).rejects.toThrow(/Post with id 99999 not found/i);
   });
 
   it('should preserve all original post data except timestamps', async () => {
@@ -164,6 +187,7 @@ describe('repost', () => {
     const originalDate = new Date('2024-01-01T10:00:00Z');
     const [createdPost] = await db.insert(postsTable)
       .values({
+        user_id: userId,
         title: 'Detailed Post Title',
         content: 'Very detailed content with special characters: !@#$%^&*()',
         price: '123.45',
@@ -179,7 +203,7 @@ describe('repost', () => {
       id: createdPost.id
     };
 
-    const result = await repost(input);
+    const result = await repost(input, userId);
 
     // Verify all content is preserved exactly
     expect(result.title).toEqual('Detailed Post Title');
@@ -192,4 +216,180 @@ describe('repost', () => {
     expect(result.expires_at).not.toEqual(new Date('2024-01-01T11:00:00Z'));
     expect(result.updated_at).not.toEqual(originalDate);
   });
-});
\ No newline at end of file
+
+  it('should reject reposts from a user who does not own the post', async () => {
+    const originalDate = new Date('2024-01-01T10:00:00Z');
+    const [createdPost] = await db.insert(postsTable)
+      .values({
+        user_id: userId,
+        title: 'Owned Post',
+        content: 'Only the owner may repost this',
+        price: '10.00',
+        posted_at: originalDate,
+        expires_at: new Date('2024-01-01T11:00:00Z'),
+        created_at: originalDate,
+        updated_at: originalDate
+      })
+      .returning()
+      .execute();
+
+    const otherUser = await db.insert(usersTable)
+      .values({ ...testUser, email: 'other@example.com' })
+      .returning()
+      .execute();
+
+    await expect(repost({ id: createdPost.id }, otherUser[0].id)).rejects.toThrow(/do not own post/i);
+
+    // Timestamps must be left untouched
+    const posts = await db.select()
+      .from(postsTable)
+      .where(eq(postsTable.id, createdPost.id))
+      .execute();
+
+    expect(posts[0].posted_at).toEqual(originalDate);
+  });
+
+  it('should charge the repost fee and record it in the ledger', async () => {
+    const originalDate = new Date('2024-01-01T10:00:00Z');
+    const [createdPost] = await db.insert(postsTable)
+      .values({
+        user_id: userId,
+        title: 'Paid Repost',
+        content: 'Reposting costs credits',
+        price: '10.00',
+        posted_at: originalDate,
+        expires_at: new Date('2024-01-01T11:00:00Z'),
+        created_at: originalDate,
+        updated_at: originalDate
+      })
+      .returning()
+      .execute();
+
+    await repost({ id: createdPost.id }, userId);
+
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, userId))
+      .execute();
+    expect(users[0].credits).toEqual(95);
+
+    const entries = await db.select()
+      .from(creditLedgerTable)
+      .where(eq(creditLedgerTable.user_id, userId))
+      .execute();
+    expect(entries).toHaveLength(1);
+    expect(entries[0].amount).toEqual(-5);
+    expect(entries[0].entry_type).toEqual('repost_fee');
+    expect(entries[0].post_id).toEqual(createdPost.id);
+  });
+
+  it('should reject reposts without enough credits and leave the post unchanged', async () => {
+    await db.update(usersTable)
+      .set({ credits: 2 })
+      .where(eq(usersTable.id, userId))
+      .execute();
+
+    const originalDate = new Date('2024-01-01T10:00:00Z');
+    const [createdPost] = await db.insert(postsTable)
+      .values({
+        user_id: userId,
+        title: 'Unaffordable Repost',
+        content: 'Not enough credits',
+        price: '10.00',
+        posted_at: originalDate,
+        expires_at: new Date('2024-01-01T11:00:00Z'),
+        created_at: originalDate,
+        updated_at: originalDate
+      })
+      .returning()
+      .execute();
+
+    await expect(repost({ id: createdPost.id }, userId)).rejects.toThrow(/insufficient credits/i);
+
+    // The repost is rolled back together with the failed debit
+    const posts = await db.select()
+      .from(postsTable)
+      .where(eq(postsTable.id, createdPost.id))
+      .execute();
+    expect(posts[0].posted_at).toEqual(originalDate);
+
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, userId))
+      .execute();
+    expect(users[0].credits).toEqual(2);
+
+    const entries = await db.select().from(creditLedgerTable).execute();
+    expect(entries).toHaveLength(0);
+  });
+
+  it('should re-post for the chosen duration and charge its fee', async () => {
+    const originalDate = new Date('2024-01-01T10:00:00Z');
+    const [createdPost] = await db.insert(postsTable)
+      .values({
+        user_id: userId,
+        title: 'Short Repost',
+        content: 'Listed for six hours',
+        price: '10.00',
+        posted_at: originalDate,
+        expires_at: new Date('2024-01-01T11:00:00Z'),
+        created_at: originalDate,
+        updated_at: originalDate
+      })
+      .returning()
+      .execute();
+
+    const result = await repost({ id: createdPost.id, duration: '6h' }, userId);
+
+    expect(result.duration).toEqual('6h');
+    const expectedExpiry = new Date(result.posted_at!.getTime() + 6 * 60 * 60 * 1000);
+    expect(result.expires_at!.getTime()).toEqual(expectedExpiry.getTime());
+
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, userId))
+      .execute();
+    expect(users[0].credits).toEqual(97);
+  });
+
+  it('should not re-post a removed post', async () => {
+    const [createdPost] = await db.insert(postsTable)
+      .values({
+        user_id: userId,
+        title: 'Removed Post',
+        content: 'Taken down by a moderator',
+        price: '10.00',
+        status: 'removed',
+        expires_at: new Date('2024-01-01T11:00:00Z')
+      })
+      .returning()
+      .execute();
+
+    await expect(repost({ id: createdPost.id }, userId)).rejects.toThrow(/cannot be re-posted while it is removed/i);
+
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, userId))
+      .execute();
+    expect(users[0].credits).toEqual(100);
+  });
+
+  it('should mark the re-posted post active again', async () => {
+    const [createdPost] = await db.insert(postsTable)
+      .values({
+        user_id: userId,
+        title: 'Expired Post',
+        content: 'Expired by the scheduler',
+        price: '10.00',
+        status: 'expired',
+        expires_at: new Date('2024-01-01T11:00:00Z')
+      })
+      .returning()
+      .execute();
+
+    const result = await repost({ id: createdPost.id }, userId);
+
+    expect(result.status).toEqual('active');
+    expect(result.is_active).toBe(true);
+  });
+});
@@ -0,0 +1,73 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable } from '../db/schema';
+import { createPost } from '../handlers/create_post';
+import { reschedulePost } from '../handlers/reschedule_post';
+
+const testUser = {
+  email: 'owner@example.com',
+  password_hash: 'hashed_password',
+  phone_number: '+1234567890',
+  credits: 100
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+
+describe('reschedulePost', () => {
+  let userId: number;
+  let otherUserId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const userResult = await db.insert(usersTable)
+      .values([testUser, { ...testUser, email: 'other@example.com' }])
+      .returning()
+      .execute();
+
+    userId = userResult[0].id;
+    otherUserId = userResult[1].id;
+  });
+  afterEach(resetDB);
+
+  const schedulePost = () => createPost({
+    title: 'Scheduled',
+    content: 'Goes live later',
+    price: 10,
+    duration: '24h',
+    publish_at: new Date(Date.now() + HOUR_MS)
+  }, userId);
+
+  it('should move the publish time and the window with it', async () => {
+    const post = await schedulePost();
+    const publishAt = new Date(Date.now() + 5 * HOUR_MS);
+
+    const result = await reschedulePost({ id: post.id, publish_at: publishAt }, userId);
+
+    expect(result.status).toEqual('scheduled');
+    expect(result.publish_at?.getTime()).toEqual(publishAt.getTime());
+    expect(result.expires_at!.getTime()).toEqual(publishAt.getTime() + 24 * HOUR_MS);
+  });
+
+  it('should reject a publish time in the past', async () => {
+    const post = await schedulePost();
+
+    await expect(reschedulePost({ id: post.id, publish_at: new Date(Date.now() - HOUR_MS) }, userId))
+      .rejects.toThrow(/must be in the future/i);
+  });
+
+  it('should reject posts that are not scheduled', async () => {
+    const post = await createPost({ title: 'Live', content: 'Already live', price: 5 }, userId);
+
+    await expect(reschedulePost({ id: post.id, publish_at: new Date(Date.now() + HOUR_MS) }, userId))
+      .rejects.toThrow(/not scheduled/i);
+  });
+
+  it('should reject posts owned by someone else', async () => {
+    const post = await schedulePost();
+
+    await expect(reschedulePost({ id: post.id, publish_at: new Date(Date.now() + 2 * HOUR_MS) }, otherUserId))
+      .rejects.toThrow(/do not own/i);
+  });
+});
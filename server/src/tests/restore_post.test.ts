@@ -0,0 +1,68 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, postsTable } from '../db/schema';
+import { createPost } from '../handlers/create_post';
+import { deletePost } from '../handlers/delete_post';
+import { restorePost } from '../handlers/restore_post';
+import { getUserPosts } from '../handlers/get_user_posts';
+import { TRASH_RETENTION_MS } from '../lib/posts';
+import { eq } from 'drizzle-orm';
+
+const testUser = {
+  email: 'owner@example.com',
+  password_hash: 'hashed_password',
+  phone_number: '+1234567890'
+};
+
+describe('restorePost', () => {
+  let userId: number;
+  let otherUserId: number;
+  let postId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const userResult = await db.insert(usersTable)
+      .values([testUser, { ...testUser, email: 'other@example.com' }])
+      .returning()
+      .execute();
+
+    userId = userResult[0].id;
+    otherUserId = userResult[1].id;
+
+    const post = await createPost({ title: 'Bike', content: 'Red bike', price: 50 }, userId);
+    postId = post.id;
+  });
+  afterEach(resetDB);
+
+  it('should bring a deleted post back', async () => {
+    await deletePost({ id: postId }, userId);
+
+    const result = await restorePost({ id: postId }, userId);
+
+    expect(result.deleted_at).toBeNull();
+    expect(result.status).toEqual('active');
+    expect(result.is_active).toBe(true);
+    expect((await getUserPosts(userId)).items.map(p => p.id)).toEqual([postId]);
+  });
+
+  it('should reject posts that are not in the trash', async () => {
+    await expect(restorePost({ id: postId }, userId)).rejects.toThrow(/not in the trash/i);
+  });
+
+  it('should reject posts past the restore window', async () => {
+    await db.update(postsTable)
+      .set({ deleted_at: new Date(Date.now() - TRASH_RETENTION_MS - 1000) })
+      .where(eq(postsTable.id, postId))
+      .execute();
+
+    await expect(restorePost({ id: postId }, userId)).rejects.toThrow(/past the restore window/i);
+  });
+
+  it('should reject posts owned by someone else', async () => {
+    await deletePost({ id: postId }, userId);
+
+    await expect(restorePost({ id: postId }, otherUserId)).rejects.toThrow(/do not own/i);
+  });
+});
@@ -0,0 +1,68 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable } from '../db/schema';
+import { createPost } from '../handlers/create_post';
+import { updatePost } from '../handlers/update_post';
+import { getPostRevisions } from '../handlers/get_post_revisions';
+import { restorePostRevision } from '../handlers/restore_post_revision';
+
+const testUser = {
+  email: 'owner@example.com',
+  password_hash: 'hashed_password',
+  phone_number: '+1234567890',
+  credits: 100
+};
+
+describe('restorePostRevision', () => {
+  let userId: number;
+  let otherUserId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const userResult = await db.insert(usersTable)
+      .values([testUser, { ...testUser, email: 'other@example.com' }])
+      .returning()
+      .execute();
+
+    userId = userResult[0].id;
+    otherUserId = userResult[1].id;
+  });
+  afterEach(resetDB);
+
+  it('should put the old version back and record the restore', async () => {
+    const post = await createPost({ title: 'Bike', content: 'Red bike', price: 50 }, userId);
+    await updatePost({ id: post.id, title: 'Blue bike', content: 'Repainted', price: 70 }, userId);
+    const [, original] = await getPostRevisions({ post_id: post.id }, userId);
+
+    const result = await restorePostRevision({ post_id: post.id, revision_id: original.id }, userId);
+
+    expect(result.title).toEqual('Bike');
+    expect(result.content).toEqual('Red bike');
+    expect(result.price).toEqual(50);
+
+    const revisions = await getPostRevisions({ post_id: post.id }, userId);
+    expect(revisions).toHaveLength(3);
+    expect(revisions[0].action).toEqual('restored');
+    expect(revisions[0].restored_from_id).toEqual(original.id);
+    expect(revisions[0].title).toEqual('Bike');
+  });
+
+  it('should reject revisions of another post', async () => {
+    const post = await createPost({ title: 'Bike', content: 'Red bike', price: 50 }, userId);
+    const other = await createPost({ title: 'Lamp', content: 'Desk lamp', price: 10 }, userId);
+    const [otherRevision] = await getPostRevisions({ post_id: other.id }, userId);
+
+    await expect(restorePostRevision({ post_id: post.id, revision_id: otherRevision.id }, userId))
+      .rejects.toThrow(/not found/i);
+  });
+
+  it('should reject posts owned by someone else', async () => {
+    const post = await createPost({ title: 'Bike', content: 'Red bike', price: 50 }, userId);
+    const [revision] = await getPostRevisions({ post_id: post.id }, userId);
+
+    await expect(restorePostRevision({ post_id: post.id, revision_id: revision.id }, otherUserId))
+      .rejects.toThrow(/do not own/i);
+  });
+});
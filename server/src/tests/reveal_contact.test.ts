@@ -0,0 +1,102 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, postsTable, contactRevealsTable } from '../db/schema';
+import { revealContact } from '../handlers/reveal_contact';
+import { deletePost } from '../handlers/delete_post';
+import { maskPhoneNumber, REVEAL_LIMIT, REVEAL_WINDOW_MS } from '../lib/contact_reveals';
+
+describe('revealContact', () => {
+  let sellerId: number;
+  let viewerId: number;
+
+  const createActivePost = async (title: string = 'For sale') => {
+    const now = new Date();
+    const result = await db.insert(postsTable)
+      .values({
+        user_id: sellerId,
+        title,
+        content: 'Call me',
+        price: '10.00',
+        posted_at: now,
+        expires_at: new Date(now.getTime() + 24 * 60 * 60 * 1000)
+      })
+      .returning()
+      .execute();
+    return result[0];
+  };
+
+  beforeEach(async () => {
+    await createDB();
+
+    const users = await db.insert(usersTable)
+      .values([
+        { email: 'seller@example.com', password_hash: 'hash', phone_number: '+1 555-0190' },
+        { email: 'viewer@example.com', password_hash: 'hash', phone_number: '+4470000000' }
+      ])
+      .returning()
+      .execute();
+
+    sellerId = users[0].id;
+    viewerId = users[1].id;
+  });
+  afterEach(resetDB);
+
+  it('should return the seller phone number and log the reveal', async () => {
+    const post = await createActivePost();
+
+    const contact = await revealContact({ post_id: post.id }, viewerId);
+
+    expect(contact).toEqual({ post_id: post.id, phone_number: '+1 555-0190' });
+    const reveals = await db.select().from(contactRevealsTable).execute();
+    expect(reveals).toHaveLength(1);
+    expect(reveals[0].post_id).toEqual(post.id);
+    expect(reveals[0].viewer_id).toEqual(viewerId);
+  });
+
+  it('should log repeat reveals and the seller\'s own reveals only once', async () => {
+    const post = await createActivePost();
+
+    await revealContact({ post_id: post.id }, viewerId);
+    await revealContact({ post_id: post.id }, viewerId);
+    await revealContact({ post_id: post.id }, sellerId);
+
+    expect(await db.select().from(contactRevealsTable).execute()).toHaveLength(1);
+  });
+
+  it('should limit new reveals per viewer within the window', async () => {
+    const now = new Date();
+    const posts = [];
+    for (let i = 0; i <= REVEAL_LIMIT; i++) {
+      posts.push(await createActivePost(`Post ${i}`));
+    }
+
+    for (const post of posts.slice(0, REVEAL_LIMIT)) {
+      await revealContact({ post_id: post.id }, viewerId, now);
+    }
+
+    const extra = posts[REVEAL_LIMIT];
+    await expect(revealContact({ post_id: extra.id }, viewerId, now)).rejects.toThrow(/per hour/);
+    // Posts already revealed stay available
+    expect((await revealContact({ post_id: posts[0].id }, viewerId, now)).phone_number).toEqual('+1 555-0190');
+    // The window moves on
+    const later = new Date(now.getTime() + REVEAL_WINDOW_MS + 1000);
+    expect((await revealContact({ post_id: extra.id }, viewerId, later)).post_id).toEqual(extra.id);
+  });
+
+  it('should not reveal posts that are not active', async () => {
+    const post = await createActivePost();
+    await deletePost({ id: post.id }, sellerId);
+
+    await expect(revealContact({ post_id: post.id }, viewerId)).rejects.toThrow(/not found/i);
+    await expect(revealContact({ post_id: 99999 }, viewerId)).rejects.toThrow(/not found/i);
+  });
+});
+
+describe('maskPhoneNumber', () => {
+  it('should keep the layout, the leading digit and the last two digits', () => {
+    expect(maskPhoneNumber('+1 555-0190')).toEqual('+1 ***-**90');
+    expect(maskPhoneNumber('+1234567890')).toEqual('+1*******90');
+    expect(maskPhoneNumber('0612 345 678')).toEqual('**** *** *78');
+  });
+});
@@ -0,0 +1,67 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, postsTable, savedPostsTable } from '../db/schema';
+import { savePost } from '../handlers/save_post';
+import { unsavePost } from '../handlers/unsave_post';
+
+describe('savePost', () => {
+  let userId: number;
+  let postId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const users = await db.insert(usersTable)
+      .values([
+        { email: 'owner@example.com', password_hash: 'hash', phone_number: '+1111111111' },
+        { email: 'visitor@example.com', password_hash: 'hash', phone_number: '+2222222222' }
+      ])
+      .returning()
+      .execute();
+    userId = users[1].id;
+
+    const now = new Date();
+    const [post] = await db.insert(postsTable)
+      .values({
+        user_id: users[0].id,
+        title: 'Guitar',
+        content: 'Acoustic',
+        price: '120.00',
+        posted_at: now,
+        expires_at: new Date(now.getTime() + 24 * 60 * 60 * 1000)
+      })
+      .returning()
+      .execute();
+    postId = post.id;
+  });
+  afterEach(resetDB);
+
+  it('should save a post once, keeping the first save time', async () => {
+    await savePost({ post_id: postId }, userId);
+    const [first] = await db.select().from(savedPostsTable).execute();
+
+    await savePost({ post_id: postId }, userId);
+
+    const saved = await db.select().from(savedPostsTable).execute();
+    expect(saved).toHaveLength(1);
+    expect(saved[0].user_id).toEqual(userId);
+    expect(saved[0].saved_at).toEqual(first.saved_at);
+  });
+
+  it('should only save active posts', async () => {
+    await db.update(postsTable).set({ status: 'expired' }).execute();
+
+    await expect(savePost({ post_id: postId }, userId)).rejects.toThrow(/not found/);
+    await expect(savePost({ post_id: 99999 }, userId)).rejects.toThrow(/not found/);
+  });
+
+  it('should unsave a post, even one that is no longer listed', async () => {
+    await savePost({ post_id: postId }, userId);
+    await db.update(postsTable).set({ status: 'expired' }).execute();
+
+    await unsavePost({ post_id: postId }, userId);
+
+    expect(await db.select().from(savedPostsTable).execute()).toHaveLength(0);
+  });
+});
@@ -0,0 +1,164 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, postsTable } from '../db/schema';
+import { searchPostsInputSchema } from '../schema';
+import { searchPosts } from '../handlers/search_posts';
+import { eq } from 'drizzle-orm';
+
+// Defaults filled in by the router's input schema
+const search = (input: Record<string, unknown>) => searchPosts(searchPostsInputSchema.parse(input));
+
+describe('searchPosts', () => {
+  let userId: number;
+  const tomorrow = new Date(Date.now() + 24 * 60 * 60 * 1000);
+
+  beforeEach(async () => {
+    await createDB();
+    const users = await db.insert(usersTable)
+      .values({
+        email: 'seller@example.com',
+        password_hash: 'hash',
+        phone_number: '+1234567890'
+      })
+      .returning()
+      .execute();
+    userId = users[0].id;
+  });
+  afterEach(resetDB);
+
+  const insertPosts = (posts: { title: string; content: string; price?: string; expires_at?: Date }[]) =>
+    db.insert(postsTable)
+      .values(posts.map(post => ({ price: '10.00', expires_at: tomorrow, ...post, user_id: userId })))
+      .returning()
+      .execute();
+
+  it('should find posts by title and content words', async () => {
+    await insertPosts([
+      { title: 'Red bicycle', content: 'Barely used, comes with a helmet' },
+      { title: 'Garden chairs', content: 'Set of four, pick up only' },
+      { title: 'Helmet', content: 'Fits most bicycles' }
+    ]);
+
+    const result = await search({ query: 'helmet' });
+
+    expect(result.items.map(post => post.title).sort()).toEqual(['Helmet', 'Red bicycle']);
+    expect(result.items[0].phone_masked).toEqual('+1*******90');
+    expect(typeof result.items[0].price).toBe('number');
+    expect(result.nextCursor).toBeNull();
+  });
+
+  it('should rank title matches above content matches', async () => {
+    await insertPosts([
+      { title: 'Garage sale', content: 'Lots of things, including a lamp' },
+      { title: 'Vintage lamp', content: 'Brass, works fine' }
+    ]);
+
+    const result = await search({ query: 'lamp' });
+
+    expect(result.items.map(post => post.title)).toEqual(['Vintage lamp', 'Garage sale']);
+    expect(result.items[0].rank).toBeGreaterThan(result.items[1].rank);
+  });
+
+  it('should match word prefixes and require every word', async () => {
+    await insertPosts([
+      { title: 'Mountain bike', content: 'Aluminium frame' },
+      { title: 'Mountain tent', content: 'Sleeps two' }
+    ]);
+
+    const prefix = await search({ query: 'mount' });
+    expect(prefix.items).toHaveLength(2);
+
+    const both = await search({ query: 'mount bik' });
+    expect(both.items.map(post => post.title)).toEqual(['Mountain bike']);
+  });
+
+  it('should highlight matches in the title and snippet', async () => {
+    await insertPosts([
+      { title: 'Oak dining table', content: 'Solid oak table with six chairs, some scratches on the top' }
+    ]);
+
+    const result = await search({ query: 'oak' });
+
+    expect(result.items[0].title_highlight).toEqual('<mark>Oak</mark> dining table');
+    expect(result.items[0].snippet).toContain('<mark>oak</mark>');
+  });
+
+  it('should only return active posts', async () => {
+    const [, expired, deleted] = await insertPosts([
+      { title: 'Piano', content: 'Upright piano' },
+      { title: 'Old piano', content: 'Needs tuning', expires_at: new Date(Date.now() - 1000) },
+      { title: 'Piano stool', content: 'Adjustable' }
+    ]);
+    await db.update(postsTable)
+      .set({ deleted_at: new Date() })
+      .where(eq(postsTable.id, deleted.id))
+      .execute();
+
+    const result = await search({ query: 'piano' });
+
+    expect(result.items.map(post => post.title)).toEqual(['Piano']);
+    expect(result.items.map(post => post.id)).not.toContain(expired.id);
+  });
+
+  it('should keep the search document in sync with edits', async () => {
+    const [post] = await insertPosts([{ title: 'Camera', content: 'Film camera' }]);
+
+    await db.update(postsTable)
+      .set({ title: 'Telescope', content: 'Reflector telescope' })
+      .where(eq(postsTable.id, post.id))
+      .execute();
+
+    expect((await search({ query: 'camera' })).items).toHaveLength(0);
+    expect((await search({ query: 'telescope' })).items).toHaveLength(1);
+  });
+
+  it('should combine filters, sorting and paging', async () => {
+    await insertPosts([5, 15, 25, 35].map(price => ({
+      title: `Guitar for ${price}`,
+      content: 'Acoustic guitar',
+      price: price.toFixed(2)
+    })));
+    await insertPosts([{ title: 'Drum kit', content: 'Five pieces', price: '30.00' }]);
+
+    const first = await search({ query: 'guitar', price_min: 10, sort: 'price_asc', limit: 2 });
+    expect(first.items.map(post => post.price)).toEqual([15, 25]);
+
+    const second = await search({ query: 'guitar', price_min: 10, sort: 'price_asc', limit: 2, cursor: first.nextCursor });
+    expect(second.items.map(post => post.price)).toEqual([35]);
+    expect(second.nextCursor).toBeNull();
+  });
+
+  it('should page by relevance without repeating posts', async () => {
+    await insertPosts(Array.from({ length: 5 }, (_, i) => ({
+      title: i % 2 === 0 ? `Sofa ${i}` : `Furniture ${i}`,
+      content: 'Comfortable sofa'
+    })));
+
+    const first = await search({ query: 'sofa', limit: 3 });
+    const second = await search({ query: 'sofa', limit: 3, cursor: first.nextCursor });
+
+    const ids = [...first.items, ...second.items].map(post => post.id);
+    expect(new Set(ids).size).toEqual(5);
+    expect(second.nextCursor).toBeNull();
+    // Best matches (word in the title too) come first
+    expect(first.items.slice(0, 3).every(post => post.title.startsWith('Sofa'))).toBe(true);
+  });
+
+  it('should return nothing for queries without searchable words', async () => {
+    await insertPosts([{ title: 'Lamp', content: 'Desk lamp' }]);
+
+    const result = await search({ query: '!!! ???' });
+
+    expect(result.items).toHaveLength(0);
+    expect(result.nextCursor).toBeNull();
+  });
+
+  it('should treat tsquery syntax as plain words', async () => {
+    await insertPosts([{ title: 'Desk lamp', content: 'LED' }]);
+
+    const result = await search({ query: "lamp & | ! ( ' :*" });
+
+    expect(result.items.map(post => post.title)).toEqual(['Desk lamp']);
+  });
+});
@@ -0,0 +1,103 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, postsTable, conversationsTable, messagesTable } from '../db/schema';
+import { sendMessageInputSchema } from '../schema';
+import { sendMessage } from '../handlers/send_message';
+import { blockUser } from '../handlers/block_user';
+import { deletePost } from '../handlers/delete_post';
+
+describe('sendMessage', () => {
+  let ownerId: number;
+  let buyerId: number;
+  let postId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const users = await db.insert(usersTable)
+      .values([
+        { email: 'owner@example.com', password_hash: 'hash', phone_number: '+1111111111' },
+        { email: 'buyer@example.com', password_hash: 'hash', phone_number: '+2222222222' }
+      ])
+      .returning()
+      .execute();
+    ownerId = users[0].id;
+    buyerId = users[1].id;
+
+    const now = new Date();
+    const posts = await db.insert(postsTable)
+      .values({
+        user_id: ownerId,
+        title: 'Bike',
+        content: 'Red bike',
+        price: '50.00',
+        posted_at: now,
+        expires_at: new Date(now.getTime() + 24 * 60 * 60 * 1000)
+      })
+      .returning()
+      .execute();
+    postId = posts[0].id;
+  });
+  afterEach(resetDB);
+
+  it('should start one conversation per buyer and post', async () => {
+    const first = await sendMessage({ post_id: postId, body: 'Is it still available?' }, buyerId);
+    const second = await sendMessage({ post_id: postId, body: 'Hello?' }, buyerId);
+
+    expect(second.conversation_id).toEqual(first.conversation_id);
+    expect(first.sender_id).toEqual(buyerId);
+    expect(first.body).toEqual('Is it still available?');
+
+    const conversations = await db.select().from(conversationsTable).execute();
+    expect(conversations).toHaveLength(1);
+    expect(conversations[0].owner_id).toEqual(ownerId);
+    expect(conversations[0].buyer_id).toEqual(buyerId);
+    // Sending marks the thread read for the sender
+    expect(conversations[0].buyer_last_read_id).toEqual(second.id);
+    expect(conversations[0].owner_last_read_id).toEqual(0);
+  });
+
+  it('should let the owner reply in the conversation', async () => {
+    const question = await sendMessage({ post_id: postId, body: 'Price negotiable?' }, buyerId);
+
+    const reply = await sendMessage({ conversation_id: question.conversation_id, body: 'A little' }, ownerId);
+
+    expect(reply.conversation_id).toEqual(question.conversation_id);
+    expect(await db.select().from(messagesTable).execute()).toHaveLength(2);
+  });
+
+  it('should refuse messages about one\'s own post or from outsiders', async () => {
+    await expect(sendMessage({ post_id: postId, body: 'Me?' }, ownerId)).rejects.toThrow(/own post/);
+
+    const question = await sendMessage({ post_id: postId, body: 'Hi' }, buyerId);
+    const [outsider] = await db.insert(usersTable)
+      .values({ email: 'outsider@example.com', password_hash: 'hash', phone_number: '+3333333333' })
+      .returning()
+      .execute();
+    await expect(sendMessage({ conversation_id: question.conversation_id, body: 'Hey' }, outsider.id))
+      .rejects.toThrow(/not part of conversation/);
+  });
+
+  it('should only start conversations about active posts', async () => {
+    await deletePost({ id: postId }, ownerId);
+
+    await expect(sendMessage({ post_id: postId, body: 'Hi' }, buyerId)).rejects.toThrow(/not found/);
+  });
+
+  it('should refuse messages in either direction once blocked', async () => {
+    const question = await sendMessage({ post_id: postId, body: 'Hi' }, buyerId);
+    await blockUser({ user_id: buyerId }, ownerId);
+
+    await expect(sendMessage({ post_id: postId, body: 'Hello?' }, buyerId)).rejects.toThrow(/cannot message/);
+    await expect(sendMessage({ conversation_id: question.conversation_id, body: 'Bye' }, ownerId))
+      .rejects.toThrow(/cannot message/);
+  });
+
+  it('should validate the input', () => {
+    expect(sendMessageInputSchema.safeParse({ body: 'Hi' }).success).toBe(false);
+    expect(sendMessageInputSchema.safeParse({ post_id: 1, conversation_id: 1, body: 'Hi' }).success).toBe(false);
+    expect(sendMessageInputSchema.safeParse({ post_id: 1, body: '   ' }).success).toBe(false);
+    expect(sendMessageInputSchema.parse({ post_id: 1, body: ' Hi ' }).body).toEqual('Hi');
+  });
+});
@@ -0,0 +1,151 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import type { IncomingMessage, ServerResponse } from 'http';
+import { TRPCError } from '@trpc/server';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable } from '../db/schema';
+import {
+  createSessionToken,
+  verifySessionToken,
+  readSessionToken,
+  resolveSession,
+  serializeSessionCookie,
+  SESSION_COOKIE_NAME,
+  SESSION_TTL_SECONDS
+} from '../lib/session';
+import { createCallerFactory, createContext, router, protectedProcedure, adminProcedure } from '../trpc';
+import { eq } from 'drizzle-orm';
+
+const request = (headers: Record<string, string>) =>
+  ({ headers, socket: { remoteAddress: '127.0.0.1' } }) as unknown as IncomingMessage;
+
+describe('session tokens', () => {
+  it('should verify a token it signed', () => {
+    expect(verifySessionToken(createSessionToken(42))).toEqual(42);
+  });
+
+  it('should reject tampered and malformed tokens', () => {
+    const token = createSessionToken(42);
+    const [, signature] = token.split('.');
+    const forgedPayload = Buffer.from(JSON.stringify({ user_id: 1, exp: 9999999999 })).toString('base64url');
+
+    expect(verifySessionToken(`${forgedPayload}.${signature}`)).toBeNull();
+    expect(verifySessionToken(`${token.slice(0, -2)}xx`)).toBeNull();
+    expect(verifySessionToken('')).toBeNull();
+    expect(verifySessionToken('no-dot')).toBeNull();
+    expect(verifySessionToken(`${token.split('.')[0]}.`)).toBeNull();
+  });
+
+  it('should reject tokens once they expire', () => {
+    const issuedAt = new Date('2026-01-01T00:00:00Z');
+    const token = createSessionToken(42, issuedAt);
+    const expiresAt = issuedAt.getTime() + SESSION_TTL_SECONDS * 1000;
+
+    expect(verifySessionToken(token, new Date(expiresAt - 1000))).toEqual(42);
+    expect(verifySessionToken(token, new Date(expiresAt))).toBeNull();
+    expect(verifySessionToken(token)).toBeNull(); // Issued long ago
+  });
+});
+
+describe('readSessionToken', () => {
+  it('should read a bearer token', () => {
+    expect(readSessionToken(request({ authorization: 'Bearer abc.def' }))).toEqual('abc.def');
+    expect(readSessionToken(request({ authorization: 'Bearer   ' }))).toBeNull();
+  });
+
+  it('should read the session cookie among others', () => {
+    const cookie = `theme=dark; ${SESSION_COOKIE_NAME}=${encodeURIComponent('abc.d=f')}; other=1`;
+    expect(readSessionToken(request({ cookie }))).toEqual('abc.d=f');
+    expect(readSessionToken(request({ cookie: 'theme=dark' }))).toBeNull();
+    expect(readSessionToken(request({ cookie: `${SESSION_COOKIE_NAME}=` }))).toBeNull();
+  });
+
+  it('should prefer the bearer header over the cookie', () => {
+    const req = request({ authorization: 'Bearer from-header', cookie: `${SESSION_COOKIE_NAME}=from-cookie` });
+    expect(readSessionToken(req)).toEqual('from-header');
+  });
+
+  it('should return null without either', () => {
+    expect(readSessionToken(request({}))).toBeNull();
+    expect(readSessionToken(request({ authorization: 'Basic dXNlcjpwYXNz' }))).toBeNull();
+  });
+});
+
+describe('serializeSessionCookie', () => {
+  it('should set an httpOnly cookie for the session lifetime', () => {
+    const cookie = serializeSessionCookie('abc.def', true);
+
+    expect(cookie).toStartWith(`${SESSION_COOKIE_NAME}=abc.def;`);
+    expect(cookie).toContain('HttpOnly');
+    expect(cookie).toContain('SameSite=Lax');
+    expect(cookie).toContain(`Max-Age=${SESSION_TTL_SECONDS}`);
+    expect(cookie).toContain('Secure');
+  });
+
+  it('should clear the cookie for an empty token', () => {
+    const cookie = serializeSessionCookie('', false);
+
+    expect(cookie).toContain('Max-Age=0');
+    expect(cookie).not.toContain('Secure');
+  });
+});
+
+describe('resolveSession', () => {
+  let userId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const [user] = await db.insert(usersTable)
+      .values({ email: 'user@example.com', password_hash: 'hash', phone_number: '+1111111111', role: 'moderator' })
+      .returning()
+      .execute();
+    userId = user.id;
+  });
+  afterEach(resetDB);
+
+  it('should resolve a valid token to the user and their role', async () => {
+    expect(await resolveSession(createSessionToken(userId)))
+      .toEqual({ user_id: userId, email: 'user@example.com', role: 'moderator' });
+  });
+
+  it('should not resolve invalid tokens, unknown users or banned users', async () => {
+    expect(await resolveSession('forged.token')).toBeNull();
+    expect(await resolveSession(createSessionToken(userId + 1000))).toBeNull();
+
+    await db.update(usersTable).set({ banned_at: new Date() }).where(eq(usersTable.id, userId)).execute();
+    expect(await resolveSession(createSessionToken(userId))).toBeNull();
+  });
+
+  describe('procedures', () => {
+    const testRouter = router({
+      whoAmI: protectedProcedure.query(({ ctx }) => ctx.user.email),
+      adminOnly: adminProcedure.query(() => 'ok')
+    });
+    const createCaller = createCallerFactory(testRouter);
+
+    const callerFor = async (headers: Record<string, string>) =>
+      createCaller(await createContext({ req: request(headers), res: {} as ServerResponse, info: {} as never }));
+
+    const errorCode = async (call: Promise<unknown>) => {
+      try {
+        await call;
+      } catch (error) {
+        return error instanceof TRPCError ? error.code : 'not a TRPCError';
+      }
+      return 'no error';
+    };
+
+    it('should reject protected procedures without a valid session', async () => {
+      expect(await errorCode((await callerFor({})).whoAmI())).toEqual('UNAUTHORIZED');
+      expect(await errorCode((await callerFor({ authorization: 'Bearer forged.token' })).whoAmI())).toEqual('UNAUTHORIZED');
+    });
+
+    it('should pass the session user to protected procedures', async () => {
+      const caller = await callerFor({ cookie: `${SESSION_COOKIE_NAME}=${createSessionToken(userId)}` });
+
+      expect(await caller.whoAmI()).toEqual('user@example.com');
+      expect(await errorCode(caller.adminOnly())).toEqual('FORBIDDEN');
+    });
+  });
+});
@@ -0,0 +1,76 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, postsTable } from '../db/schema';
+import { setAutoRenewInputSchema } from '../schema';
+import { setAutoRenew } from '../handlers/set_auto_renew';
+import { createPost } from '../handlers/create_post';
+import { eq } from 'drizzle-orm';
+
+const testUser = {
+  email: 'owner@example.com',
+  password_hash: 'hashed_password',
+  phone_number: '+1234567890'
+};
+
+describe('setAutoRenew', () => {
+  let userId: number;
+  let otherUserId: number;
+  let postId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const userResult = await db.insert(usersTable)
+      .values([testUser, { ...testUser, email: 'other@example.com' }])
+      .returning()
+      .execute();
+
+    userId = userResult[0].id;
+    otherUserId = userResult[1].id;
+
+    const post = await createPost({ title: 'Listing', content: 'For sale', price: 10 }, userId);
+    postId = post.id;
+  });
+  afterEach(resetDB);
+
+  it('should enable auto-renew with a renewal limit', async () => {
+    const result = await setAutoRenew({ id: postId, enabled: true, max_renewals: 3 }, userId);
+
+    expect(result.auto_renew).toBe(true);
+    expect(result.auto_renew_max_renewals).toEqual(3);
+    expect(result.auto_renew_spend_cap).toBeNull();
+  });
+
+  it('should reset the counters and stop reason when enabled again', async () => {
+    await db.update(postsTable)
+      .set({ auto_renew_renewals: 3, auto_renew_spent: 15, auto_renew_stopped_reason: 'reached the limit of 3 renewals' })
+      .where(eq(postsTable.id, postId))
+      .execute();
+
+    const result = await setAutoRenew({ id: postId, enabled: true, spend_cap: 50 }, userId);
+
+    expect(result.auto_renew_renewals).toEqual(0);
+    expect(result.auto_renew_spent).toEqual(0);
+    expect(result.auto_renew_stopped_reason).toBeNull();
+    expect(result.auto_renew_spend_cap).toEqual(50);
+  });
+
+  it('should disable auto-renew', async () => {
+    await setAutoRenew({ id: postId, enabled: true, max_renewals: 3 }, userId);
+
+    const result = await setAutoRenew({ id: postId, enabled: false }, userId);
+
+    expect(result.auto_renew).toBe(false);
+  });
+
+  it('should require a limit when enabling', () => {
+    expect(setAutoRenewInputSchema.safeParse({ id: postId, enabled: true }).success).toBe(false);
+    expect(setAutoRenewInputSchema.safeParse({ id: postId, enabled: false }).success).toBe(true);
+  });
+
+  it('should reject posts owned by someone else', async () => {
+    await expect(setAutoRenew({ id: postId, enabled: true, max_renewals: 1 }, otherUserId))
+      .rejects.toThrow(/do not own/i);
+  });
+});
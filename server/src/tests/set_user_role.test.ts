@@ -0,0 +1,56 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, adminActionsTable } from '../db/schema';
+import { setUserRole } from '../handlers/set_user_role';
+import { seedAdmins } from '../lib/roles';
+import { eq } from 'drizzle-orm';
+
+describe('setUserRole', () => {
+  let adminId: number;
+  let userId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const users = await db.insert(usersTable)
+      .values([
+        { email: 'admin@example.com', password_hash: 'hash', phone_number: '+1111111111', role: 'admin' },
+        { email: 'user@example.com', password_hash: 'hash', phone_number: '+2222222222' }
+      ])
+      .returning()
+      .execute();
+    [adminId, userId] = users.map(user => user.id);
+  });
+  afterEach(resetDB);
+
+  it('should change the role and log the change', async () => {
+    const user = await setUserRole({ user_id: userId, role: 'moderator' }, adminId);
+
+    expect(user.role).toEqual('moderator');
+    expect(user).not.toHaveProperty('password_hash');
+
+    const [action] = await db.select().from(adminActionsTable).execute();
+    expect(action.action).toEqual('set_role');
+    expect(action.target_user_id).toEqual(userId);
+    expect(action.details).toEqual('Role changed from user to moderator');
+  });
+
+  it('should not log setting the role a user already has', async () => {
+    await setUserRole({ user_id: userId, role: 'user' }, adminId);
+
+    expect(await db.select().from(adminActionsTable).execute()).toHaveLength(0);
+  });
+
+  it('should not let admins change their own role', async () => {
+    await expect(setUserRole({ user_id: adminId, role: 'user' }, adminId)).rejects.toThrow(/your own role/);
+    await expect(setUserRole({ user_id: 99999, role: 'admin' }, adminId)).rejects.toThrow(/not found/);
+  });
+
+  it('should promote the configured admin emails', async () => {
+    await seedAdmins(' user@example.com , nobody@example.com');
+
+    const [user] = await db.select().from(usersTable).where(eq(usersTable.id, userId)).execute();
+    expect(user.role).toEqual('admin');
+  });
+});
@@ -1,10 +1,25 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { postsTable } from '../db/schema';
-import { type UpdatePostInput } from '../schema';
+import { usersTable, postsTable, categoriesTable } from '../db/schema';
+import { updatePostInputSchema, type UpdatePostInput } from '../schema';
 import { updatePost } from '../handlers/update_post';
+import { uploadImage } from '../handlers/upload_image';
+import { LocalFileStorage } from '../lib/storage';
 import { eq } from 'drizzle-orm';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import sharp from 'sharp';
+
+// Owner of the test posts
+const testUser = {
+  email: 'owner@example.com',
+  password_hash: 'hashed_password',
+  phone_number: '+1234567890'
+};
+
+let userId: number;
 
 // Helper function to create a test post
 const createTestPost = async () => {
@@ -13,6 +28,7 @@ const createTestPost = async () => {
 
   const result = await db.insert(postsTable)
     .values({
+      user_id: userId,
       title: 'Original Title',
       content: 'Original content for testing',
       price: '29.99',
@@ -28,7 +44,17 @@ const createTestPost = async () => {
 };
 
 describe('updatePost', () => {
-  beforeEach(createDB);
+  beforeEach(async () => {
+    await createDB();
+
+    // Create the post owner
+    const userResult = await db.insert(usersTable)
+      .values(testUser)
+      .returning()
+      .execute();
+
+    userId = userResult[0].id;
+  });
   afterEach(resetDB);
 
   it('should update post title only', async () => {
@@ -43,7 +69,7 @@ describe('updatePost', () => {
       title: 'Updated Title'
     };
 
-    const result = await updatePost(updateInput);
+    const result = await updatePost(updateInput, userId);
 
     // Verify the response
     expect(result.id).toEqual(testPost.id);
@@ -67,7 +93,7 @@ describe('updatePost', () => {
       content: 'Updated content with new information'
     };
 
-    const result = await updatePost(updateInput);
+    const result = await updatePost(updateInput, userId);
 
     expect(result.id).toEqual(testPost.id);
     expect(result.title).toEqual('Original Title'); // Unchanged
@@ -83,7 +109,7 @@ describe('updatePost', () => {
       price: 49.95
     };
 
-    const result = await updatePost(updateInput);
+    const result = await updatePost(updateInput, userId);
 
     expect(result.id).toEqual(testPost.id);
     expect(result.title).toEqual('Original Title'); // Unchanged
@@ -102,7 +128,7 @@ describe('updatePost', () => {
       price: 15.50
     };
 
-    const result = await updatePost(updateInput);
+    const result = await updatePost(updateInput, userId);
 
     expect(result.id).toEqual(testPost.id);
     expect(result.title).toEqual('New Title');
@@ -123,7 +149,7 @@ describe('updatePost', () => {
       price: 99.99
     };
 
-    await updatePost(updateInput);
+    await updatePost(updateInput, userId);
 
     // Query the database directly to verify persistence
     const posts = await db.select()
@@ -146,6 +172,7 @@ describe('updatePost', () => {
 
     const result = await db.insert(postsTable)
       .values({
+        user_id: userId,
         title: 'Active Post',
         content: 'This post is still active',
         price: '10.00',
@@ -164,7 +191,7 @@ describe('updatePost', () => {
       title: 'Updated Active Post'
     };
 
-    const updatedPost = await updatePost(updateInput);
+    const updatedPost = await updatePost(updateInput, userId);
     expect(updatedPost.is_active).toBe(true);
   });
 
@@ -175,6 +202,7 @@ describe('updatePost', () => {
 
     const result = await db.insert(postsTable)
       .values({
+        user_id: userId,
         title: 'Expired Post',
         content: 'This post has expired',
         price: '10.00',
@@ -193,7 +221,7 @@ describe('updatePost', () => {
       title: 'Updated Expired Post'
     };
 
-    const updatedPost = await updatePost(updateInput);
+    const updatedPost = await updatePost(updateInput, userId);
     expect(updatedPost.is_active).toBe(false);
   });
 
@@ -203,7 +231,7 @@ describe('updatePost', () => {
       title: 'This should fail'
     };
 
-    await expect(updatePost(updateInput)).rejects.toThrow(/Post with id 99999 not found/i);
+    await expect(updatePost(updateInput, userId)).rejects.toThrow(/Post with id 99999 not found/i);
   });
 
   it('should preserve original timestamps when updating', async () => {
@@ -214,7 +242,7 @@ describe('updatePost', () => {
       title: 'Timestamp Test'
     };
 
-    const result = await updatePost(updateInput);
+    const result = await updatePost(updateInput, userId);
 
     // These timestamps should remain unchanged
     expect(result.posted_at).toEqual(testPost.posted_at);
@@ -225,4 +253,108 @@ describe('updatePost', () => {
     expect(result.updated_at).not.toEqual(testPost.updated_at);
     expect(result.updated_at).toBeInstanceOf(Date);
   });
-});
\ No newline at end of file
+
+  it('should reject updates from a user who does not own the post', async () => {
+    const testPost = await createTestPost();
+
+    const otherUser = await db.insert(usersTable)
+      .values({ ...testUser, email: 'other@example.com' })
+      .returning()
+      .execute();
+
+    const updateInput: UpdatePostInput = {
+      id: testPost.id,
+      title: 'Hijacked Title'
+    };
+
+    await expect(updatePost(updateInput, otherUser[0].id)).rejects.toThrow(/do not own post/i);
+
+    // Post must be left untouched
+    const posts = await db.select()
+      .from(postsTable)
+      .where(eq(postsTable.id, testPost.id))
+      .execute();
+
+    expect(posts[0].title).toEqual('Original Title');
+  });
+
+  it('should change the duration of a draft', async () => {
+    const [draft] = await db.insert(postsTable)
+      .values({
+        user_id: userId,
+        title: 'Draft',
+        content: 'Work in progress',
+        price: '10.00',
+        status: 'draft',
+        posted_at: null,
+        expires_at: null
+      })
+      .returning()
+      .execute();
+
+    const result = await updatePost({ id: draft.id, duration: '7d' }, userId);
+
+    expect(result.duration).toEqual('7d');
+    expect(result.expires_at).toBeNull();
+  });
+
+  it('should refuse to change the duration of a published post', async () => {
+    const post = await createTestPost();
+
+    await expect(updatePost({ id: post.id, duration: '7d' }, userId)).rejects.toThrow(/not a draft/i);
+  });
+
+  it('should refuse to edit a post removed by moderation', async () => {
+    const post = await createTestPost();
+    await db.update(postsTable).set({ status: 'removed' }).where(eq(postsTable.id, post.id)).execute();
+
+    await expect(updatePost({ id: post.id, title: 'Back again' }, userId)).rejects.toThrow(/removed and cannot be edited/);
+
+    const [row] = await db.select().from(postsTable).where(eq(postsTable.id, post.id)).execute();
+    expect(row.title).toEqual('Original Title');
+  });
+
+  it('should replace categories and tags only when given', async () => {
+    const testPost = await createTestPost();
+    const [cars, bikes] = await db.insert(categoriesTable)
+      .values([{ name: 'Cars', slug: 'cars' }, { name: 'Bicycles', slug: 'bicycles' }])
+      .returning()
+      .execute();
+
+    await updatePost(updatePostInputSchema.parse({ id: testPost.id, category_ids: [cars.id], tags: ['sale'] }), userId);
+
+    // Editing the text leaves the labels alone
+    const retitled = await updatePost({ id: testPost.id, title: 'New Title' }, userId);
+    expect(retitled.categories.map(category => category.slug)).toEqual(['cars']);
+    expect(retitled.tags).toEqual(['sale']);
+
+    const relabeled = await updatePost(updatePostInputSchema.parse({ id: testPost.id, category_ids: [bikes.id], tags: [] }), userId);
+    expect(relabeled.categories.map(category => category.slug)).toEqual(['bicycles']);
+    expect(relabeled.tags).toEqual([]);
+  });
+
+  it('should reorder images and delete the ones left out', async () => {
+    const testPost = await createTestPost();
+    const uploadDir = await mkdtemp(join(tmpdir(), 'uploads-'));
+    const storage = new LocalFileStorage(uploadDir);
+    try {
+      const data = (await sharp({ create: { width: 40, height: 40, channels: 3, background: '#446688' } }).png().toBuffer()).toString('base64');
+      const [first, second, third] = await Promise.all([1, 2, 3].map(() => uploadImage({ data, content_type: 'image/png' }, userId, storage)));
+
+      const attached = await updatePost({ id: testPost.id, image_ids: [first.id, second.id, third.id] }, userId, storage);
+      expect(attached.images.map(image => image.id)).toEqual([first.id, second.id, third.id]);
+
+      // Editing the text leaves the images alone
+      const retitled = await updatePost({ id: testPost.id, title: 'New Title' }, userId, storage);
+      expect(retitled.images).toHaveLength(3);
+
+      const reordered = await updatePost({ id: testPost.id, image_ids: [third.id, first.id] }, userId, storage);
+      expect(reordered.images.map(image => image.id)).toEqual([third.id, first.id]);
+      expect(reordered.images[0].position).toEqual(0);
+      expect(await storage.get(second.urls.original.replace('/images/', ''))).toBeNull();
+      expect(await storage.get(first.urls.original.replace('/images/', ''))).not.toBeNull();
+    } finally {
+      await rm(uploadDir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,129 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import sharp from 'sharp';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, postImagesTable } from '../db/schema';
+import { uploadImage } from '../handlers/upload_image';
+import { createPost } from '../handlers/create_post';
+import { LocalFileStorage } from '../lib/storage';
+import { serveImage } from '../lib/image_route';
+import type { IncomingMessage, ServerResponse } from 'http';
+
+const testUser = {
+  email: 'uploader@example.com',
+  password_hash: 'hashed_password',
+  phone_number: '+1234567890'
+};
+
+const testImage = async (width: number, height: number, format: 'png' | 'jpeg' = 'png') =>
+  (await sharp({ create: { width, height, channels: 3, background: '#884488' } }).toFormat(format).toBuffer())
+    .toString('base64');
+
+describe('uploadImage', () => {
+  let userId: number;
+  let uploadDir: string;
+  let storage: LocalFileStorage;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const userResult = await db.insert(usersTable)
+      .values(testUser)
+      .returning()
+      .execute();
+
+    userId = userResult[0].id;
+    uploadDir = await mkdtemp(join(tmpdir(), 'uploads-'));
+    storage = new LocalFileStorage(uploadDir);
+  });
+  afterEach(async () => {
+    await rm(uploadDir, { recursive: true, force: true });
+    await resetDB();
+  });
+
+  it('should store the original with a medium size and a square thumbnail', async () => {
+    const image = await uploadImage({ data: await testImage(2000, 1000), content_type: 'image/png' }, userId, storage);
+
+    expect(image.post_id).toBeNull();
+    expect(image.content_type).toEqual('image/png');
+    expect(image.width).toEqual(2000);
+    expect(image.height).toEqual(1000);
+    expect(image.urls.original).toMatch(new RegExp(`^/images/images/${userId}/[0-9a-f-]+/original\\.png$`));
+
+    const medium = await storage.get(image.urls.medium.replace('/images/', ''));
+    expect(medium!.content_type).toEqual('image/webp');
+    expect(await sharp(medium!.data).metadata()).toMatchObject({ format: 'webp', width: 1024, height: 512 });
+
+    const thumbnail = await storage.get(image.urls.thumbnail.replace('/images/', ''));
+    expect(await sharp(thumbnail!.data).metadata()).toMatchObject({ width: 320, height: 320 });
+
+    const rows = await db.select().from(postImagesTable).execute();
+    expect(rows).toHaveLength(1);
+    expect(rows[0].user_id).toEqual(userId);
+    expect(rows[0].size_bytes).toBeGreaterThan(0);
+  });
+
+  it('should never enlarge small images', async () => {
+    const image = await uploadImage({ data: await testImage(200, 100, 'jpeg'), content_type: 'image/jpeg' }, userId, storage);
+
+    expect(image.urls.original).toEndWith('/original.jpg');
+    const medium = await storage.get(image.urls.medium.replace('/images/', ''));
+    expect(await sharp(medium!.data).metadata()).toMatchObject({ width: 200, height: 100 });
+  });
+
+  it('should reject files whose content does not match the declared type', async () => {
+    await expect(uploadImage({ data: await testImage(10, 10), content_type: 'image/jpeg' }, userId, storage))
+      .rejects.toThrow(/is image\/png, not image\/jpeg/);
+    await expect(uploadImage({ data: Buffer.from('<svg></svg>').toString('base64'), content_type: 'image/png' }, userId, storage))
+      .rejects.toThrow(/not a readable image/);
+
+    expect(await db.select().from(postImagesTable).execute()).toHaveLength(0);
+  });
+
+  it('should be attachable to a post, cover first', async () => {
+    const first = await uploadImage({ data: await testImage(50, 50), content_type: 'image/png' }, userId, storage);
+    const second = await uploadImage({ data: await testImage(60, 60), content_type: 'image/png' }, userId, storage);
+
+    const post = await createPost({ title: 'With photos', content: 'Look', price: 5, image_ids: [second.id, first.id] }, userId);
+
+    expect(post.images.map(image => image.id)).toEqual([second.id, first.id]);
+    expect(post.images.map(image => image.position)).toEqual([0, 1]);
+    expect(post.images.every(image => image.post_id === post.id)).toBe(true);
+  });
+
+  it('should refuse images uploaded by someone else', async () => {
+    const image = await uploadImage({ data: await testImage(50, 50), content_type: 'image/png' }, userId, storage);
+    const [other] = await db.insert(usersTable)
+      .values({ ...testUser, email: 'other@example.com' })
+      .returning()
+      .execute();
+
+    await expect(createPost({ title: 'Stolen', content: 'Not mine', price: 5, image_ids: [image.id] }, other.id))
+      .rejects.toThrow(`Unknown image: ${image.id}`);
+  });
+
+  it('should be served over GET with long caching', async () => {
+    const image = await uploadImage({ data: await testImage(50, 50), content_type: 'image/png' }, userId, storage);
+    const request = (url: string) => {
+      const response = { status: 0, headers: {} as Record<string, unknown>, body: undefined as unknown };
+      const res = {
+        writeHead: (status: number, headers: Record<string, unknown>) => { response.status = status; response.headers = headers; },
+        end: (body?: unknown) => { response.body = body; }
+      } as unknown as ServerResponse;
+      return serveImage({ url, method: 'GET' } as IncomingMessage, res, storage).then(served => ({ served, ...response }));
+    };
+
+    const found = await request(image.urls.thumbnail);
+    expect(found.served).toBe(true);
+    expect(found.status).toEqual(200);
+    expect(found.headers['Content-Type']).toEqual('image/webp');
+    expect(found.headers['Cache-Control']).toContain('immutable');
+
+    expect((await request('/images/images/..%2F..%2Fetc%2Fpasswd.png')).status).toEqual(404);
+    expect((await request('/images/images/1/missing/original.png')).status).toEqual(404);
+    expect((await request('/healthcheck')).served).toBe(false);
+  });
+});
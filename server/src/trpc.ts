@@ -0,0 +1,63 @@
+import { initTRPC, TRPCError } from '@trpc/server';
+import { type CreateHTTPContextOptions } from '@trpc/server/adapters/standalone';
+import superjson from 'superjson';
+import { type UserRole } from './schema';
+import { hasRole } from './lib/roles';
+import { readClientIp, recordAuditEntry } from './lib/audit_log';
+import { readSessionToken, resolveSession } from './lib/session';
+
+// Resolve the session token (cookie or bearer header) to the current user
+export const createContext = async ({ req, res }: CreateHTTPContextOptions) => {
+  const token = readSessionToken(req);
+  const user = token ? await resolveSession(token) : null;
+  return { req, res, user };
+};
+
+export type Context = Awaited<ReturnType<typeof createContext>>;
+
+const t = initTRPC.context<Context>().create({
+  transformer: superjson,
+});
+
+// Records every mutation in the audit log once it has run, including calls that were
+// rejected for auth or input errors. Queries are not recorded.
+const auditedProcedure = t.procedure.use(async ({ ctx, path, type, getRawInput, next }) => {
+  if (type !== 'mutation') {
+    return next();
+  }
+
+  const result = await next();
+  await recordAuditEntry({
+    actorId: ctx.user?.user_id ?? null,
+    procedure: path,
+    input: await getRawInput().catch(() => undefined),
+    status: result.ok ? 'success' : 'error',
+    result: result.ok ? result.data : undefined,
+    errorCode: result.ok ? undefined : result.error.code,
+    ip: readClientIp(ctx.req)
+  });
+  return result;
+});
+
+export const publicProcedure = auditedProcedure;
+export const router = t.router;
+export const createCallerFactory = t.createCallerFactory;
+
+// Rejects anonymous callers and narrows ctx.user to a non-null AuthContext
+export const protectedProcedure = auditedProcedure.use(({ ctx, next }) => {
+  if (!ctx.user) {
+    throw new TRPCError({ code: 'UNAUTHORIZED', message: 'You must be logged in' });
+  }
+  return next({ ctx: { ...ctx, user: ctx.user } });
+});
+
+// Limits a procedure to users with at least the given role
+export const roleProcedure = (role: UserRole) => protectedProcedure.use(({ ctx, next }) => {
+  if (!hasRole(ctx.user.role, role)) {
+    throw new TRPCError({ code: 'FORBIDDEN', message: `Only ${role}s can do this` });
+  }
+  return next();
+});
+
+export const moderatorProcedure = roleProcedure('moderator');
+export const adminProcedure = roleProcedure('admin');